@@ -1,11 +1,12 @@
 import FlowCanvas from "./components/FlowCanvas";
 import ConversationPreview from "./components/ConversationPreview";
+import { AppStateProvider } from "./contexts/AppStateContext";
 
 export default function App() {
   return (
-    <>
+    <AppStateProvider>
       <FlowCanvas />
       <ConversationPreview />
-    </>
+    </AppStateProvider>
   );
 }
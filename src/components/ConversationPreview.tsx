@@ -1,127 +1,68 @@
-import { useEffect, useRef, useState, Fragment, useCallback } from "react";
+import { useEffect, useMemo, useRef, useState, Fragment, useCallback } from "react";
 import "./ConversationPreview.css";
-import defaultState from "../defaultState";
+import { useAppState } from "../contexts/AppStateContext";
+import { messageFieldsFromComponent } from "../utils/messages";
+import { eventBus, useAppEvent } from "../utils/eventBus";
+import { answerStep, buildConditionContext, describeAnswer, rewindTo, startSession, stepBack } from "../utils/interpreter";
+import type { TestAnswer, TestSession, TestStep } from "../utils/interpreter";
+import type { ConditionContext } from "../utils/conditions";
+import { runPersona } from "../utils/personas";
+import { parseTemplate, personaVariables, templateVariables } from "../utils/templates";
+import { toolTypeRegistry } from "../toolTypes";
+import TestInspector from "./TestInspector";
+import type { Message } from "../types/flow";
 
-type MessageType = "text" | "card" | "pills";
+// Pause between steps when a persona run plays in test mode
+const AUTO_PLAY_STEP_MS = 900;
 
-type FormField = {
-  id: string;
-  type: "currency" | "text" | "longText" | "dropdown" | "radio" | "checkbox";
-  title: string;
-  options?: string[];
-  required?: boolean;
-};
+// A played session as far as it has got: the steps so far, the last one still
+// waiting for its answer until the whole session is shown
+const autoPlayStage = (session: TestSession, count: number): TestSession =>
+  count >= session.steps.length
+    ? session
+    : { steps: [...session.steps.slice(0, count - 1), { componentId: session.steps[count - 1].componentId }], finished: false };
 
-type MultiSelectOption = {
-  text: string;
-  image?: string;
-  icon?: string;
+type DisplayedMessage = {
+  message: Message;
+  key: string;
+  step?: TestStep;
+  isActive: boolean; // the test mode step waiting for an answer
+  variables: ConditionContext; // values for {{references}} in the message
 };
 
-type Message = {
-  id: string;
-  sender: "user" | "ai";
-  content: string;
-  timestamp: string;
-  messageId?: string; // Links to node messageId
-  componentId?: string; // Links to component data
-  userResponseId?: string; // Links to user response placeholder
-  type: MessageType;
-  uiToolType?: string;
-  showDropdown?: boolean;
-  suggestions?: string[];
-  image?: string;
-  multiSelectOptions?: MultiSelectOption[];
-  maxSelection?: number;
-  bannerText?: string; // Banner add-on text
-  textContent?: string; // Text add-on content
-  formFields?: FormField[]; // Form fields
-  formTitle?: string; // Form title
-  formSendButtonText?: string; // Form send button text
-  moveOnButtonText?: string; // Move on button text
-  celebrationModal?: {
-    title: string;
-    content: string;
-    description: string;
-    media: string;
-    callToActionText: string;
-    timeToLoad: number;
-  };
-  cardData?: {
-    title: string;
-    description: string;
-    illustration: string;
-    question: string;
-  };
-  pillsData?: {
-    text: string;
-    options: string[];
-  };
-};
-
-const mockConversation: Message[] = [];
-
 export default function ConversationPreview() {
   const messagesRef = useRef<HTMLDivElement>(null);
   const messageRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
   const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
-  const [messages, setMessages] = useState<Message[]>(mockConversation);
-  const [orphanMessageIds, setOrphanMessageIds] = useState<Set<string>>(new Set());
+  const { messages, setMessages, orphanMessageIds: orphanMessageIdList, setOrphanMessageIds, nodes, edges, components, personas } = useAppState();
+  const orphanMessageIds = useMemo(() => new Set(orphanMessageIdList), [orphanMessageIdList]);
   const [selectedMessageIds, setSelectedMessageIds] = useState<Set<string>>(new Set());
   const [deleteConfirmation, setDeleteConfirmation] = useState<{ messageId: string; componentName: string } | null>(null);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; rightClickedMessageId?: string; } | null>(null);
   const [isTestMode, setIsTestMode] = useState(false);
-  const [testStartMessageId, setTestStartMessageId] = useState<string | null>(null);
-  const [testMessages, setTestMessages] = useState<Message[]>([]);
+  const [testSession, setTestSession] = useState<TestSession | null>(null);
+  const [autoPlay, setAutoPlay] = useState<{ session: TestSession; count: number } | null>(null);
+  // The session test mode was left with, picked up again when testing from
+  // the same component
+  const [pausedSession, setPausedSession] = useState<TestSession | null>(null);
   const [inputValue, setInputValue] = useState("");
   const [showSelectComponentPopup, setShowSelectComponentPopup] = useState(false);
   const [showExitTestWarning, setShowExitTestWarning] = useState(false);
+  // How many messages at the front lie on the previewed path, and whether
+  // it's a chosen path rather than the primary one
+  const [previewedPath, setPreviewedPath] = useState({ length: 0, selected: false });
+  // Persona picked on the canvas, whose answers fill in {{references}}
+  const [personaId, setPersonaId] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const startTestMode = useCallback((messageId: string) => {
+    const componentId = messages.find(msg => msg.messageId === messageId)?.componentId;
+    if (!componentId) return;
+
     setIsTestMode(true);
-    setTestStartMessageId(messageId);
-    
-    // Find the selected message and all messages that come before it
-    const messageIndex = messages.findIndex(msg => msg.messageId === messageId);
-    if (messageIndex !== -1) {
-      const testMessagesToShow = messages.slice(0, messageIndex + 1);
-      setTestMessages(testMessagesToShow);
-      
-      // Smooth scroll to the selected message with variable velocity
-      setTimeout(() => {
-        const messageElement = messageRefs.current[messageId];
-        const messagesContainer = messagesRef.current;
-        if (messageElement && messagesContainer) {
-          const containerRect = messagesContainer.getBoundingClientRect();
-          const messageRect = messageElement.getBoundingClientRect();
-          const targetScrollTop = messagesContainer.scrollTop + (messageRect.top - containerRect.top) - (containerRect.height / 2) + (messageRect.height / 2);
-          
-          // Smooth scroll with easing
-          const startScrollTop = messagesContainer.scrollTop;
-          const distance = targetScrollTop - startScrollTop;
-          const duration = Math.min(Math.max(Math.abs(distance) * 0.5, 300), 800); // Variable duration based on distance
-          const startTime = performance.now();
-          
-          const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
-          
-          const animateScroll = (currentTime: number) => {
-            const elapsed = currentTime - startTime;
-            const progress = Math.min(elapsed / duration, 1);
-            const easedProgress = easeOutCubic(progress);
-            
-            messagesContainer.scrollTop = startScrollTop + (distance * easedProgress);
-            
-            if (progress < 1) {
-              requestAnimationFrame(animateScroll);
-            }
-          };
-          
-          requestAnimationFrame(animateScroll);
-        }
-      }, 100);
-    }
-    
+    setTestSession(pausedSession?.steps[0]?.componentId === componentId ? pausedSession : startSession(componentId));
+    setInputValue("");
+
     // Focus the input
     setTimeout(() => {
       if (inputRef.current) {
@@ -130,74 +71,108 @@ export default function ConversationPreview() {
     }, 200);
     
     // Dispatch event to gray out canvas
-    const event = new CustomEvent("enterTestMode", {
-      detail: { messageId },
-    });
-    window.dispatchEvent(event);
-  }, [messages]);
+    eventBus.emit("enterTestMode", { messageId });
+  }, [messages, pausedSession]);
 
   const exitTestMode = () => {
+    setPausedSession(testSession);
     setIsTestMode(false);
-    setTestStartMessageId(null);
-    setTestMessages([]);
+    setTestSession(null);
+    setAutoPlay(null);
     setInputValue("");
     setShowSelectComponentPopup(false);
     setShowExitTestWarning(false);
     
     // Dispatch event to restore canvas
-    const event = new CustomEvent("exitTestMode");
-    window.dispatchEvent(event);
+    eventBus.emit("exitTestMode");
+  };
+
+  const submitTestAnswer = (answer: TestAnswer) => {
+    if (!testSession) return;
+    // Answering takes over from a persona run that's still playing
+    setAutoPlay(null);
+    setTestSession(answerStep({ nodes, edges, components }, testSession, answer));
+    setInputValue("");
+  };
+
+  const rewindTestSession = (rewind: (session: TestSession) => TestSession) => {
+    if (!testSession) return;
+    setAutoPlay(null);
+    setTestSession(rewind(testSession));
+    setInputValue("");
+  };
+
+  const restartTestSession = () => {
+    if (!testSession) return;
+    setAutoPlay(null);
+    setTestSession(startSession(testSession.steps[0].componentId));
+  };
+
+  const submitTypedAnswer = () => {
+    if (!isTestMode || !inputValue.trim() || testSession?.finished) return;
+    submitTestAnswer({ kind: "text", text: inputValue.trim() });
   };
 
-  // Load default state on mount
+  // Play a finished persona run in test mode, one step at a time
+  useAppEvent("playTestSession", ({ session }) => {
+    if (session.steps.length === 0) return;
+    const startMessage = messages.find(msg => msg.componentId === session.steps[0].componentId);
+
+    setIsTestMode(true);
+    setInputValue("");
+    setShowSelectComponentPopup(false);
+    setAutoPlay({ session, count: 1 });
+    eventBus.emit("enterTestMode", { messageId: startMessage?.messageId ?? "" });
+  });
+
   useEffect(() => {
-    if (defaultState.messages.length > 0) {
-      // Process messages to include banner and text data from components
-      const processedMessages = defaultState.messages.map(message => {
-        const component = (defaultState.components as any)[message.componentId];
-        let updatedMessage: Message = { 
-          id: message.id,
-          sender: message.sender as "user" | "ai",
-          content: message.content,
-          timestamp: "01:14 PM", // Default timestamp
-          messageId: message.messageId,
-          componentId: message.componentId,
-          type: "text" as MessageType, // Default type
-          uiToolType: message.uiToolType,
-          suggestions: message.suggestions,
-          image: message.image,
-          multiSelectOptions: message.multiSelectOptions,
-          maxSelection: message.maxSelection,
-          formTitle: message.formTitle,
-          formSendButtonText: message.formSendButtonText
-        };
-        
-        if (component && component.content.banner?.text) {
-          updatedMessage.bannerText = component.content.banner.text;
-        }
-        
-        if (component && (component.content as any).text?.text) {
-          updatedMessage.textContent = (component.content as any).text.text;
-        }
-        
-        // Handle form fields with proper type casting
-        if (message.formFields) {
-          updatedMessage.formFields = message.formFields.map((field: any): FormField => ({
-            id: field.id,
-            type: field.type as "currency" | "text" | "longText" | "dropdown" | "radio" | "checkbox",
-            title: field.title,
-            options: field.options,
-            required: field.required
-          }));
-        }
-        
-        return updatedMessage;
-      });
-      
-      setMessages(processedMessages);
-      setOrphanMessageIds(new Set(defaultState.orphanMessageIds || []));
+    if (!autoPlay) return;
+    setTestSession(autoPlayStage(autoPlay.session, autoPlay.count));
+    if (autoPlay.count >= autoPlay.session.steps.length) {
+      setAutoPlay(null);
+      return;
     }
-  }, []);
+    const timer = setTimeout(() => {
+      setAutoPlay(prev => prev && { ...prev, count: prev.count + 1 });
+    }, AUTO_PLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [autoPlay]);
+
+  // Keep the newest step in view as the conversation advances
+  useEffect(() => {
+    if (!testSession || !messagesRef.current) return;
+    messagesRef.current.scrollTo({ top: messagesRef.current.scrollHeight, behavior: "smooth" });
+  }, [testSession]);
+
+  useAppEvent("selectPersona", ({ personaId }) => setPersonaId(personaId));
+
+  const persona = personas.find(item => item.id === personaId) ?? personas[0];
+  const knownVariables = useMemo(() => templateVariables(components), [components]);
+  const userVariables = useMemo(() => personaVariables(persona), [persona]);
+
+  // Outside test mode there are no answers yet, so show the ones the persona
+  // would give on its way through the flow
+  const previewVariables = useMemo(() => {
+    if (!persona) return userVariables;
+    const { session } = runPersona({ nodes, edges, components }, persona);
+    return { ...buildConditionContext(components, session.steps), ...userVariables };
+  }, [persona, userVariables, nodes, edges, components]);
+
+  // Messages along the path the test conversation has taken, each filled in
+  // with the answers given before it
+  const testSteps = useMemo(() => {
+    if (!testSession) return [];
+    const activeIndex = testSession.finished ? -1 : testSession.steps.length - 1;
+    return testSession.steps.flatMap((step, index) => {
+      const message = messages.find(msg => msg.componentId === step.componentId);
+      const variables = { ...buildConditionContext(components, testSession.steps.slice(0, index)), ...userVariables };
+      return message ? [{ step, message, key: `${index}-${message.id}`, isActive: index === activeIndex, variables }] : [];
+    });
+  }, [testSession, messages, components, userVariables]);
+
+  const displayedMessages: DisplayedMessage[] = isTestMode
+    ? testSteps
+    : messages.map(message => ({ message, key: message.id, isActive: false, variables: previewVariables }));
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -224,238 +199,191 @@ export default function ConversationPreview() {
       }
     };
 
-    const handleScrollToMessage = (event: CustomEvent) => {
-      const { messageId } = event.detail;
-      const messageElement = messageRefs.current[messageId];
-
-      if (messageElement && messagesRef.current) {
-        messageElement.scrollIntoView({
-          behavior: "smooth",
-          block: "center",
-        });
+    window.addEventListener("keydown", handleKeyDown);
 
-        // Add a highlight effect
-        messageElement.classList.add("message-highlight");
-        setTimeout(() => {
-          messageElement.classList.remove("message-highlight");
-        }, 2000);
-      }
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
     };
+  }, [messages, selectedMessageIds, isTestMode]);
 
-    const handleHighlightMessage = (event: CustomEvent) => {
-      const { messageId } = event.detail;
-      setHighlightedMessageId(messageId);
-    };
+  useAppEvent("scrollToMessage", ({ messageId }) => {
+    const messageElement = messageRefs.current[messageId];
 
-    const handleUnhighlightMessage = () => {
-      setHighlightedMessageId(null);
-    };
+    if (messageElement && messagesRef.current) {
+      messageElement.scrollIntoView({
+        behavior: "smooth",
+        block: "center",
+      });
 
-    const handleEditWindowClose = () => {
-      setHighlightedMessageId(null);
-    };
+      // Add a highlight effect
+      messageElement.classList.add("message-highlight");
+      setTimeout(() => {
+        messageElement.classList.remove("message-highlight");
+      }, 2000);
+    }
+  });
 
-    const handleAddMessage = (event: CustomEvent) => {
-      const { messageId, componentId, uiToolType, showDropdown } = event.detail;
-      
-      // Generate a unique ID that doesn't conflict with existing messages
-      const existingIds = messages.map(msg => parseInt(msg.id));
-      const maxId = Math.max(...existingIds, 0);
-      const newId = (maxId + 1).toString();
-      
-      const newMessage: Message = {
-        id: newId,
-        sender: "ai",
-        content: uiToolType === "banner" ? "New banner" : "New component added", // Will be updated by component data event
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-        messageId,
-        componentId,
-        type: "text",
-        uiToolType,
-        showDropdown,
-      };
-      
-      setMessages(prev => [...prev, newMessage]);
-    };
+  useAppEvent("highlightMessage", ({ messageId }) => {
+    setHighlightedMessageId(messageId);
+  });
 
-    const handleUpdateMessage = (event: CustomEvent) => {
-      const { messageId, uiToolType, showDropdown } = event.detail;
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.messageId === messageId 
-            ? { 
-                ...msg, 
-                uiToolType, 
-                showDropdown,
-                // Update content based on new uiToolType
-                content: uiToolType === "banner" ? "New banner" : msg.content
-              }
-            : msg
-        )
-      );
-    };
+  useAppEvent("unhighlightMessage", () => {
+    setHighlightedMessageId(null);
+  });
+
+  useAppEvent("editWindowClose", () => {
+    setHighlightedMessageId(null);
+  });
 
-    const handleDeleteMessage = (event: CustomEvent) => {
-      const { messageId } = event.detail;
-      setMessages(prev => prev.filter(msg => msg.messageId !== messageId));
+  useAppEvent("addMessage", ({ messageId, componentId, uiToolType, showDropdown }) => {
+    // Generate a unique ID that doesn't conflict with existing messages
+    const existingIds = messages.map(msg => parseInt(msg.id));
+    const maxId = Math.max(...existingIds, 0);
+    const newId = (maxId + 1).toString();
+    
+    const newMessage: Message = {
+      id: newId,
+      sender: "ai",
+      content: (uiToolType as string) === "banner" ? "New banner" : "New component added", // Will be updated by component data event
+      timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      messageId,
+      componentId,
+      type: "text",
+      uiToolType,
+      showDropdown,
     };
+    
+    setMessages(prev => [...prev, newMessage]);
+  });
 
-    const handleSyncMessageOrder = (event: CustomEvent) => {
-      const { order, orphanIds } = event.detail;
-      
-      // Update orphan status
-      setOrphanMessageIds(new Set(orphanIds || []));
+  useAppEvent("updateMessage", ({ messageId, uiToolType, showDropdown }) => {
+    setMessages(prev => 
+      prev.map(msg => 
+        msg.messageId === messageId 
+          ? { 
+              ...msg, 
+              uiToolType, 
+              showDropdown,
+              // Update content based on new uiToolType
+              content: (uiToolType as string) === "banner" ? "New banner" : msg.content
+            }
+          : msg
+      )
+    );
+  });
+
+  useAppEvent("deleteMessage", ({ messageId }) => {
+    setMessages(prev => prev.filter(msg => msg.messageId !== messageId));
+  });
+
+  useAppEvent("syncMessageOrder", ({ order, orphanIds, pathLength = 0, selectedPath = false }) => {
+    setPreviewedPath(prev =>
+      prev.length === pathLength && prev.selected === selectedPath ? prev : { length: pathLength, selected: selectedPath }
+    );
+
+
+    // Update orphan status - keep the same array when nothing changed so an
+    // unchanged sync doesn't count as an edit
+    setOrphanMessageIds(prev =>
+      prev.length === orphanIds.length && prev.every((id, index) => id === orphanIds[index])
+        ? prev
+        : orphanIds
+    );
+    
+    // Reorder messages based on the calculated order
+    setMessages(prev => {
+      const messageMap = new Map(prev.map(msg => [msg.messageId, msg]));
+      const orderedMessages: Message[] = [];
       
-      // Reorder messages based on the calculated order
-      setMessages(prev => {
-        const messageMap = new Map(prev.map(msg => [msg.messageId, msg]));
-        const orderedMessages: Message[] = [];
-        
-        // Add messages in the calculated order
-        order.forEach((messageId: string) => {
-          const message = messageMap.get(messageId);
-          if (message) {
-            orderedMessages.push(message);
-            messageMap.delete(messageId);
-          }
-        });
-        
-        // Add any remaining messages (orphans) at the end
-        messageMap.forEach(message => {
+      // Add messages in the calculated order
+      order.forEach(messageId => {
+        const message = messageMap.get(messageId);
+        if (message) {
           orderedMessages.push(message);
-        });
-        
-        return orderedMessages;
+          messageMap.delete(messageId);
+        }
       });
-    };
-
-    const handleNodeSelection = (event: CustomEvent) => {
-      const { selectedMessageIds } = event.detail;
-      setSelectedMessageIds(new Set(selectedMessageIds));
       
-      // If we're waiting for a component selection for test mode, start test mode
-      if (showSelectComponentPopup && selectedMessageIds.length > 0) {
-        setShowSelectComponentPopup(false);
-        startTestMode(selectedMessageIds[0]);
-      }
-    };
+      // Add any remaining messages (orphans) at the end
+      messageMap.forEach(message => {
+        orderedMessages.push(message);
+      });
+      
+      const orderChanged = orderedMessages.some((message, index) => message !== prev[index]);
+      return orderChanged ? orderedMessages : prev;
+    });
+  });
 
-    const handleUpdateMessageContent = (event: CustomEvent) => {
-      const { messageId, content } = event.detail;
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.messageId === messageId 
-            ? { ...msg, content }
-            : msg
-        )
-      );
-    };
+  useAppEvent("nodeSelection", ({ selectedMessageIds }) => {
+    setSelectedMessageIds(new Set(selectedMessageIds));
+    
+    // If we're waiting for a component selection for test mode, start test mode
+    if (showSelectComponentPopup && selectedMessageIds.length > 0) {
+      setShowSelectComponentPopup(false);
+      startTestMode(selectedMessageIds[0]);
+    }
+  });
 
-    const handleUpdateComponentData = (event: CustomEvent) => {
-      const { messageId, componentData } = event.detail;
-      
+  useAppEvent("updateMessageContent", ({ messageId, content }) => {
+    setMessages(prev => 
+      prev.map(msg => 
+        msg.messageId === messageId 
+          ? { ...msg, content }
+          : msg
+      )
+    );
+  });
 
-      
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.messageId === messageId 
-            ? { 
-                ...msg, 
-                content: componentData.uiToolType === "banner" 
-                  ? componentData.content.banner?.text || "New banner"
-                  : componentData.uiToolType === "question"
-                  ? componentData.content.question?.text || "New question"
-                  : componentData.uiToolType === "multiSelect"
-                  ? componentData.content.multiSelect?.text || "New multi-select question"
-                  : componentData.uiToolType === "form"
-                  ? componentData.content.form?.title || `${componentData.content.form?.fields?.length || 0} field form`
-                  : componentData.content.message?.text || "New component added",
-                uiToolType: componentData.uiToolType,
-                bannerText: componentData.content.banner?.text || undefined,
-                textContent: (componentData.content as any).text?.text || undefined,
-                suggestions: componentData.uiToolType === "question" 
-                  ? componentData.content.question?.suggestions || []
-                  : undefined,
-                image: componentData.uiToolType === "question"
-                  ? componentData.content.question?.image || undefined
-                  : undefined,
-                multiSelectOptions: componentData.uiToolType === "multiSelect"
-                  ? componentData.content.multiSelect?.options || []
-                  : undefined,
-                maxSelection: componentData.uiToolType === "multiSelect"
-                  ? componentData.content.multiSelect?.maxSelection || 1
-                  : undefined,
-                formFields: componentData.uiToolType === "form"
-                  ? (componentData.content.form?.fields || []).map((field: any) => ({
-                      id: field.id,
-                      type: field.type as "currency" | "text" | "longText" | "dropdown" | "radio" | "checkbox",
-                      title: field.title,
-                      options: field.options,
-                      required: field.required
-                    }))
-                  : undefined,
-                formTitle: componentData.uiToolType === "form"
-                  ? componentData.content.form?.title || undefined
-                  : undefined,
-                formSendButtonText: componentData.uiToolType === "form"
-                  ? componentData.content.form?.sendButtonText || "Continue"
-                  : undefined,
-                moveOnButtonText: (componentData.content as any).moveOnButton ? (componentData.content as any).moveOnButton.text : undefined,
-                celebrationModal: (componentData.content as any).celebrationModal ? {
-                  title: (componentData.content as any).celebrationModal.title || "",
-                  content: (componentData.content as any).celebrationModal.content || "",
-                  description: (componentData.content as any).celebrationModal.description || "",
-                  media: (componentData.content as any).celebrationModal.media || "",
-                  callToActionText: (componentData.content as any).celebrationModal.callToActionText || "",
-                  timeToLoad: (componentData.content as any).celebrationModal.timeToLoad || 0
-                } : undefined
-              }
-            : msg
-        )
-      );
-    };
+  useAppEvent("updateComponentData", ({ messageId, componentData }) => {
+    setMessages(prev => 
+      prev.map(msg => 
+        msg.messageId === messageId 
+          ? { ...msg, ...messageFieldsFromComponent(componentData) }
+          : msg
+      )
+    );
+  });
 
-    const handleGetCurrentMessages = (event: CustomEvent) => {
-      const { callback } = event.detail;
-      callback(messages);
-    };
+  useAppEvent("showExitTestWarning", () => {
+    setShowExitTestWarning(true);
+  });
 
-    window.addEventListener("keydown", handleKeyDown);
-    window.addEventListener("scrollToMessage", handleScrollToMessage as EventListener);
-    window.addEventListener("highlightMessage", handleHighlightMessage as EventListener);
-    window.addEventListener("unhighlightMessage", handleUnhighlightMessage as EventListener);
-    window.addEventListener("editWindowClose", handleEditWindowClose as EventListener);
-    window.addEventListener("addMessage", handleAddMessage as EventListener);
-    window.addEventListener("updateMessage", handleUpdateMessage as EventListener);
-    window.addEventListener("deleteMessage", handleDeleteMessage as EventListener);
-    window.addEventListener("syncMessageOrder", handleSyncMessageOrder as EventListener);
-    window.addEventListener("nodeSelection", handleNodeSelection as EventListener);
-    window.addEventListener("updateMessageContent", handleUpdateMessageContent as EventListener);
-    window.addEventListener("updateComponentData", handleUpdateComponentData as EventListener);
-    window.addEventListener("getCurrentMessages", handleGetCurrentMessages as EventListener);
-    window.addEventListener("clearAllMessages", () => setMessages([]));
-    window.addEventListener("showExitTestWarning", () => setShowExitTestWarning(true));
+  // Continue pill for steps that have nothing to answer
+  const renderTestContinueButton = (message: Message) => (
+    <div className="question-suggestions">
+      <button
+        className="suggestion-button test-answer"
+        style={{ pointerEvents: "auto", cursor: "pointer" }}
+        onClick={() => submitTestAnswer({ kind: "continue" })}
+      >
+        {message.moveOnButtonText || "Continue"}
+      </button>
+    </div>
+  );
 
-    return () => {
-      window.removeEventListener("keydown", handleKeyDown);
-      window.removeEventListener("scrollToMessage", handleScrollToMessage as EventListener);
-          window.removeEventListener("highlightMessage", handleHighlightMessage as EventListener);
-    window.removeEventListener("unhighlightMessage", handleUnhighlightMessage as EventListener);
-    window.removeEventListener("editWindowClose", handleEditWindowClose as EventListener);
-    window.removeEventListener("addMessage", handleAddMessage as EventListener);
-      window.removeEventListener("updateMessage", handleUpdateMessage as EventListener);
-      window.removeEventListener("deleteMessage", handleDeleteMessage as EventListener);
-      window.removeEventListener("syncMessageOrder", handleSyncMessageOrder as EventListener);
-      window.removeEventListener("nodeSelection", handleNodeSelection as EventListener);
-      window.removeEventListener("updateMessageContent", handleUpdateMessageContent as EventListener);
-      window.removeEventListener("updateComponentData", handleUpdateComponentData as EventListener);
-      window.removeEventListener("getCurrentMessages", handleGetCurrentMessages as EventListener);
-      window.removeEventListener("clearAllMessages", () => setMessages([]));
-      window.removeEventListener("showExitTestWarning", () => setShowExitTestWarning(true));
-    };
-  }, [messages, showSelectComponentPopup, startTestMode]);
+  // Stored answers in place of their {{references}}. References without a
+  // value stay visible, marked when nothing stores that answer at all.
+  const renderTemplate = (text: string, variables: ConditionContext) =>
+    parseTemplate(text, variables).map((part, index) => {
+      if (part.kind === "text") return <Fragment key={index}>{part.text}</Fragment>;
+      if (part.value !== undefined) {
+        return <span key={index} className="template-value" title={`{{${part.name}}}`}>{part.value}</span>;
+      }
+      const isKnown = knownVariables.has(part.name);
+      return (
+        <span
+          key={index}
+          className={`template-reference ${isKnown ? "" : "template-undefined"}`}
+          title={isKnown ? "Not answered yet" : "No component stores an answer under this name"}
+        >
+          {`{{${part.name}}}`}
+        </span>
+      );
+    });
 
-  const renderMessageContent = (message: Message) => {
+  // The active test step renders interactive inputs that answer it; steps
+  // already answered show the answer they were given
+  const renderMessageContent = (message: Message, isActiveTestStep = false, variables: ConditionContext = {}, answer?: TestAnswer) => {
     // Check if this is a banner type message (legacy - should be removed)
     if (message.uiToolType === "banner") {
       return (
@@ -479,176 +407,29 @@ export default function ConversationPreview() {
       </div>
     );
     
-    // Check if this is a question type message
-    if (message.uiToolType === "question") {
-      return (
-        <>
-          {bannerContent}
-          {textContent}
-          <div className="message-question">
-            <div className="question-card">
-              <div className="question-top-section">
-                {message.image && (
-                  <div className="question-image">
-                    <img src={message.image} alt="Question illustration" />
-                  </div>
-                )}
-                <div className="question-text">{message.content}</div>
-              </div>
-            </div>
-            {message.suggestions && message.suggestions.length > 0 && (
-              // In test mode, only show suggestions for the selected component
-              (!isTestMode || (isTestMode && message.messageId === testStartMessageId)) && (
-                <div className="question-suggestions">
-                  {message.suggestions.map((suggestion, index) => (
-                    <button key={index} className="suggestion-button">
-                      {suggestion}
-                    </button>
-                  ))}
-                </div>
-              )
-            )}
-          </div>
-        </>
-      );
-    }
-    
-    // Check if this is a multi select type message
-    if (message.uiToolType === "multiSelect") {
-      const hasImages = message.multiSelectOptions?.some(option => option.image);
-      const maxSelection = message.maxSelection || 1;
-      const selectedCount = 1; // Always show first option as selected
-      
+    // Tool types that bring their own preview (see toolTypes/)
+    const definition = toolTypeRegistry.get(message.uiToolType);
+    if (definition?.Preview) {
+      const { Preview } = definition;
+      const component = message.componentId ? components.get(message.componentId) : undefined;
       return (
         <>
           {bannerContent}
           {textContent}
-          {/* Question text as regular chat text */}
-          <div className="message-text">
-            {message.content}
-          </div>
-          
-          {/* Multi Select options */}
-          <div className="message-multi-select">
-            {/* Progress bar - always show when maxSelection > 1 */}
-            {maxSelection > 1 && (
-              <div className="multi-select-progress">
-                <div 
-                  className="multi-select-progress-fill"
-                  style={{ width: `${(selectedCount / maxSelection) * 100}%` }}
-                />
-              </div>
-            )}
-            
-            {message.multiSelectOptions && message.multiSelectOptions.length > 0 && (
-              <div className={`multi-select-options ${hasImages ? 'has-images' : ''}`}>
-                {message.multiSelectOptions.map((option, index) => (
-                  <button 
-                    key={index} 
-                    className={`multi-select-option ${index === 0 ? 'selected' : ''} ${option.image ? 'has-image' : ''}`}
-                  >
-                    {option.image && (
-                      <div className="option-image">
-                        <img src={option.image} alt={option.text} />
-                      </div>
-                    )}
-                    <div className="option-content">
-                      <span className="option-text">{option.text}</span>
-                      {option.icon && (
-                        <span className="option-icon">{option.icon}</span>
-                      )}
-                    </div>
-                  </button>
-                ))}
-              </div>
-            )}
-          </div>
+          <Preview
+            message={message}
+            content={component?.content[definition.type] ?? definition.defaultContent()}
+            isActive={isActiveTestStep}
+            answer={answer}
+            isTestMode={isTestMode}
+            onAnswer={submitTestAnswer}
+            renderText={(text) => renderTemplate(text, variables)}
+          />
+          {isActiveTestStep && definition.answer === "continue" && renderTestContinueButton(message)}
         </>
       );
     }
-    
-    // Check if this is a form type message
-    if (message.uiToolType === "form") {
-      return (
-        <>
-          {bannerContent}
-          {textContent}
-          <div className="message-form">
-            <div className="form-container">
-              {message.formTitle && message.formTitle.trim() !== "" && (
-                <h2 className="form-title">{message.formTitle}</h2>
-              )}
-              {message.formFields && message.formFields.length > 0 ? (
-                message.formFields.map((field, index) => (
-                  <div key={index} className="form-field">
-                    <label className="form-field-label">{field.title}</label>
-                    {field.type === "text" && (
-                      <input 
-                        type="text" 
-                        className="form-input" 
-                        placeholder="Type your answer here..."
-                        disabled
-                      />
-                    )}
-                    {field.type === "longText" && (
-                      <textarea 
-                        className="form-textarea" 
-                        placeholder="Type your answer here..."
-                        disabled
-                      />
-                    )}
-                    {field.type === "currency" && (
-                      <input 
-                        type="number" 
-                        className="form-input" 
-                        placeholder="0.00"
-                        disabled
-                      />
-                    )}
-                    {field.type === "dropdown" && field.options && (
-                      <select className="form-select" disabled>
-                        <option value="">Select an option</option>
-                        {field.options.map((option, optionIndex) => (
-                          <option key={optionIndex} value={option}>{option}</option>
-                        ))}
-                      </select>
-                    )}
-                    {field.type === "radio" && field.options && (
-                      <div className="form-radio-group">
-                        {field.options.map((option, optionIndex) => (
-                          <label key={optionIndex} className="form-radio-option">
-                            <input type="radio" name={`field-${index}`} disabled />
-                            <span className="radio-label">{option}</span>
-                          </label>
-                        ))}
-                      </div>
-                    )}
-                    {field.type === "checkbox" && field.options && (
-                      <div className="form-checkbox-group">
-                        {field.options.map((option, optionIndex) => (
-                          <label key={optionIndex} className="form-checkbox-option">
-                            <input type="checkbox" disabled />
-                            <span className="checkbox-label">{option}</span>
-                          </label>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                ))
-              ) : (
-                <div className="form-placeholder">
-                  <p>Form fields will appear here</p>
-                </div>
-              )}
-              <button className="form-submit-button">
-                {message.formSendButtonText || "Continue"}
-              </button>
-            </div>
-          </div>
-        </>
-      );
-    }
-    
+
     // For regular message type, show the content in a text bubble
     if (message.uiToolType === "message" || !message.uiToolType) {
       return (
@@ -656,8 +437,9 @@ export default function ConversationPreview() {
           {bannerContent}
           {textContent}
           <div className="message-text">
-            {message.content}
+            {renderTemplate(message.content, variables)}
           </div>
+          {isActiveTestStep && renderTestContinueButton(message)}
         </>
       );
     }
@@ -699,17 +481,18 @@ export default function ConversationPreview() {
       default:
         return (
           <div className="message-text">
-            {message.content}
+            {renderTemplate(message.content, variables)}
           </div>
         );
     }
   };
 
   return (
+    <>
     <div 
       className={`conversation-preview ${isTestMode ? 'test-mode' : ''}`}
       onClick={(e) => {
-        if (isTestMode && !(e.target as Element).closest('.conversation-input')) {
+        if (isTestMode && !(e.target as Element).closest('.conversation-input, .test-answer')) {
           setShowExitTestWarning(true);
         }
         // Close context menu when clicking outside
@@ -790,8 +573,54 @@ export default function ConversationPreview() {
       })()}
 
       <div className="conversation-messages" ref={messagesRef}>
-                {(isTestMode ? testMessages : messages).map((message) => (
-          <Fragment key={message.id}>
+        {!isTestMode && previewedPath.selected && (
+          <div style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: "8px",
+            padding: "8px 12px",
+            margin: "0 0 8px",
+            background: "#F2E8E0",
+            borderRadius: "8px",
+            color: "#003250",
+            fontSize: "12px",
+          }}>
+            <span>Previewing a chosen path ({previewedPath.length} steps)</span>
+            <button
+              onClick={() => eventBus.emit("previewPath", { nodeIds: null })}
+              style={{
+                padding: "4px 10px",
+                border: "1px solid #E9DDD3",
+                borderRadius: "12px",
+                background: "white",
+                color: "#003250",
+                fontSize: "12px",
+                cursor: "pointer",
+                outline: "none",
+                whiteSpace: "nowrap",
+              }}
+            >
+              Show primary path
+            </button>
+          </div>
+        )}
+                {displayedMessages.map(({ message, key, step, isActive, variables }, index) => (
+          <Fragment key={key}>
+            {!isTestMode && index > 0 && index === previewedPath.length && (
+              <div style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "8px",
+                margin: "12px 0",
+                color: "#999",
+                fontSize: "12px",
+              }}>
+                <span style={{ flex: 1, borderTop: "1px dashed #E9DDD3" }} />
+                Off the {previewedPath.selected ? "chosen" : "primary"} path
+                <span style={{ flex: 1, borderTop: "1px dashed #E9DDD3" }} />
+              </div>
+            )}
             <div
               className={`message ${message.sender} ${
                 message.messageId && highlightedMessageId === message.messageId ? "message-node-highlighted" : ""
@@ -807,26 +636,17 @@ export default function ConversationPreview() {
               }
               onMouseEnter={() => {
                 if (!isTestMode && message.messageId) {
-                  const event = new CustomEvent("highlightNode", {
-                    detail: { messageId: message.messageId },
-                  });
-                  window.dispatchEvent(event);
+                  eventBus.emit("highlightNode", { messageId: message.messageId });
                 }
               }}
               onMouseLeave={() => {
                 if (!isTestMode && message.messageId) {
-                  const event = new CustomEvent("unhighlightNode", {
-                    detail: { messageId: message.messageId },
-                  });
-                  window.dispatchEvent(event);
+                  eventBus.emit("unhighlightNode", { messageId: message.messageId });
                 }
               }}
               onClick={() => {
                 if (!isTestMode && message.messageId) {
-                  const event = new CustomEvent("selectNode", {
-                    detail: { messageId: message.messageId },
-                  });
-                  window.dispatchEvent(event);
+                  eventBus.emit("selectNode", { messageId: message.messageId });
                 }
               }}
               onContextMenu={(e) => {
@@ -893,7 +713,7 @@ export default function ConversationPreview() {
                 </>
               )}
               <div className="message-content">
-                {renderMessageContent(message)}
+                {renderMessageContent(message, isActive, variables, step?.answer)}
               </div>
             </div>
             
@@ -907,18 +727,12 @@ export default function ConversationPreview() {
                 }`}
                 onMouseEnter={() => {
                   if (!isTestMode && message.messageId) {
-                    const event = new CustomEvent("highlightNode", {
-                      detail: { messageId: message.messageId },
-                    });
-                    window.dispatchEvent(event);
+                    eventBus.emit("highlightNode", { messageId: message.messageId });
                   }
                 }}
                 onMouseLeave={() => {
                   if (!isTestMode && message.messageId) {
-                    const event = new CustomEvent("unhighlightNode", {
-                      detail: { messageId: message.messageId },
-                    });
-                    window.dispatchEvent(event);
+                    eventBus.emit("unhighlightNode", { messageId: message.messageId });
                   }
                 }}
               >
@@ -966,7 +780,7 @@ export default function ConversationPreview() {
                         marginBottom: "16px",
                         textAlign: "center"
                       }}>
-                        {message.celebrationModal.description}
+                        {renderTemplate(message.celebrationModal.description, variables)}
                       </div>
                     )}
                     
@@ -1005,7 +819,7 @@ export default function ConversationPreview() {
                             marginBottom: "12px",
                             textAlign: "center"
                           }}>
-                            {message.celebrationModal.title}
+                            {renderTemplate(message.celebrationModal.title, variables)}
                           </div>
                         )}
                         
@@ -1018,7 +832,7 @@ export default function ConversationPreview() {
                             textAlign: "center",
                             lineHeight: "1.4"
                           }}>
-                            {message.celebrationModal.content}
+                            {renderTemplate(message.celebrationModal.content, variables)}
                           </div>
                         )}
                       </div>
@@ -1074,7 +888,7 @@ export default function ConversationPreview() {
                           console.log("Call to action clicked:", message.celebrationModal?.callToActionText);
                         }}
                       >
-                        {message.celebrationModal.callToActionText || "Continue"}
+                        {renderTemplate(message.celebrationModal.callToActionText || "Continue", variables)}
                         <span style={{ fontSize: "18px" }}>→</span>
                       </button>
                     </div>
@@ -1085,8 +899,8 @@ export default function ConversationPreview() {
             
             {/* Add user placeholder after AI messages (but not for Multi Select or when celebration modal is present) */}
             {message.sender === "ai" && message.uiToolType !== "multiSelect" && !message.celebrationModal && (
-              // Show placeholder in normal mode, or in test mode for messages before the selected one
-              (!isTestMode || (isTestMode && message.messageId !== testStartMessageId)) && (
+              // Test mode shows the actual answers instead
+              !isTestMode && (
                 <div className="message user placeholder">
                   <div className="message-content">
                     <div className="message-text" style={{
@@ -1105,8 +919,69 @@ export default function ConversationPreview() {
                 </div>
               )
             )}
+
+            {/* Test mode: the answer given and where it routed */}
+            {isTestMode && step?.answer && (
+              <div className="message user">
+                <div className="message-content">
+                  <div className="message-text" style={{
+                    background: "#F2E8E0",
+                    color: "#003250",
+                    borderRadius: "18px 18px 0px 18px",
+                    maxWidth: "80%",
+                    width: "fit-content",
+                    marginLeft: "auto",
+                    textAlign: "right",
+                    padding: "8px 24px",
+                    whiteSpace: "pre-wrap",
+                  }}>
+                    {describeAnswer(components.get(step.componentId), step.answer)}
+                  </div>
+                </div>
+              </div>
+            )}
+            {isTestMode && step?.route && (
+              <div style={{
+                textAlign: "center",
+                fontSize: "11px",
+                color: step.route.reason === "brokenCondition" ? "#F16B68" : "#8EAF86",
+                margin: "4px 0 12px",
+              }}>
+                {step.route.detail}
+              </div>
+            )}
           </Fragment>
         ))}
+
+        {isTestMode && testSession?.finished && (
+          <div style={{
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            gap: "8px",
+            padding: "16px 0",
+            color: "#003250",
+            fontSize: "13px",
+          }}>
+            <span>End of conversation</span>
+            <button
+              className="test-answer"
+              onClick={restartTestSession}
+              style={{
+                padding: "6px 16px",
+                border: "1px solid #E9DDD3",
+                borderRadius: "16px",
+                background: "white",
+                color: "#003250",
+                fontSize: "12px",
+                cursor: "pointer",
+                outline: "none",
+              }}
+            >
+              Restart test
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="conversation-input">
@@ -1128,6 +1003,11 @@ export default function ConversationPreview() {
           onBlur={() => {
             // Don't exit test mode on blur, only on clicking outside
           }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              submitTypedAnswer();
+            }
+          }}
           placeholder="Type your answer here..."
           style={{
             width: "100%",
@@ -1140,7 +1020,7 @@ export default function ConversationPreview() {
             color: "#003250",
           }}
         />
-        <button className="send-button">Send</button>
+        <button className="send-button" onClick={submitTypedAnswer}>Send</button>
       </div>
 
       {/* Context Menu */}
@@ -1176,10 +1056,7 @@ export default function ConversationPreview() {
               onClick={() => {
                 // Edit only the right-clicked component
                 if (contextMenu.rightClickedMessageId) {
-                  const event = new CustomEvent("openEditWindow", {
-                    detail: { messageId: contextMenu.rightClickedMessageId },
-                  });
-                  window.dispatchEvent(event);
+                  eventBus.emit("openEditWindow", { messageId: contextMenu.rightClickedMessageId });
                 }
                 setContextMenu(null);
               }}
@@ -1277,10 +1154,7 @@ export default function ConversationPreview() {
                   
                   // Dispatch events to delete from canvas
                   messageIds.forEach(messageId => {
-                    const event = new CustomEvent("deleteNode", {
-                      detail: { messageId },
-                    });
-                    window.dispatchEvent(event);
+                    eventBus.emit("deleteNode", { messageId });
                   });
                   
                   setDeleteConfirmation(null);
@@ -1362,7 +1236,7 @@ export default function ConversationPreview() {
             <div className="edit-window-content">
               <p>Are you sure you want to exit test mode?</p>
               <p style={{ fontSize: "14px", color: "#666", marginTop: "8px" }}>
-                Your test conversation history will be lost.
+                Testing from the same component again picks up where you left off.
               </p>
             </div>
             <div className="edit-window-footer">
@@ -1426,5 +1300,16 @@ export default function ConversationPreview() {
 
 
     </div>
+
+    {isTestMode && testSession && (
+      <TestInspector
+        session={testSession}
+        variables={{ ...buildConditionContext(components, testSession.steps), ...userVariables }}
+        onStepBack={() => rewindTestSession(stepBack)}
+        onRewind={(stepIndex) => rewindTestSession(session => rewindTo(session, stepIndex))}
+        onRestart={restartTestSession}
+      />
+    )}
+    </>
   );
 }
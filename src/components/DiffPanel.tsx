@@ -0,0 +1,295 @@
+import { useEffect, useState } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+import { snapshotManager } from "../utils/snapshots";
+import { diffStates, isEmptyDiff, parseFlowState } from "../utils/diff";
+import type { FieldChange, FlowDiff } from "../utils/diff";
+
+type DiffPanelProps = {
+  onClose: () => void;
+  onDiffChange: (diff: FlowDiff | null) => void;
+  onFocusComponent: (componentId: string) => void;
+};
+
+// "current", "file", or a snapshot id
+type SourceKey = string;
+
+const statusColors: Record<string, string> = {
+  added: "#8EAF86",
+  removed: "#F16B68",
+  modified: "#E0A340",
+  moved: "#6B9AC4",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+const StatusBadge = ({ status }: { status: string }) => (
+  <span style={{
+    fontSize: "10px",
+    fontWeight: "600",
+    textTransform: "uppercase",
+    color: "white",
+    background: statusColors[status],
+    borderRadius: "4px",
+    padding: "2px 6px",
+    flexShrink: 0,
+  }}>
+    {status}
+  </span>
+);
+
+const FieldChangeList = ({ changes }: { changes: FieldChange[] }) => (
+  <div style={{ marginTop: "6px", paddingLeft: "8px", borderLeft: "2px solid #E9DDD3" }}>
+    {changes.map(change => (
+      <div key={change.path} style={{ fontSize: "11px", marginBottom: "4px" }}>
+        <div style={{ color: "#003250", fontFamily: "monospace" }}>{change.path}</div>
+        <div style={{ color: "#F16B68" }}>− {formatValue(change.before)}</div>
+        <div style={{ color: "#5E8456" }}>+ {formatValue(change.after)}</div>
+      </div>
+    ))}
+  </div>
+);
+
+export default function DiffPanel({ onClose, onDiffChange, onFocusComponent }: DiffPanelProps) {
+  const { snapshots, exportState, nodes, edges, components } = useAppState();
+  const [baseSource, setBaseSource] = useState<SourceKey>(() => snapshots[0]?.id ?? "file");
+  const [targetSource, setTargetSource] = useState<SourceKey>("current");
+  const [fileContents, setFileContents] = useState<Record<"base" | "target", string | null>>({ base: null, target: null });
+  const [diff, setDiff] = useState<FlowDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Recompute whenever either side changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSource = async (source: SourceKey, side: "base" | "target") => {
+      if (source === "current") return exportState();
+      if (source === "file") return fileContents[side];
+      return snapshotManager.getSnapshotData(source);
+    };
+
+    const compare = async () => {
+      try {
+        const [baseJson, targetJson] = await Promise.all([
+          loadSource(baseSource, "base"),
+          loadSource(targetSource, "target"),
+        ]);
+        if (cancelled) return;
+        if (!baseJson || !targetJson) {
+          setDiff(null);
+          setError(null);
+          return;
+        }
+        setDiff(diffStates(parseFlowState(baseJson), parseFlowState(targetJson)));
+        setError(null);
+      } catch (compareError) {
+        if (cancelled) return;
+        console.error("Failed to compare states:", compareError);
+        setDiff(null);
+        setError(compareError instanceof Error ? compareError.message : "Failed to compare states");
+      }
+    };
+
+    // Debounced so dragging a node doesn't re-diff on every frame
+    const timer = setTimeout(compare, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // Re-run on live edits when the current state is one of the sides
+  }, [baseSource, targetSource, fileContents, exportState, nodes, edges, components]);
+
+  // Keep the canvas highlights in sync with the diff
+  useEffect(() => {
+    onDiffChange(diff);
+  }, [diff, onDiffChange]);
+
+  useEffect(() => () => onDiffChange(null), [onDiffChange]);
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderSourcePicker = (side: "base" | "target", value: SourceKey, onChange: (value: SourceKey) => void) => (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <div style={{ fontSize: "11px", color: "#666", marginBottom: "2px", fontWeight: "500" }}>
+        {side === "base" ? "Base" : "Compare"}
+      </div>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        style={{
+          width: "100%",
+          padding: "6px 8px",
+          border: "1px solid #E9DDD3",
+          borderRadius: "6px",
+          fontSize: "13px",
+          background: "white",
+          outline: "none",
+        }}
+      >
+        <option value="current">Current state</option>
+        <option value="file">Import file…</option>
+        {snapshots.map(snapshot => (
+          <option key={snapshot.id} value={snapshot.id}>
+            {snapshot.name} ({new Date(snapshot.createdAt).toLocaleString()})
+          </option>
+        ))}
+      </select>
+      {value === "file" && (
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (!file) return;
+            file.text().then(text => {
+              setFileContents(prev => ({ ...prev, [side]: text }));
+            });
+          }}
+          style={{ marginTop: "4px", fontSize: "11px", width: "100%" }}
+        />
+      )}
+    </div>
+  );
+
+  const componentName = (componentId: string) =>
+    components.get(componentId)?.name ?? componentId;
+
+  const nodeName = (nodeId: string) => {
+    const node = nodes.find(item => item.id === nodeId);
+    return node ? componentName(node.data.componentId) : nodeId;
+  };
+
+  return (
+    <div style={{
+      position: "absolute",
+      top: "60px",
+      right: 0,
+      bottom: 0,
+      width: "380px",
+      background: "#FFF7F1",
+      borderLeft: "1px solid #E9DDD3",
+      boxShadow: "-2px 0 8px rgba(0, 0, 0, 0.08)",
+      zIndex: 15,
+      display: "flex",
+      flexDirection: "column",
+    }}>
+      <div style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        padding: "16px 16px 8px",
+      }}>
+        <h3 style={{ margin: 0, color: "#003250" }}>Compare States</h3>
+        <button
+          onClick={onClose}
+          style={{ background: "none", border: "none", fontSize: "22px", cursor: "pointer", color: "#666" }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ display: "flex", gap: "8px", padding: "0 16px 12px", borderBottom: "1px solid #E9DDD3" }}>
+        {renderSourcePicker("base", baseSource, setBaseSource)}
+        {renderSourcePicker("target", targetSource, setTargetSource)}
+      </div>
+
+      <div style={{ flex: 1, overflow: "auto", padding: "12px 16px" }}>
+        {error && <div style={{ color: "#F16B68", fontSize: "13px" }}>{error}</div>}
+        {!error && !diff && (
+          <div style={{ color: "#666", fontSize: "13px" }}>Pick two states to compare.</div>
+        )}
+        {diff && isEmptyDiff(diff) && (
+          <div style={{ color: "#666", fontSize: "13px" }}>No differences.</div>
+        )}
+
+        {diff && diff.components.length > 0 && (
+          <div style={{ marginBottom: "16px" }}>
+            <div style={{ fontSize: "12px", fontWeight: "600", color: "#666", marginBottom: "6px" }}>
+              Components ({diff.components.length})
+            </div>
+            {diff.components.map(change => (
+              <div key={change.componentId} style={{ padding: "6px 0", borderBottom: "1px solid #F2E8E0" }}>
+                <div
+                  style={{ display: "flex", alignItems: "center", gap: "8px", cursor: "pointer" }}
+                  onClick={() => {
+                    onFocusComponent(change.componentId);
+                    if (change.fieldChanges.length > 0) toggleExpanded(change.componentId);
+                  }}
+                >
+                  <StatusBadge status={change.status} />
+                  <span style={{ fontSize: "13px", color: "#003250", flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                    {change.name}
+                  </span>
+                  <span style={{ fontSize: "11px", color: "#999" }}>{change.slug}</span>
+                  {change.fieldChanges.length > 0 && (
+                    <span style={{ fontSize: "11px", color: "#999" }}>
+                      {change.fieldChanges.length} field{change.fieldChanges.length === 1 ? "" : "s"}
+                    </span>
+                  )}
+                </div>
+                {expanded.has(change.componentId) && <FieldChangeList changes={change.fieldChanges} />}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {diff && diff.nodes.some(change => change.status === "moved") && (
+          <div style={{ marginBottom: "16px" }}>
+            <div style={{ fontSize: "12px", fontWeight: "600", color: "#666", marginBottom: "6px" }}>
+              Moved nodes
+            </div>
+            {diff.nodes.filter(change => change.status === "moved").map(change => (
+              <div
+                key={change.nodeId}
+                onClick={() => onFocusComponent(change.componentId)}
+                style={{ display: "flex", alignItems: "center", gap: "8px", padding: "6px 0", cursor: "pointer", borderBottom: "1px solid #F2E8E0" }}
+              >
+                <StatusBadge status="moved" />
+                <span style={{ fontSize: "13px", color: "#003250", flex: 1 }}>{componentName(change.componentId)}</span>
+                <span style={{ fontSize: "11px", color: "#999" }}>
+                  ({Math.round(change.from!.x)}, {Math.round(change.from!.y)}) → ({Math.round(change.to!.x)}, {Math.round(change.to!.y)})
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {diff && diff.edges.length > 0 && (
+          <div>
+            <div style={{ fontSize: "12px", fontWeight: "600", color: "#666", marginBottom: "6px" }}>
+              Connections ({diff.edges.length})
+            </div>
+            {diff.edges.map(change => (
+              <div key={change.key} style={{ padding: "6px 0", borderBottom: "1px solid #F2E8E0" }}>
+                <div
+                  style={{ display: "flex", alignItems: "center", gap: "8px", cursor: change.fieldChanges.length > 0 ? "pointer" : "default" }}
+                  onClick={() => change.fieldChanges.length > 0 && toggleExpanded(change.key)}
+                >
+                  <StatusBadge status={change.status} />
+                  <span style={{ fontSize: "12px", color: "#003250" }}>
+                    {nodeName(change.source)} → {nodeName(change.target)}
+                  </span>
+                </div>
+                {expanded.has(change.key) && <FieldChangeList changes={change.fieldChanges} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import type { Edge } from "@xyflow/react";
+import { checkCondition } from "../utils/conditions";
+import { isPrimaryEdge } from "../utils/paths";
+import { getEdgeRoute, routeOptions } from "../utils/routing";
+import type { ComponentData, EdgeRoute } from "../types/flow";
+
+interface EdgeRouteMenuProps {
+  edge: Edge;
+  component: ComponentData | undefined; // the component the edge leaves from
+  x: number;
+  y: number;
+  onSave: (route: EdgeRoute | undefined, primary: boolean) => void;
+  onClose: () => void;
+}
+
+// Asks what a connection stands for: options, a condition, or "otherwise"
+export default function EdgeRouteMenu({ edge, component, x, y, onSave, onClose }: EdgeRouteMenuProps) {
+  const route = getEdgeRoute(edge);
+  const options = routeOptions(component);
+  const [selectedOptions, setSelectedOptions] = useState<Set<number>>(
+    () => new Set((route?.options ?? []).map(option => option.index))
+  );
+  const [condition, setCondition] = useState(route?.condition ?? "");
+  const [isDefault, setIsDefault] = useState(!!route?.isDefault);
+  const [isPrimary, setIsPrimary] = useState(isPrimaryEdge(edge));
+  const conditionError = condition.trim() ? checkCondition(condition) : null;
+
+  const toggleOption = (index: number) => {
+    const next = new Set(selectedOptions);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelectedOptions(next);
+  };
+
+  const save = () => {
+    if (conditionError) return;
+    onSave({
+      options: options.filter(option => selectedOptions.has(option.index)),
+      condition: condition.trim() || undefined,
+      order: route?.order,
+      isDefault,
+    }, isPrimary);
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    padding: "6px 12px",
+    fontSize: "14px",
+    color: "#003250",
+    cursor: "pointer",
+  };
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: "fixed", top: 0, left: 0, right: 0, bottom: 0, zIndex: 1000 }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: "fixed",
+          left: Math.min(x, window.innerWidth - 300),
+          top: Math.min(y, window.innerHeight - 320),
+          width: "280px",
+          background: "white",
+          border: "1px solid #E9DDD3",
+          borderRadius: "8px",
+          boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+          zIndex: 1001,
+          paddingBottom: "8px",
+        }}
+      >
+        <div style={{ padding: "10px 12px", fontSize: "13px", fontWeight: "600", color: "#003250", borderBottom: "1px solid #E9DDD3" }}>
+          When does the conversation take this connection?
+        </div>
+
+        {options.length > 0 && (
+          <div style={{ maxHeight: "160px", overflowY: "auto", padding: "4px 0" }}>
+            {options.map(option => (
+              <label key={option.index} style={rowStyle}>
+                <input
+                  type="checkbox"
+                  checked={selectedOptions.has(option.index)}
+                  onChange={() => toggleOption(option.index)}
+                  style={{ accentColor: "#003250" }}
+                />
+                "{option.text}"
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div style={{ padding: "6px 12px" }}>
+          <input
+            type="text"
+            placeholder="Condition, e.g. salary >= 60000"
+            value={condition}
+            autoFocus={options.length === 0}
+            onChange={(e) => setCondition(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") save();
+            }}
+            style={{
+              width: "100%",
+              boxSizing: "border-box",
+              padding: "6px 10px",
+              border: `1px solid ${conditionError ? "#F16B68" : "#E9DDD3"}`,
+              borderRadius: "6px",
+              fontSize: "13px",
+              fontFamily: "monospace",
+              outline: "none",
+            }}
+          />
+          {conditionError && (
+            <div style={{ color: "#F16B68", fontSize: "11px", marginTop: "4px" }}>{conditionError}</div>
+          )}
+        </div>
+
+        <label style={rowStyle}>
+          <input
+            type="checkbox"
+            checked={isDefault}
+            onChange={(e) => setIsDefault(e.target.checked)}
+            style={{ accentColor: "#003250" }}
+          />
+          Otherwise (nothing else matched)
+        </label>
+
+        <label style={rowStyle} title="Where the flow branches, the preview shows the way this connection goes">
+          <input
+            type="checkbox"
+            checked={isPrimary}
+            onChange={(e) => setIsPrimary(e.target.checked)}
+            style={{ accentColor: "#003250" }}
+          />
+          Primary path (the preview follows it)
+        </label>
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: "8px", padding: "8px 12px 0" }}>
+          <button
+            onClick={() => onSave(undefined, isPrimary)}
+            title="Keep the connection without a route"
+            style={{
+              padding: "6px 12px",
+              border: "1px solid #E9DDD3",
+              borderRadius: "6px",
+              background: "white",
+              color: "#003250",
+              fontSize: "12px",
+              cursor: "pointer",
+              outline: "none",
+            }}
+          >
+            Plain connection
+          </button>
+          <button
+            onClick={save}
+            disabled={!!conditionError}
+            style={{
+              padding: "6px 12px",
+              border: "none",
+              borderRadius: "6px",
+              background: conditionError ? "#ccc" : "#F16B68",
+              color: "white",
+              fontSize: "12px",
+              cursor: conditionError ? "not-allowed" : "pointer",
+              outline: "none",
+            }}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
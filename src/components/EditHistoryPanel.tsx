@@ -0,0 +1,96 @@
+import { useAppState } from "../contexts/AppStateContext";
+import { HISTORY_LIMIT } from "../utils/history";
+import type { HistoryEntry } from "../utils/history";
+
+type EditHistoryPanelProps = {
+  onClose: () => void;
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+export default function EditHistoryPanel({ onClose }: EditHistoryPanelProps) {
+  const { editHistory, travelToEdit } = useAppState();
+
+  const renderEntry = (entry: HistoryEntry, undone: boolean) => (
+    <div
+      key={entry.id}
+      onClick={() => travelToEdit(entry.id)}
+      title={undone ? "Redo up to here" : "Undo back to before this edit"}
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "8px",
+        padding: "6px 0",
+        borderBottom: "1px solid #F2E8E0",
+        cursor: "pointer",
+        opacity: undone ? 0.45 : 1,
+      }}
+    >
+      <span style={{
+        width: "8px",
+        height: "8px",
+        borderRadius: "50%",
+        flexShrink: 0,
+        background: undone ? "#E9DDD3" : "#F16B68",
+      }} />
+      <span style={{
+        fontSize: "13px",
+        color: "#003250",
+        flex: 1,
+        minWidth: 0,
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+        whiteSpace: "nowrap",
+        textDecoration: undone ? "line-through" : "none",
+      }}>
+        {entry.label}
+      </span>
+      <span style={{ fontSize: "11px", color: "#999" }}>{formatTime(entry.timestamp)}</span>
+    </div>
+  );
+
+  return (
+    <div style={{
+      position: "absolute",
+      top: "60px",
+      right: 0,
+      bottom: 0,
+      width: "300px",
+      background: "#FFF7F1",
+      borderLeft: "1px solid #E9DDD3",
+      boxShadow: "-2px 0 8px rgba(0, 0, 0, 0.08)",
+      zIndex: 15,
+      display: "flex",
+      flexDirection: "column",
+    }}>
+      <div style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        padding: "16px 16px 8px",
+      }}>
+        <h3 style={{ margin: 0, color: "#003250" }}>Edit History</h3>
+        <button
+          onClick={onClose}
+          style={{ background: "none", border: "none", fontSize: "22px", cursor: "pointer", color: "#666" }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflow: "auto", padding: "0 16px 12px" }}>
+        {editHistory.past.length === 0 && editHistory.future.length === 0 && (
+          <div style={{ color: "#666", fontSize: "13px" }}>No edits yet.</div>
+        )}
+        {/* Newest first; undone edits stay listed until the next new edit */}
+        {[...editHistory.future].reverse().map(entry => renderEntry(entry, true))}
+        {[...editHistory.past].reverse().map(entry => renderEntry(entry, false))}
+      </div>
+
+      <div style={{ fontSize: "11px", color: "#999", padding: "8px 16px 12px" }}>
+        Click an edit to undo back to before it. Keeps the last {HISTORY_LIMIT} edits of this session.
+      </div>
+    </div>
+  );
+}
@@ -1,84 +1,60 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ReactFlow,
   Background,
   Controls,
   MiniMap,
-  useNodesState,
-  useEdgesState,
   addEdge,
   Handle,
   Position,
 } from "@xyflow/react";
-import type { Connection, Edge as FlowEdge, Node as FlowNode, NodeProps, NodeTypes, NodeChange } from "@xyflow/react";
+import type { Connection, Edge as FlowEdge, Node as FlowNode, NodeProps, NodeTypes, NodeChange, ReactFlowInstance } from "@xyflow/react";
 import "../flow.css";
 
-import defaultState from "../defaultState";
-
-type UIToolType = "message" | "question" | "form" | "freeChat" | "accordion" | "intro" | "multiSelect";
-
-// Comprehensive component data structure - single source of truth
-type MultiSelectOption = {
-  text: string;
-  image?: string;
-  icon?: string;
-};
-
-type FormField = {
-  id: string;
-  type: "currency" | "text" | "longText" | "dropdown" | "radio" | "checkbox";
-  title: string;
-  options?: string[];
-  required?: boolean;
-};
-
-type ComponentData = {
-  id: string;                    // Unique component ID
-  name: string;                  // Display name (required)
-  slug: string;                  // Slug ID like "01.03.06" (required)
-  uiToolType: UIToolType;        // UI tool type
-  content: {
-    message?: { text: string; richText?: boolean; };
-    question?: { text?: string; options?: string[]; image?: string; suggestions?: string[]; };
-    form?: { 
-      fields: FormField[];
-      title?: string;
-      sendButtonText?: string;
-    };
-    aiPrompt?: {
-      text?: string;
-      llm?: string;
-    };
-    freeChat?: { text: string; };
-    accordion?: { title: string; content: string; };
-    banner?: { text: string; type: string; };
-    intro?: { text: string; };
-    multiSelect?: { 
-      text?: string; 
-      options?: MultiSelectOption[]; 
-      maxSelection?: number;
-    };
-  };
-  aiGenerated?: boolean;         // AI-generated flag
-  createdAt: Date;
-  updatedAt: Date;
-};
-
-type CardNodeData = {
-  componentId: string;           // References ComponentData.id
-  messageId: string;             // Legacy field for backward compatibility
-};
-
-const initialNodes: FlowNode<CardNodeData>[] = [];
-
-const initialEdges: FlowEdge[] = [];
+import { useAppState } from "../contexts/AppStateContext";
+import ProjectSwitcher from "./ProjectSwitcher";
+import SaveIndicator from "./SaveIndicator";
+import SessionRecorderControls from "./SessionRecorderControls";
+import UndoRedoControls from "./UndoRedoControls";
+import EditHistoryPanel from "./EditHistoryPanel";
+import HistoryPanel from "./HistoryPanel";
+import MergePanel from "./MergePanel";
+import DiffPanel from "./DiffPanel";
+import ProblemsPanel from "./ProblemsPanel";
+import PathExplorerPanel from "./PathExplorerPanel";
+import PersonaRunPanel from "./PersonaRunPanel";
+import PersonaEditor from "./PersonaEditor";
+import RoutingEditor from "./RoutingEditor";
+import EdgeRouteMenu from "./EdgeRouteMenu";
+import type { FlowDiff } from "../utils/diff";
+import { eventBus, useAppEvent } from "../utils/eventBus";
+import { getEdgeRoute, isRoutingComponent, routeLabel, setEdgeRoute } from "../utils/routing";
+import { availableImages } from "../utils/imageLibrary";
+import { validateFlow } from "../utils/validator";
+import { cleanVariableName } from "../utils/conditions";
+import { CURRENT_STATE_VERSION } from "../utils/migrations";
+import { toolTypeRegistry } from "../toolTypes";
+import { isPathConnected, pathThrough, previewOrder, primaryPath, setPrimaryEdge } from "../utils/paths";
+import type { CardNodeData, ComponentData, UIToolType } from "../types/flow";
 
 export default function FlowCanvas() {
-  // Central component data store - single source of truth
-  const [components, setComponents] = useState<Map<string, ComponentData>>(new Map());
-  
-  const [nodes, setNodes, onNodesChange] = useNodesState<FlowNode<CardNodeData>>(initialNodes);
-  const [edges, setEdges, onEdgesChange] = useEdgesState<FlowEdge>(initialEdges);
+  // Flow state lives in AppStateContext - single source of truth
+  const {
+    components,
+    setComponents,
+    nodes,
+    setNodes,
+    onNodesChange,
+    edges,
+    setEdges,
+    onEdgesChange,
+    messages,
+    setMessages,
+    setOrphanMessageIds,
+    personas,
+    undo,
+    redo,
+  } = useAppState();
   const [highlightedNodeId, setHighlightedNodeId] = useState<string | null>(null);
   const [lastClickedNodeId, setLastClickedNodeId] = useState<string | null>(null);
   const [selectedNodeIds, setSelectedNodeIds] = useState<Set<string>>(new Set());
@@ -89,7 +65,6 @@ export default function FlowCanvas() {
   const [isTestMode, setIsTestMode] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<Set<string>>(new Set());
-  const [imageDropdownOpen, setImageDropdownOpen] = useState<string | false>(false);
   const [uiToolTypeDropdownOpen, setUiToolTypeDropdownOpen] = useState(false);
   const [bannerAddOn, setBannerAddOn] = useState(false);
   const [textAddOn, setTextAddOn] = useState(false);
@@ -104,22 +79,28 @@ export default function FlowCanvas() {
   const [selectedSegment, setSelectedSegment] = useState("all-ai-generated");
   const [selectedUser, setSelectedUser] = useState("user1");
   const [showImagesPopup, setShowImagesPopup] = useState(false);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const [showMergePanel, setShowMergePanel] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [showDiffPanel, setShowDiffPanel] = useState(false);
+  const [showProblemsPanel, setShowProblemsPanel] = useState(false);
+  const [showPathExplorer, setShowPathExplorer] = useState(false);
+  const [showPersonaRuns, setShowPersonaRuns] = useState(false);
+  const [showPersonaEditor, setShowPersonaEditor] = useState(false);
+  // Fall back to the first persona when the chosen one was deleted or the
+  // project has its own set
+  const selectedPersonaId = personas.some(persona => persona.id === selectedUser)
+    ? selectedUser
+    : personas[0]?.id ?? "";
+
+  // The preview fills in {{user.*}} and sample answers from this persona
+  useEffect(() => {
+    eventBus.emit("selectPersona", { personaId: selectedPersonaId });
+  }, [selectedPersonaId]);
+  const [flowDiff, setFlowDiff] = useState<FlowDiff | null>(null);
+  const [previewPath, setPreviewPath] = useState<string[] | null>(null); // node ids, null for the primary path
+  const [flowInstance, setFlowInstance] = useState<ReactFlowInstance<FlowNode<CardNodeData>, FlowEdge> | null>(null);
 
-  // Mock users data
-  const mockUsers = [
-    { id: "user1", name: "Sarah Chen", age: 22, description: "Ambitious tech enthusiast" },
-    { id: "user2", name: "Marcus Rodriguez", age: 24, description: "Creative problem solver" },
-    { id: "user3", name: "Emily Watson", age: 26, description: "Analytical team leader" },
-    { id: "user4", name: "David Kim", age: 23, description: "Innovative startup founder" },
-    { id: "user5", name: "Jessica Patel", age: 25, description: "Strategic communicator" },
-    { id: "user6", name: "Alex Thompson", age: 27, description: "Data-driven decision maker" },
-    { id: "user7", name: "Maria Garcia", age: 24, description: "Customer-focused designer" },
-    { id: "user8", name: "James Wilson", age: 26, description: "Results-oriented manager" },
-    { id: "user9", name: "Lisa Anderson", age: 25, description: "Collaborative team player" },
-    { id: "user10", name: "Ryan O'Connor", age: 23, description: "Adaptive quick learner" },
-    { id: "user11", name: "Amanda Foster", age: 28, description: "Experienced mentor" },
-    { id: "user12", name: "Kevin Zhang", age: 24, description: "Technical innovator" },
-  ];
 
   // Calculate zoom limits based on node positions and sizes
   const calculateZoomLimits = useCallback(() => {
@@ -173,104 +154,44 @@ export default function FlowCanvas() {
   const zoomLimits = calculateZoomLimits();
 
   
-  // UI Tool Type options - single source of truth
+  // UI Tool Type options: the registered types, then ones still to be built
   const uiToolTypeOptions = [
-    { value: "message", label: "Message" },
-    { value: "question", label: "Question" },
-    { value: "multiSelect", label: "Multi Select" },
-    { value: "form", label: "Form" },
-    { value: "freeChat", label: "Free Chat", disabled: true },
-    { value: "accordion", label: "Accordion", disabled: true },
-    { value: "intro", label: "Intro Dialog", disabled: true },
+    ...toolTypeRegistry.list().map(definition => ({ value: definition.type, label: definition.label, disabled: definition.disabled })),
     { value: "showTracksDrawer", label: "Show Tracks Drawer", disabled: true },
     { value: "assessment", label: "Assessment", disabled: true },
     { value: "swissArmyKnife", label: "Swiss Army Knife", disabled: true },
   ];
   
-  // Available images for dropdown - all actual files from public/img folder
-  const availableImages = [
-    { value: "", label: "No image" },
-    { value: "/img/assessment-start.png", label: "Assessment Start" },
-    { value: "/img/avatar.png", label: "Avatar" },
-    { value: "/img/brain.png", label: "Brain Illustration" },
-    { value: "/img/brain2.png", label: "Brain Illustration 2" },
-    { value: "/img/brain3.png", label: "Brain Illustration 3" },
-    { value: "/img/brain4.png", label: "Brain Illustration 4" },
-    { value: "/img/axial-mark.svg", label: "Axial Mark" },
-    { value: "/img/career-findings-header.png", label: "Career Findings Header" },
-    { value: "/img/chat.png", label: "Chat" },
-    { value: "/img/clarity-header.png", label: "Clarity Header" },
-    { value: "/img/clarity-header.svg", label: "Clarity Header SVG" },
-    { value: "/img/clouds.svg", label: "Clouds" },
-    { value: "/img/home-clarity.png", label: "Home Clarity" },
-    { value: "/img/home-other.png", label: "Home Other" },
-    { value: "/img/home/clarity-thumb.png", label: "Home - Clarity Thumb" },
-    { value: "/img/home/connections-thumb.png", label: "Home - Connections Thumb" },
-    { value: "/img/home/credentials-thumb.png", label: "Home - Credentials Thumb" },
-    { value: "/img/home/visibility-thumb.png", label: "Home - Visibility Thumb" },
-    { value: "/img/intro/intro-connections.png", label: "Intro - Connections" },
-    { value: "/img/intro/intro-profile.png", label: "Intro - Profile" },
-    { value: "/img/login-thumb.png", label: "Login Thumb" },
-    { value: "/img/onboarding/career-growth.png", label: "Onboarding - Career Growth" },
-    { value: "/img/onboarding/finding-the-right-career.png", label: "Onboarding - Finding Right Career" },
-    { value: "/img/onboarding/getting-a-job.png", label: "Onboarding - Getting a Job" },
-    { value: "/img/onboarding/leadership-development.png", label: "Onboarding - Leadership Development" },
-    { value: "/img/onboarding/networking-opportunities.png", label: "Onboarding - Networking" },
-    { value: "/img/onboarding/personal-growth.png", label: "Onboarding - Personal Growth" },
-    { value: "/img/profile-mock.png", label: "Profile Mock" },
-    { value: "/img/steps/assessment/celebration.png", label: "Steps - Assessment Celebration" },
-    { value: "/img/steps/careerPaths/celebration.png", label: "Steps - Career Paths Celebration" },
-    { value: "/img/steps/careerStatement/celebration.png", label: "Steps - Career Statement Celebration" },
-    { value: "/img/steps/careerStatement/question/1.png", label: "Steps - Career Statement Q1" },
-    { value: "/img/steps/dreamJob/celebration.png", label: "Steps - Dream Job Celebration" },
-    { value: "/img/steps/dreamJob/celebration-alt.png", label: "Steps - Dream Job Celebration Alt" },
-    { value: "/img/steps/financialNeeds/celebration.png", label: "Steps - Financial Needs Celebration" },
-    { value: "/img/steps/financialNeeds/question/1.png", label: "Steps - Financial Needs Q1" },
-    { value: "/img/steps/financialNeeds/question/2.png", label: "Steps - Financial Needs Q2" },
-    { value: "/img/steps/financialNeeds/question/3.png", label: "Steps - Financial Needs Q3" },
-    { value: "/img/steps/financialNeeds/question/4.png", label: "Steps - Financial Needs Q4" },
-    { value: "/img/steps/financialNeeds/question/5.png", label: "Steps - Financial Needs Q5" },
-    { value: "/img/steps/financialNeeds/question/6.png", label: "Steps - Financial Needs Q6" },
-    { value: "/img/steps/financialNeeds/question/7.png", label: "Steps - Financial Needs Q7" },
-    { value: "/img/steps/financialNeeds/question/8.png", label: "Steps - Financial Needs Q8" },
-    { value: "/img/steps/inspirations/celebration.png", label: "Steps - Inspirations Celebration" },
-    { value: "/img/steps/inspirations/question/1.png", label: "Steps - Inspirations Q1" },
-    { value: "/img/steps/inspirations/question/2.png", label: "Steps - Inspirations Q2" },
-    { value: "/img/steps/inspirations/question/3.png", label: "Steps - Inspirations Q3" },
-    { value: "/img/steps/inspirations/question/4.png", label: "Steps - Inspirations Q4" },
-    { value: "/img/steps/inspirations/question/5.png", label: "Steps - Inspirations Q5" },
-    { value: "/img/steps/inspirations/question/6.png", label: "Steps - Inspirations Q6" },
-    { value: "/img/steps/livingEnvironment/celebration.png", label: "Steps - Living Environment Celebration" },
-    { value: "/img/steps/livingEnvironment/question/1.png", label: "Steps - Living Environment Q1" },
-    { value: "/img/steps/livingEnvironment/question/2.png", label: "Steps - Living Environment Q2" },
-    { value: "/img/steps/livingEnvironment/question/3.png", label: "Steps - Living Environment Q3" },
-    { value: "/img/steps/livingEnvironment/question/4.png", label: "Steps - Living Environment Q4" },
-    { value: "/img/steps/livingEnvironment/question/5.png", label: "Steps - Living Environment Q5" },
-    { value: "/img/steps/livingEnvironment/question/6.png", label: "Steps - Living Environment Q6" },
-    { value: "/img/steps/strengths/celebration.png", label: "Steps - Strengths Celebration" },
-    { value: "/img/steps/strengths/question/1.png", label: "Steps - Strengths Q1" },
-    { value: "/img/steps/strengths/question/2.png", label: "Steps - Strengths Q2" },
-    { value: "/img/steps/strengths/question/3.png", label: "Steps - Strengths Q3" },
-    { value: "/img/steps/strengths/question/4.png", label: "Steps - Strengths Q4" },
-    { value: "/img/steps/strengths/question/5.png", label: "Steps - Strengths Q5" },
-    { value: "/img/steps/strengths/question/6.png", label: "Steps - Strengths Q6" },
-    { value: "/img/steps/values/celebration.png", label: "Steps - Values Celebration" },
-    { value: "/img/steps/values/question/1.png", label: "Steps - Values Q1" },
-    { value: "/img/steps/values/question/2.png", label: "Steps - Values Q2" },
-    { value: "/img/steps/values/question/3.png", label: "Steps - Values Q3" },
-    { value: "/img/steps/values/question/4.png", label: "Steps - Values Q4" },
-    { value: "/img/steps/values/question/5.png", label: "Steps - Values Q5" },
-    { value: "/img/steps/values/question/6.png", label: "Steps - Values Q6" },
-    { value: "/img/steps/workEnvironment/celebration.png", label: "Steps - Work Environment Celebration" },
-    { value: "/img/steps/workEnvironment/question/1.png", label: "Steps - Work Environment Q1" },
-    { value: "/img/steps/workEnvironment/question/2.png", label: "Steps - Work Environment Q2" },
-    { value: "/img/steps/workEnvironment/question/3.png", label: "Steps - Work Environment Q3" },
-    { value: "/img/steps/workEnvironment/question/4.png", label: "Steps - Work Environment Q4" },
-    { value: "/img/steps/workEnvironment/question/5.png", label: "Steps - Work Environment Q5" },
-    { value: "/img/steps/workEnvironment/question/6.png", label: "Steps - Work Environment Q6" },
-  ];
+  // Route menu for an edge, opened after connecting from a routing component
+  // or by right-clicking an edge
+  const [edgeRouteMenu, setEdgeRouteMenu] = useState<{ edgeId: string; x: number; y: number } | null>(null);
+  const pendingRouteEdgeId = useRef<string | null>(null);
+
+  const onConnect = useCallback((connection: Connection) => {
+    const sourceNode = nodes.find(node => node.id === connection.source);
+    if (!sourceNode || !isRoutingComponent(components.get(sourceNode.data.componentId))) {
+      setEdges((eds) => addEdge(connection, eds));
+      return;
+    }
 
-  const onConnect = useCallback((connection: Connection) => setEdges((eds) => addEdge(connection, eds)), [setEdges]);
+    // Connecting again to the same target edits that edge's route
+    const existing = edges.find(edge => edge.source === connection.source && edge.target === connection.target);
+    const edgeId = existing?.id ?? `e-${connection.source}-${connection.target}`;
+    if (!existing) {
+      setEdges((eds) => [...eds, { ...connection, id: edgeId }]);
+    }
+    pendingRouteEdgeId.current = edgeId;
+  }, [nodes, edges, components, setEdges]);
+
+  // Runs after onConnect, where the pointer is known
+  const onConnectEnd = useCallback((event: MouseEvent | TouchEvent) => {
+    const edgeId = pendingRouteEdgeId.current;
+    pendingRouteEdgeId.current = null;
+    if (!edgeId) return;
+
+    const point = "changedTouches" in event ? event.changedTouches[0] : event;
+    setEdgeRouteMenu({ edgeId, x: point.clientX, y: point.clientY });
+  }, []);
 
   const searchNodes = useCallback((query: string) => {
     if (!query.trim()) {
@@ -292,42 +213,9 @@ export default function FlowCanvas() {
         if (component.slug.toLowerCase().includes(lowerQuery)) {
           results.add(node.id);
         }
-        // Search in message content
-        if (component.content.message?.text?.toLowerCase().includes(lowerQuery)) {
-          results.add(node.id);
-        }
-        // Search in banner content
-        if (component.content.banner?.text?.toLowerCase().includes(lowerQuery)) {
-          results.add(node.id);
-        }
-        // Search in question content
-        if (component.content.question?.text?.toLowerCase().includes(lowerQuery)) {
-          results.add(node.id);
-        }
-        // Search in form content
-        if (component.content.form?.fields?.some(field => 
-          JSON.stringify(field).toLowerCase().includes(lowerQuery)
-        )) {
-          results.add(node.id);
-        }
-        // Search in freeChat content
-        if (component.content.freeChat?.text?.toLowerCase().includes(lowerQuery)) {
-          results.add(node.id);
-        }
-        // Search in accordion content
-        if (component.content.accordion?.title?.toLowerCase().includes(lowerQuery) ||
-            component.content.accordion?.content?.toLowerCase().includes(lowerQuery)) {
-          results.add(node.id);
-        }
-        // Search in intro content
-        if (component.content.intro?.text?.toLowerCase().includes(lowerQuery)) {
-          results.add(node.id);
-        }
-        // Search in multiSelect content
-        if (component.content.multiSelect?.text?.toLowerCase().includes(lowerQuery) ||
-            component.content.multiSelect?.options?.some(option => 
-              option.text?.toLowerCase().includes(lowerQuery)
-            )) {
+        // Search in banner add-on and the tool type's own content
+        if (component.content.banner?.text?.toLowerCase().includes(lowerQuery) ||
+            toolTypeRegistry.searchText(component).some(text => text.toLowerCase().includes(lowerQuery))) {
           results.add(node.id);
         }
       }
@@ -418,6 +306,7 @@ export default function FlowCanvas() {
       name: `New Component ${nodes.length + 1}`,
       slug: "",
       uiToolType: "message", // Default to message
+      messageId: newMessageId,
       content: {
         message: { text: selectedText, richText: true },
         banner: { text: "New Banner", type: "default" },
@@ -454,25 +343,19 @@ export default function FlowCanvas() {
     }
 
     // Dispatch event to add message to conversation
-    const event = new CustomEvent("addMessage", {
-      detail: { 
-        messageId: newMessageId,
-        componentId: componentId,
-        uiToolType: "message",
-        showDropdown: false 
-      },
+    eventBus.emit("addMessage", {
+      messageId: newMessageId,
+      componentId: componentId,
+      uiToolType: "message",
+      showDropdown: false 
     });
-    window.dispatchEvent(event);
     
     // Dispatch component data immediately
-    const componentDataEvent = new CustomEvent("updateComponentData", {
-      detail: { 
-        messageId: newMessageId, 
-        componentData: newComponent 
-      },
+    eventBus.emit("updateComponentData", {
+      messageId: newMessageId, 
+      componentData: newComponent 
     });
-    window.dispatchEvent(componentDataEvent);
-  }, [nodes, setNodes, setEdges]);
+  }, [nodes, setNodes, setEdges, setComponents]);
 
   const deleteComponent = useCallback((messageIds: string | string[]) => {
     const messageIdArray = Array.isArray(messageIds) ? messageIds : [messageIds];
@@ -496,92 +379,26 @@ export default function FlowCanvas() {
 
     // Dispatch events to delete messages from conversation
     messageIdArray.forEach(messageId => {
-    const event = new CustomEvent("deleteMessage", {
-      detail: { messageId },
-    });
-    window.dispatchEvent(event);
+    eventBus.emit("deleteMessage", { messageId });
     });
   }, [nodes, setNodes, setEdges]);
 
-  // Calculate order based on edge connections
+  // The path the preview lays out first: a chosen one while it still exists
+  // on the canvas, otherwise the primary path
+  const previewedPath = useMemo(() => {
+    const isChosenPathValid = !!previewPath
+      && previewPath.every(nodeId => nodes.some(node => node.id === nodeId))
+      && isPathConnected(edges, previewPath);
+    return isChosenPathValid
+      ? { nodeIds: previewPath, selected: true }
+      : { nodeIds: primaryPath(nodes, edges), selected: false };
+  }, [previewPath, nodes, edges]);
+
+  // Calculate order from the previewed path, never from card positions
   const calculateNodeOrder = useCallback(() => {
-    if (nodes.length === 0) return [];
-    
-    const order: string[] = [];
-    const visited = new Set<string>();
-    const excludedNodes = new Set<string>(); // Track nodes that should be excluded
-    
-    // Find nodes without incoming edges (start nodes)
-    const hasIncomingEdge = new Set<string>();
-    edges.forEach(edge => {
-      hasIncomingEdge.add(edge.target);
-    });
-    
-    const startNodes = nodes.filter(node => !hasIncomingEdge.has(node.id));
-    
-    // If no clear start nodes, use first node
-    if (startNodes.length === 0 && nodes.length > 0) {
-      startNodes.push(nodes[0]);
-    }
-    
-    // Find all convergence points (nodes with multiple incoming edges)
-    const convergencePoints = new Map<string, string[]>();
-    edges.forEach(edge => {
-      if (!convergencePoints.has(edge.target)) {
-        convergencePoints.set(edge.target, []);
-      }
-      convergencePoints.get(edge.target)!.push(edge.source);
-    });
-    
-    // For each convergence point, mark the non-top branches as excluded
-    convergencePoints.forEach((sourceNodes) => {
-      if (sourceNodes.length > 1) {
-        // Multiple sources converging to this target
-        const sourceNodeObjects = sourceNodes.map(sourceId => nodes.find(n => n.id === sourceId)).filter(Boolean);
-        const topSourceNode = sourceNodeObjects.reduce((top, current) => 
-          current && top && current.position.y < top.position.y ? current : top
-        );
-        
-        // Mark all other source nodes as excluded
-        sourceNodeObjects.forEach(sourceNode => {
-          if (sourceNode && sourceNode !== topSourceNode) {
-            excludedNodes.add(sourceNode.id);
-          }
-        });
-      }
-    });
-    
-    // Traverse from start nodes, excluding marked nodes
-    const traverse = (nodeId: string) => {
-      if (visited.has(nodeId) || excludedNodes.has(nodeId)) return;
-      visited.add(nodeId);
-      
-      const node = nodes.find(n => n.id === nodeId);
-      if (node) {
-        order.push(node.data.messageId);
-      }
-      
-      // Find outgoing edges
-      const outgoingEdges = edges.filter(edge => edge.source === nodeId);
-      outgoingEdges.forEach(edge => {
-        if (!excludedNodes.has(edge.target)) {
-          traverse(edge.target);
-        }
-      });
-    };
-    
-    // Start traversal from each start node
-    startNodes.forEach(node => traverse(node.id));
-    
-    // Add orphan nodes (nodes not in the order and not excluded)
-    nodes.forEach(node => {
-      if (!visited.has(node.id) && !excludedNodes.has(node.id)) {
-        order.push(node.data.messageId);
-      }
-    });
-    
-    return order;
-  }, [nodes, edges]);
+    const messageIdByNode = new Map(nodes.map(node => [node.id, node.data.messageId]));
+    return previewOrder(nodes, edges, previewedPath.nodeIds).map(nodeId => messageIdByNode.get(nodeId)!);
+  }, [nodes, edges, previewedPath]);
 
   // Sync order to preview window
   const syncOrderToPreview = useCallback(() => {
@@ -597,11 +414,13 @@ export default function FlowCanvas() {
       }
     });
     
-    const event = new CustomEvent("syncMessageOrder", {
-      detail: { order, orphanIds },
+    eventBus.emit("syncMessageOrder", {
+      order,
+      orphanIds,
+      pathLength: previewedPath.nodeIds.length,
+      selectedPath: previewedPath.selected,
     });
-    window.dispatchEvent(event);
-  }, [calculateNodeOrder, nodes, edges]);
+  }, [calculateNodeOrder, previewedPath, nodes, edges]);
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -635,89 +454,68 @@ export default function FlowCanvas() {
       }
     };
 
-    const handleHighlightNode = (event: CustomEvent) => {
-      const { messageId } = event.detail;
-      const node = nodes.find((n) => n.data.messageId === messageId);
-      if (node) {
-        setHighlightedNodeId(node.id);
-      }
-    };
-
-    const handleUnhighlightNode = () => {
-      setHighlightedNodeId(null);
-    };
-
-    const handleUpdateNode = (event: CustomEvent) => {
-      const { messageId, uiToolType, showDropdown } = event.detail;
-      setNodes((nds) =>
-        nds.map((node) =>
-          node.data.messageId === messageId
-            ? { ...node, data: { ...node.data, uiToolType, showDropdown } }
-            : node
-        )
-      );
-    };
-
-    const handleDeleteNode = (event: CustomEvent) => {
-      const { messageId } = event.detail;
-      deleteComponent(messageId);
-    };
-
     window.addEventListener("keydown", handleKeyDown);
-    window.addEventListener("highlightNode", handleHighlightNode as EventListener);
-    window.addEventListener("unhighlightNode", handleUnhighlightNode as EventListener);
-    window.addEventListener("updateNode", handleUpdateNode as EventListener);
-    window.addEventListener("deleteNode", handleDeleteNode as EventListener);
 
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
-      window.removeEventListener("highlightNode", handleHighlightNode as EventListener);
-      window.removeEventListener("unhighlightNode", handleUnhighlightNode as EventListener);
-      window.removeEventListener("updateNode", handleUpdateNode as EventListener);
-      window.removeEventListener("deleteNode", handleDeleteNode as EventListener);
     };
   }, [nodes, deleteComponent]);
 
-  // Load default state on mount
+  useAppEvent("previewPath", ({ nodeIds }) => {
+    setPreviewPath(nodeIds);
+  });
+
+  useAppEvent("highlightNode", ({ messageId }) => {
+    const node = nodes.find((n) => n.data.messageId === messageId);
+    if (node) {
+      setHighlightedNodeId(node.id);
+    }
+  });
+
+  useAppEvent("unhighlightNode", () => {
+    setHighlightedNodeId(null);
+  });
+
+  useAppEvent("updateNode", ({ messageId, uiToolType, showDropdown }) => {
+    setNodes((nds) =>
+      nds.map((node) =>
+        node.data.messageId === messageId
+          ? { ...node, data: { ...node.data, uiToolType, showDropdown } }
+          : node
+      )
+    );
+  });
+
+  useAppEvent("deleteNode", ({ messageId }) => {
+    deleteComponent(messageId);
+  });
+
+  // Undo/redo shortcuts - text fields keep their own native undo
   useEffect(() => {
-    // Load nodes and edges
-    setNodes(defaultState.nodes);
-    setEdges(defaultState.edges);
-    
-    // Load components
-    const componentMap = new Map<string, ComponentData>();
-    Object.entries(defaultState.components).forEach(([key, component]) => {
-      componentMap.set(key, component as any);
-    });
-    setComponents(componentMap);
-    
-    // Dispatch events to update conversation preview
-    defaultState.messages.forEach((message: any) => {
-      const event = new CustomEvent("addMessage", {
-        detail: { 
-          messageId: message.messageId,
-          componentId: message.componentId,
-          uiToolType: message.uiToolType,
-          showDropdown: false 
-        },
-      });
-      window.dispatchEvent(event);
-      
-      // Dispatch component data
-      const component = componentMap.get(message.componentId);
-      if (component) {
-        const componentDataEvent = new CustomEvent("updateComponentData", {
-          detail: { 
-            messageId: message.messageId, 
-            componentData: component 
-          },
-        });
-        window.dispatchEvent(componentDataEvent);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTestMode) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === "y") {
+        event.preventDefault();
+        redo();
       }
-    });
-  }, []);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo, isTestMode]);
 
-  // Sync order whenever nodes or edges change
+  // Sync order whenever nodes, edges or the previewed path change
   useEffect(() => {
     syncOrderToPreview();
   }, [nodes, edges, syncOrderToPreview]);
@@ -727,87 +525,121 @@ export default function FlowCanvas() {
     searchNodes(searchQuery);
   }, [searchQuery, searchNodes]);
 
-  // Close dropdowns when clicking outside
+  // Close the tool type dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       const target = event.target as Element;
-      if (!target.closest('.image-dropdown-container')) {
-        setImageDropdownOpen(false);
-      }
       if (!target.closest('.ui-tool-type-dropdown-container')) {
         setUiToolTypeDropdownOpen(false);
       }
     };
 
-    if (imageDropdownOpen || uiToolTypeDropdownOpen) {
+    if (uiToolTypeDropdownOpen) {
       document.addEventListener('mousedown', handleClickOutside);
       return () => document.removeEventListener('mousedown', handleClickOutside);
     }
-  }, [imageDropdownOpen, uiToolTypeDropdownOpen]);
-
-  useEffect(() => {
-    const handleUpdateNodeContent = (event: CustomEvent) => {
-      const { messageId, content } = event.detail;
-      setNodes(prev => 
-        prev.map(node => 
-          node.data.messageId === messageId 
-            ? { ...node, data: { ...node.data, title: content } }
-            : node
-        )
-      );
-    };
+  }, [uiToolTypeDropdownOpen]);
+
+  useAppEvent("updateNodeContent", ({ messageId, content }) => {
+    setNodes(prev => 
+      prev.map(node => 
+        node.data.messageId === messageId 
+          ? { ...node, data: { ...node.data, title: content } }
+          : node
+      )
+    );
+  });
 
-    const handleSelectNode = (event: CustomEvent) => {
-      const { messageId } = event.detail;
-      const node = nodes.find(n => n.data.messageId === messageId);
-      if (node) {
-        setSelectedNodeIds(new Set([node.id]));
-        setLastClickedNodeId(node.id);
-        
-        // Dispatch event to update preview window selection
-        const selectionEvent = new CustomEvent("nodeSelection", {
-          detail: { selectedMessageIds: [messageId] },
-        });
-        window.dispatchEvent(selectionEvent);
-      }
-    };
+  useAppEvent("selectNode", ({ messageId }) => {
+    const node = nodes.find(n => n.data.messageId === messageId);
+    if (node) {
+      setSelectedNodeIds(new Set([node.id]));
+      setLastClickedNodeId(node.id);
+      
+      // Dispatch event to update preview window selection
+      eventBus.emit("nodeSelection", { selectedMessageIds: [messageId] });
+    }
+  });
 
-    const handleEnterTestMode = () => {
-      setIsTestMode(true);
-    };
+  useAppEvent("enterTestMode", () => {
+    setIsTestMode(true);
+  });
 
-    const handleExitTestMode = () => {
-      setIsTestMode(false);
-    };
+  useAppEvent("exitTestMode", () => {
+    setIsTestMode(false);
+  });
 
-    const handleOpenEditWindow = (event: CustomEvent) => {
-      const { messageId } = event.detail;
-      setEditingMessageId(messageId);
-      
-      // Store the original component data for potential cancellation
-      const node = nodes.find(n => n.data.messageId === messageId);
-      if (node) {
-        const component = components.get(node.data.componentId);
-        if (component) {
-          setOriginalComponentData(JSON.parse(JSON.stringify(component))); // Deep copy
-        }
+  useAppEvent("openEditWindow", ({ messageId }) => {
+    setEditingMessageId(messageId);
+    
+    // Store the original component data for potential cancellation
+    const node = nodes.find(n => n.data.messageId === messageId);
+    if (node) {
+      const component = components.get(node.data.componentId);
+      if (component) {
+        setOriginalComponentData(JSON.parse(JSON.stringify(component))); // Deep copy
       }
-    };
-
-    window.addEventListener("updateNodeContent", handleUpdateNodeContent as EventListener);
-    window.addEventListener("selectNode", handleSelectNode as EventListener);
-    window.addEventListener("enterTestMode", handleEnterTestMode as EventListener);
-    window.addEventListener("exitTestMode", handleExitTestMode as EventListener);
-    window.addEventListener("openEditWindow", handleOpenEditWindow as EventListener);
+    }
+  });
+
+  // Diff status per node on the canvas - component changes win over moves
+  const nodeDiffStatus = useMemo(() => {
+    const statuses = new Map<string, string>();
+    if (!flowDiff) return statuses;
+
+    flowDiff.nodes.forEach(change => statuses.set(change.nodeId, change.status));
+    flowDiff.components.forEach(change => {
+      nodes
+        .filter(node => node.data.componentId === change.componentId)
+        .forEach(node => statuses.set(node.id, change.status));
+    });
+    return statuses;
+  }, [flowDiff, nodes]);
 
-    return () => {
-      window.removeEventListener("updateNodeContent", handleUpdateNodeContent as EventListener);
-      window.removeEventListener("selectNode", handleSelectNode as EventListener);
-      window.removeEventListener("enterTestMode", handleEnterTestMode as EventListener);
-      window.removeEventListener("exitTestMode", handleExitTestMode as EventListener);
-      window.removeEventListener("openEditWindow", handleOpenEditWindow as EventListener);
-    };
-  }, [setNodes, nodes]);
+  // Edges with route labels and diff styling applied for display only (not saved)
+  const displayEdges = useMemo(() => {
+    const statusByEndpoints = new Map(
+      (flowDiff?.edges ?? []).map(change => [`${change.source}->${change.target}`, change.status])
+    );
+    const pathSteps = new Set(
+      previewedPath.nodeIds.slice(1).map((nodeId, index) => `${previewedPath.nodeIds[index]}->${nodeId}`)
+    );
+    return edges.map(edge => {
+      const status = statusByEndpoints.get(`${edge.source}->${edge.target}`);
+      const route = getEdgeRoute(edge);
+      const sourceNode = route ? nodes.find(node => node.id === edge.source) : undefined;
+      const label = route ? routeLabel(route, sourceNode && components.get(sourceNode.data.componentId)) : undefined;
+      const onPath = pathSteps.has(`${edge.source}->${edge.target}`);
+      if (!status && !label && !onPath) return edge;
+
+      const classNames = [status ? `edge-diff-${status}` : "", onPath ? "edge-preview-path" : ""].filter(Boolean);
+      return {
+        ...edge,
+        ...(classNames.length > 0 ? { className: classNames.join(" ") } : {}),
+        ...(label ? {
+          label,
+          labelStyle: { fill: "#003250", fontSize: 12 },
+          labelBgStyle: { fill: "#FFF7F1", stroke: "#E9DDD3" },
+          labelBgPadding: [6, 3] as [number, number],
+          labelBgBorderRadius: 4,
+        } : {}),
+      };
+    });
+  }, [flowDiff, previewedPath, edges, nodes, components]);
+
+  const problemCounts = useMemo(() => {
+    const problems = validateFlow({ nodes, edges, components });
+    const errors = problems.filter(problem => problem.severity === "error").length;
+    return { errors, warnings: problems.length - errors };
+  }, [nodes, edges, components]);
+
+  // Center the canvas on a component's node
+  const focusComponent = useCallback((componentId: string) => {
+    const node = nodes.find(item => item.data.componentId === componentId);
+    if (node && flowInstance) {
+      flowInstance.fitView({ nodes: [{ id: node.id }], duration: 400, maxZoom: 1.2 });
+    }
+  }, [nodes, flowInstance]);
 
   // CardNode component defined inside FlowCanvas to access state
   function CardNode({ data, id }: NodeProps) {
@@ -845,12 +677,9 @@ export default function FlowCanvas() {
           const selectedMessageIds = rangeIds.map(nodeId => {
             const node = nodes.find(n => n.id === nodeId);
             return node?.data.messageId;
-          }).filter(Boolean);
+          }).filter((messageId): messageId is string => Boolean(messageId));
           
-          const event = new CustomEvent("nodeSelection", {
-            detail: { selectedMessageIds },
-          });
-          window.dispatchEvent(event);
+          eventBus.emit("nodeSelection", { selectedMessageIds });
         }
       } else if (e.metaKey || e.ctrlKey) {
         // Cmd/Ctrl + click for multi-select
@@ -869,29 +698,20 @@ export default function FlowCanvas() {
         const selectedMessageIds = Array.from(newSelection).map(nodeId => {
           const node = nodes.find(n => n.id === nodeId);
           return node?.data.messageId;
-        }).filter(Boolean);
+        }).filter((messageId): messageId is string => Boolean(messageId));
         
-        const event = new CustomEvent("nodeSelection", {
-          detail: { selectedMessageIds },
-        });
-        window.dispatchEvent(event);
+        eventBus.emit("nodeSelection", { selectedMessageIds });
               } else {
           // Regular click - update last clicked node and clear selection
           setLastClickedNodeId(id);
           setSelectedNodeIds(new Set([id]));
           
           // Dispatch event to update preview window selection
-          const event = new CustomEvent("nodeSelection", {
-            detail: { selectedMessageIds: [d.messageId] },
-          });
-          window.dispatchEvent(event);
+          eventBus.emit("nodeSelection", { selectedMessageIds: [d.messageId] });
       }
 
       // Dispatch custom event to scroll to corresponding message
-      const event = new CustomEvent("scrollToMessage", {
-        detail: { messageId: d.messageId },
-      });
-      window.dispatchEvent(event);
+      eventBus.emit("scrollToMessage", { messageId: d.messageId });
     };
 
     const handleNodeRightClick = (e: React.MouseEvent) => {
@@ -913,10 +733,7 @@ export default function FlowCanvas() {
       if (isTestMode) return;
       
       // Dispatch custom event to highlight corresponding message
-      const event = new CustomEvent("highlightMessage", {
-        detail: { messageId: d.messageId },
-      });
-      window.dispatchEvent(event);
+      eventBus.emit("highlightMessage", { messageId: d.messageId });
     };
 
     const handleNodeMouseLeave = () => {
@@ -924,10 +741,7 @@ export default function FlowCanvas() {
       if (isTestMode) return;
       
       // Dispatch custom event to unhighlight corresponding message
-      const event = new CustomEvent("unhighlightMessage", {
-        detail: { messageId: d.messageId },
-      });
-      window.dispatchEvent(event);
+      eventBus.emit("unhighlightMessage", { messageId: d.messageId });
     };
 
     // Check if this node is an orphan (no incoming edges)
@@ -935,10 +749,11 @@ export default function FlowCanvas() {
     const hasOutgoingEdges = edges.some(edge => edge.source === id);
     const isSelected = selectedNodeIds.has(id);
     const isSearchResult = searchResults.has(id);
+    const diffStatus = nodeDiffStatus.get(id);
     
     return (
       <div
-        className={`card-node ${isHighlighted ? "node-highlighted" : ""} ${isOrphan && !hasOutgoingEdges ? "node-orphan" : ""} ${isSelected ? "node-selected" : ""} ${isSearchResult ? "node-search-result" : ""}`}
+        className={`card-node ${isHighlighted ? "node-highlighted" : ""} ${isOrphan && !hasOutgoingEdges ? "node-orphan" : ""} ${isSelected ? "node-selected" : ""} ${isSearchResult ? "node-search-result" : ""} ${diffStatus ? `node-diff-${diffStatus}` : ""}`}
         onClick={handleNodeClick}
         onContextMenu={handleNodeRightClick}
         onMouseEnter={handleNodeMouseEnter}
@@ -957,38 +772,8 @@ export default function FlowCanvas() {
           {component.slug}
         </div>
         {(() => {
-          let content = "";
-          let displayText = "";
-          
-          switch (component.uiToolType) {
-            
-            case "question":
-              content = component.content.question?.text || "New Question";
-              break;
-            case "message":
-              content = component.content.message?.text || "New Message";
-              break;
-            case "form":
-              const formFields = component.content.form?.fields || [];
-              content = formFields.length > 0 ? `${formFields.length} field${formFields.length === 1 ? '' : 's'}` : "Form Component";
-              break;
-            case "freeChat":
-              content = component.content.freeChat?.text || "Free Chat";
-              break;
-            case "accordion":
-              content = component.content.accordion?.title || "Accordion";
-              break;
-            case "intro":
-              content = component.content.intro?.text || "Intro";
-              break;
-            case "multiSelect":
-              content = component.content.multiSelect?.text || "Multi Select";
-              break;
-            default:
-              content = "Component";
-          }
-          
-          displayText = content.length > 50 ? content.substring(0, 50) + "..." : content;
+          const content = toolTypeRegistry.summary(component);
+          const displayText = content.length > 50 ? content.substring(0, 50) + "..." : content;
           
           return (
           <div className="card-node__desc" style={{
@@ -1026,19 +811,7 @@ export default function FlowCanvas() {
               </span>
             )}
             {/* Check if component has branch routing logic */}
-            {(() => {
-              // Check for branch routing in form content
-              const hasFormBranchRouting = component.content.form && 
-                (component.content as any).branchRouting && 
-                Object.keys((component.content as any).branchRouting).length > 0;
-              
-              // Check for branch routing in multiSelect content
-              const hasMultiSelectBranchRouting = component.content.multiSelect && 
-                (component.content as any).branchRouting && 
-                Object.keys((component.content as any).branchRouting).length > 0;
-              
-              return hasFormBranchRouting || hasMultiSelectBranchRouting;
-                         })() && (
+            {edges.some(edge => edge.source === id && getEdgeRoute(edge)) && (
                <span style={{
                  fontSize: "12px",
                  color: "#FA8072",
@@ -1085,8 +858,7 @@ export default function FlowCanvas() {
       style={{ width: isTestMode ? "100%" : "calc(100% - 400px)", height: "100vh", position: "relative" }}
       onClick={() => {
         if (isTestMode) {
-          const event = new CustomEvent("showExitTestWarning");
-          window.dispatchEvent(event);
+          eventBus.emit("showExitTestWarning");
         }
       }}
     >
@@ -1106,14 +878,21 @@ export default function FlowCanvas() {
       )}
       <ReactFlow
         nodes={nodes}
-        edges={edges}
+        edges={displayEdges}
+        onInit={setFlowInstance}
         onNodesChange={onNodesChangeCustom}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
+        onConnectEnd={onConnectEnd}
         onEdgeClick={(event, edge) => {
           event.preventDefault();
           setEdges(prev => prev.filter(e => e.id !== edge.id));
         }}
+        onEdgeContextMenu={(event, edge) => {
+          event.preventDefault();
+          if (isTestMode) return;
+          setEdgeRouteMenu({ edgeId: edge.id, x: event.clientX, y: event.clientY });
+        }}
         nodeTypes={nodeTypes}
         nodesFocusable={false}
         nodesConnectable={true}
@@ -1138,10 +917,7 @@ export default function FlowCanvas() {
           }
           
           // Dispatch event to clear preview window selection
-          const event = new CustomEvent("nodeSelection", {
-            detail: { selectedMessageIds: [] },
-          });
-          window.dispatchEvent(event);
+          eventBus.emit("nodeSelection", { selectedMessageIds: [] });
         }}
       >
         <MiniMap zoomable pannable />
@@ -1165,6 +941,9 @@ export default function FlowCanvas() {
         gap: "20px",
         boxShadow: "0 2px 4px rgba(0, 0, 0, 0.1)",
       }}>
+        {/* Project Switcher */}
+        <ProjectSwitcher />
+
         {/* Branch Dropdown */}
         <div style={{ position: "relative" }}>
           <div style={{
@@ -1266,8 +1045,14 @@ export default function FlowCanvas() {
             Mock Dataset
           </div>
           <select 
-            value={selectedUser}
-            onChange={(e) => setSelectedUser(e.target.value)}
+            value={selectedPersonaId}
+            onChange={(e) => {
+              if (e.target.value === "manage") {
+                setShowPersonaEditor(true);
+              } else {
+                setSelectedUser(e.target.value);
+              }
+            }}
             style={{
               padding: "8px 12px",
               border: "1px solid #E9DDD3",
@@ -1279,17 +1064,154 @@ export default function FlowCanvas() {
               minWidth: "200px",
             }}
           >
-            {mockUsers.map(user => (
+            {personas.length === 0 && <option value="">No personas</option>}
+            {personas.map(user => (
               <option key={user.id} value={user.id}>
                 {user.name} ({user.age}) - {user.description}
               </option>
             ))}
+            <option value="manage">Edit personas…</option>
           </select>
         </div>
 
+        {/* Run the conversation as the selected persona */}
+        <button
+          onClick={() => setShowPersonaRuns(!showPersonaRuns)}
+          title="Run the conversation with this persona's answers"
+          style={{
+            padding: "8px 16px",
+            border: "1px solid #E9DDD3",
+            borderRadius: "6px",
+            fontSize: "14px",
+            background: showPersonaRuns ? "#F2E8E0" : "white",
+            cursor: "pointer",
+            outline: "none",
+            color: "#003250",
+            fontWeight: "500",
+            alignSelf: "flex-end",
+          }}
+        >
+          ▶ Run
+        </button>
+
         {/* Spacer to push buttons to the right */}
         <div style={{ flex: 1 }}></div>
         
+        {/* Undo/redo and the edit history */}
+        <UndoRedoControls
+          historyOpen={showEditHistory}
+          onToggleHistory={() => setShowEditHistory(!showEditHistory)}
+        />
+
+        {/* Save status - click to save now */}
+        <SaveIndicator />
+
+        <SessionRecorderControls />
+
+        {/* Paths Button - Right justified */}
+        <button
+          onClick={() => setShowPathExplorer(!showPathExplorer)}
+          style={{
+            padding: "8px 16px",
+            border: "1px solid #E9DDD3",
+            borderRadius: "6px",
+            fontSize: "14px",
+            background: showPathExplorer ? "#F2E8E0" : "white",
+            cursor: "pointer",
+            outline: "none",
+            color: "#003250",
+            fontWeight: "500",
+          }}
+        >
+          Paths
+        </button>
+
+        {/* Problems Button - Right justified */}
+        <button
+          onClick={() => setShowProblemsPanel(!showProblemsPanel)}
+          title={`${problemCounts.errors} errors, ${problemCounts.warnings} warnings`}
+          style={{
+            padding: "8px 16px",
+            border: "1px solid #E9DDD3",
+            borderRadius: "6px",
+            fontSize: "14px",
+            background: showProblemsPanel ? "#F2E8E0" : "white",
+            cursor: "pointer",
+            outline: "none",
+            color: "#003250",
+            fontWeight: "500",
+            display: "flex",
+            alignItems: "center",
+            gap: "6px",
+          }}
+        >
+          Problems
+          {problemCounts.errors > 0 && (
+            <span style={{ background: "#F16B68", color: "white", borderRadius: "10px", padding: "0 6px", fontSize: "12px" }}>
+              {problemCounts.errors}
+            </span>
+          )}
+          {problemCounts.warnings > 0 && (
+            <span style={{ background: "#E5A84B", color: "white", borderRadius: "10px", padding: "0 6px", fontSize: "12px" }}>
+              {problemCounts.warnings}
+            </span>
+          )}
+        </button>
+
+        {/* Compare Button - Right justified */}
+        <button
+          onClick={() => setShowDiffPanel(!showDiffPanel)}
+          style={{
+            padding: "8px 16px",
+            border: "1px solid #E9DDD3",
+            borderRadius: "6px",
+            fontSize: "14px",
+            background: showDiffPanel ? "#F2E8E0" : "white",
+            cursor: "pointer",
+            outline: "none",
+            color: "#003250",
+            fontWeight: "500",
+          }}
+        >
+          Compare
+        </button>
+
+        {/* Merge Button - Right justified */}
+        <button
+          onClick={() => setShowMergePanel(true)}
+          style={{
+            padding: "8px 16px",
+            border: "1px solid #E9DDD3",
+            borderRadius: "6px",
+            fontSize: "14px",
+            background: "white",
+            cursor: "pointer",
+            outline: "none",
+            color: "#003250",
+            fontWeight: "500",
+          }}
+        >
+          Merge
+        </button>
+
+        {/* History Button - Right justified */}
+        <button
+          onClick={() => setShowHistoryPanel(true)}
+          style={{
+            padding: "8px 16px",
+            border: "1px solid #E9DDD3",
+            borderRadius: "6px",
+            fontSize: "14px",
+            background: "white",
+            cursor: "pointer",
+            outline: "none",
+            color: "#003250",
+            fontWeight: "500",
+          }}
+        >
+          History
+        </button>
+
         {/* Images Button - Right justified */}
         <button
           onClick={() => setShowImagesPopup(true)}
@@ -1358,96 +1280,88 @@ export default function FlowCanvas() {
               componentsObject[key] = component as any;
             });
 
-            // Get current messages from conversation preview
-            const getCurrentMessages = () => {
-              return new Promise<any[]>((resolve) => {
-                const event = new CustomEvent("getCurrentMessages", {
-                  detail: { callback: resolve },
-                });
-                window.dispatchEvent(event);
-              });
-            };
-
-            // Get messages and then copy state
-            getCurrentMessages().then(messages => {
-              // Clean up nodes - remove measured property
-              const cleanNodes = nodes.map(node => ({
-                id: node.id,
-                type: node.type,
-                position: node.position,
-                data: node.data
-              }));
-
-              // Clean up components - only include active tool type content and banner add-on
-              const cleanComponents: Record<string, any> = {};
-              components.forEach((component, key) => {
-                                      const cleanComponent = {
-                        id: component.id,
-                        name: component.name,
-                        slug: component.slug,
-                        uiToolType: component.uiToolType,
-                        content: {
-                          [component.uiToolType]: component.content[component.uiToolType]
-                        },
-                        aiGenerated: component.aiGenerated,
-                        createdAt: component.createdAt,
-                        updatedAt: component.updatedAt
-                      };
-                
-                // Add banner data if it exists
-                if (component.content.banner?.text) {
-                  cleanComponent.content.banner = component.content.banner;
-                }
-                
-                // Add text data if it exists
-                if ((component.content as any).text?.text) {
-                  cleanComponent.content.text = (component.content as any).text;
-                }
-                
-                cleanComponents[key] = cleanComponent;
-              });
+            // Clean up nodes - remove measured property
+            const cleanNodes = nodes.map(node => ({
+              id: node.id,
+              type: node.type,
+              position: node.position,
+              data: node.data
+            }));
 
-              // Clean up messages - remove extra fields
-              const cleanMessages = (messages || []).map(message => {
-                const cleanMessage: any = {
-                  id: message.id,
-                  sender: message.sender,
-                  content: message.content,
-                  messageId: message.messageId,
-                  componentId: message.componentId,
-                  uiToolType: message.uiToolType,
-                };
-                
-                // Only add fields that have actual content
-                if (message.suggestions && message.suggestions.length > 0) {
-                  cleanMessage.suggestions = message.suggestions;
-                }
-                if (message.image) {
-                  cleanMessage.image = message.image;
-                }
-                if (message.multiSelectOptions && message.multiSelectOptions.length > 0) {
-                  cleanMessage.multiSelectOptions = message.multiSelectOptions;
-                }
-                if (message.maxSelection) {
-                  cleanMessage.maxSelection = message.maxSelection;
-                }
-                
-                return cleanMessage;
-              });
+            // Clean up components - only include active tool type content and banner add-on
+            const cleanComponents: Record<string, any> = {};
+            components.forEach((component, key) => {
+                                    const cleanComponent = {
+                      id: component.id,
+                      name: component.name,
+                      slug: component.slug,
+                      uiToolType: component.uiToolType,
+                      content: {
+                        [component.uiToolType]: component.content[component.uiToolType]
+                      },
+                      messageId: component.messageId,
+                      variable: component.variable,
+                      unresolvedRoutes: component.unresolvedRoutes,
+                      aiGenerated: component.aiGenerated,
+                      createdAt: component.createdAt,
+                      updatedAt: component.updatedAt
+                    };
+              
+              // Add banner data if it exists
+              if (component.content.banner?.text) {
+                cleanComponent.content.banner = component.content.banner;
+              }
+              
+              // Add text data if it exists
+              if ((component.content as any).text?.text) {
+                cleanComponent.content.text = (component.content as any).text;
+              }
+              
+              cleanComponents[key] = cleanComponent;
+            });
 
-              const currentState = {
-                nodes: cleanNodes,
-                edges,
-                components: cleanComponents,
-                messages: cleanMessages,
-                orphanMessageIds: [],
-                lastSaved: new Date().toISOString(),
+            // Clean up messages - remove extra fields
+            const cleanMessages = (messages || []).map(message => {
+              const cleanMessage: any = {
+                id: message.id,
+                sender: message.sender,
+                content: message.content,
+                messageId: message.messageId,
+                componentId: message.componentId,
+                uiToolType: message.uiToolType,
               };
+              
+              // Only add fields that have actual content
+              if (message.suggestions && message.suggestions.length > 0) {
+                cleanMessage.suggestions = message.suggestions;
+              }
+              if (message.image) {
+                cleanMessage.image = message.image;
+              }
+              if (message.multiSelectOptions && message.multiSelectOptions.length > 0) {
+                cleanMessage.multiSelectOptions = message.multiSelectOptions;
+              }
+              if (message.maxSelection) {
+                cleanMessage.maxSelection = message.maxSelection;
+              }
+              
+              return cleanMessage;
+            });
 
-              const jsonString = JSON.stringify(currentState, null, 2);
-              navigator.clipboard.writeText(jsonString).then(() => {
-                alert('Current screen state copied to clipboard!');
-              });
+            const currentState = {
+              version: CURRENT_STATE_VERSION,
+              nodes: cleanNodes,
+              edges,
+              components: cleanComponents,
+              messages: cleanMessages,
+              orphanMessageIds: [],
+              personas,
+              lastSaved: new Date().toISOString(),
+            };
+
+            const jsonString = JSON.stringify(currentState, null, 2);
+            navigator.clipboard.writeText(jsonString).then(() => {
+              alert('Current screen state copied to clipboard!');
             });
           }}
           style={{
@@ -1491,8 +1405,8 @@ export default function FlowCanvas() {
               setComponents(new Map());
               
               // Clear messages in conversation preview
-              const event = new CustomEvent("clearAllMessages");
-              window.dispatchEvent(event);
+              setMessages([]);
+              setOrphanMessageIds([]);
               
               alert('Canvas cleared successfully!');
             }
@@ -1641,6 +1555,27 @@ export default function FlowCanvas() {
         </div>
       )}
 
+      {/* Edge Route Menu */}
+      {edgeRouteMenu && (() => {
+        const edge = edges.find(item => item.id === edgeRouteMenu.edgeId);
+        if (!edge) return null;
+        const sourceNode = nodes.find(node => node.id === edge.source);
+        return (
+          <EdgeRouteMenu
+            key={edge.id}
+            edge={edge}
+            component={sourceNode && components.get(sourceNode.data.componentId)}
+            x={edgeRouteMenu.x}
+            y={edgeRouteMenu.y}
+            onSave={(route, primary) => {
+              setEdges(prev => setPrimaryEdge(setEdgeRoute(prev, edge.id, route), edge.id, primary));
+              setEdgeRouteMenu(null);
+            }}
+            onClose={() => setEdgeRouteMenu(null)}
+          />
+        );
+      })()}
+
       {/* Context Menu */}
       {contextMenu && (
         <div 
@@ -1685,7 +1620,7 @@ export default function FlowCanvas() {
                       // Initialize all add-on states based on existing component data
                       setBannerAddOn(!!component.content.banner?.text);
                       setTextAddOn(!!(component.content as any).text?.text);
-                      setBranchRoutingAddOn(!!(component.content as any).branchRouting && Object.keys((component.content as any).branchRouting).length > 0);
+                      setBranchRoutingAddOn(edges.some(edge => edge.source === node.id && getEdgeRoute(edge)));
                       setMoveOnButtonAddOn(!!(component.content as any).moveOnButton?.text);
                       setCelebrationModalAddOn(!!(component.content as any).celebrationModal?.title);
                       setAiGenerated(!!component.aiGenerated);
@@ -1717,6 +1652,38 @@ export default function FlowCanvas() {
             >
               Edit
             </button>
+            <button
+              onClick={() => {
+                const node = nodes.find(n => n.data.messageId === contextMenu.rightClickedMessageId);
+                if (node) {
+                  const path = pathThrough(nodes, edges, node.id);
+                  setPreviewPath(path.length > 0 ? path : null);
+                }
+                setContextMenu(null);
+              }}
+              title="Show the conversation through this component in the preview"
+              style={{
+                width: "100%",
+                padding: "8px 12px",
+                border: "none",
+                background: "none",
+                textAlign: "left",
+                cursor: "pointer",
+                fontSize: "14px",
+                color: "#003250",
+                fontWeight: "600",
+                borderBottom: "1px solid #E9DDD3",
+                outline: "none",
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.background = "#F5F5F5";
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.background = "none";
+              }}
+            >
+              Preview path through here
+            </button>
             <button
               onClick={() => {
                 // Get all selected message IDs
@@ -1782,8 +1749,7 @@ export default function FlowCanvas() {
                 onClick={() => {
                   setEditingMessageId(null);
                   // Dispatch event to clear highlight in preview
-                  const event = new CustomEvent("editWindowClose");
-                  window.dispatchEvent(event);
+                  eventBus.emit("editWindowClose");
                 }}
                 style={{
                     position: "absolute",
@@ -1831,13 +1797,10 @@ export default function FlowCanvas() {
                           setComponents(prev => new Map(prev).set(component.id, updatedComponent));
                           
                           // Dispatch event to update preview
-                          const event = new CustomEvent("updateComponentData", {
-                            detail: { 
-                              messageId: editingMessageId, 
-                              componentData: updatedComponent 
-                            },
+                          eventBus.emit("updateComponentData", {
+                            messageId: editingMessageId, 
+                            componentData: updatedComponent 
                           });
-                          window.dispatchEvent(event);
                         }
                       }
                     }}
@@ -1886,13 +1849,10 @@ export default function FlowCanvas() {
                           setComponents(prev => new Map(prev).set(component.id, updatedComponent));
                           
                           // Dispatch event to update preview
-                          const event = new CustomEvent("updateComponentData", {
-                            detail: { 
-                              messageId: editingMessageId, 
-                              componentData: updatedComponent 
-                            },
+                          eventBus.emit("updateComponentData", {
+                            messageId: editingMessageId, 
+                            componentData: updatedComponent 
                           });
-                          window.dispatchEvent(event);
                         }
                       }
                     }}
@@ -1983,46 +1943,26 @@ export default function FlowCanvas() {
                             const component = components.get(node.data.componentId);
                             if (component) {
                               const newUiToolType = option.value as UIToolType;
-                              let updatedComponent = {
+                              const updatedComponent = {
                                 ...component,
                                 uiToolType: newUiToolType,
+                                content: toolTypeRegistry.contentFor(component, newUiToolType),
                                 updatedAt: new Date()
                               };
-                              
-                              // Initialize form content if switching to form type
-                              if (newUiToolType === "form" && !component.content.form) {
-                                updatedComponent = {
-                                  ...updatedComponent,
-                                  content: {
-                                    ...component.content,
-                                    form: {
-                                      fields: [],
-                                      title: "",
-                                      sendButtonText: "Continue"
-                                    }
-                                  }
-                                };
-                              }
                               setComponents(prev => new Map(prev).set(component.id, updatedComponent));
                               
                               // Dispatch component data update first
-                              const componentDataEvent = new CustomEvent("updateComponentData", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  componentData: updatedComponent 
-                                },
+                              eventBus.emit("updateComponentData", {
+                                messageId: editingMessageId, 
+                                componentData: updatedComponent 
                               });
-                              window.dispatchEvent(componentDataEvent);
                               
                               // Then dispatch event to update preview with new UI tool type
-                              const event = new CustomEvent("updateMessage", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  uiToolType: newUiToolType, 
-                                  showDropdown: false 
-                                },
+                              eventBus.emit("updateMessage", {
+                                messageId: editingMessageId, 
+                                uiToolType: newUiToolType, 
+                                showDropdown: false 
                               });
-                              window.dispatchEvent(event);
                             }
                           }
                           setUiToolTypeDropdownOpen(false);
@@ -2174,13 +2114,10 @@ export default function FlowCanvas() {
                           };
                           
                           // Dispatch event to update component data immediately
-                          const componentEvent = new CustomEvent("updateComponentData", {
-                            detail: { 
-                              messageId: editingMessageId, 
-                              componentData: updatedComponent
-                            },
+                          eventBus.emit("updateComponentData", {
+                            messageId: editingMessageId, 
+                            componentData: updatedComponent
                           });
-                          window.dispatchEvent(componentEvent);
                         }
                       }
                     }}
@@ -2223,13 +2160,10 @@ export default function FlowCanvas() {
                           };
                           
                           // Dispatch event to update component data immediately
-                          const componentEvent = new CustomEvent("updateComponentData", {
-                            detail: { 
-                              messageId: editingMessageId, 
-                              componentData: updatedComponent
-                            },
+                          eventBus.emit("updateComponentData", {
+                            messageId: editingMessageId, 
+                            componentData: updatedComponent
                           });
-                          window.dispatchEvent(componentEvent);
                         }
                       }
                     }}
@@ -2292,13 +2226,10 @@ export default function FlowCanvas() {
                             };
                             
                             // Dispatch event to update preview immediately
-                            const event = new CustomEvent("updateComponentData", {
-                              detail: { 
-                                messageId: editingMessageId, 
-                                componentData: updatedComponent 
-                              },
+                            eventBus.emit("updateComponentData", {
+                              messageId: editingMessageId, 
+                              componentData: updatedComponent 
                             });
-                            window.dispatchEvent(event);
                           }
                         }
                       }
@@ -2348,13 +2279,10 @@ export default function FlowCanvas() {
                             };
                             
                             // Dispatch event to update preview immediately
-                            const event = new CustomEvent("updateComponentData", {
-                              detail: { 
-                                messageId: editingMessageId, 
-                                componentData: updatedComponent 
-                              },
+                            eventBus.emit("updateComponentData", {
+                              messageId: editingMessageId, 
+                              componentData: updatedComponent 
                             });
-                            window.dispatchEvent(event);
                           }
                         }
                       }
@@ -2376,18 +2304,239 @@ export default function FlowCanvas() {
                 if (!node) return null;
                   const component = components.get(node.data.componentId);
                 const uiToolType = component?.uiToolType || "message";
-                
-                // Show "Coming Soon" screen when AI-generated is toggled on
-                if (aiGenerated) {
-                  return (
-                    <>
-                      {/* Show banner and text fields above the Coming Soon window if they're checked */}
-                      {bannerAddOn && (
-                        <>
-                          <label style={{ fontWeight: "700" }}>Banner Title:</label>
-                          <input
-                            type="text"
-                            value={component?.content.banner?.text || ""}
+
+                // Move on button and celebration add-ons, the same for every tool type
+                const addOnSections = (
+                  <>
+                    {/* Move On Button Section - only show when checked */}
+                    {moveOnButtonAddOn && (
+                      <div style={{
+                        backgroundColor: "#F2E8E0",
+                        border: "1px solid #E9DDD3",
+                        padding: "16px",
+                        marginTop: "16px",
+                        marginLeft: "-20px",
+                        marginRight: "-20px"
+                      }}>
+                        <label style={{ fontWeight: "700" }}>Move On Button Text:</label>
+                        <input
+                          type="text"
+                          value={(component?.content as any)?.moveOnButton?.text || ""}
+                          onChange={(e) => {
+                            if (node) {
+                              const component = components.get(node.data.componentId);
+                              if (component) {
+                                const updatedComponent = {
+                                  ...component,
+                                  content: {
+                                    ...component.content,
+                                    moveOnButton: {
+                                      text: e.target.value
+                                    }
+                                  },
+                                  updatedAt: new Date()
+                                };
+                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+
+                                // Dispatch event to update component data
+                                eventBus.emit("updateComponentData", {
+                                  messageId: editingMessageId, 
+                                  componentData: updatedComponent 
+                                });
+                              }
+                            }
+                          }}
+                          placeholder="Enter button text (e.g., 'Continue', 'Next', 'Submit')..."
+                          style={{
+                            width: "100%",
+                            padding: "8px 12px",
+                            border: "1px solid #E9DDD3",
+                            borderRadius: "8px",
+                            fontSize: "14px",
+                            fontFamily: "inherit",
+                            background: "white",
+                            outline: "none",
+                            marginTop: "8px",
+                            boxSizing: "border-box"
+                          }}
+                          onFocus={(e) => {
+                            e.target.style.border = "2px solid #003250";
+                          }}
+                          onBlur={(e) => {
+                            e.target.style.border = "1px solid #E9DDD3";
+                          }}
+                        />
+                      </div>
+                    )}
+
+                    {/* Celebration Modal Section - only show when checked */}
+                    {celebrationModalAddOn && (
+                      <div style={{
+                        backgroundColor: "#F2E8E0",
+                        border: "1px solid #E9DDD3",
+                        padding: "16px",
+                        marginTop: "16px",
+                        marginLeft: "-20px",
+                        marginRight: "-20px"
+                      }}>
+                        <label style={{ fontWeight: "700" }}>Title:</label>
+                        <input
+                          type="text"
+                          value={(component?.content as any)?.celebrationModal?.title || ""}
+                          onChange={(e) => {
+                            if (node) {
+                              const component = components.get(node.data.componentId);
+                              if (component) {
+                                const updatedComponent = {
+                                  ...component,
+                                  content: {
+                                    ...component.content,
+                                    celebrationModal: {
+                                      ...(component.content as any).celebrationModal,
+                                      title: e.target.value
+                                    }
+                                  },
+                                  updatedAt: new Date()
+                                };
+                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+
+                                // Dispatch event to update component data
+                                eventBus.emit("updateComponentData", {
+                                  messageId: editingMessageId, 
+                                  componentData: updatedComponent 
+                                });
+                              }
+                            }
+                          }}
+                          placeholder="Enter celebration modal title..."
+                          style={{
+                            width: "100%",
+                            padding: "8px 12px",
+                            border: "1px solid #E9DDD3",
+                            borderRadius: "8px",
+                            fontSize: "14px",
+                            fontFamily: "inherit",
+                            background: "white",
+                            outline: "none",
+                            marginTop: "8px",
+                            marginBottom: "16px",
+                            boxSizing: "border-box"
+                          }}
+                          onFocus={(e) => {
+                            e.target.style.border = "2px solid #003250";
+                          }}
+                          onBlur={(e) => {
+                            e.target.style.border = "1px solid #E9DDD3";
+                          }}
+                        />
+
+                        <label style={{ fontWeight: "700" }}>Content:</label>
+                        <textarea
+                          value={(component?.content as any)?.celebrationModal?.content || ""}
+                          onChange={(e) => {
+                            if (node) {
+                              const component = components.get(node.data.componentId);
+                              if (component) {
+                                const updatedComponent = {
+                                  ...component,
+                                  content: {
+                                    ...component.content,
+                                    celebrationModal: {
+                                      ...(component.content as any).celebrationModal,
+                                      content: e.target.value
+                                    }
+                                  },
+                                  updatedAt: new Date()
+                                };
+                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+
+                                // Dispatch event to update component data
+                                eventBus.emit("updateComponentData", {
+                                  messageId: editingMessageId, 
+                                  componentData: updatedComponent 
+                                });
+                              }
+                            }
+                          }}
+                          placeholder="Enter celebration modal content..."
+                          style={{
+                            width: "100%",
+                            minHeight: "80px",
+                            padding: "12px",
+                            border: "1px solid #E9DDD3",
+                            borderRadius: "8px",
+                            fontSize: "14px",
+                            fontFamily: "inherit",
+                            marginTop: "8px",
+                            marginBottom: "16px",
+                            resize: "vertical",
+                            boxSizing: "border-box",
+                            background: "white",
+                            outline: "none"
+                          }}
+                          onFocus={(e) => {
+                            e.target.style.border = "2px solid #003250";
+                          }}
+                          onBlur={(e) => {
+                            e.target.style.border = "1px solid #E9DDD3";
+                          }}
+                        />
+
+                        <label style={{ fontWeight: "700" }}>Description:</label>
+                        <input
+                          type="text"
+                          value={(component?.content as any)?.celebrationModal?.description || ""}
+                          onChange={(e) => {
+                            if (node) {
+                              const component = components.get(node.data.componentId);
+                              if (component) {
+                                const updatedComponent = {
+                                  ...component,
+                                  content: {
+                                    ...component.content,
+                                    celebrationModal: {
+                                      ...(component.content as any).celebrationModal,
+                                      description: e.target.value
+                                    }
+                                  },
+                                  updatedAt: new Date()
+                                };
+                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+
+                                // Dispatch event to update component data
+                                eventBus.emit("updateComponentData", {
+                                  messageId: editingMessageId, 
+                                  componentData: updatedComponent 
+                                });
+                              }
+                            }
+                          }}
+                          placeholder="Enter celebration modal description..."
+                          style={{
+                            width: "100%",
+                            padding: "8px 12px",
+                            border: "1px solid #E9DDD3",
+                            borderRadius: "8px",
+                            fontSize: "14px",
+                            fontFamily: "inherit",
+                            background: "white",
+                            outline: "none",
+                            marginTop: "8px",
+                            marginBottom: "16px",
+                            boxSizing: "border-box"
+                          }}
+                          onFocus={(e) => {
+                            e.target.style.border = "2px solid #003250";
+                          }}
+                          onBlur={(e) => {
+                            e.target.style.border = "1px solid #E9DDD3";
+                          }}
+                        />
+
+                        <label style={{ fontWeight: "700" }}>Media:</label>
+                        <div style={{ position: "relative", marginTop: "8px", marginBottom: "16px" }}>
+                          <select
+                            value={(component?.content as any)?.celebrationModal?.media || ""}
                             onChange={(e) => {
                               if (node) {
                                 const component = components.get(node.data.componentId);
@@ -2396,24 +2545,216 @@ export default function FlowCanvas() {
                                     ...component,
                                     content: {
                                       ...component.content,
-                                      banner: {
-                                        text: e.target.value,
-                                        type: "default"
+                                      celebrationModal: {
+                                        ...(component.content as any).celebrationModal,
+                                        media: e.target.value
                                       }
                                     },
                                     updatedAt: new Date()
                                   };
                                   setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update preview
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
+
+                                  // Dispatch event to update component data
+                                  eventBus.emit("updateComponentData", {
+                                    messageId: editingMessageId, 
+                                    componentData: updatedComponent 
+                                  });
+                                }
+                              }
+                            }}
+                            style={{
+                              width: "100%",
+                              padding: "8px 12px",
+                              border: "1px solid #E9DDD3",
+                              borderRadius: "8px",
+                              fontSize: "14px",
+                              fontFamily: "inherit",
+                              background: "white",
+                              outline: "none",
+                              cursor: "pointer"
+                            }}
+                            onFocus={(e) => {
+                              e.target.style.border = "2px solid #003250";
+                            }}
+                            onBlur={(e) => {
+                              e.target.style.border = "1px solid #E9DDD3";
+                            }}
+                          >
+                            <option value="">Select an image...</option>
+                            {availableImages.map((image, index) => (
+                              <option key={index} value={image.value}>
+                                {image.label}
+                              </option>
+                            ))}
+                          </select>
+                          {(component?.content as any)?.celebrationModal?.media && (
+                            <div style={{
+                              position: "absolute",
+                              top: "100%",
+                              left: "0",
+                              right: "0",
+                              backgroundColor: "white",
+                              border: "1px solid #E9DDD3",
+                              borderRadius: "8px",
+                              padding: "8px",
+                              marginTop: "4px",
+                              zIndex: 10,
+                              boxShadow: "0 2px 8px rgba(0,0,0,0.1)"
+                            }}>
+                              <img
+                                src={(component?.content as any)?.celebrationModal?.media}
+                                alt="Selected"
+                                style={{
+                                  width: "100%",
+                                  height: "auto",
+                                  maxHeight: "100px",
+                                  objectFit: "contain"
+                                }}
+                              />
+                            </div>
+                          )}
+                        </div>
+
+                        <label style={{ fontWeight: "700" }}>Call to Action Button Text:</label>
+                        <input
+                          type="text"
+                          value={(component?.content as any)?.celebrationModal?.callToActionText || ""}
+                          onChange={(e) => {
+                            if (node) {
+                              const component = components.get(node.data.componentId);
+                              if (component) {
+                                const updatedComponent = {
+                                  ...component,
+                                  content: {
+                                    ...component.content,
+                                    celebrationModal: {
+                                      ...(component.content as any).celebrationModal,
+                                      callToActionText: e.target.value
+                                    }
+                                  },
+                                  updatedAt: new Date()
+                                };
+                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+
+                                // Dispatch event to update component data
+                                eventBus.emit("updateComponentData", {
+                                  messageId: editingMessageId, 
+                                  componentData: updatedComponent 
+                                });
+                              }
+                            }
+                          }}
+                          placeholder="Enter call to action button text..."
+                          style={{
+                            width: "100%",
+                            padding: "8px 12px",
+                            border: "1px solid #E9DDD3",
+                            borderRadius: "8px",
+                            fontSize: "14px",
+                            fontFamily: "inherit",
+                            background: "white",
+                            outline: "none",
+                            marginTop: "8px",
+                            marginBottom: "16px",
+                            boxSizing: "border-box"
+                          }}
+                          onFocus={(e) => {
+                            e.target.style.border = "2px solid #003250";
+                          }}
+                          onBlur={(e) => {
+                            e.target.style.border = "1px solid #E9DDD3";
+                          }}
+                        />
+
+                        <label style={{ fontWeight: "700" }}>Time to Load (milliseconds):</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={(component?.content as any)?.celebrationModal?.timeToLoad || ""}
+                          onChange={(e) => {
+                            if (node) {
+                              const component = components.get(node.data.componentId);
+                              if (component) {
+                                const updatedComponent = {
+                                  ...component,
+                                  content: {
+                                    ...component.content,
+                                    celebrationModal: {
+                                      ...(component.content as any).celebrationModal,
+                                      timeToLoad: parseInt(e.target.value) || 0
+                                    }
+                                  },
+                                  updatedAt: new Date()
+                                };
+                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+
+                                // Dispatch event to update component data
+                                eventBus.emit("updateComponentData", {
+                                  messageId: editingMessageId, 
+                                  componentData: updatedComponent 
+                                });
+                              }
+                            }
+                          }}
+                          placeholder="Enter time to load in milliseconds..."
+                          style={{
+                            width: "100%",
+                            padding: "8px 12px",
+                            border: "1px solid #E9DDD3",
+                            borderRadius: "8px",
+                            fontSize: "14px",
+                            fontFamily: "inherit",
+                            background: "white",
+                            outline: "none",
+                            marginTop: "8px",
+                            boxSizing: "border-box"
+                          }}
+                          onFocus={(e) => {
+                            e.target.style.border = "2px solid #003250";
+                          }}
+                          onBlur={(e) => {
+                            e.target.style.border = "1px solid #E9DDD3";
+                          }}
+                        />
+                      </div>
+                    )}
+                  </>
+                );
+                
+                // Show "Coming Soon" screen when AI-generated is toggled on
+                if (aiGenerated) {
+                  return (
+                    <>
+                      {/* Show banner and text fields above the Coming Soon window if they're checked */}
+                      {bannerAddOn && (
+                        <>
+                          <label style={{ fontWeight: "700" }}>Banner Title:</label>
+                          <input
+                            type="text"
+                            value={component?.content.banner?.text || ""}
+                            onChange={(e) => {
+                              if (node) {
+                                const component = components.get(node.data.componentId);
+                                if (component) {
+                                  const updatedComponent = {
+                                    ...component,
+                                    content: {
+                                      ...component.content,
+                                      banner: {
+                                        text: e.target.value,
+                                        type: "default"
+                                      }
+                                    },
+                                    updatedAt: new Date()
+                                  };
+                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+                                  
+                                  // Dispatch event to update preview
+                                  eventBus.emit("updateComponentData", {
+                                    messageId: editingMessageId, 
+                                    componentData: updatedComponent 
+                                  });
+                                }
                               }
                             }}
                             placeholder="Enter banner title (e.g., 'Strengths')..."
@@ -2468,13 +2809,10 @@ export default function FlowCanvas() {
                                       setComponents(prev => new Map(prev).set(component.id, updatedComponent));
                                       
                                       // Dispatch event to update preview
-                                      const event = new CustomEvent("updateComponentData", {
-                                        detail: { 
-                                          messageId: editingMessageId, 
-                                          componentData: updatedComponent 
-                                        },
+                                      eventBus.emit("updateComponentData", {
+                                        messageId: editingMessageId, 
+                                        componentData: updatedComponent 
                                       });
-                                      window.dispatchEvent(event);
                                     }
                                   }
                                 }}
@@ -2511,13 +2849,10 @@ export default function FlowCanvas() {
                                   setComponents(prev => new Map(prev).set(component.id, updatedComponent));
                                   
                                   // Dispatch event to update preview
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
+                                  eventBus.emit("updateComponentData", {
+                                    messageId: editingMessageId, 
+                                    componentData: updatedComponent 
                                   });
-                                  window.dispatchEvent(event);
                                 }
                               }
                             }}
@@ -2580,13 +2915,10 @@ export default function FlowCanvas() {
                                     setComponents(prev => new Map(prev).set(component.id, updatedComponent));
                                     
                                     // Dispatch event to update preview
-                                    const event = new CustomEvent("updateComponentData", {
-                                      detail: { 
-                                        messageId: editingMessageId, 
-                                        componentData: updatedComponent 
-                                      },
+                                    eventBus.emit("updateComponentData", {
+                                      messageId: editingMessageId, 
+                                      componentData: updatedComponent 
                                     });
-                                    window.dispatchEvent(event);
                                   }
                                 }
                               }}
@@ -2643,13 +2975,10 @@ export default function FlowCanvas() {
                                 setComponents(prev => new Map(prev).set(component.id, updatedComponent));
                                 
                                 // Dispatch event to update preview
-                                const event = new CustomEvent("updateComponentData", {
-                                  detail: { 
-                                    messageId: editingMessageId, 
-                                    componentData: updatedComponent 
-                                  },
+                                eventBus.emit("updateComponentData", {
+                                  messageId: editingMessageId, 
+                                  componentData: updatedComponent 
                                 });
-                                window.dispatchEvent(event);
                               }
                             }
                           }}
@@ -2677,4136 +3006,368 @@ export default function FlowCanvas() {
                         />
                       </div>
                       
-                      {/* Move On Button Section - only show when checked */}
-                      {moveOnButtonAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
+                      {addOnSections}
+                    </>
+                  );
+                }
+                
+                // Banner add-on field
+                const bannerField = bannerAddOn && (
+                  <div style={{
+                    backgroundColor: aiGenerated ? "#F2E8E0" : "#F2E8E0",
+                    padding: "16px",
+                    marginBottom: "0px",
+                    marginLeft: "-20px",
+                    marginRight: "-20px",
+                    paddingLeft: "20px",
+                    paddingRight: "20px"
+                  }}>
+                    <label style={{ fontWeight: "700" }}>Banner Title:</label>
+                                          <input
+                        type="text"
+                        value={component?.content.banner?.text || ""}
+                        onChange={(e) => {
+                          if (node) {
+                            const component = components.get(node.data.componentId);
+                            if (component) {
+                              const updatedComponent = {
+                                ...component,
+                                content: {
+                                  ...component.content,
+                                  banner: {
+                                    text: e.target.value,
+                                    type: "default"
+                                  }
+                                },
+                                updatedAt: new Date()
+                              };
+                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+                              
+                              // Dispatch event to update preview
+                              eventBus.emit("updateComponentData", {
+                                messageId: editingMessageId, 
+                                componentData: updatedComponent 
+                              });
+                            }
+                          }
+                        }}
+                        placeholder="Enter banner title (e.g., 'Strengths')..."
+                        style={{
+                          width: "100%",
+                          padding: "8px 12px",
                           border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Move On Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.moveOnButton?.text || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      moveOnButton: {
-                                        text: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter button text (e.g., 'Continue', 'Next', 'Submit')..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
-                      )}
-                      
-                      {/* Celebration Modal Section - only show when checked */}
-                      {celebrationModalAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Title:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.title || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        title: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal title..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Content:</label>
-                          <textarea
-                            value={(component?.content as any)?.celebrationModal?.content || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        content: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal content..."
-                            style={{
-                              width: "100%",
-                              minHeight: "80px",
-                              padding: "12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              resize: "vertical",
-                              boxSizing: "border-box",
-                              background: "white",
-                              outline: "none"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Description:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.description || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        description: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal description..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Media:</label>
-                          <div style={{ position: "relative", marginTop: "8px", marginBottom: "16px" }}>
-                            <select
-                              value={(component?.content as any)?.celebrationModal?.media || ""}
-                              onChange={(e) => {
-                                if (node) {
-                                  const component = components.get(node.data.componentId);
-                                  if (component) {
-                                    const updatedComponent = {
-                                      ...component,
-                                      content: {
-                                        ...component.content,
-                                        celebrationModal: {
-                                          ...(component.content as any).celebrationModal,
-                                          media: e.target.value
-                                        }
-                                      },
-                                      updatedAt: new Date()
-                                    };
-                                    setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                    
-                                    // Dispatch event to update component data
-                                    const event = new CustomEvent("updateComponentData", {
-                                      detail: { 
-                                        messageId: editingMessageId, 
-                                        componentData: updatedComponent 
-                                      },
-                                    });
-                                    window.dispatchEvent(event);
-                                  }
-                                }
-                              }}
-                              style={{
-                                width: "100%",
-                                padding: "8px 12px",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                fontSize: "14px",
-                                fontFamily: "inherit",
-                                background: "white",
-                                outline: "none",
-                                cursor: "pointer"
-                              }}
-                              onFocus={(e) => {
-                                e.target.style.border = "2px solid #003250";
-                              }}
-                              onBlur={(e) => {
-                                e.target.style.border = "1px solid #E9DDD3";
-                              }}
-                            >
-                              <option value="">Select an image...</option>
-                              {availableImages.map((image, index) => (
-                                <option key={index} value={image.value}>
-                                  {image.label}
-                                </option>
-                              ))}
-                            </select>
-                            {(component?.content as any)?.celebrationModal?.media && (
-                              <div style={{
-                                position: "absolute",
-                                top: "100%",
-                                left: "0",
-                                right: "0",
-                                backgroundColor: "white",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                padding: "8px",
-                                marginTop: "4px",
-                                zIndex: 10,
-                                boxShadow: "0 2px 8px rgba(0,0,0,0.1)"
-                              }}>
-                                <img
-                                  src={(component?.content as any)?.celebrationModal?.media}
-                                  alt="Selected"
-                                  style={{
-                                    width: "100%",
-                                    height: "auto",
-                                    maxHeight: "100px",
-                                    objectFit: "contain"
-                                  }}
-                                />
-                              </div>
-                            )}
-                          </div>
-                          
-                          <label style={{ fontWeight: "700" }}>Call to Action Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.callToActionText || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        callToActionText: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter call to action button text..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Time to Load (milliseconds):</label>
-                          <input
-                            type="number"
-                            min="0"
-                            value={(component?.content as any)?.celebrationModal?.timeToLoad || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        timeToLoad: parseInt(e.target.value) || 0
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter time to load in milliseconds..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
-                      )}
-                    </>
-                  );
-                }
-                
-                // Banner add-on field
-                const bannerField = bannerAddOn && (
-                  <div style={{
-                    backgroundColor: aiGenerated ? "#F2E8E0" : "#F2E8E0",
-                    padding: "16px",
-                    marginBottom: "0px",
-                    marginLeft: "-20px",
-                    marginRight: "-20px",
-                    paddingLeft: "20px",
-                    paddingRight: "20px"
-                  }}>
-                    <label style={{ fontWeight: "700" }}>Banner Title:</label>
-                                          <input
-                        type="text"
-                        value={component?.content.banner?.text || ""}
-                        onChange={(e) => {
-                          if (node) {
-                            const component = components.get(node.data.componentId);
-                            if (component) {
-                              const updatedComponent = {
-                                ...component,
-                                content: {
-                                  ...component.content,
-                                  banner: {
-                                    text: e.target.value,
-                                    type: "default"
-                                  }
-                                },
-                                updatedAt: new Date()
-                              };
-                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                              
-                              // Dispatch event to update preview
-                              const event = new CustomEvent("updateComponentData", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  componentData: updatedComponent 
-                                },
-                              });
-                              window.dispatchEvent(event);
-                            }
-                          }
-                        }}
-                        placeholder="Enter banner title (e.g., 'Strengths')..."
-                        style={{
-                          width: "100%",
-                          padding: "8px 12px",
-                          border: "1px solid #E9DDD3",
-                          borderRadius: "8px",
-                          fontSize: "14px",
-                          fontFamily: "inherit",
-                          marginBottom: "16px",
-                          height: "33px",
-                          boxSizing: "border-box",
-                          transform: "translate(-2px, -3px)",
-                          background: "white",
-                          outline: "none"
-                        }}
-                        onFocus={(e) => {
-                          e.target.style.border = "2px solid #003250";
-                        }}
-                        onBlur={(e) => {
-                          e.target.style.border = "1px solid #E9DDD3";
-                        }}
-                      />
-                  </div>
-                );
-
-                // Text add-on field
-                const textField = textAddOn && (
-                  <div style={{
-                    backgroundColor: aiGenerated ? "#F2E8E0" : "#F2E8E0",
-                    padding: "16px",
-                    marginBottom: "0px",
-                    marginLeft: "-20px",
-                    marginRight: "-20px",
-                    paddingLeft: "20px",
-                    paddingRight: "20px"
-                  }}>
-                    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
-                      <label style={{ fontWeight: "700" }}>Text Content:</label>
-                      <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
-                        <label style={{ fontWeight: "700", fontSize: "14px" }}>Milliseconds to Load:</label>
-                        <input
-                          type="number"
-                          value={(component?.content as any)?.text?.millisecondsToLoad || 0}
-                          onChange={(e) => {
-                            if (node) {
-                              const component = components.get(node.data.componentId);
-                              if (component) {
-                                const updatedComponent = {
-                                  ...component,
-                                  content: {
-                                    ...component.content,
-                                    text: {
-                                      ...(component.content as any).text,
-                                      millisecondsToLoad: parseInt(e.target.value) || 0
-                                    }
-                                  },
-                                  updatedAt: new Date()
-                                };
-                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                
-                                // Dispatch event to update preview
-                                const event = new CustomEvent("updateComponentData", {
-                                  detail: { 
-                                    messageId: editingMessageId, 
-                                    componentData: updatedComponent 
-                                  },
-                                });
-                                window.dispatchEvent(event);
-                              }
-                            }
-                          }}
-                          style={{
-                            width: "80px",
-                            padding: "4px 8px",
-                            border: "1px solid #ccc",
-                            borderRadius: "4px",
-                            fontSize: "14px",
-                            textAlign: "right"
-                          }}
-                          min="0"
-                          step="100"
-                        />
-                      </div>
-                    </div>
-                    <textarea
-                      value={(component?.content as any)?.text?.text || ""}
-                      onChange={(e) => {
-                        if (node) {
-                          const component = components.get(node.data.componentId);
-                          if (component) {
-                            const updatedComponent = {
-                              ...component,
-                              content: {
-                                ...component.content,
-                                text: {
-                                  text: e.target.value,
-                                  type: "default"
-                                }
-                              },
-                              updatedAt: new Date()
-                            };
-                            setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                            
-                            // Dispatch event to update preview
-                            const event = new CustomEvent("updateComponentData", {
-                              detail: { 
-                                messageId: editingMessageId, 
-                                componentData: updatedComponent 
-                              },
-                            });
-                            window.dispatchEvent(event);
-                          }
-                        }
-                      }}
-                      placeholder="Enter your text content..."
-                      style={{
-                        width: "100%",
-                        minHeight: "80px",
-                        padding: "12px",
-                        border: "1px solid #E9DDD3",
-                        borderRadius: "8px",
-                        fontSize: "14px",
-                        fontFamily: "inherit",
-                        marginBottom: "6px",
-                        resize: "vertical",
-                        boxSizing: "border-box",
-                        transform: "translate(-2px, -3px)",
-                        outline: "none"
-                      }}
-                      onFocus={(e) => {
-                        e.target.style.border = "2px solid #003250";
-                      }}
-                      onBlur={(e) => {
-                        e.target.style.border = "1px solid #E9DDD3";
-                      }}
-                    />
-                  </div>
-                );
-                
-                if (uiToolType === "question") {
-                  return (
-                    <>
-                      {bannerField}
-                      {textField}
-                      {(bannerAddOn || textAddOn) && (
-                        <div style={{
-                          borderBottom: "1px solid #E9DDD3",
-                          marginBottom: "0px",
-                          paddingBottom: "4px"
-                        }} />
-                      )}
-                      <label style={{ fontWeight: "700" }}>Question Text:</label>
-                      <textarea
-                        value={component?.content.question?.text || ""}
-                        onChange={(e) => {
-                          if (node) {
-                            const component = components.get(node.data.componentId);
-                            if (component) {
-                              const updatedComponent = {
-                                ...component,
-                                content: {
-                                  ...component.content,
-                                  question: {
-                                    ...component.content.question,
-                                    text: e.target.value
-                                  }
-                                },
-                                updatedAt: new Date()
-                              };
-                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                              
-                              // Dispatch event to update preview
-                              const event = new CustomEvent("updateComponentData", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  componentData: updatedComponent 
-                                },
-                              });
-                              window.dispatchEvent(event);
-                            }
-                          }
-                        }}
-                        placeholder="Enter your question text (supports Markdown)..."
-                        style={{
-                          width: "100%",
-                          minHeight: "80px",
-                          padding: "12px",
-                          border: "1px solid #E9DDD3",
-                          borderRadius: "8px",
-                          fontSize: "14px",
-                          fontFamily: "inherit",
-                          marginBottom: "16px",
-                          resize: "vertical",
-                          boxSizing: "border-box",
-                          transform: "translate(-2px, -3px)",
-                          outline: "none"
-                        }}
-                        onFocus={(e) => {
-                          e.target.style.border = "2px solid #003250";
-                        }}
-                        onBlur={(e) => {
-                          e.target.style.border = "1px solid #E9DDD3";
-                        }}
-                      />
-                      
-                      <label style={{ fontWeight: "700" }}>Image:</label>
-                      <div style={{ display: "flex", gap: "12px", alignItems: "flex-start", marginBottom: "16px" }}>
-                        <div className="image-dropdown-container" style={{ flex: 1, position: "relative" }}>
-                          <div
-                            onClick={() => setImageDropdownOpen(imageDropdownOpen ? false : "question")}
-                            style={{
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              cursor: "pointer",
-                              display: "flex",
-                              justifyContent: "space-between",
-                              alignItems: "center",
-                              height: "33px",
-                              boxSizing: "border-box",
-                              transform: "translate(-2px, -3px)",
-                            }}
-                          >
-                            <span>
-                              {availableImages.find(img => img.value === component?.content.question?.image)?.label || "No image"}
-                            </span>
-                            <span style={{ fontSize: "18px", color: "#333", fontWeight: "600", transform: "translateY(-3px)" }}>⌵</span>
-                          </div>
-                          
-                          {imageDropdownOpen === "question" && (
-                            <div
-                              style={{
-                                position: "absolute",
-                                top: "100%",
-                                left: 0,
-                                right: 0,
-                                background: "white",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                marginTop: "4px",
-                                maxHeight: "200px",
-                                overflowY: "auto",
-                                zIndex: 1000,
-                                boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
-                              }}
-                            >
-                              {availableImages.map((image) => (
-                                <div
-                                  key={image.value}
-                                  onClick={() => {
-                                    // Remove any existing popups
-                                    const existingPopups = document.querySelectorAll('[data-image-preview]');
-                                    existingPopups.forEach(popup => popup.remove());
-                                    
-                                    if (node) {
-                                      const component = components.get(node.data.componentId);
-                                      if (component) {
-                                        const updatedComponent = {
-                                          ...component,
-                                          content: {
-                                            ...component.content,
-                                            question: {
-                                              ...component.content.question,
-                                              image: image.value
-                                            }
-                                          },
-                                          updatedAt: new Date()
-                                        };
-                                        setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                        
-                                        // Dispatch event to update preview
-                                        const event = new CustomEvent("updateComponentData", {
-                                          detail: { 
-                                            messageId: editingMessageId, 
-                                            componentData: updatedComponent 
-                                          },
-                                        });
-                                        window.dispatchEvent(event);
-                                      }
-                                    }
-                                    setImageDropdownOpen(false);
-                                  }}
-                                  onMouseEnter={(e) => {
-                                    e.currentTarget.style.background = "#f5f5f5";
-                                    if (image.value) {
-                                      const popup = document.createElement('div');
-                                      popup.setAttribute('data-image-preview', 'true');
-                                      popup.style.cssText = `
-                                        position: fixed;
-                                        top: ${e.clientY + 10}px;
-                                        left: ${e.clientX + 10}px;
-                                        z-index: 10001;
-                                        background: white;
-                                        border: 1px solid #E9DDD3;
-                                        border-radius: 8px;
-                                        padding: 8px;
-                                        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
-                                        max-width: 200px;
-                                        max-height: 200px;
-                                      `;
-                                      popup.innerHTML = `<img src="${image.value}" style="width: 100%; height: 100%; object-fit: contain;" alt="Preview" />`;
-                                      document.body.appendChild(popup);
-                                      e.currentTarget.addEventListener('mouseleave', () => {
-                                        if (popup.parentNode) {
-                                          popup.parentNode.removeChild(popup);
-                                        }
-                                      }, { once: true });
-                                    }
-                                  }}
-                                  style={{
-                                    padding: "8px 12px",
-                                    cursor: "pointer",
-                                    borderBottom: "1px solid #f0f0f0",
-                                    fontSize: "14px",
-                                  }}
-                                  onMouseLeave={(e) => {
-                                    e.currentTarget.style.background = "white";
-                                  }}
-                                >
-                                  {image.label}
-                                </div>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                        
-                        {/* Thumbnail Preview */}
-                        <div
-                          style={{
-                            width: "44px",
-                            height: "44px",
-                            border: "1px solid #E9DDD3",
-                            borderRadius: "8px",
-                            display: "flex",
-                            alignItems: "center",
-                            justifyContent: "center",
-                            background: component?.content.question?.image ? "white" : "#f5f5f5",
-                            position: "relative",
-                            cursor: component?.content.question?.image ? "pointer" : "default",
-                          }}
-                          onMouseEnter={(e) => {
-                            if (component?.content.question?.image) {
-                              const popup = document.createElement('div');
-                              popup.setAttribute('data-image-preview', 'true');
-                              popup.style.cssText = `
-                                position: fixed;
-                                top: ${e.clientY + 10}px;
-                                left: ${e.clientX + 10}px;
-                                z-index: 10000;
-                                background: white;
-                                border: 1px solid #E9DDD3;
-                                border-radius: 8px;
-                                padding: 8px;
-                                box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
-                                max-width: 200px;
-                                max-height: 200px;
-                              `;
-                              popup.innerHTML = `<img src="${component.content.question.image}" style="width: 100%; height: 100%; object-fit: contain;" alt="Preview" />`;
-                              document.body.appendChild(popup);
-                              e.currentTarget.setAttribute('data-popup', 'true');
-                              e.currentTarget.addEventListener('mouseleave', () => {
-                                if (popup.parentNode) {
-                                  popup.parentNode.removeChild(popup);
-                                }
-                              }, { once: true });
-                            }
-                          }}
-                        >
-                          {component?.content.question?.image ? (
-                            <img
-                              src={component.content.question.image}
-                              alt="Selected"
-                              style={{
-                                width: "100%",
-                                height: "100%",
-                                objectFit: "cover",
-                                borderRadius: "6px",
-                              }}
-                            />
-                          ) : (
-                            <span style={{ color: "#999", fontSize: "12px" }}>No img</span>
-                          )}
-                        </div>
-                      </div>
-                      
-                      <label style={{ fontWeight: "700" }}>Suggested Responses:</label>
-                      <div style={{ marginBottom: "16px" }}>
-                        {(component?.content.question?.suggestions || [""]).map((suggestion, index) => (
-                          <div key={index} style={{ display: "flex", gap: "8px", marginBottom: "8px", alignItems: "center" }}>
-                            <input
-                              type="text"
-                              value={suggestion}
-                        onChange={(e) => {
-                          if (node) {
-                            const component = components.get(node.data.componentId);
-                            if (component) {
-                                    const currentSuggestions = component.content.question?.suggestions || [""];
-                                    const newSuggestions = [...currentSuggestions];
-                                    newSuggestions[index] = e.target.value;
-                                    
-                                    // Remove empty suggestions except the last one
-                                    const filteredSuggestions = newSuggestions.filter((s, i) => 
-                                      s.trim() !== "" || i === newSuggestions.length - 1
-                                    );
-                                    
-                              const updatedComponent = {
-                                ...component,
-                                content: {
-                                  ...component.content,
-                                  question: {
-                                    ...component.content.question,
-                                          suggestions: filteredSuggestions
-                                  }
-                                },
-                                updatedAt: new Date()
-                              };
-                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                              
-                              // Dispatch event to update preview
-                              const event = new CustomEvent("updateComponentData", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  componentData: updatedComponent 
-                                },
-                              });
-                              window.dispatchEvent(event);
-                            }
-                          }
-                        }}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                                  e.preventDefault();
-                                  if (node) {
-                                    const component = components.get(node.data.componentId);
-                                    if (component) {
-                                      const currentSuggestions = component.content.question?.suggestions || [""];
-                                      const newSuggestions = [...currentSuggestions, ""];
-                                      
-                                      const updatedComponent = {
-                                        ...component,
-                                        content: {
-                                          ...component.content,
-                                          question: {
-                                            ...component.content.question,
-                                            suggestions: newSuggestions
-                                          }
-                                        },
-                                        updatedAt: new Date()
-                                      };
-                                      setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                      
-                                      // Dispatch event to update preview
-                                      const event = new CustomEvent("updateComponentData", {
-                                        detail: { 
-                                          messageId: editingMessageId, 
-                                          componentData: updatedComponent 
-                                        },
-                                      });
-                                      window.dispatchEvent(event);
-                                    }
-                                  }
-                                }
-                              }}
-                              placeholder={`Suggestion ${index + 1}`}
-                              style={{
-                                flex: 1,
-                                padding: "8px 12px",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "6px",
-                                fontSize: "14px",
-                                fontFamily: "inherit",
-                                boxSizing: "border-box",
-                                outline: "none"
-                              }}
-                              onFocus={(e) => {
-                                e.target.style.border = "2px solid #003250";
-                              }}
-                              onBlur={(e) => {
-                                e.target.style.border = "1px solid #E9DDD3";
-                              }}
-                            />
-                            {(component?.content.question?.suggestions?.length || 1) > 1 && (
-                              <button
-                                type="button"
-                                onClick={() => {
-                                  if (node) {
-                                    const component = components.get(node.data.componentId);
-                                    if (component) {
-                                      const currentSuggestions = component.content.question?.suggestions || [""];
-                                      const newSuggestions = currentSuggestions.filter((_, i) => i !== index);
-                                      
-                                      // Ensure we always have at least one suggestion field
-                                      if (newSuggestions.length === 0) {
-                                        newSuggestions.push("");
-                                      }
-                                      
-                                      const updatedComponent = {
-                                        ...component,
-                                        content: {
-                                          ...component.content,
-                                          question: {
-                                            ...component.content.question,
-                                            suggestions: newSuggestions
-                                          }
-                                        },
-                                        updatedAt: new Date()
-                                      };
-                                      setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                      
-                                      // Dispatch event to update preview
-                                      const event = new CustomEvent("updateComponentData", {
-                                        detail: { 
-                                          messageId: editingMessageId, 
-                                          componentData: updatedComponent 
-                                        },
-                                      });
-                                      window.dispatchEvent(event);
-                                    }
-                                  }
-                                }}
-                                style={{
-                                  background: "#F16B68",
-                                  color: "white",
-                                  border: "none",
-                                  borderRadius: "4px",
-                                  width: "24px",
-                                  height: "24px",
-                                  fontSize: "12px",
-                                  cursor: "pointer",
-                                  display: "flex",
-                                  alignItems: "center",
-                                  justifyContent: "center",
-                                  flexShrink: 0,
-                                  outline: "none",
-                                }}
-                              >
-                                ×
-                              </button>
-                            )}
-                          </div>
-                        ))}
-                        <button
-                          type="button"
-                          onClick={() => {
-                            if (node) {
-                              const component = components.get(node.data.componentId);
-                              if (component) {
-                                const currentSuggestions = component.content.question?.suggestions || [""];
-                                const newSuggestions = [...currentSuggestions, ""];
-                                
-                                const updatedComponent = {
-                                  ...component,
-                                  content: {
-                                    ...component.content,
-                                    question: {
-                                      ...component.content.question,
-                                      suggestions: newSuggestions
-                                    }
-                                  },
-                                  updatedAt: new Date()
-                                };
-                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                
-                                // Dispatch event to update preview
-                                const event = new CustomEvent("updateComponentData", {
-                                  detail: { 
-                                    messageId: editingMessageId, 
-                                    componentData: updatedComponent 
-                                  },
-                                });
-                                window.dispatchEvent(event);
-                              }
-                            }
-                          }}
-                          style={{
-                            background: "#8EAF86",
-                            color: "white",
-                            border: "none",
-                            borderRadius: "6px",
-                            padding: "6px 12px",
-                            fontSize: "12px",
-                            cursor: "pointer",
-                            marginTop: "4px",
-                            outline: "none",
-                          }}
-                        >
-                          + Add Suggestion
-                        </button>
-                      </div>
-                      
-                      {/* Move On Button Section - only show when checked */}
-                      {moveOnButtonAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Move On Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.moveOnButton?.text || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      moveOnButton: {
-                                        text: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter button text (e.g., 'Continue', 'Next', 'Submit')..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
-                      )}
-                      
-                      {/* Celebration Modal Section - only show when checked */}
-                      {celebrationModalAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Title:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.title || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        title: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal title..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Content:</label>
-                          <textarea
-                            value={(component?.content as any)?.celebrationModal?.content || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        content: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal content..."
-                            style={{
-                              width: "100%",
-                              minHeight: "80px",
-                              padding: "12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              resize: "vertical",
-                              boxSizing: "border-box",
-                              background: "white",
-                              outline: "none"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Description:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.description || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        description: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal description..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Media:</label>
-                          <div style={{ position: "relative", marginTop: "8px", marginBottom: "16px" }}>
-                            <select
-                              value={(component?.content as any)?.celebrationModal?.media || ""}
-                              onChange={(e) => {
-                                if (node) {
-                                  const component = components.get(node.data.componentId);
-                                  if (component) {
-                                    const updatedComponent = {
-                                      ...component,
-                                      content: {
-                                        ...component.content,
-                                        celebrationModal: {
-                                          ...(component.content as any).celebrationModal,
-                                          media: e.target.value
-                                        }
-                                      },
-                                      updatedAt: new Date()
-                                    };
-                                    setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                    
-                                    // Dispatch event to update component data
-                                    const event = new CustomEvent("updateComponentData", {
-                                      detail: { 
-                                        messageId: editingMessageId, 
-                                        componentData: updatedComponent 
-                                      },
-                                    });
-                                    window.dispatchEvent(event);
-                                  }
-                                }
-                              }}
-                              style={{
-                                width: "100%",
-                                padding: "8px 12px",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                fontSize: "14px",
-                                fontFamily: "inherit",
-                                background: "white",
-                                outline: "none",
-                                cursor: "pointer"
-                              }}
-                              onFocus={(e) => {
-                                e.target.style.border = "2px solid #003250";
-                              }}
-                              onBlur={(e) => {
-                                e.target.style.border = "1px solid #E9DDD3";
-                              }}
-                            >
-                              <option value="">Select an image...</option>
-                              {availableImages.map((image, index) => (
-                                <option key={index} value={image.value}>
-                                  {image.label}
-                                </option>
-                              ))}
-                            </select>
-                            {(component?.content as any)?.celebrationModal?.media && (
-                              <div style={{
-                                position: "absolute",
-                                top: "100%",
-                                left: "0",
-                                right: "0",
-                                backgroundColor: "white",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                padding: "8px",
-                                marginTop: "4px",
-                                zIndex: 10,
-                                boxShadow: "0 2px 8px rgba(0,0,0,0.1)"
-                              }}>
-                                <img
-                                  src={(component?.content as any)?.celebrationModal?.media}
-                                  alt="Selected"
-                                  style={{
-                                    width: "100%",
-                                    height: "auto",
-                                    maxHeight: "100px",
-                                    objectFit: "contain"
-                                  }}
-                                />
-                              </div>
-                            )}
-                          </div>
-                          
-                          <label style={{ fontWeight: "700" }}>Call to Action Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.callToActionText || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        callToActionText: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter call to action button text..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Time to Load (milliseconds):</label>
-                          <input
-                            type="number"
-                            min="0"
-                            value={(component?.content as any)?.celebrationModal?.timeToLoad || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        timeToLoad: parseInt(e.target.value) || 0
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter time to load in milliseconds..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
-                      )}
-                    </>
-                  );
-                } else if (uiToolType === "form") {
-                  return (
-                    <>
-                      {bannerField}
-                      {textField}
-                      {(bannerAddOn || textAddOn) && (
-                        <div style={{
-                          borderBottom: "1px solid #E9DDD3",
-                          marginBottom: "20px",
-                          paddingBottom: "16px"
-                        }} />
-                      )}
-                      
-                      <label style={{ fontWeight: "700" }}>Form Title:</label>
-                      <input
-                        type="text"
-                        value={component?.content.form?.title || ""}
-                        onChange={(e) => {
-                          if (node) {
-                            const component = components.get(node.data.componentId);
-                            if (component) {
-                              const updatedComponent = {
-                                ...component,
-                                content: {
-                                  ...component.content,
-                                  form: {
-                                    ...component.content.form,
-                                    fields: component.content.form?.fields || [],
-                                    title: e.target.value
-                                  }
-                                },
-                                updatedAt: new Date()
-                              };
-                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                              
-                              // Dispatch event to update preview
-                              const event = new CustomEvent("updateComponentData", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  componentData: updatedComponent 
-                                },
-                              });
-                              window.dispatchEvent(event);
-                            }
-                          }
-                        }}
-                        placeholder="Enter form title..."
-                        style={{
-                          width: "100%",
-                          padding: "8px 12px",
-                          border: "1px solid #E9DDD3",
-                          borderRadius: "8px",
-                          fontSize: "14px",
-                          fontFamily: "inherit",
-                          marginBottom: "16px",
-                          height: "33px",
-                          boxSizing: "border-box",
-                          transform: "translate(-2px, -3px)",
-                          background: "white",
-                          outline: "none"
-                        }}
-                        onFocus={(e) => {
-                          e.target.style.border = "2px solid #003250";
-                        }}
-                        onBlur={(e) => {
-                          e.target.style.border = "1px solid #E9DDD3";
-                        }}
-                      />
-                      
-
-                      
-                      <label style={{ fontWeight: "700" }}>Form Fields:</label>
-                      <div style={{ marginBottom: "16px" }}>
-                        {(component?.content.form?.fields || []).map((field, index) => (
-                          <div key={field.id} style={{ 
-                            border: "1px solid #E9DDD3", 
-                            borderRadius: "8px", 
-                            padding: "16px", 
-                            marginBottom: "12px",
-                            backgroundColor: "#fafafa"
-                          }}>
-                            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "12px" }}>
-                              <span style={{ fontWeight: "600", color: "#003250" }}>Field {index + 1}</span>
-                              <button
-                                type="button"
-                                onClick={() => {
-                                  if (node) {
-                                    const component = components.get(node.data.componentId);
-                                    if (component) {
-                                      const currentFields = component.content.form?.fields || [];
-                                      const newFields = currentFields.filter((_, i) => i !== index);
-                                      
-                                      const updatedComponent = {
-                                        ...component,
-                                        content: {
-                                          ...component.content,
-                                          form: {
-                                            ...component.content.form,
-                                            fields: newFields
-                                          }
-                                        },
-                                        updatedAt: new Date()
-                                      };
-                                      setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                      
-                                      // Dispatch event to update preview
-                                      const event = new CustomEvent("updateComponentData", {
-                                        detail: { 
-                                          messageId: editingMessageId, 
-                                          componentData: updatedComponent 
-                                        },
-                                      });
-                                      window.dispatchEvent(event);
-                                    }
-                                  }
-                                }}
-                                style={{
-                                  background: "#F16B68",
-                                  color: "white",
-                                  border: "none",
-                                  borderRadius: "4px",
-                                  width: "24px",
-                                  height: "24px",
-                                  fontSize: "12px",
-                                  cursor: "pointer",
-                                  display: "flex",
-                                  alignItems: "center",
-                                  justifyContent: "center",
-                                  outline: "none",
-                                }}
-                              >
-                                ×
-                              </button>
-                            </div>
-                            
-                            <div style={{ display: "flex", gap: "12px", marginBottom: "12px" }}>
-                              <div style={{ flex: 1 }}>
-                                <label style={{ display: "block", marginBottom: "4px", fontSize: "12px", fontWeight: "600" }}>Field Type:</label>
-                                <select
-                                  value={field.type}
-                                  onChange={(e) => {
-                                    if (node) {
-                                      const component = components.get(node.data.componentId);
-                                      if (component) {
-                                        const currentFields = component.content.form?.fields || [];
-                                        const newFields = [...currentFields];
-                                        newFields[index] = { ...newFields[index], type: e.target.value as FormField['type'] };
-                                        
-                                        const updatedComponent = {
-                                          ...component,
-                                          content: {
-                                            ...component.content,
-                                            form: {
-                                              ...component.content.form,
-                                              fields: newFields
-                                            }
-                                          },
-                                          updatedAt: new Date()
-                                        };
-                                        setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                        
-                                        // Dispatch event to update preview
-                                        const event = new CustomEvent("updateComponentData", {
-                                          detail: { 
-                                            messageId: editingMessageId, 
-                                            componentData: updatedComponent 
-                                          },
-                                        });
-                                        window.dispatchEvent(event);
-                                      }
-                                    }
-                                  }}
-                                  style={{
-                                    width: "100%",
-                                    padding: "6px 8px",
-                                    border: "1px solid #E9DDD3",
-                                    borderRadius: "6px",
-                                    fontSize: "12px",
-                                    fontFamily: "inherit",
-                                    background: "white",
-                                    outline: "none"
-                                  }}
-                                >
-                                  <option value="text">Text</option>
-                                  <option value="longText">Long Text</option>
-                                  <option value="currency">Currency</option>
-                                  <option value="dropdown">Dropdown</option>
-                                  <option value="radio">Radio</option>
-                                  <option value="checkbox">Checkbox</option>
-                                </select>
-                              </div>
-                              
-                              <div style={{ flex: 2 }}>
-                                <label style={{ display: "block", marginBottom: "4px", fontSize: "12px", fontWeight: "600" }}>Field Title:</label>
-                                <input
-                                  type="text"
-                                  value={field.title}
-                                  onChange={(e) => {
-                                    if (node) {
-                                      const component = components.get(node.data.componentId);
-                                      if (component) {
-                                        const currentFields = component.content.form?.fields || [];
-                                        const newFields = [...currentFields];
-                                        newFields[index] = { ...newFields[index], title: e.target.value };
-                                        
-                                        const updatedComponent = {
-                                          ...component,
-                                          content: {
-                                            ...component.content,
-                                            form: {
-                                              ...component.content.form,
-                                              fields: newFields
-                                            }
-                                          },
-                                          updatedAt: new Date()
-                                        };
-                                        setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                        
-                                        // Dispatch event to update preview
-                                        const event = new CustomEvent("updateComponentData", {
-                                          detail: { 
-                                            messageId: editingMessageId, 
-                                            componentData: updatedComponent 
-                                          },
-                                        });
-                                        window.dispatchEvent(event);
-                                      }
-                                    }
-                                  }}
-                                  placeholder="Enter field title..."
-                                  style={{
-                                    width: "100%",
-                                    padding: "6px 8px",
-                                    border: "1px solid #E9DDD3",
-                                    borderRadius: "6px",
-                                    fontSize: "12px",
-                                    fontFamily: "inherit",
-                                    background: "white",
-                                    outline: "none"
-                                  }}
-                                  onFocus={(e) => {
-                                    e.target.style.border = "2px solid #003250";
-                                  }}
-                                  onBlur={(e) => {
-                                    e.target.style.border = "1px solid #E9DDD3";
-                                  }}
-                                />
-                              </div>
-                            </div>
-                            
-                            {/* Options for dropdown, radio, checkbox */}
-                            {(field.type === "dropdown" || field.type === "radio" || field.type === "checkbox") && (
-                              <div>
-                                <label style={{ display: "block", marginBottom: "4px", fontSize: "12px", fontWeight: "600" }}>Options:</label>
-                                <div style={{ marginBottom: "8px" }}>
-                                  {(field.options || [""]).map((option, optionIndex) => (
-                                    <div key={optionIndex} style={{ display: "flex", gap: "8px", marginBottom: "4px", alignItems: "center" }}>
-                                      <input
-                                        type="text"
-                                        value={option}
-                                        onChange={(e) => {
-                                          if (node) {
-                                            const component = components.get(node.data.componentId);
-                                            if (component) {
-                                              const currentFields = component.content.form?.fields || [];
-                                              const newFields = [...currentFields];
-                                              const currentOptions = newFields[index].options || [""];
-                                              const newOptions = [...currentOptions];
-                                              newOptions[optionIndex] = e.target.value;
-                                              
-                                              // Remove empty options except the last one
-                                              const filteredOptions = newOptions.filter((opt, i) => 
-                                                opt.trim() !== "" || i === newOptions.length - 1
-                                              );
-                                              
-                                              newFields[index] = { ...newFields[index], options: filteredOptions };
-                                              
-                                              const updatedComponent = {
-                                                ...component,
-                                                content: {
-                                                  ...component.content,
-                                                  form: {
-                                                    ...component.content.form,
-                                                    fields: newFields
-                                                  }
-                                                },
-                                                updatedAt: new Date()
-                                              };
-                                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                              
-                                              // Dispatch event to update preview
-                                              const event = new CustomEvent("updateComponentData", {
-                                                detail: { 
-                                                  messageId: editingMessageId, 
-                                                  componentData: updatedComponent 
-                                                },
-                                              });
-                                              window.dispatchEvent(event);
-                                            }
-                                          }
-                                        }}
-                                        onKeyDown={(e) => {
-                                          if (e.key === 'Enter') {
-                                            e.preventDefault();
-                                            if (node) {
-                                              const component = components.get(node.data.componentId);
-                                              if (component) {
-                                                const currentFields = component.content.form?.fields || [];
-                                                const newFields = [...currentFields];
-                                                const currentOptions = newFields[index].options || [""];
-                                                const newOptions = [...currentOptions, ""];
-                                                
-                                                newFields[index] = { ...newFields[index], options: newOptions };
-                                                
-                                                const updatedComponent = {
-                                                  ...component,
-                                                  content: {
-                                                    ...component.content,
-                                                    form: {
-                                                      ...component.content.form,
-                                                      fields: newFields
-                                                    }
-                                                  },
-                                                  updatedAt: new Date()
-                                                };
-                                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                                
-                                                // Dispatch event to update preview
-                                                const event = new CustomEvent("updateComponentData", {
-                                                  detail: { 
-                                                    messageId: editingMessageId, 
-                                                    componentData: updatedComponent 
-                                                  },
-                                                });
-                                                window.dispatchEvent(event);
-                                              }
-                                            }
-                                          }
-                                        }}
-                                        placeholder={`Option ${optionIndex + 1}`}
-                                        style={{
-                                          flex: 1,
-                                          padding: "4px 6px",
-                                          border: "1px solid #E9DDD3",
-                                          borderRadius: "4px",
-                                          fontSize: "11px",
-                                          fontFamily: "inherit",
-                                          outline: "none"
-                                        }}
-                                        onFocus={(e) => {
-                                          e.target.style.border = "2px solid #003250";
-                                        }}
-                                        onBlur={(e) => {
-                                          e.target.style.border = "1px solid #E9DDD3";
-                                        }}
-                                      />
-                                      {(field.options?.length || 1) > 1 && (
-                                        <button
-                                          type="button"
-                                          onClick={() => {
-                                            if (node) {
-                                              const component = components.get(node.data.componentId);
-                                              if (component) {
-                                                const currentFields = component.content.form?.fields || [];
-                                                const newFields = [...currentFields];
-                                                const currentOptions = newFields[index].options || [""];
-                                                const newOptions = currentOptions.filter((_, i) => i !== optionIndex);
-                                                
-                                                // Ensure we always have at least one option field
-                                                if (newOptions.length === 0) {
-                                                  newOptions.push("");
-                                                }
-                                                
-                                                newFields[index] = { ...newFields[index], options: newOptions };
-                                                
-                                                const updatedComponent = {
-                                                  ...component,
-                                                  content: {
-                                                    ...component.content,
-                                                    form: {
-                                                      ...component.content.form,
-                                                      fields: newFields
-                                                    }
-                                                  },
-                                                  updatedAt: new Date()
-                                                };
-                                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                                
-                                                // Dispatch event to update preview
-                                                const event = new CustomEvent("updateComponentData", {
-                                                  detail: { 
-                                                    messageId: editingMessageId, 
-                                                    componentData: updatedComponent 
-                                                  },
-                                                });
-                                                window.dispatchEvent(event);
-                                              }
-                                            }
-                                          }}
-                                          style={{
-                                            background: "#F16B68",
-                                            color: "white",
-                                            border: "none",
-                                            borderRadius: "3px",
-                                            width: "20px",
-                                            height: "20px",
-                                            fontSize: "10px",
-                                            cursor: "pointer",
-                                            display: "flex",
-                                            alignItems: "center",
-                                            justifyContent: "center",
-                                            outline: "none",
-                                          }}
-                                        >
-                                          ×
-                                        </button>
-                                      )}
-                                    </div>
-                                  ))}
-                                  <button
-                                    type="button"
-                                    onClick={() => {
-                                      if (node) {
-                                        const component = components.get(node.data.componentId);
-                                        if (component) {
-                                          const currentFields = component.content.form?.fields || [];
-                                          const newFields = [...currentFields];
-                                          const currentOptions = newFields[index].options || [""];
-                                          const newOptions = [...currentOptions, ""];
-                                          
-                                          newFields[index] = { ...newFields[index], options: newOptions };
-                                          
-                                          const updatedComponent = {
-                                            ...component,
-                                            content: {
-                                              ...component.content,
-                                              form: {
-                                                ...component.content.form,
-                                                fields: newFields
-                                              }
-                                            },
-                                            updatedAt: new Date()
-                                          };
-                                          setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                          
-                                          // Dispatch event to update preview
-                                          const event = new CustomEvent("updateComponentData", {
-                                            detail: { 
-                                              messageId: editingMessageId, 
-                                              componentData: updatedComponent 
-                                            },
-                                          });
-                                          window.dispatchEvent(event);
-                                        }
-                                      }
-                                    }}
-                                    style={{
-                                      background: "#8EAF86",
-                                      color: "white",
-                                      border: "none",
-                                      borderRadius: "4px",
-                                      padding: "3px 8px",
-                                      fontSize: "10px",
-                                      cursor: "pointer",
-                                      marginTop: "4px",
-                                      outline: "none",
-                                    }}
-                                  >
-                                    + Add Option
-                                  </button>
-                                </div>
-                              </div>
-                            )}
-                          </div>
-                        ))}
-                        <button
-                          type="button"
-                          onClick={() => {
-                            if (node) {
-                              const component = components.get(node.data.componentId);
-                              if (component) {
-                                const currentFields = component.content.form?.fields || [];
-                                const newField: FormField = {
-                                  id: `field_${Date.now()}`,
-                                  type: "text",
-                                  title: "",
-                                  required: false
-                                };
-                                const newFields = [...currentFields, newField];
-                                
-                                const updatedComponent = {
-                                  ...component,
-                                  content: {
-                                    ...component.content,
-                                    form: {
-                                      ...component.content.form,
-                                      fields: newFields
-                                    }
-                                  },
-                                  updatedAt: new Date()
-                                };
-                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                
-                                // Dispatch event to update preview
-                                const event = new CustomEvent("updateComponentData", {
-                                  detail: { 
-                                    messageId: editingMessageId, 
-                                    componentData: updatedComponent 
-                                  },
-                                });
-                                window.dispatchEvent(event);
-                              }
-                            }
-                          }}
-                          style={{
-                            background: "#8EAF86",
-                            color: "white",
-                            border: "none",
-                            borderRadius: "6px",
-                            padding: "6px 12px",
-                            fontSize: "12px",
-                            cursor: "pointer",
-                            marginTop: "4px",
-                            outline: "none",
-                          }}
-                        >
-                          + Add Field
-                        </button>
-                      </div>
-                      
-                      <label style={{ fontWeight: "700" }}>Send Button Text:</label>
-                      <input
-                        type="text"
-                        value={component?.content.form?.sendButtonText || "Continue"}
-                        onChange={(e) => {
-                          if (node) {
-                            const component = components.get(node.data.componentId);
-                            if (component) {
-                              const updatedComponent = {
-                                ...component,
-                                content: {
-                                  ...component.content,
-                                  form: {
-                                    ...component.content.form,
-                                    fields: component.content.form?.fields || [],
-                                    sendButtonText: e.target.value
-                                  }
-                                },
-                                updatedAt: new Date()
-                              };
-                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                              
-                              // Dispatch event to update preview
-                              const event = new CustomEvent("updateComponentData", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  componentData: updatedComponent 
-                                },
-                              });
-                              window.dispatchEvent(event);
-                            }
-                          }
-                        }}
-                        placeholder="Enter send button text..."
-                        style={{
-                          width: "100%",
-                          padding: "8px 12px",
-                          border: "1px solid #E9DDD3",
-                          borderRadius: "8px",
-                          fontSize: "14px",
-                          fontFamily: "inherit",
-                          marginBottom: "16px",
-                          height: "33px",
-                          boxSizing: "border-box",
-                          transform: "translate(-2px, -3px)",
-                          background: "white",
-                          outline: "none"
-                        }}
-                        onFocus={(e) => {
-                          e.target.style.border = "2px solid #003250";
-                        }}
-                        onBlur={(e) => {
-                          e.target.style.border = "1px solid #E9DDD3";
-                        }}
-                      />
-                      
-                      {/* Branch Routing Logic Section - only show when checked */}
-                      {branchRoutingAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <div style={{
-                            fontSize: "14px",
-                            color: "#003250",
-                            fontWeight: "700",
-                            marginBottom: "16px"
-                          }}>
-                            Branch Routing Logic
-                          </div>
-                          
-                                                     {/* Find the last dropdown field for routing options */}
-                           {(() => {
-                             const formFields = component?.content.form?.fields || [];
-                             const lastDropdownField = formFields.slice().reverse().find((field: FormField) => field.type === "dropdown");
-                             
-                             if (lastDropdownField && lastDropdownField.options) {
-                               return lastDropdownField.options.map((option: string, index: number) => (
-                                <div key={index} style={{
-                                  display: "flex",
-                                  alignItems: "center",
-                                  gap: "12px",
-                                  marginBottom: "12px"
-                                }}>
-                                  <span style={{
-                                    fontSize: "14px",
-                                    color: "#003250",
-                                    minWidth: "120px"
-                                  }}>
-                                    When user chooses "{option}" →
-                                  </span>
-                                  <input
-                                    type="text"
-                                    placeholder="Enter component slug..."
-                                    value={(component?.content as any)?.branchRouting?.[index]?.destinationSlug || ""}
-                                    onChange={(e) => {
-                                      if (node) {
-                                        const component = components.get(node.data.componentId);
-                                        if (component) {
-                                          const updatedComponent = {
-                                            ...component,
-                                            content: {
-                                              ...component.content,
-                                              branchRouting: {
-                                                ...(component.content as any).branchRouting,
-                                                [index]: {
-                                                  optionText: option,
-                                                  destinationSlug: e.target.value
-                                                }
-                                              }
-                                            },
-                                            updatedAt: new Date()
-                                          };
-                                          setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                          
-                                          // Dispatch event to update component data
-                                          const event = new CustomEvent("updateComponentData", {
-                                            detail: { 
-                                              messageId: editingMessageId, 
-                                              componentData: updatedComponent 
-                                            },
-                                          });
-                                          window.dispatchEvent(event);
-                                        }
-                                      }
-                                    }}
-                                    style={{
-                                      flex: 1,
-                                      padding: "8px 12px",
-                                      border: "1px solid #E9DDD3",
-                                      borderRadius: "8px",
-                                      fontSize: "14px",
-                                      fontFamily: "inherit",
-                                      background: "white",
-                                      outline: "none"
-                                    }}
-                                    onFocus={(e) => {
-                                      e.target.style.border = "2px solid #003250";
-                                    }}
-                                    onBlur={(e) => {
-                                      e.target.style.border = "1px solid #E9DDD3";
-                                    }}
-                                  />
-                                </div>
-                              ));
-                            }
-                            return (
-                              <div style={{ color: "#666", fontSize: "12px" }}>
-                                Add a dropdown field to enable branch routing logic.
-                              </div>
-                            );
-                          })()}
-                        </div>
-                      )}
-                      
-                      {/* Move On Button Section - only show when checked */}
-                      {moveOnButtonAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Move On Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.moveOnButton?.text || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      moveOnButton: {
-                                        text: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter button text (e.g., 'Continue', 'Next', 'Submit')..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
-                      )}
-                      
-                      {/* Celebration Modal Section - only show when checked */}
-                      {celebrationModalAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Title:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.title || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        title: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal title..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Content:</label>
-                          <textarea
-                            value={(component?.content as any)?.celebrationModal?.content || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        content: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal content..."
-                            style={{
-                              width: "100%",
-                              minHeight: "80px",
-                              padding: "12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              resize: "vertical",
-                              boxSizing: "border-box",
-                              background: "white",
-                              outline: "none"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Description:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.description || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        description: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal description..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Media:</label>
-                          <div style={{ position: "relative", marginTop: "8px", marginBottom: "16px" }}>
-                            <select
-                              value={(component?.content as any)?.celebrationModal?.media || ""}
-                              onChange={(e) => {
-                                if (node) {
-                                  const component = components.get(node.data.componentId);
-                                  if (component) {
-                                    const updatedComponent = {
-                                      ...component,
-                                      content: {
-                                        ...component.content,
-                                        celebrationModal: {
-                                          ...(component.content as any).celebrationModal,
-                                          media: e.target.value
-                                        }
-                                      },
-                                      updatedAt: new Date()
-                                    };
-                                    setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                    
-                                    // Dispatch event to update component data
-                                    const event = new CustomEvent("updateComponentData", {
-                                      detail: { 
-                                        messageId: editingMessageId, 
-                                        componentData: updatedComponent 
-                                      },
-                                    });
-                                    window.dispatchEvent(event);
-                                  }
-                                }
-                              }}
-                              style={{
-                                width: "100%",
-                                padding: "8px 12px",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                fontSize: "14px",
-                                fontFamily: "inherit",
-                                background: "white",
-                                outline: "none",
-                                cursor: "pointer"
-                              }}
-                              onFocus={(e) => {
-                                e.target.style.border = "2px solid #003250";
-                              }}
-                              onBlur={(e) => {
-                                e.target.style.border = "1px solid #E9DDD3";
-                              }}
-                            >
-                              <option value="">Select an image...</option>
-                              {availableImages.map((image, index) => (
-                                <option key={index} value={image.value}>
-                                  {image.label}
-                                </option>
-                              ))}
-                            </select>
-                            {(component?.content as any)?.celebrationModal?.media && (
-                              <div style={{
-                                position: "absolute",
-                                top: "100%",
-                                left: "0",
-                                right: "0",
-                                backgroundColor: "white",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                padding: "8px",
-                                marginTop: "4px",
-                                zIndex: 10,
-                                boxShadow: "0 2px 8px rgba(0,0,0,0.1)"
-                              }}>
-                                <img
-                                  src={(component?.content as any)?.celebrationModal?.media}
-                                  alt="Selected"
-                                  style={{
-                                    width: "100%",
-                                    height: "auto",
-                                    maxHeight: "100px",
-                                    objectFit: "contain"
-                                  }}
-                                />
-                              </div>
-                            )}
-                          </div>
-                          
-                          <label style={{ fontWeight: "700" }}>Call to Action Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.callToActionText || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        callToActionText: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter call to action button text..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Time to Load (milliseconds):</label>
-                          <input
-                            type="number"
-                            min="0"
-                            value={(component?.content as any)?.celebrationModal?.timeToLoad || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        timeToLoad: parseInt(e.target.value) || 0
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter time to load in milliseconds..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
-                      )}
-                    </>
-                  );
-                } else if (uiToolType === "multiSelect") {
-                  return (
-                    <>
-                      {bannerField}
-                      {textField}
-                      {(bannerAddOn || textAddOn) && (
-                        <div style={{
-                          borderBottom: "1px solid #E9DDD3",
-                          marginBottom: "20px",
-                          paddingBottom: "16px"
-                        }} />
-                      )}
-                      <label style={{ fontWeight: "700" }}>Question Text:</label>
-                      <textarea
-                        value={component?.content.multiSelect?.text || ""}
-                        onChange={(e) => {
-                          if (node) {
-                            const component = components.get(node.data.componentId);
-                            if (component) {
-                              const updatedComponent = {
-                                ...component,
-                                content: {
-                                  ...component.content,
-                                  multiSelect: {
-                                    ...component.content.multiSelect,
-                                    text: e.target.value
-                                  }
-                                },
-                                updatedAt: new Date()
-                              };
-                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                              
-                              // Dispatch event to update preview
-                              const event = new CustomEvent("updateComponentData", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  componentData: updatedComponent 
-                                },
-                              });
-                              window.dispatchEvent(event);
-                            }
-                          }
-                        }}
-                        placeholder="Enter your multi-select question..."
-                        style={{
-                          width: "100%",
-                          minHeight: "80px",
-                          padding: "12px",
-                          border: "1px solid #E9DDD3",
-                          borderRadius: "8px",
-                          fontSize: "14px",
-                          fontFamily: "inherit",
-                          marginBottom: "16px",
-                          resize: "vertical",
-                          boxSizing: "border-box",
-                          transform: "translate(-2px, -3px)",
-                          outline: "none"
-                        }}
-                        onFocus={(e) => {
-                          e.target.style.border = "2px solid #003250";
-                        }}
-                        onBlur={(e) => {
-                          e.target.style.border = "1px solid #E9DDD3";
-                        }}
-                      />
-                      
-                      <label style={{ fontWeight: "700" }}>Max Selection:</label>
-                      <input
-                        type="number"
-                        min="1"
-                        value={component?.content.multiSelect?.maxSelection || 1}
-                        onChange={(e) => {
-                          if (node) {
-                            const component = components.get(node.data.componentId);
-                            if (component) {
-                              const updatedComponent = {
-                                ...component,
-                                content: {
-                                  ...component.content,
-                                  multiSelect: {
-                                    ...component.content.multiSelect,
-                                    maxSelection: parseInt(e.target.value) || 1
-                                  }
-                                },
-                                updatedAt: new Date()
-                              };
-                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                              
-                              // Dispatch event to update preview
-                              const event = new CustomEvent("updateComponentData", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  componentData: updatedComponent 
-                                },
-                              });
-                              window.dispatchEvent(event);
-                            }
-                          }
-                        }}
-                        style={{
-                          width: "100%",
-                          padding: "8px 12px",
-                          border: "1px solid #E9DDD3",
-                          borderRadius: "8px",
-                          fontSize: "14px",
-                          fontFamily: "inherit",
-                          marginBottom: "16px",
-                          height: "33px",
-                          boxSizing: "border-box",
-                          transform: "translate(-2px, -3px)",
-                        }}
-                      />
-                      
-                      <label style={{ fontWeight: "700" }}>Options:</label>
-                      <div style={{ marginBottom: "16px" }}>
-                        {(component?.content.multiSelect?.options || [{ text: "" }]).map((option, index) => (
-                          <div key={index} style={{ display: "flex", gap: "8px", marginBottom: "8px", alignItems: "flex-start" }}>
-                            <input
-                              type="text"
-                              value={option.text || ""}
-                              onChange={(e) => {
-                                if (node) {
-                                  const component = components.get(node.data.componentId);
-                                  if (component) {
-                                    const currentOptions = component.content.multiSelect?.options || [{ text: "" }];
-                                    const newOptions = [...currentOptions];
-                                    newOptions[index] = { ...newOptions[index], text: e.target.value };
-                                    
-                                    // Remove empty options except the last one
-                                    const filteredOptions = newOptions.filter((opt, i) => 
-                                      opt.text?.trim() !== "" || i === newOptions.length - 1
-                                    );
-                                    
-                                    const updatedComponent = {
-                                      ...component,
-                                      content: {
-                                        ...component.content,
-                                        multiSelect: {
-                                          ...component.content.multiSelect,
-                                          options: filteredOptions
-                                        }
-                                      },
-                                      updatedAt: new Date()
-                                    };
-                                    setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                    
-                                    // Dispatch event to update preview
-                                    const event = new CustomEvent("updateComponentData", {
-                                      detail: { 
-                                        messageId: editingMessageId, 
-                                        componentData: updatedComponent 
-                                      },
-                                    });
-                                    window.dispatchEvent(event);
-                                  }
-                                }
-                              }}
-                              placeholder={`Option ${index + 1}`}
-                              style={{
-                                flex: 1,
-                                padding: "8px 12px",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "6px",
-                                fontSize: "14px",
-                                fontFamily: "inherit",
-                                boxSizing: "border-box",
-                                height: "33px",
-                                minWidth: "200px",
-                                transform: "translate(-2px, -3px)",
-                                outline: "none"
-                              }}
-                              onFocus={(e) => {
-                                e.target.style.border = "2px solid #003250";
-                              }}
-                              onBlur={(e) => {
-                                e.target.style.border = "1px solid #E9DDD3";
-                              }}
-                            />
-                            
-                            {/* Image dropdown for this option */}
-                            <div style={{ display: "flex", gap: "12px", alignItems: "flex-start" }}>
-                              <div className="image-dropdown-container" style={{ flex: 1, position: "relative", minWidth: "200px" }}>
-                                <div
-                                  onClick={() => {
-                                    // Toggle dropdown for this specific option
-                                    const dropdownKey = `imageDropdown_${index}`;
-                                    setImageDropdownOpen(prev => prev === dropdownKey ? false : dropdownKey);
-                                  }}
-                                  style={{
-                                    padding: "8px 12px",
-                                    border: "1px solid #E9DDD3",
-                                    borderRadius: "8px",
-                                    fontSize: "14px",
-                                    fontFamily: "inherit",
-                                    background: "white",
-                                    cursor: "pointer",
-                                    display: "flex",
-                                    justifyContent: "space-between",
-                                    alignItems: "center",
-                                    height: "33px",
-                                    boxSizing: "border-box",
-                                    minWidth: "200px",
-                                    width: "200px",
-                                    transform: "translate(-2px, -3px)",
-                                  }}
-                                >
-                                  <span style={{ 
-                                    overflow: "hidden", 
-                                    textOverflow: "ellipsis", 
-                                    whiteSpace: "nowrap",
-                                    flex: 1,
-                                    marginRight: "3px"
-                                  }}>
-                                    {availableImages.find(img => img.value === option.image)?.label || "No image"}
-                                  </span>
-                                  <span style={{ 
-                                    fontSize: "18px", 
-                                    color: "#333", 
-                                    fontWeight: "600", 
-                                    transform: "translateY(-3px)",
-                                    flexShrink: 0,
-                                    paddingLeft: "3px"
-                                  }}>⌵</span>
-                                </div>
-                                
-                                {imageDropdownOpen === `imageDropdown_${index}` && (
-                                  <div
-                                    style={{
-                                      position: "absolute",
-                                      top: "100%",
-                                      left: 0,
-                                      right: 0,
-                                      background: "white",
-                                      border: "1px solid #E9DDD3",
-                                      borderRadius: "8px",
-                                      marginTop: "4px",
-                                      maxHeight: "200px",
-                                      overflowY: "auto",
-                                      zIndex: 1000,
-                                      boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
-                                    }}
-                                  >
-                                    {availableImages.map((image) => (
-                                      <div
-                                        key={image.value}
-                                        onClick={() => {
-                                          // Remove any existing popups
-                                          const existingPopups = document.querySelectorAll('[data-image-preview]');
-                                          existingPopups.forEach(popup => popup.remove());
-                                          
-                                          if (node) {
-                                            const component = components.get(node.data.componentId);
-                                            if (component) {
-                                              const currentOptions = component.content.multiSelect?.options || [{ text: "" }];
-                                              const newOptions = [...currentOptions];
-                                              newOptions[index] = { ...newOptions[index], image: image.value };
-                                              
-                                              const updatedComponent = {
-                                                ...component,
-                                                content: {
-                                                  ...component.content,
-                                                  multiSelect: {
-                                                    ...component.content.multiSelect,
-                                                    options: newOptions
-                                                  }
-                                                },
-                                                updatedAt: new Date()
-                                              };
-                                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                              
-                                              // Dispatch event to update preview
-                                              const event = new CustomEvent("updateComponentData", {
-                                                detail: { 
-                                                  messageId: editingMessageId, 
-                                                  componentData: updatedComponent 
-                                                },
-                                              });
-                                              window.dispatchEvent(event);
-                                            }
-                                          }
-                                          setImageDropdownOpen(false);
-                                        }}
-                                        onMouseEnter={(e) => {
-                                          e.currentTarget.style.background = "#f5f5f5";
-                                          if (image.value) {
-                                            const popup = document.createElement('div');
-                                            popup.setAttribute('data-image-preview', 'true');
-                                            popup.style.cssText = `
-                                              position: fixed;
-                                              top: ${e.clientY + 10}px;
-                                              left: ${e.clientX + 10}px;
-                                              z-index: 10001;
-                                              background: white;
-                                              border: 1px solid #E9DDD3;
-                                              border-radius: 8px;
-                                              padding: 8px;
-                                              box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
-                                              max-width: 200px;
-                                              max-height: 200px;
-                                            `;
-                                            popup.innerHTML = `<img src="${image.value}" style="width: 100%; height: 100%; object-fit: contain;" alt="Preview" />`;
-                                            document.body.appendChild(popup);
-                                            e.currentTarget.addEventListener('mouseleave', () => {
-                                              popup.remove();
-                                            }, { once: true });
-                                          }
-                                        }}
-                                        onMouseLeave={(e) => {
-                                          e.currentTarget.style.background = "white";
-                                          // Remove any existing popups
-                                          const existingPopups = document.querySelectorAll('[data-image-preview]');
-                                          existingPopups.forEach(popup => popup.remove());
-                                        }}
-                                        style={{
-                                          padding: "8px 12px",
-                                          cursor: "pointer",
-                                          borderBottom: "1px solid #f0f0f0",
-                                          fontSize: "14px",
-                                          display: "flex",
-                                          alignItems: "center",
-                                          gap: "8px",
-                                        }}
-                                      >
-                                        <img 
-                                          src={image.value} 
-                                          alt={image.label} 
-                                          style={{ 
-                                            width: "20px", 
-                                            height: "15px", 
-                                            objectFit: "cover",
-                                            borderRadius: "2px"
-                                          }} 
-                                        />
-                                        {image.label}
-                                      </div>
-                                    ))}
-                                  </div>
-                                )}
-                              </div>
-                              
-                              {/* Image thumbnail preview */}
-                              <div style={{ 
-                                width: "45px", 
-                                height: "45px", 
-                                borderRadius: "8px", 
-                                overflow: "hidden", 
-                                background: "#F5F5F5",
-                                flexShrink: 0,
-                                display: "flex",
-                                alignItems: "center",
-                                justifyContent: "center"
-                              }}>
-                                {option.image ? (
-                                  <img 
-                                    src={option.image} 
-                                    alt="Preview" 
-                                    style={{ 
-                                      width: "100%", 
-                                      height: "100%", 
-                                      objectFit: "cover" 
-                                    }} 
-                                  />
-                                ) : (
-                                  <span style={{ 
-                                    color: "#999", 
-                                    fontSize: "11px", 
-                                    textAlign: "center",
-                                    fontWeight: "400"
-                                  }}>
-                                    No img
-                                  </span>
-                                )}
-                              </div>
-                            </div>
-                            
-                            {(component?.content.multiSelect?.options?.length || 1) > 1 && (
-                              <button
-                                type="button"
-                                onClick={() => {
-                                  if (node) {
-                                    const component = components.get(node.data.componentId);
-                                    if (component) {
-                                      const currentOptions = component.content.multiSelect?.options || [{ text: "" }];
-                                      const newOptions = currentOptions.filter((_, i) => i !== index);
-                                      
-                                      // Ensure we always have at least one option field
-                                      if (newOptions.length === 0) {
-                                        newOptions.push({ text: "" });
-                                      }
-                                      
-                                      const updatedComponent = {
-                                        ...component,
-                                        content: {
-                                          ...component.content,
-                                          multiSelect: {
-                                            ...component.content.multiSelect,
-                                            options: newOptions
-                                          }
-                                        },
-                                        updatedAt: new Date()
-                                      };
-                                      setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                      
-                                      // Dispatch event to update preview
-                                      const event = new CustomEvent("updateComponentData", {
-                                        detail: { 
-                                          messageId: editingMessageId, 
-                                          componentData: updatedComponent 
-                                        },
-                                      });
-                                      window.dispatchEvent(event);
-                                    }
-                                  }
-                                }}
-                                style={{
-                                  background: "#F16B68",
-                                  color: "white",
-                                  border: "none",
-                                  borderRadius: "4px",
-                                  width: "24px",
-                                  height: "24px",
-                                  fontSize: "12px",
-                                  cursor: "pointer",
-                                  display: "flex",
-                                  alignItems: "center",
-                                  justifyContent: "center",
-                                  flexShrink: 0,
-                                  outline: "none",
-                                }}
-                              >
-                                ×
-                              </button>
-                            )}
-                          </div>
-                        ))}
-                        <button
-                          type="button"
-                          onClick={() => {
-                            if (node) {
-                              const component = components.get(node.data.componentId);
-                              if (component) {
-                                const currentOptions = component.content.multiSelect?.options || [{ text: "" }];
-                                const newOptions = [...currentOptions, { text: "" }];
-                                
-                                const updatedComponent = {
-                                  ...component,
-                                  content: {
-                                    ...component.content,
-                                    multiSelect: {
-                                      ...component.content.multiSelect,
-                                      options: newOptions
-                                    }
-                                  },
-                                  updatedAt: new Date()
-                                };
-                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                
-                                // Dispatch event to update preview
-                                const event = new CustomEvent("updateComponentData", {
-                                  detail: { 
-                                    messageId: editingMessageId, 
-                                    componentData: updatedComponent 
-                                  },
-                                });
-                                window.dispatchEvent(event);
-                              }
-                            }
-                          }}
-                          style={{
-                            background: "#8EAF86",
-                            color: "white",
-                            border: "none",
-                            borderRadius: "6px",
-                            padding: "6px 12px",
-                            fontSize: "12px",
-                            cursor: "pointer",
-                            marginTop: "4px",
-                            outline: "none",
-                          }}
-                        >
-                          + Add Option
-                        </button>
-                      </div>
-                      
-                      {/* Branch Routing Logic Section - only show when checked */}
-                      {branchRoutingAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <div style={{
-                            fontSize: "14px",
-                            color: "#003250",
-                            fontWeight: "700",
-                            marginBottom: "16px"
-                          }}>
-                            Branch Routing Logic
-                          </div>
-                          
-                          {component?.content.multiSelect?.options?.map((option: MultiSelectOption, index: number) => (
-                            <div key={index} style={{
-                              display: "flex",
-                              alignItems: "center",
-                              gap: "12px",
-                              marginBottom: "12px"
-                            }}>
-                              <span style={{
-                                fontSize: "14px",
-                                color: "#003250",
-                                minWidth: "120px"
-                              }}>
-                                When user chooses "{option.text}" →
-                              </span>
-                              <input
-                                type="text"
-                                placeholder="Enter component slug..."
-                                value={(component?.content as any)?.branchRouting?.[index]?.destinationSlug || ""}
-                                onChange={(e) => {
-                                  if (node) {
-                                    const component = components.get(node.data.componentId);
-                                    if (component) {
-                                      const updatedComponent = {
-                                        ...component,
-                                        content: {
-                                          ...component.content,
-                                          branchRouting: {
-                                            ...(component.content as any).branchRouting,
-                                            [index]: {
-                                              optionText: option.text,
-                                              destinationSlug: e.target.value
-                                            }
-                                          }
-                                        },
-                                        updatedAt: new Date()
-                                      };
-                                      setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                      
-                                      // Dispatch event to update component data
-                                      const event = new CustomEvent("updateComponentData", {
-                                        detail: { 
-                                          messageId: editingMessageId, 
-                                          componentData: updatedComponent 
-                                        },
-                                      });
-                                      window.dispatchEvent(event);
-                                    }
-                                  }
-                                }}
-                                style={{
-                                  flex: 1,
-                                  padding: "8px 12px",
-                                  border: "1px solid #E9DDD3",
-                                  borderRadius: "8px",
-                                  fontSize: "14px",
-                                  fontFamily: "inherit",
-                                  background: "white",
-                                  outline: "none"
-                                }}
-                                onFocus={(e) => {
-                                  e.target.style.border = "2px solid #003250";
-                                }}
-                                onBlur={(e) => {
-                                  e.target.style.border = "1px solid #E9DDD3";
-                                }}
-                              />
-                            </div>
-                          ))}
-                        </div>
-                      )}
-                      
-                      {/* Move On Button Section - only show when checked */}
-                      {moveOnButtonAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Move On Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.moveOnButton?.text || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      moveOnButton: {
-                                        text: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter button text (e.g., 'Continue', 'Next', 'Submit')..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
-                      )}
-                      
-                      {/* Celebration Modal Section - only show when checked */}
-                      {celebrationModalAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Title:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.title || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        title: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal title..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Content:</label>
-                          <textarea
-                            value={(component?.content as any)?.celebrationModal?.content || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        content: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal content..."
-                            style={{
-                              width: "100%",
-                              minHeight: "80px",
-                              padding: "12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              resize: "vertical",
-                              boxSizing: "border-box",
-                              background: "white",
-                              outline: "none"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Description:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.description || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        description: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal description..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Media:</label>
-                          <div style={{ position: "relative", marginTop: "8px", marginBottom: "16px" }}>
-                            <select
-                              value={(component?.content as any)?.celebrationModal?.media || ""}
-                              onChange={(e) => {
-                                if (node) {
-                                  const component = components.get(node.data.componentId);
-                                  if (component) {
-                                    const updatedComponent = {
-                                      ...component,
-                                      content: {
-                                        ...component.content,
-                                        celebrationModal: {
-                                          ...(component.content as any).celebrationModal,
-                                          media: e.target.value
-                                        }
-                                      },
-                                      updatedAt: new Date()
-                                    };
-                                    setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                    
-                                    // Dispatch event to update component data
-                                    const event = new CustomEvent("updateComponentData", {
-                                      detail: { 
-                                        messageId: editingMessageId, 
-                                        componentData: updatedComponent 
-                                      },
-                                    });
-                                    window.dispatchEvent(event);
-                                  }
-                                }
-                              }}
-                              style={{
-                                width: "100%",
-                                padding: "8px 12px",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                fontSize: "14px",
-                                fontFamily: "inherit",
-                                background: "white",
-                                outline: "none",
-                                cursor: "pointer"
-                              }}
-                              onFocus={(e) => {
-                                e.target.style.border = "2px solid #003250";
-                              }}
-                              onBlur={(e) => {
-                                e.target.style.border = "1px solid #E9DDD3";
-                              }}
-                            >
-                              <option value="">Select an image...</option>
-                              {availableImages.map((image, index) => (
-                                <option key={index} value={image.value}>
-                                  {image.label}
-                                </option>
-                              ))}
-                            </select>
-                            {(component?.content as any)?.celebrationModal?.media && (
-                              <div style={{
-                                position: "absolute",
-                                top: "100%",
-                                left: "0",
-                                right: "0",
-                                backgroundColor: "white",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                padding: "8px",
-                                marginTop: "4px",
-                                zIndex: 10,
-                                boxShadow: "0 2px 8px rgba(0,0,0,0.1)"
-                              }}>
-                                <img
-                                  src={(component?.content as any)?.celebrationModal?.media}
-                                  alt="Selected"
-                                  style={{
-                                    width: "100%",
-                                    height: "auto",
-                                    maxHeight: "100px",
-                                    objectFit: "contain"
-                                  }}
-                                />
-                              </div>
-                            )}
-                          </div>
-                          
-                          <label style={{ fontWeight: "700" }}>Call to Action Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.callToActionText || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        callToActionText: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter call to action button text..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Time to Load (milliseconds):</label>
-                          <input
-                            type="number"
-                            min="0"
-                            value={(component?.content as any)?.celebrationModal?.timeToLoad || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        timeToLoad: parseInt(e.target.value) || 0
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter time to load in milliseconds..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
-                      )}
-                    </>
-                  );
-                } else {
-                  return (
-                    <>
-                      {bannerField}
-                      {textField}
-                      {(bannerAddOn || textAddOn) && (
-                        <div style={{
-                          borderBottom: "1px solid #E9DDD3",
-                          marginBottom: "20px",
-                          paddingBottom: "16px"
-                        }} />
-                      )}
-                      <label style={{ fontWeight: "700" }}>Message Content:</label>
-                      <textarea
-                        value={component?.content.message?.text || ""}
-                        onChange={(e) => {
-                          if (node) {
-                            const component = components.get(node.data.componentId);
-                            if (component) {
-                              const updatedComponent = {
-                                ...component,
-                                content: {
-                                  ...component.content,
-                                  message: {
-                                    ...component.content.message,
-                                    text: e.target.value
-                                  }
-                                },
-                                updatedAt: new Date()
-                              };
-                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                              
-                              // Dispatch event to update preview
-                              const event = new CustomEvent("updateComponentData", {
-                                detail: { 
-                                  messageId: editingMessageId, 
-                                  componentData: updatedComponent 
-                                },
-                              });
-                              window.dispatchEvent(event);
-                            }
-                          }
-                        }}
-                        placeholder="Enter your message content..."
-                        style={{
-                          width: "100%",
-                          minHeight: "100px",
-                          padding: "12px",
-                          border: "1px solid #E9DDD3",
-                          borderRadius: "8px",
-                          fontSize: "14px",
-                          fontFamily: "inherit",
-                          marginBottom: "16px",
-                          resize: "vertical",
-                          boxSizing: "border-box",
-                          transform: "translate(-2px, -3px)",
-                          outline: "none"
-                        }}
-                        onFocus={(e) => {
-                          e.target.style.border = "2px solid #003250";
-                        }}
-                        onBlur={(e) => {
-                          e.target.style.border = "1px solid #E9DDD3";
-                        }}
-                      />
-                      
-                      {/* Move On Button Section - only show when checked */}
-                      {moveOnButtonAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Move On Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.moveOnButton?.text || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      moveOnButton: {
-                                        text: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter button text (e.g., 'Continue', 'Next', 'Submit')..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
-                      )}
-                      
-                      {/* Celebration Modal Section - only show when checked */}
-                      {celebrationModalAddOn && (
-                        <div style={{
-                          backgroundColor: "#F2E8E0",
-                          border: "1px solid #E9DDD3",
-                          padding: "16px",
-                          marginTop: "16px",
-                          marginLeft: "-20px",
-                          marginRight: "-20px"
-                        }}>
-                          <label style={{ fontWeight: "700" }}>Title:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.title || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        title: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal title..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Content:</label>
-                          <textarea
-                            value={(component?.content as any)?.celebrationModal?.content || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        content: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal content..."
-                            style={{
-                              width: "100%",
-                              minHeight: "80px",
-                              padding: "12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              resize: "vertical",
-                              boxSizing: "border-box",
-                              background: "white",
-                              outline: "none"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Description:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.description || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        description: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter celebration modal description..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Media:</label>
-                          <div style={{ position: "relative", marginTop: "8px", marginBottom: "16px" }}>
-                            <select
-                              value={(component?.content as any)?.celebrationModal?.media || ""}
-                              onChange={(e) => {
-                                if (node) {
-                                  const component = components.get(node.data.componentId);
-                                  if (component) {
-                                    const updatedComponent = {
-                                      ...component,
-                                      content: {
-                                        ...component.content,
-                                        celebrationModal: {
-                                          ...(component.content as any).celebrationModal,
-                                          media: e.target.value
-                                        }
-                                      },
-                                      updatedAt: new Date()
-                                    };
-                                    setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                    
-                                    // Dispatch event to update component data
-                                    const event = new CustomEvent("updateComponentData", {
-                                      detail: { 
-                                        messageId: editingMessageId, 
-                                        componentData: updatedComponent 
-                                      },
-                                    });
-                                    window.dispatchEvent(event);
-                                  }
-                                }
-                              }}
-                              style={{
-                                width: "100%",
-                                padding: "8px 12px",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                fontSize: "14px",
-                                fontFamily: "inherit",
-                                background: "white",
-                                outline: "none",
-                                cursor: "pointer"
-                              }}
-                              onFocus={(e) => {
-                                e.target.style.border = "2px solid #003250";
-                              }}
-                              onBlur={(e) => {
-                                e.target.style.border = "1px solid #E9DDD3";
-                              }}
-                            >
-                              <option value="">Select an image...</option>
-                              {availableImages.map((image, index) => (
-                                <option key={index} value={image.value}>
-                                  {image.label}
-                                </option>
-                              ))}
-                            </select>
-                            {(component?.content as any)?.celebrationModal?.media && (
-                              <div style={{
-                                position: "absolute",
-                                top: "100%",
-                                left: "0",
-                                right: "0",
-                                backgroundColor: "white",
-                                border: "1px solid #E9DDD3",
-                                borderRadius: "8px",
-                                padding: "8px",
-                                marginTop: "4px",
-                                zIndex: 10,
-                                boxShadow: "0 2px 8px rgba(0,0,0,0.1)"
-                              }}>
-                                <img
-                                  src={(component?.content as any)?.celebrationModal?.media}
-                                  alt="Selected"
-                                  style={{
-                                    width: "100%",
-                                    height: "auto",
-                                    maxHeight: "100px",
-                                    objectFit: "contain"
-                                  }}
-                                />
-                              </div>
-                            )}
-                          </div>
-                          
-                          <label style={{ fontWeight: "700" }}>Call to Action Button Text:</label>
-                          <input
-                            type="text"
-                            value={(component?.content as any)?.celebrationModal?.callToActionText || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        callToActionText: e.target.value
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
-                              }
-                            }}
-                            placeholder="Enter call to action button text..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              marginBottom: "16px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                          
-                          <label style={{ fontWeight: "700" }}>Time to Load (milliseconds):</label>
-                          <input
-                            type="number"
-                            min="0"
-                            value={(component?.content as any)?.celebrationModal?.timeToLoad || ""}
-                            onChange={(e) => {
-                              if (node) {
-                                const component = components.get(node.data.componentId);
-                                if (component) {
-                                  const updatedComponent = {
-                                    ...component,
-                                    content: {
-                                      ...component.content,
-                                      celebrationModal: {
-                                        ...(component.content as any).celebrationModal,
-                                        timeToLoad: parseInt(e.target.value) || 0
-                                      }
-                                    },
-                                    updatedAt: new Date()
-                                  };
-                                  setComponents(prev => new Map(prev).set(component.id, updatedComponent));
-                                  
-                                  // Dispatch event to update component data
-                                  const event = new CustomEvent("updateComponentData", {
-                                    detail: { 
-                                      messageId: editingMessageId, 
-                                      componentData: updatedComponent 
-                                    },
-                                  });
-                                  window.dispatchEvent(event);
-                                }
+                          borderRadius: "8px",
+                          fontSize: "14px",
+                          fontFamily: "inherit",
+                          marginBottom: "16px",
+                          height: "33px",
+                          boxSizing: "border-box",
+                          transform: "translate(-2px, -3px)",
+                          background: "white",
+                          outline: "none"
+                        }}
+                        onFocus={(e) => {
+                          e.target.style.border = "2px solid #003250";
+                        }}
+                        onBlur={(e) => {
+                          e.target.style.border = "1px solid #E9DDD3";
+                        }}
+                      />
+                  </div>
+                );
+
+                // Text add-on field
+                const textField = textAddOn && (
+                  <div style={{
+                    backgroundColor: aiGenerated ? "#F2E8E0" : "#F2E8E0",
+                    padding: "16px",
+                    marginBottom: "0px",
+                    marginLeft: "-20px",
+                    marginRight: "-20px",
+                    paddingLeft: "20px",
+                    paddingRight: "20px"
+                  }}>
+                    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "8px" }}>
+                      <label style={{ fontWeight: "700" }}>Text Content:</label>
+                      <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                        <label style={{ fontWeight: "700", fontSize: "14px" }}>Milliseconds to Load:</label>
+                        <input
+                          type="number"
+                          value={(component?.content as any)?.text?.millisecondsToLoad || 0}
+                          onChange={(e) => {
+                            if (node) {
+                              const component = components.get(node.data.componentId);
+                              if (component) {
+                                const updatedComponent = {
+                                  ...component,
+                                  content: {
+                                    ...component.content,
+                                    text: {
+                                      ...(component.content as any).text,
+                                      millisecondsToLoad: parseInt(e.target.value) || 0
+                                    }
+                                  },
+                                  updatedAt: new Date()
+                                };
+                                setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+                                
+                                // Dispatch event to update preview
+                                eventBus.emit("updateComponentData", {
+                                  messageId: editingMessageId, 
+                                  componentData: updatedComponent 
+                                });
                               }
-                            }}
-                            placeholder="Enter time to load in milliseconds..."
-                            style={{
-                              width: "100%",
-                              padding: "8px 12px",
-                              border: "1px solid #E9DDD3",
-                              borderRadius: "8px",
-                              fontSize: "14px",
-                              fontFamily: "inherit",
-                              background: "white",
-                              outline: "none",
-                              marginTop: "8px",
-                              boxSizing: "border-box"
-                            }}
-                            onFocus={(e) => {
-                              e.target.style.border = "2px solid #003250";
-                            }}
-                            onBlur={(e) => {
-                              e.target.style.border = "1px solid #E9DDD3";
-                            }}
-                          />
-                        </div>
+                            }
+                          }}
+                          style={{
+                            width: "80px",
+                            padding: "4px 8px",
+                            border: "1px solid #ccc",
+                            borderRadius: "4px",
+                            fontSize: "14px",
+                            textAlign: "right"
+                          }}
+                          min="0"
+                          step="100"
+                        />
+                      </div>
+                    </div>
+                    <textarea
+                      value={(component?.content as any)?.text?.text || ""}
+                      onChange={(e) => {
+                        if (node) {
+                          const component = components.get(node.data.componentId);
+                          if (component) {
+                            const updatedComponent = {
+                              ...component,
+                              content: {
+                                ...component.content,
+                                text: {
+                                  text: e.target.value,
+                                  type: "default"
+                                }
+                              },
+                              updatedAt: new Date()
+                            };
+                            setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+                            
+                            // Dispatch event to update preview
+                            eventBus.emit("updateComponentData", {
+                              messageId: editingMessageId, 
+                              componentData: updatedComponent 
+                            });
+                          }
+                        }
+                      }}
+                      placeholder="Enter your text content..."
+                      style={{
+                        width: "100%",
+                        minHeight: "80px",
+                        padding: "12px",
+                        border: "1px solid #E9DDD3",
+                        borderRadius: "8px",
+                        fontSize: "14px",
+                        fontFamily: "inherit",
+                        marginBottom: "6px",
+                        resize: "vertical",
+                        boxSizing: "border-box",
+                        transform: "translate(-2px, -3px)",
+                        outline: "none"
+                      }}
+                      onFocus={(e) => {
+                        e.target.style.border = "2px solid #003250";
+                      }}
+                      onBlur={(e) => {
+                        e.target.style.border = "1px solid #E9DDD3";
+                      }}
+                    />
+                  </div>
+                );
+                
+                // Variable the answer is stored under, for {{references}} in
+                // later text and for conditions. An answer in parts, like a
+                // card sort's buckets, is stored one part per name.
+                const storedAs = component ? toolTypeRegistry.storedVariables(component) : [];
+                const variableField = (
+                  <>
+                    <label style={{ fontWeight: "700" }}>Save Answer As:</label>
+                    <input
+                      type="text"
+                      value={component?.variable || ""}
+                      onChange={(e) => {
+                        if (node) {
+                          const component = components.get(node.data.componentId);
+                          if (component) {
+                            const updatedComponent = {
+                              ...component,
+                              variable: cleanVariableName(e.target.value) || undefined,
+                              updatedAt: new Date()
+                            };
+                            setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+                          }
+                        }
+                      }}
+                      placeholder="e.g. top_strengths"
+                      style={{
+                        width: "100%",
+                        padding: "8px 12px",
+                        border: "1px solid #E9DDD3",
+                        borderRadius: "8px",
+                        fontSize: "14px",
+                        fontFamily: "inherit",
+                        marginBottom: "4px",
+                        height: "33px",
+                        boxSizing: "border-box",
+                        transform: "translate(-2px, -3px)",
+                        outline: "none"
+                      }}
+                      onFocus={(e) => {
+                        e.target.style.border = "2px solid #003250";
+                      }}
+                      onBlur={(e) => {
+                        e.target.style.border = "1px solid #E9DDD3";
+                      }}
+                    />
+                    <div style={{ fontSize: "12px", color: "#666", marginBottom: "16px" }}>
+                      {!component?.variable
+                        ? "Name the answer to show it in later text"
+                        : storedAs.length > 1
+                          ? `Later text can show each part of this answer, e.g. {{${storedAs[0]}}}`
+                          : `Later text can show this answer with {{${component.variable}}}`}
+                    </div>
+                  </>
+                );
+
+                // Branch routing add-on: the routes on the edges out of this node
+                const routingSection = branchRoutingAddOn && (
+                  <div style={{
+                    backgroundColor: "#F2E8E0",
+                    border: "1px solid #E9DDD3",
+                    padding: "16px",
+                    marginTop: "16px",
+                    marginLeft: "-20px",
+                    marginRight: "-20px"
+                  }}>
+                    <div style={{
+                      fontSize: "14px",
+                      color: "#003250",
+                      fontWeight: "700",
+                      marginBottom: "16px"
+                    }}>
+                      Branch Routing Logic
+                    </div>
+
+                    {node && <RoutingEditor nodeId={node.id} />}
+                  </div>
+                );
+
+                const definition = toolTypeRegistry.get(uiToolType);
+
+                if (component && definition?.Editor) {
+                  // Tool types that bring their own editor (see toolTypes/)
+                  const { Editor } = definition;
+                  return (
+                    <>
+                      {bannerField}
+                      {textField}
+                      {(bannerAddOn || textAddOn) && (
+                        <div style={{
+                          borderBottom: "1px solid #E9DDD3",
+                          marginBottom: "20px",
+                          paddingBottom: "16px"
+                        }} />
+                      )}
+                      <Editor
+                        component={component}
+                        content={component.content[uiToolType] ?? definition.defaultContent()}
+                        onChange={(content) => {
+                          const updatedComponent = {
+                            ...component,
+                            content: {
+                              ...component.content,
+                              [uiToolType]: content
+                            },
+                            updatedAt: new Date()
+                          };
+                          setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+
+                          // Dispatch event to update preview
+                          eventBus.emit("updateComponentData", {
+                            messageId: editingMessageId,
+                            componentData: updatedComponent
+                          });
+                        }}
+                      />
+                      {toolTypeRegistry.storesAnswer(component) && variableField}
+                      {routingSection}
+                      {addOnSections}
+                    </>
+                  );
+                } else {
+                  return (
+                    <>
+                      {bannerField}
+                      {textField}
+                      {(bannerAddOn || textAddOn) && (
+                        <div style={{
+                          borderBottom: "1px solid #E9DDD3",
+                          marginBottom: "20px",
+                          paddingBottom: "16px"
+                        }} />
                       )}
+                      <label style={{ fontWeight: "700" }}>Message Content:</label>
+                      <textarea
+                        value={component?.content.message?.text || ""}
+                        onChange={(e) => {
+                          if (node) {
+                            const component = components.get(node.data.componentId);
+                            if (component) {
+                              const updatedComponent = {
+                                ...component,
+                                content: {
+                                  ...component.content,
+                                  message: {
+                                    ...component.content.message,
+                                    text: e.target.value
+                                  }
+                                },
+                                updatedAt: new Date()
+                              };
+                              setComponents(prev => new Map(prev).set(component.id, updatedComponent));
+                              
+                              // Dispatch event to update preview
+                              eventBus.emit("updateComponentData", {
+                                messageId: editingMessageId, 
+                                componentData: updatedComponent 
+                              });
+                            }
+                          }
+                        }}
+                        placeholder="Enter your message content..."
+                        style={{
+                          width: "100%",
+                          minHeight: "100px",
+                          padding: "12px",
+                          border: "1px solid #E9DDD3",
+                          borderRadius: "8px",
+                          fontSize: "14px",
+                          fontFamily: "inherit",
+                          marginBottom: "16px",
+                          resize: "vertical",
+                          boxSizing: "border-box",
+                          transform: "translate(-2px, -3px)",
+                          outline: "none"
+                        }}
+                        onFocus={(e) => {
+                          e.target.style.border = "2px solid #003250";
+                        }}
+                        onBlur={(e) => {
+                          e.target.style.border = "1px solid #E9DDD3";
+                        }}
+                      />
+                      
+                      {routingSection}
+                      {addOnSections}
                     </>
                   );
                 }
@@ -6857,39 +3418,25 @@ export default function FlowCanvas() {
                       // Save updated component to state
                       setComponents(prev => new Map(prev).set(component.id, updatedComponent));
                       
-                      let content = "";
-                      if (component.uiToolType === "question") {
-                        content = component.content.question?.text || "";
-                      } else if (component.uiToolType === "multiSelect") {
-                        content = component.content.multiSelect?.text || "";
-                      } else {
-                        content = component.content.message?.text || "";
-                      }
+                      const content = toolTypeRegistry.previewText(component) ?? "";
                         
                       // Dispatch event to update message content
-                      const contentEvent = new CustomEvent("updateMessageContent", {
-                        detail: { 
-                          messageId: editingMessageId, 
-                          content: content
-                        },
+                      eventBus.emit("updateMessageContent", {
+                        messageId: editingMessageId, 
+                        content: content
                       });
-                      window.dispatchEvent(contentEvent);
                       
                       // Dispatch event to update component data (for banner, etc.)
-                      const componentEvent = new CustomEvent("updateComponentData", {
-                        detail: { 
-                          messageId: editingMessageId, 
-                          componentData: updatedComponent
-                        },
+                      eventBus.emit("updateComponentData", {
+                        messageId: editingMessageId, 
+                        componentData: updatedComponent
                       });
-                      window.dispatchEvent(componentEvent);
                     }
                   }
                   setEditingMessageId(null);
                   setOriginalComponentData(null);
                   // Dispatch event to clear highlight in preview
-                  const event = new CustomEvent("editWindowClose");
-                  window.dispatchEvent(event);
+                  eventBus.emit("editWindowClose");
                 }}
                 style={{
                   background: "#F16B68",
@@ -6914,21 +3461,17 @@ export default function FlowCanvas() {
                       setComponents(prev => new Map(prev).set(originalComponentData.id, originalComponentData));
                       
                       // Dispatch event to update preview with original data
-                      const event = new CustomEvent("updateComponentData", {
-                        detail: { 
-                          messageId: editingMessageId, 
-                          componentData: originalComponentData 
-                        },
+                      eventBus.emit("updateComponentData", {
+                        messageId: editingMessageId, 
+                        componentData: originalComponentData 
                       });
-                      window.dispatchEvent(event);
                     }
                   }
                   
                   setEditingMessageId(null);
                   setOriginalComponentData(null);
                   // Dispatch event to clear highlight in preview
-                  const event = new CustomEvent("editWindowClose");
-                  window.dispatchEvent(event);
+                  eventBus.emit("editWindowClose");
                 }}
                 style={{
                   background: "#E9DDD3",
@@ -6950,6 +3493,60 @@ export default function FlowCanvas() {
       )}
 
       {/* Images Popup Overlay */}
+      {/* Diff Panel */}
+      {showEditHistory && (
+        <EditHistoryPanel onClose={() => setShowEditHistory(false)} />
+      )}
+
+      {showDiffPanel && (
+        <DiffPanel
+          onClose={() => setShowDiffPanel(false)}
+          onDiffChange={setFlowDiff}
+          onFocusComponent={focusComponent}
+        />
+      )}
+
+      {showProblemsPanel && (
+        <ProblemsPanel
+          onClose={() => setShowProblemsPanel(false)}
+          onFocusComponent={focusComponent}
+        />
+      )}
+
+      {showPathExplorer && (
+        <PathExplorerPanel
+          onClose={() => setShowPathExplorer(false)}
+          onPlayStep={setHighlightedNodeId}
+        />
+      )}
+
+      {showPersonaRuns && (
+        <PersonaRunPanel
+          personas={personas}
+          personaId={selectedPersonaId}
+          onPersonaChange={setSelectedUser}
+          onClose={() => setShowPersonaRuns(false)}
+        />
+      )}
+
+      {showPersonaEditor && (
+        <PersonaEditor
+          selectedId={selectedPersonaId}
+          onSelect={setSelectedUser}
+          onClose={() => setShowPersonaEditor(false)}
+        />
+      )}
+
+      {/* Version History Panel */}
+      {showHistoryPanel && (
+        <HistoryPanel onClose={() => setShowHistoryPanel(false)} />
+      )}
+
+      {/* Three-way Merge Panel */}
+      {showMergePanel && (
+        <MergePanel onClose={() => setShowMergePanel(false)} />
+      )}
+
       {showImagesPopup && (
         <div style={{
           position: "fixed",
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+import { SNAPSHOT_LIMITS } from "../utils/snapshots";
+
+type HistoryPanelProps = {
+  onClose: () => void;
+};
+
+const actionButtonStyle: React.CSSProperties = {
+  padding: "4px 10px",
+  border: "1px solid #E9DDD3",
+  borderRadius: "6px",
+  fontSize: "12px",
+  background: "white",
+  color: "#003250",
+  cursor: "pointer",
+  outline: "none",
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export default function HistoryPanel({ onClose }: HistoryPanelProps) {
+  const {
+    snapshots,
+    projects,
+    activeProjectId,
+    createSnapshot,
+    restoreSnapshot,
+    forkSnapshot,
+    renameSnapshot,
+    deleteSnapshot,
+  } = useAppState();
+  const [snapshotName, setSnapshotName] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const projectName = projects.find(project => project.id === activeProjectId)?.name ?? "Project";
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Snapshot action failed:", error);
+      alert(error instanceof Error ? error.message : "Snapshot action failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{
+      position: "fixed",
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: "rgba(0, 0, 0, 0.5)",
+      zIndex: 1000,
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+    }}>
+      <div style={{
+        background: "white",
+        borderRadius: "12px",
+        padding: "24px",
+        width: "560px",
+        maxWidth: "90vw",
+        maxHeight: "90vh",
+        display: "flex",
+        flexDirection: "column",
+        position: "relative",
+      }}>
+        <div style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "20px",
+        }}>
+          <h2 style={{ margin: 0, color: "#333" }}>Version History</h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: "none",
+              border: "none",
+              fontSize: "24px",
+              cursor: "pointer",
+              color: "#666",
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* New snapshot */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            runAction(async () => {
+              await createSnapshot(snapshotName);
+              setSnapshotName("");
+            });
+          }}
+          style={{ display: "flex", gap: "8px", marginBottom: "20px" }}
+        >
+          <input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder='Snapshot name, e.g. "before Strengths rewrite"'
+            style={{
+              flex: 1,
+              padding: "8px 12px",
+              border: "1px solid #E9DDD3",
+              borderRadius: "6px",
+              fontSize: "14px",
+              outline: "none",
+            }}
+          />
+          <button
+            type="submit"
+            disabled={busy || !snapshotName.trim()}
+            style={{
+              padding: "8px 16px",
+              border: "none",
+              borderRadius: "6px",
+              fontSize: "14px",
+              background: "#F16B68",
+              color: "white",
+              fontWeight: "500",
+              cursor: busy || !snapshotName.trim() ? "not-allowed" : "pointer",
+              opacity: busy || !snapshotName.trim() ? 0.6 : 1,
+              outline: "none",
+            }}
+          >
+            Save Snapshot
+          </button>
+        </form>
+
+        {/* Timeline */}
+        <div style={{ overflow: "auto", flex: 1 }}>
+          {snapshots.length === 0 && (
+            <div style={{ color: "#666", fontSize: "14px", textAlign: "center", padding: "24px 0" }}>
+              No snapshots yet. Auto-save adds one every {SNAPSHOT_LIMITS.autoInterval / 60000} minutes while you edit.
+            </div>
+          )}
+          {snapshots.map(snapshot => (
+            <div
+              key={snapshot.id}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: "12px",
+                padding: "12px 0",
+                borderBottom: "1px solid #E9DDD3",
+              }}
+            >
+              <div style={{
+                width: "10px",
+                height: "10px",
+                borderRadius: "50%",
+                flexShrink: 0,
+                background: snapshot.kind === "named" ? "#F16B68" : "#E9DDD3",
+              }} />
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{
+                  fontSize: "14px",
+                  fontWeight: snapshot.kind === "named" ? "600" : "400",
+                  color: "#003250",
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                }}>
+                  {snapshot.name}
+                </div>
+                <div style={{ fontSize: "12px", color: "#666" }}>
+                  {new Date(snapshot.createdAt).toLocaleString()} · {formatSize(snapshot.size)}
+                  {snapshot.kind === "auto" && " · auto"}
+                </div>
+              </div>
+              <div style={{ display: "flex", gap: "4px", flexShrink: 0 }}>
+                <button
+                  disabled={busy}
+                  style={actionButtonStyle}
+                  onClick={() => {
+                    if (confirm(`Restore "${snapshot.name}"? The current state is saved as a snapshot first.`)) {
+                      runAction(() => restoreSnapshot(snapshot.id));
+                    }
+                  }}
+                >
+                  Restore
+                </button>
+                <button
+                  disabled={busy}
+                  style={actionButtonStyle}
+                  onClick={() => {
+                    const name = prompt("New project name:", `${projectName} - ${snapshot.name}`);
+                    if (name !== null) {
+                      runAction(async () => {
+                        await forkSnapshot(snapshot.id, name);
+                        onClose();
+                      });
+                    }
+                  }}
+                >
+                  Fork
+                </button>
+                <button
+                  disabled={busy}
+                  style={actionButtonStyle}
+                  onClick={() => {
+                    const name = prompt("Rename snapshot:", snapshot.name);
+                    if (name !== null) {
+                      runAction(() => renameSnapshot(snapshot.id, name));
+                    }
+                  }}
+                >
+                  Rename
+                </button>
+                <button
+                  disabled={busy}
+                  style={{ ...actionButtonStyle, color: "#F16B68" }}
+                  onClick={() => {
+                    if (confirm(`Delete snapshot "${snapshot.name}"? This action cannot be undone.`)) {
+                      runAction(() => deleteSnapshot(snapshot.id));
+                    }
+                  }}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ fontSize: "11px", color: "#999", marginTop: "12px" }}>
+          Keeps up to {SNAPSHOT_LIMITS.maxNamed} named and {SNAPSHOT_LIMITS.maxAuto} automatic snapshots per project;
+          the oldest automatic ones are removed first.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+import { useEffect, useRef, useState } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+import { snapshotManager } from "../utils/snapshots";
+import { diffStates, parseFlowState } from "../utils/diff";
+import type { FlowDiff } from "../utils/diff";
+import { applyResolutions, mergeStates } from "../utils/merge";
+import type { MergeConflict, MergeResolutions, MergeSide } from "../utils/merge";
+import type { AppState } from "../utils/storage";
+
+type MergePanelProps = {
+  onClose: () => void;
+};
+
+type Side = "base" | "ours" | "theirs";
+
+// "current", "file", or a snapshot id
+type SourceKey = string;
+
+const sideLabels: Record<Side, string> = {
+  base: "Common base",
+  ours: "Ours",
+  theirs: "Theirs",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return "(deleted)";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+const choiceButtonStyle = (selected: boolean): React.CSSProperties => ({
+  flex: 1,
+  padding: "6px 8px",
+  border: selected ? "2px solid #F16B68" : "1px solid #E9DDD3",
+  borderRadius: "6px",
+  fontSize: "12px",
+  textAlign: "left",
+  background: selected ? "#FFF7F1" : "white",
+  color: "#003250",
+  cursor: "pointer",
+  outline: "none",
+  wordBreak: "break-word",
+});
+
+const countChanges = (diff: FlowDiff) =>
+  diff.components.length + diff.nodes.length + diff.edges.length;
+
+export default function MergePanel({ onClose }: MergePanelProps) {
+  const { snapshots, exportState, applyMergedState } = useAppState();
+  const [sources, setSources] = useState<Record<Side, SourceKey>>(() => ({
+    base: snapshots[0]?.id ?? "file",
+    ours: "current",
+    theirs: "file",
+  }));
+  const [fileContents, setFileContents] = useState<Record<Side, string | null>>({ base: null, ours: null, theirs: null });
+  const [states, setStates] = useState<Record<Side, AppState> | null>(null);
+  const [conflicts, setConflicts] = useState<MergeConflict[]>([]);
+  const [incoming, setIncoming] = useState<FlowDiff | null>(null);
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const exportStateRef = useRef(exportState);
+  exportStateRef.current = exportState;
+
+  // Load the three sides and run the merge once all of them are available.
+  // "Current state" is read through a ref, once per source change, so that
+  // live edits don't reset the chosen resolutions.
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSource = async (side: Side) => {
+      const source = sources[side];
+      if (source === "current") return exportStateRef.current();
+      if (source === "file") return fileContents[side];
+      return snapshotManager.getSnapshotData(source);
+    };
+
+    const merge = async () => {
+      try {
+        const [baseJson, oursJson, theirsJson] = await Promise.all([
+          loadSource("base"),
+          loadSource("ours"),
+          loadSource("theirs"),
+        ]);
+        if (cancelled) return;
+        if (!baseJson || !oursJson || !theirsJson) {
+          setStates(null);
+          setError(null);
+          return;
+        }
+
+        const loaded = {
+          base: parseFlowState(baseJson),
+          ours: parseFlowState(oursJson),
+          theirs: parseFlowState(theirsJson),
+        };
+        const result = mergeStates(loaded.base, loaded.ours, loaded.theirs);
+        setStates(loaded);
+        setConflicts(result.conflicts);
+        setIncoming(diffStates(loaded.ours, result.merged));
+        setResolutions({});
+        setError(null);
+      } catch (mergeError) {
+        if (cancelled) return;
+        console.error("Failed to merge states:", mergeError);
+        setStates(null);
+        setError(mergeError instanceof Error ? mergeError.message : "Failed to merge states");
+      }
+    };
+
+    merge();
+    return () => {
+      cancelled = true;
+    };
+  }, [sources, fileContents]);
+
+  const chooseSide = (conflictId: string, side: MergeSide) => {
+    setResolutions(prev => ({ ...prev, [conflictId]: side }));
+  };
+
+  const resolveAll = (side: MergeSide) => {
+    setResolutions(Object.fromEntries(conflicts.map(conflict => [conflict.id, side])));
+  };
+
+  const unresolvedCount = conflicts.filter(conflict => !resolutions[conflict.id]).length;
+
+  const handleApply = async () => {
+    if (!states) return;
+    if (unresolvedCount > 0 && !confirm(`${unresolvedCount} conflict(s) are unresolved and will keep "ours". Apply the merge anyway?`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await applyMergedState(applyResolutions(states.base, states.ours, states.theirs, resolutions));
+      onClose();
+    } catch (applyError) {
+      console.error("Failed to apply merge:", applyError);
+      alert(applyError instanceof Error ? applyError.message : "Failed to apply merge");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderSourcePicker = (side: Side) => (
+    <div key={side} style={{ flex: 1, minWidth: 0 }}>
+      <div style={{ fontSize: "11px", color: "#666", marginBottom: "2px", fontWeight: "500" }}>
+        {sideLabels[side]}
+      </div>
+      <select
+        value={sources[side]}
+        onChange={(e) => setSources(prev => ({ ...prev, [side]: e.target.value }))}
+        style={{
+          width: "100%",
+          padding: "6px 8px",
+          border: "1px solid #E9DDD3",
+          borderRadius: "6px",
+          fontSize: "13px",
+          background: "white",
+          outline: "none",
+        }}
+      >
+        <option value="current">Current state</option>
+        <option value="file">Import file…</option>
+        {snapshots.map(snapshot => (
+          <option key={snapshot.id} value={snapshot.id}>
+            {snapshot.name} ({new Date(snapshot.createdAt).toLocaleString()})
+          </option>
+        ))}
+      </select>
+      {sources[side] === "file" && (
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (!file) return;
+            file.text().then(text => {
+              setFileContents(prev => ({ ...prev, [side]: text }));
+            });
+          }}
+          style={{ marginTop: "4px", fontSize: "11px", width: "100%" }}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div style={{
+      position: "fixed",
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: "rgba(0, 0, 0, 0.5)",
+      zIndex: 1000,
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+    }}>
+      <div style={{
+        background: "white",
+        borderRadius: "12px",
+        padding: "24px",
+        width: "720px",
+        maxWidth: "90vw",
+        maxHeight: "90vh",
+        display: "flex",
+        flexDirection: "column",
+        position: "relative",
+      }}>
+        <div style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "20px",
+        }}>
+          <h2 style={{ margin: 0, color: "#333" }}>Merge Flows</h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: "none",
+              border: "none",
+              fontSize: "24px",
+              cursor: "pointer",
+              color: "#666",
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={{ display: "flex", gap: "8px", paddingBottom: "12px", borderBottom: "1px solid #E9DDD3" }}>
+          {(["base", "ours", "theirs"] as Side[]).map(renderSourcePicker)}
+        </div>
+
+        <div style={{ overflow: "auto", flex: 1, padding: "12px 0" }}>
+          {error && <div style={{ color: "#F16B68", fontSize: "13px" }}>{error}</div>}
+          {!error && !states && (
+            <div style={{ color: "#666", fontSize: "13px" }}>
+              Pick the version both edits started from, then the two edited versions.
+            </div>
+          )}
+
+          {states && incoming && (
+            <div style={{ fontSize: "13px", color: "#003250", marginBottom: "16px" }}>
+              {countChanges(incoming) === 0
+                ? "No changes to bring in from theirs."
+                : `${countChanges(incoming)} change(s) merged automatically: ${incoming.components.length} component(s), ${incoming.nodes.length} node(s), ${incoming.edges.length} connection(s).`}
+              {" "}
+              {conflicts.length === 0
+                ? "No conflicts."
+                : `${conflicts.length} conflict(s) need a decision.`}
+            </div>
+          )}
+
+          {states && conflicts.length > 0 && (
+            <>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px", marginBottom: "8px" }}>
+                <span style={{ fontSize: "12px", fontWeight: "600", color: "#666", flex: 1 }}>
+                  Conflicts ({unresolvedCount} unresolved)
+                </span>
+                <button style={choiceButtonStyle(false)} onClick={() => resolveAll("ours")}>Keep all ours</button>
+                <button style={choiceButtonStyle(false)} onClick={() => resolveAll("theirs")}>Take all theirs</button>
+              </div>
+              {conflicts.map(conflict => (
+                <div key={conflict.id} style={{ padding: "10px 0", borderBottom: "1px solid #F2E8E0" }}>
+                  <div style={{ display: "flex", alignItems: "baseline", gap: "8px", marginBottom: "4px" }}>
+                    <span style={{ fontSize: "13px", fontWeight: "600", color: "#003250" }}>{conflict.label}</span>
+                    <span style={{ fontSize: "11px", color: "#999" }}>{conflict.kind}</span>
+                    <span style={{ fontSize: "11px", color: "#003250", fontFamily: "monospace" }}>
+                      {conflict.path || "(edited on one side, deleted on the other)"}
+                    </span>
+                  </div>
+                  <div style={{ fontSize: "11px", color: "#666", marginBottom: "6px" }}>
+                    Base: {formatValue(conflict.base)}
+                  </div>
+                  <div style={{ display: "flex", gap: "8px" }}>
+                    {(["ours", "theirs"] as MergeSide[]).map(side => (
+                      <button
+                        key={side}
+                        style={choiceButtonStyle(resolutions[conflict.id] === side)}
+                        onClick={() => chooseSide(conflict.id, side)}
+                      >
+                        <div style={{ fontWeight: "600", marginBottom: "2px" }}>{sideLabels[side]}</div>
+                        {formatValue(conflict[side])}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: "8px", paddingTop: "12px", borderTop: "1px solid #E9DDD3" }}>
+          <span style={{ fontSize: "11px", color: "#999", flex: 1, alignSelf: "center" }}>
+            The current state is saved as a snapshot before the merge is applied.
+          </span>
+          <button
+            disabled={busy || !states}
+            onClick={handleApply}
+            style={{
+              padding: "8px 16px",
+              border: "none",
+              borderRadius: "6px",
+              fontSize: "14px",
+              background: "#F16B68",
+              color: "white",
+              fontWeight: "500",
+              cursor: busy || !states ? "not-allowed" : "pointer",
+              opacity: busy || !states ? 0.6 : 1,
+              outline: "none",
+            }}
+          >
+            Apply Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
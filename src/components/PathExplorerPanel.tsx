@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useState } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+import { eventBus, useAppEvent } from "../utils/eventBus";
+import { enumeratePaths, PATH_LIMIT } from "../utils/paths";
+import { formatDuration, summarizePath } from "../utils/pathStats";
+import { getEdgeRoute, routeLabel } from "../utils/routing";
+
+type PathExplorerPanelProps = {
+  onClose: () => void;
+  onPlayStep: (nodeId: string | null) => void; // highlight the node being played on the canvas
+};
+
+type PathSort = "flow" | "longest" | "shortest" | "questions";
+
+const PLAY_STEP_MS = 1200;
+
+const pathKey = (nodeIds: string[]) => nodeIds.join(">");
+
+export default function PathExplorerPanel({ onClose, onPlayStep }: PathExplorerPanelProps) {
+  const { nodes, edges, components } = useAppState();
+  const [sort, setSort] = useState<PathSort>("flow");
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [playingStep, setPlayingStep] = useState<number | null>(null);
+
+  const { paths, truncated } = useMemo(() => {
+    const nameOf = (nodeId: string) => {
+      const node = nodes.find(item => item.id === nodeId);
+      return (node && components.get(node.data.componentId)?.name) || nodeId;
+    };
+    const { paths, truncated } = enumeratePaths(nodes, edges);
+
+    return {
+      truncated,
+      paths: paths.map((path, index) => {
+        // Name the way taken wherever the flow branches, so paths can be told apart
+        const choices = path.nodeIds.slice(0, -1).flatMap((nodeId, step) => {
+          const outgoing = edges.filter(edge => edge.source === nodeId);
+          if (new Set(outgoing.map(edge => edge.target)).size < 2) return [];
+          const target = path.nodeIds[step + 1];
+          const route = outgoing.map(getEdgeRoute).find((route, edgeIndex) => route && outgoing[edgeIndex].target === target);
+          const node = nodes.find(item => item.id === nodeId);
+          const label = route ? routeLabel(route, node && components.get(node.data.componentId)) : `to ${nameOf(target)}`;
+          return [`${nameOf(nodeId)}: ${label}`];
+        });
+        return {
+          ...path,
+          key: pathKey(path.nodeIds),
+          number: index + 1,
+          end: nameOf(path.nodeIds[path.nodeIds.length - 1]),
+          choices,
+          summary: summarizePath(path.nodeIds, nodes, components),
+        };
+      }),
+    };
+  }, [nodes, edges, components]);
+
+  const sortedPaths = useMemo(() => {
+    const sorted = [...paths];
+    if (sort === "longest") sorted.sort((a, b) => b.summary.estimatedSeconds - a.summary.estimatedSeconds);
+    if (sort === "shortest") sorted.sort((a, b) => a.summary.estimatedSeconds - b.summary.estimatedSeconds);
+    if (sort === "questions") sorted.sort((a, b) => b.summary.questions.length - a.summary.questions.length);
+    return sorted;
+  }, [paths, sort]);
+
+  const selectedPath = paths.find(path => path.key === selectedKey);
+  const times = paths.map(path => path.summary.estimatedSeconds);
+
+  // The preview can go back to the primary path on its own
+  useAppEvent("previewPath", ({ nodeIds }) => {
+    setSelectedKey(nodeIds ? pathKey(nodeIds) : null);
+  });
+
+  const selectPath = (nodeIds: string[]) => {
+    setPlayingStep(null);
+    eventBus.emit("previewPath", { nodeIds });
+  };
+
+  // Step through the selected path in the preview, one message at a time
+  useEffect(() => {
+    if (playingStep === null || !selectedPath) return;
+    const nodeId = selectedPath.nodeIds[playingStep];
+    const node = nodes.find(item => item.id === nodeId);
+    onPlayStep(nodeId);
+    if (node) eventBus.emit("scrollToMessage", { messageId: node.data.messageId });
+
+    const timer = setTimeout(() => {
+      setPlayingStep(step => (step !== null && step + 1 < selectedPath.nodeIds.length ? step + 1 : null));
+    }, PLAY_STEP_MS);
+    return () => {
+      clearTimeout(timer);
+      onPlayStep(null);
+    };
+  }, [playingStep, selectedPath, nodes, onPlayStep]);
+
+  return (
+    <div style={{
+      position: "absolute",
+      top: "60px",
+      right: 0,
+      bottom: 0,
+      width: "300px",
+      background: "#FFF7F1",
+      borderLeft: "1px solid #E9DDD3",
+      boxShadow: "-2px 0 8px rgba(0, 0, 0, 0.08)",
+      zIndex: 15,
+      display: "flex",
+      flexDirection: "column",
+    }}>
+      <div style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        padding: "16px 16px 8px",
+      }}>
+        <h3 style={{ margin: 0, color: "#003250" }}>Paths</h3>
+        <button
+          onClick={onClose}
+          style={{ background: "none", border: "none", fontSize: "22px", cursor: "pointer", color: "#666" }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: "8px", padding: "0 16px 8px" }}>
+        <span style={{ fontSize: "12px", color: "#666" }}>
+          {paths.length} {paths.length === 1 ? "path" : "paths"}
+          {paths.length > 1 && `, ${formatDuration(Math.min(...times))} to ${formatDuration(Math.max(...times))}`}
+        </span>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as PathSort)}
+          style={{ padding: "4px 8px", border: "1px solid #E9DDD3", borderRadius: "6px", fontSize: "12px", color: "#003250", background: "white", outline: "none" }}
+        >
+          <option value="flow">Flow order</option>
+          <option value="longest">Longest first</option>
+          <option value="shortest">Shortest first</option>
+          <option value="questions">Most questions</option>
+        </select>
+      </div>
+
+      {truncated && (
+        <div style={{ fontSize: "12px", color: "#F16B68", padding: "0 16px 8px" }}>
+          Showing the first {PATH_LIMIT} paths only.
+        </div>
+      )}
+
+      <div style={{ flex: 1, overflow: "auto", padding: "0 16px 12px" }}>
+        {paths.length === 0 && (
+          <div style={{ color: "#666", fontSize: "13px" }}>Connect components to see paths through the flow.</div>
+        )}
+        {sortedPaths.map(path => {
+          const isSelected = path.key === selectedKey;
+          return (
+            <div
+              key={path.key}
+              onClick={() => selectPath(path.nodeIds)}
+              title="Show this path on the canvas and in the preview"
+              style={{
+                padding: "8px",
+                margin: "0 -8px",
+                borderBottom: "1px solid #F2E8E0",
+                borderRadius: "6px",
+                cursor: "pointer",
+                background: isSelected ? "#F2E8E0" : "none",
+              }}
+            >
+              <div style={{ display: "flex", justifyContent: "space-between", gap: "8px", fontSize: "13px", color: "#003250", fontWeight: 600 }}>
+                <span>Path {path.number}</span>
+                <span style={{ fontWeight: 400, color: "#666", fontSize: "12px", whiteSpace: "nowrap" }}>
+                  {path.summary.componentCount} steps · ~{formatDuration(path.summary.estimatedSeconds)} · {path.summary.questions.length} questions
+                </span>
+              </div>
+              <div style={{ fontSize: "12px", color: "#666", marginTop: "2px" }}>
+                {path.endsInLoop ? `Loops back after ${path.end}` : `Ends at ${path.end}`}
+              </div>
+              {path.choices.map((choice, index) => (
+                <div key={index} style={{ fontSize: "11px", color: "#8EAF86", marginTop: "2px" }}>{choice}</div>
+              ))}
+
+              {isSelected && (
+                <div onClick={(e) => e.stopPropagation()} style={{ cursor: "default", marginTop: "8px" }}>
+                  <button
+                    onClick={() => setPlayingStep(playingStep === null ? 0 : null)}
+                    style={{
+                      padding: "4px 12px",
+                      border: "none",
+                      borderRadius: "12px",
+                      background: playingStep === null ? "#F16B68" : "#003250",
+                      color: "white",
+                      fontSize: "12px",
+                      cursor: "pointer",
+                      outline: "none",
+                    }}
+                  >
+                    {playingStep === null ? "▶ Play in preview" : `■ Stop (${playingStep + 1}/${path.nodeIds.length})`}
+                  </button>
+                  {path.summary.questions.length > 0 && (
+                    <ol style={{ margin: "8px 0 0", paddingLeft: "18px", fontSize: "12px", color: "#003250", lineHeight: 1.5 }}>
+                      {path.summary.questions.map(question => (
+                        <li key={question}>{question}</li>
+                      ))}
+                    </ol>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ fontSize: "11px", color: "#999", padding: "8px 16px 12px" }}>
+        Every way from a start to an end, taking each loop once. Times are rough estimates.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,472 @@
+import { useMemo, useState } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+import { exportPersonasCsv, importPersonasCsv } from "../utils/personaCsv";
+import { segmentLabels, trackLabels } from "../utils/personas";
+import { samplePersonas } from "../utils/samplePersonas";
+import { formAnswerKey, toolTypeRegistry } from "../toolTypes";
+import type { ComponentData, FormField, Persona, PersonaAnswer, PersonaSegment, PersonaTrack } from "../types/flow";
+
+type PersonaEditorProps = {
+  selectedId: string;
+  onSelect: (personaId: string) => void;
+  onClose: () => void;
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "6px 8px",
+  border: "1px solid #E9DDD3",
+  borderRadius: "6px",
+  fontSize: "13px",
+  color: "#003250",
+  background: "white",
+  boxSizing: "border-box",
+  outline: "none",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  fontSize: "12px",
+  fontWeight: 600,
+  color: "#666",
+  marginBottom: "4px",
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "6px 12px",
+  border: "1px solid #E9DDD3",
+  borderRadius: "6px",
+  background: "white",
+  color: "#003250",
+  fontSize: "12px",
+  cursor: "pointer",
+  outline: "none",
+};
+
+const downloadCsv = (csv: string) => {
+  const blob = new Blob([csv], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "personas.csv";
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const asList = (answer: PersonaAnswer | undefined): string[] =>
+  typeof answer === "string" ? [answer] : Array.isArray(answer) ? answer : [];
+
+const asForm = (answer: PersonaAnswer | undefined): Record<string, string | string[]> =>
+  answer && typeof answer === "object" && !Array.isArray(answer) ? answer : {};
+
+export default function PersonaEditor({ selectedId, onSelect, onClose }: PersonaEditorProps) {
+  const { personas, setPersonas, components } = useAppState();
+  const [importNotes, setImportNotes] = useState<string[]>([]);
+
+  const persona = personas.find(item => item.id === selectedId) ?? personas[0];
+
+  const answeredComponents = useMemo(
+    () => [...components.values()]
+      .filter(component => toolTypeRegistry.asksForAnswer(component))
+      .sort((a, b) => a.slug.localeCompare(b.slug, undefined, { numeric: true })),
+    [components]
+  );
+  const strayAnswers = persona
+    ? Object.keys(persona.answers).filter(slug => !answeredComponents.some(component => component.slug === slug))
+    : [];
+
+  const updatePersona = (changes: Partial<Persona>) => {
+    if (!persona) return;
+    setPersonas(prev => prev.map(item => (item.id === persona.id ? { ...item, ...changes } : item)));
+  };
+
+  const setAnswer = (slug: string, answer: PersonaAnswer | undefined) => {
+    if (!persona) return;
+    const answers = { ...persona.answers };
+    const isEmpty = answer === undefined
+      || (typeof answer === "string" ? !answer : Array.isArray(answer) ? answer.length === 0 : Object.keys(answer).length === 0);
+    if (isEmpty) {
+      delete answers[slug];
+    } else {
+      answers[slug] = answer;
+    }
+    updatePersona({ answers });
+  };
+
+  const setFieldAnswer = (component: ComponentData, field: FormField, value: string | string[]) => {
+    const current = asForm(persona?.answers[component.slug]);
+    const values = { ...current };
+    // Answers may be keyed by title; rewrite them under the field id
+    const key = formAnswerKey(current, field.id, field.title);
+    if (key !== undefined) delete values[key];
+    if (Array.isArray(value) ? value.length > 0 : value) values[field.id] = value;
+    setAnswer(component.slug, values);
+  };
+
+  const addPersona = () => {
+    const created: Persona = {
+      id: `persona-${Date.now()}`,
+      name: "New persona",
+      age: 22,
+      segment: "student",
+      track: "clarity",
+      description: "",
+      answers: {},
+    };
+    setPersonas(prev => [...prev, created]);
+    onSelect(created.id);
+  };
+
+  const deletePersona = () => {
+    if (!persona || !confirm(`Delete "${persona.name}"?`)) return;
+    const remaining = personas.filter(item => item.id !== persona.id);
+    setPersonas(remaining);
+    if (remaining[0]) onSelect(remaining[0].id);
+  };
+
+  // Rows whose id matches an existing persona replace it; the rest are added
+  const handleImport = (text: string) => {
+    const { personas: imported, warnings } = importPersonasCsv(text, components);
+    if (imported.length > 0) {
+      setPersonas(prev => [
+        ...prev.map(item => imported.find(row => row.id === item.id) ?? item),
+        ...imported.filter(row => !prev.some(item => item.id === row.id)),
+      ]);
+      onSelect(imported[0].id);
+      setImportNotes([`Imported ${imported.length} persona(s).`, ...warnings]);
+    } else {
+      setImportNotes(warnings.length > 0 ? warnings : ["No personas found in the file."]);
+    }
+  };
+
+  const renderAnswerInput = (component: ComponentData) => {
+    const answer = persona?.answers[component.slug];
+    const { content } = component;
+
+    const answerKind = toolTypeRegistry.get(component.uiToolType)?.answer;
+    if (answerKind === "text" || answerKind === "number") {
+      const choices = [...(content.question?.options ?? []), ...(content.question?.suggestions ?? [])];
+      return (
+        <>
+          <input
+            type="text"
+            value={asList(answer)[0] ?? ""}
+            onChange={(e) => setAnswer(component.slug, e.target.value)}
+            list={`persona-answer-${component.id}`}
+            placeholder="No scripted answer"
+            style={inputStyle}
+          />
+          <datalist id={`persona-answer-${component.id}`}>
+            {choices.map(choice => <option key={choice} value={choice} />)}
+          </datalist>
+        </>
+      );
+    }
+
+    if (answerKind === "order") {
+      return (
+        <input
+          type="text"
+          value={asList(answer).join(" | ")}
+          onChange={(e) => setAnswer(component.slug, e.target.value)}
+          placeholder="Items in order, separated by |"
+          style={inputStyle}
+        />
+      );
+    }
+
+    if (component.uiToolType === "multiSelect") {
+      const picked = asList(answer);
+      return (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "4px 12px" }}>
+          {(content.multiSelect?.options ?? []).map(option => (
+            <label key={option.text} style={{ fontSize: "12px", color: "#003250", display: "flex", alignItems: "center", gap: "4px" }}>
+              <input
+                type="checkbox"
+                checked={picked.includes(option.text)}
+                onChange={(e) => setAnswer(
+                  component.slug,
+                  e.target.checked ? [...picked, option.text] : picked.filter(text => text !== option.text)
+                )}
+              />
+              {option.text}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    if (answerKind === "sort") {
+      const sorted = asForm(answer);
+      const bucketOf = (card: string) => Object.keys(sorted).find(bucket => asList(sorted[bucket]).includes(card)) ?? "";
+      const placeCard = (card: string, bucket: string) => {
+        const next: Record<string, string[]> = {};
+        Object.entries(sorted).forEach(([title, cards]) => {
+          const rest = asList(cards).filter(item => item !== card);
+          if (rest.length > 0) next[title] = rest;
+        });
+        if (bucket) next[bucket] = [...(next[bucket] ?? []), card];
+        setAnswer(component.slug, next);
+      };
+      return (
+        <div style={{ display: "grid", gridTemplateColumns: "140px 1fr", gap: "4px 8px", alignItems: "center" }}>
+          {(content.cardSort?.options ?? []).filter(option => option.text.trim()).map(option => (
+            <div key={option.text} style={{ display: "contents" }}>
+              <span style={{ fontSize: "12px", color: "#003250", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {option.text}
+              </span>
+              <select value={bucketOf(option.text)} onChange={(e) => placeCard(option.text, e.target.value)} style={inputStyle}>
+                <option value="">Not sorted</option>
+                {(content.cardSort?.buckets ?? []).map(bucket => <option key={bucket.title} value={bucket.title}>{bucket.title}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    const values = asForm(answer);
+    return (
+      <div style={{ display: "grid", gridTemplateColumns: "140px 1fr", gap: "4px 8px", alignItems: "center" }}>
+        {(content.form?.fields ?? []).map(field => {
+          const key = formAnswerKey(values, field.id, field.title);
+          const value = key === undefined ? undefined : values[key];
+          return (
+            <div key={field.id} style={{ display: "contents" }}>
+              <span style={{ fontSize: "12px", color: "#003250", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {field.title || field.id}
+              </span>
+              {field.type === "checkbox" && field.options?.length ? (
+                <div style={{ display: "flex", flexWrap: "wrap", gap: "4px 12px" }}>
+                  {field.options.map(option => (
+                    <label key={option} style={{ fontSize: "12px", color: "#003250", display: "flex", alignItems: "center", gap: "4px" }}>
+                      <input
+                        type="checkbox"
+                        checked={asList(value).includes(option)}
+                        onChange={(e) => setFieldAnswer(
+                          component,
+                          field,
+                          e.target.checked ? [...asList(value), option] : asList(value).filter(item => item !== option)
+                        )}
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              ) : field.options?.length ? (
+                <select
+                  value={asList(value)[0] ?? ""}
+                  onChange={(e) => setFieldAnswer(component, field, e.target.value)}
+                  style={inputStyle}
+                >
+                  <option value="">No scripted answer</option>
+                  {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={asList(value)[0] ?? ""}
+                  onChange={(e) => setFieldAnswer(component, field, e.target.value)}
+                  placeholder="No scripted answer"
+                  style={inputStyle}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{
+      position: "fixed",
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: "rgba(0, 0, 0, 0.5)",
+      zIndex: 1000,
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+    }}>
+      <div style={{
+        background: "white",
+        borderRadius: "12px",
+        padding: "24px",
+        width: "880px",
+        maxWidth: "90vw",
+        height: "80vh",
+        display: "flex",
+        flexDirection: "column",
+      }}>
+        <div style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "16px",
+        }}>
+          <h2 style={{ margin: 0, color: "#333" }}>Personas</h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: "none",
+              border: "none",
+              fontSize: "24px",
+              cursor: "pointer",
+              color: "#666",
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={{ display: "flex", gap: "8px", alignItems: "center", paddingBottom: "12px", borderBottom: "1px solid #E9DDD3" }}>
+          <button onClick={addPersona} style={{ ...buttonStyle, background: "#F16B68", border: "none", color: "white" }}>
+            + Add persona
+          </button>
+          <label style={{ ...buttonStyle, display: "inline-block" }} title="One row per persona, one column per component slug">
+            Import CSV…
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (!file) return;
+                file.text().then(handleImport);
+              }}
+              style={{ display: "none" }}
+            />
+          </label>
+          <button onClick={() => downloadCsv(exportPersonasCsv(personas))} disabled={personas.length === 0} style={buttonStyle}>
+            Export CSV
+          </button>
+          {personas.length === 0 && (
+            <button onClick={() => setPersonas(samplePersonas)} style={buttonStyle}>
+              Add sample personas
+            </button>
+          )}
+        </div>
+
+        {importNotes.length > 0 && (
+          <div style={{ fontSize: "12px", color: "#003250", padding: "8px 0", borderBottom: "1px solid #E9DDD3", maxHeight: "80px", overflow: "auto" }}>
+            {importNotes.map((note, index) => (
+              <div key={index} style={{ color: index === 0 ? "#003250" : "#F16B68" }}>{note}</div>
+            ))}
+          </div>
+        )}
+
+        <div style={{ display: "flex", flex: 1, minHeight: 0 }}>
+          <div style={{ width: "200px", borderRight: "1px solid #E9DDD3", overflow: "auto", padding: "8px 8px 8px 0" }}>
+            {personas.length === 0 && (
+              <div style={{ color: "#666", fontSize: "13px" }}>No personas yet.</div>
+            )}
+            {personas.map(item => (
+              <div
+                key={item.id}
+                onClick={() => onSelect(item.id)}
+                style={{
+                  padding: "6px 8px",
+                  borderRadius: "6px",
+                  cursor: "pointer",
+                  background: item === persona ? "#F2E8E0" : "none",
+                }}
+              >
+                <div style={{ fontSize: "13px", color: "#003250", fontWeight: 500 }}>{item.name}</div>
+                <div style={{ fontSize: "11px", color: "#999" }}>
+                  {item.age} · {segmentLabels[item.segment]} · {Object.keys(item.answers).length} answers
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {persona && (
+            <div style={{ flex: 1, overflow: "auto", padding: "8px 0 8px 16px" }}>
+              <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr 1.5fr 1.5fr", gap: "8px", marginBottom: "8px" }}>
+                <div>
+                  <label style={labelStyle}>Name</label>
+                  <input type="text" value={persona.name} onChange={(e) => updatePersona({ name: e.target.value })} style={inputStyle} />
+                </div>
+                <div>
+                  <label style={labelStyle}>Age</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={persona.age}
+                    onChange={(e) => updatePersona({ age: parseInt(e.target.value, 10) || 0 })}
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={labelStyle}>Segment</label>
+                  <select
+                    value={persona.segment}
+                    onChange={(e) => updatePersona({ segment: e.target.value as PersonaSegment })}
+                    style={inputStyle}
+                  >
+                    {(Object.keys(segmentLabels) as PersonaSegment[]).map(key => (
+                      <option key={key} value={key}>{segmentLabels[key]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label style={labelStyle}>Track</label>
+                  <select
+                    value={persona.track}
+                    onChange={(e) => updatePersona({ track: e.target.value as PersonaTrack })}
+                    style={inputStyle}
+                  >
+                    {(Object.keys(trackLabels) as PersonaTrack[]).map(key => (
+                      <option key={key} value={key}>{trackLabels[key]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <label style={labelStyle}>Description</label>
+              <input
+                type="text"
+                value={persona.description}
+                onChange={(e) => updatePersona({ description: e.target.value })}
+                style={inputStyle}
+              />
+
+              <h4 style={{ margin: "20px 0 4px", color: "#003250" }}>Answers</h4>
+              <div style={{ fontSize: "12px", color: "#999", marginBottom: "8px" }}>
+                Components without a scripted answer take their first option in a run.
+              </div>
+              {answeredComponents.map(component => (
+                <div key={component.id} style={{ padding: "8px 0", borderBottom: "1px solid #F2E8E0" }}>
+                  <div style={{ fontSize: "12px", color: "#003250", fontWeight: 600, marginBottom: "4px" }}>
+                    {component.name} <span style={{ color: "#999", fontWeight: 400 }}>{component.slug}</span>
+                  </div>
+                  {renderAnswerInput(component)}
+                </div>
+              ))}
+
+              {strayAnswers.length > 0 && (
+                <>
+                  <h4 style={{ margin: "20px 0 4px", color: "#003250" }}>Answers for slugs not in this flow</h4>
+                  {strayAnswers.map(slug => (
+                    <div key={slug} style={{ display: "flex", alignItems: "center", gap: "8px", padding: "4px 0", fontSize: "12px", color: "#003250" }}>
+                      <span style={{ color: "#999", whiteSpace: "nowrap" }}>{slug}</span>
+                      <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                        {JSON.stringify(persona.answers[slug])}
+                      </span>
+                      <button onClick={() => setAnswer(slug, undefined)} style={buttonStyle}>Remove</button>
+                    </div>
+                  ))}
+                </>
+              )}
+
+              <button onClick={deletePersona} style={{ ...buttonStyle, marginTop: "20px", color: "#F16B68" }}>
+                Delete persona
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
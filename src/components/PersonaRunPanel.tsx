@@ -0,0 +1,154 @@
+import { useMemo } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+import { eventBus } from "../utils/eventBus";
+import { runPersona, transcriptText } from "../utils/personas";
+import type { PersonaRun } from "../utils/personas";
+import type { Persona } from "../types/flow";
+
+type PersonaRunPanelProps = {
+  personas: Persona[];
+  personaId: string;
+  onPersonaChange: (personaId: string) => void;
+  onClose: () => void;
+};
+
+const outcomeLabel = (run: PersonaRun) => {
+  if (run.outcome === "noStart") return "No start";
+  if (run.outcome === "loop") return "Stuck in a loop";
+  const last = run.transcript[run.transcript.length - 1];
+  return last ? `Ends at ${last.name}` : "Ends";
+};
+
+export default function PersonaRunPanel({ personas, personaId, onPersonaChange, onClose }: PersonaRunPanelProps) {
+  const { nodes, edges, components } = useAppState();
+
+  // Every persona at once, so their experiences can be compared
+  const runs = useMemo(
+    () => personas.map(persona => runPersona({ nodes, edges, components }, persona)),
+    [personas, nodes, edges, components]
+  );
+  const run = runs.find(item => item.persona.id === personaId) ?? runs[0];
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "6px 12px",
+    border: "1px solid #E9DDD3",
+    borderRadius: "6px",
+    background: "white",
+    color: "#003250",
+    fontSize: "12px",
+    cursor: "pointer",
+    outline: "none",
+  };
+
+  return (
+    <div style={{
+      position: "absolute",
+      top: "60px",
+      right: 0,
+      bottom: 0,
+      width: "300px",
+      background: "#FFF7F1",
+      borderLeft: "1px solid #E9DDD3",
+      boxShadow: "-2px 0 8px rgba(0, 0, 0, 0.08)",
+      zIndex: 15,
+      display: "flex",
+      flexDirection: "column",
+    }}>
+      <div style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        padding: "16px 16px 8px",
+      }}>
+        <h3 style={{ margin: 0, color: "#003250" }}>Persona Runs</h3>
+        <button
+          onClick={onClose}
+          style={{ background: "none", border: "none", fontSize: "22px", cursor: "pointer", color: "#666" }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ padding: "0 16px 8px", borderBottom: "1px solid #E9DDD3" }}>
+        {runs.map(item => (
+          <div
+            key={item.persona.id}
+            onClick={() => onPersonaChange(item.persona.id)}
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              gap: "8px",
+              padding: "4px 8px",
+              margin: "0 -8px",
+              borderRadius: "6px",
+              fontSize: "12px",
+              cursor: "pointer",
+              color: "#003250",
+              background: item === run ? "#F2E8E0" : "none",
+            }}
+          >
+            <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{item.persona.name}</span>
+            <span style={{ color: item.outcome === "finished" ? "#666" : "#F16B68", whiteSpace: "nowrap" }}>
+              {item.transcript.length} steps · {outcomeLabel(item)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {run && (
+        <>
+          <div style={{ display: "flex", gap: "8px", padding: "12px 16px 8px" }}>
+            <button
+              onClick={() => eventBus.emit("playTestSession", { session: run.session })}
+              disabled={run.session.steps.length === 0}
+              style={{ ...buttonStyle, background: "#F16B68", border: "none", color: "white" }}
+            >
+              ▶ Auto-play in preview
+            </button>
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(transcriptText(run)).then(() => {
+                  alert("Transcript copied to clipboard!");
+                });
+              }}
+              style={buttonStyle}
+            >
+              Copy transcript
+            </button>
+          </div>
+
+          <div style={{ flex: 1, overflow: "auto", padding: "0 16px 12px" }}>
+            {run.transcript.length === 0 && (
+              <div style={{ color: "#666", fontSize: "13px" }}>Connect components to run the conversation.</div>
+            )}
+            {run.transcript.map((entry, index) => (
+              <div key={index} style={{ padding: "8px 0", borderBottom: "1px solid #F2E8E0" }}>
+                <div style={{ fontSize: "12px", color: "#003250", fontWeight: 600 }}>
+                  {index + 1}. {entry.name} <span style={{ color: "#999", fontWeight: 400 }}>{entry.slug}</span>
+                </div>
+                {entry.reply && (
+                  <div style={{ fontSize: "12px", color: "#003250", marginTop: "4px", whiteSpace: "pre-wrap" }}>
+                    &gt; {entry.reply}
+                  </div>
+                )}
+                {!entry.scripted && (
+                  <div style={{ fontSize: "11px", color: "#F16B68", marginTop: "2px" }}>No scripted answer, took the first option</div>
+                )}
+                {entry.route && (
+                  <div style={{ fontSize: "11px", color: entry.route.reason === "brokenCondition" ? "#F16B68" : "#8EAF86", marginTop: "2px" }}>
+                    {entry.route.detail}
+                  </div>
+                )}
+              </div>
+            ))}
+            {run.outcome === "loop" && (
+              <div style={{ fontSize: "12px", color: "#F16B68", paddingTop: "8px" }}>
+                Stopped: this persona keeps coming back to the same components.
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
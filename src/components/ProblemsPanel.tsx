@@ -0,0 +1,93 @@
+import { useMemo } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+import { validateFlow } from "../utils/validator";
+import type { FlowProblem } from "../utils/validator";
+
+type ProblemsPanelProps = {
+  onClose: () => void;
+  onFocusComponent: (componentId: string) => void;
+};
+
+export default function ProblemsPanel({ onClose, onFocusComponent }: ProblemsPanelProps) {
+  const { nodes, edges, components } = useAppState();
+  const problems = useMemo(() => validateFlow({ nodes, edges, components }), [nodes, edges, components]);
+  const errorCount = problems.filter(problem => problem.severity === "error").length;
+
+  const renderProblem = (problem: FlowProblem) => {
+    const componentId = problem.componentId;
+    const canFocus = !!componentId && components.has(componentId);
+    return (
+      <div
+        key={problem.id}
+        onClick={() => canFocus && onFocusComponent(componentId)}
+        title={canFocus ? "Show on canvas" : undefined}
+        style={{
+          display: "flex",
+          alignItems: "flex-start",
+          gap: "8px",
+          padding: "8px 0",
+          borderBottom: "1px solid #F2E8E0",
+          cursor: canFocus ? "pointer" : "default",
+        }}
+      >
+        <span style={{
+          width: "8px",
+          height: "8px",
+          borderRadius: "50%",
+          flexShrink: 0,
+          marginTop: "5px",
+          background: problem.severity === "error" ? "#F16B68" : "#E5A84B",
+        }} />
+        <span style={{ fontSize: "13px", color: "#003250", lineHeight: 1.4, wordBreak: "break-word" }}>
+          {problem.message}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{
+      position: "absolute",
+      top: "60px",
+      right: 0,
+      bottom: 0,
+      width: "300px",
+      background: "#FFF7F1",
+      borderLeft: "1px solid #E9DDD3",
+      boxShadow: "-2px 0 8px rgba(0, 0, 0, 0.08)",
+      zIndex: 15,
+      display: "flex",
+      flexDirection: "column",
+    }}>
+      <div style={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        padding: "16px 16px 8px",
+      }}>
+        <h3 style={{ margin: 0, color: "#003250" }}>Problems</h3>
+        <button
+          onClick={onClose}
+          style={{ background: "none", border: "none", fontSize: "22px", cursor: "pointer", color: "#666" }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ fontSize: "12px", color: "#666", padding: "0 16px 8px" }}>
+        {errorCount} {errorCount === 1 ? "error" : "errors"}, {problems.length - errorCount} {problems.length - errorCount === 1 ? "warning" : "warnings"}
+      </div>
+
+      <div style={{ flex: 1, overflow: "auto", padding: "0 16px 12px" }}>
+        {problems.length === 0 && (
+          <div style={{ color: "#666", fontSize: "13px" }}>No problems found.</div>
+        )}
+        {problems.map(renderProblem)}
+      </div>
+
+      <div style={{ fontSize: "11px", color: "#999", padding: "8px 16px 12px" }}>
+        Click a problem to show its component on the canvas. Updates as you edit.
+      </div>
+    </div>
+  );
+}
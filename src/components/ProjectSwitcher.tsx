@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+
+const menuItemStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "8px 12px",
+  border: "none",
+  background: "none",
+  textAlign: "left",
+  cursor: "pointer",
+  fontSize: "14px",
+  color: "#F16B68",
+  fontWeight: "600",
+  textShadow: "0 1px 2px rgba(0, 0, 0, 0.1)",
+  outline: "none",
+};
+
+export default function ProjectSwitcher() {
+  const {
+    projects,
+    activeProjectId,
+    switchProject,
+    createProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+  } = useAppState();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const activeProject = projects.find(project => project.id === activeProjectId);
+
+  // Close the menu when clicking outside
+  useEffect(() => {
+    if (!menuOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Element;
+      if (!target.closest(".project-switcher-container")) {
+        setMenuOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [menuOpen]);
+
+  const runMenuAction = async (action: () => void | Promise<void>) => {
+    setMenuOpen(false);
+    try {
+      await action();
+    } catch (error) {
+      console.error("Project action failed:", error);
+      alert(error instanceof Error ? error.message : "Project action failed");
+    }
+  };
+
+  return (
+    <div className="project-switcher-container" style={{ position: "relative" }}>
+      <div style={{
+        fontSize: "11px",
+        color: "#666",
+        marginBottom: "2px",
+        fontWeight: "500",
+      }}>
+        Project
+      </div>
+      <div style={{ display: "flex", gap: "4px" }}>
+        <select
+          value={activeProjectId}
+          onChange={(e) => runMenuAction(() => switchProject(e.target.value))}
+          style={{
+            padding: "8px 12px",
+            border: "1px solid #E9DDD3",
+            borderRadius: "6px",
+            fontSize: "14px",
+            background: "white",
+            cursor: "pointer",
+            outline: "none",
+            maxWidth: "180px",
+          }}
+        >
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setMenuOpen(!menuOpen)}
+          title="Manage projects"
+          style={{
+            padding: "8px 10px",
+            border: "1px solid #E9DDD3",
+            borderRadius: "6px",
+            fontSize: "14px",
+            background: "white",
+            cursor: "pointer",
+            outline: "none",
+            color: "#003250",
+          }}
+        >
+          ⋯
+        </button>
+      </div>
+
+      {menuOpen && (
+        <div style={{
+          position: "absolute",
+          top: "100%",
+          left: 0,
+          marginTop: "4px",
+          background: "white",
+          border: "1px solid #E9DDD3",
+          borderRadius: "8px",
+          boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+          zIndex: 1001,
+          minWidth: "150px",
+          overflow: "hidden",
+        }}>
+          <button
+            onClick={() => runMenuAction(() => {
+              const name = prompt("Project name:", "Untitled Project");
+              if (name !== null) return createProject(name);
+            })}
+            style={{ ...menuItemStyle, borderBottom: "1px solid #E9DDD3" }}
+            onMouseEnter={(e) => { e.currentTarget.style.background = "#F5F5F5"; }}
+            onMouseLeave={(e) => { e.currentTarget.style.background = "none"; }}
+          >
+            New Project
+          </button>
+          <button
+            onClick={() => runMenuAction(() => {
+              const name = prompt("Rename project:", activeProject?.name ?? "");
+              if (name !== null) renameProject(activeProjectId, name);
+            })}
+            style={{ ...menuItemStyle, borderBottom: "1px solid #E9DDD3" }}
+            onMouseEnter={(e) => { e.currentTarget.style.background = "#F5F5F5"; }}
+            onMouseLeave={(e) => { e.currentTarget.style.background = "none"; }}
+          >
+            Rename
+          </button>
+          <button
+            onClick={() => runMenuAction(() => duplicateProject(activeProjectId))}
+            style={{ ...menuItemStyle, borderBottom: "1px solid #E9DDD3" }}
+            onMouseEnter={(e) => { e.currentTarget.style.background = "#F5F5F5"; }}
+            onMouseLeave={(e) => { e.currentTarget.style.background = "none"; }}
+          >
+            Duplicate
+          </button>
+          <button
+            onClick={() => runMenuAction(() => {
+              if (confirm(`Are you sure you want to delete "${activeProject?.name}"? This action cannot be undone.`)) {
+                return deleteProject(activeProjectId);
+              }
+            })}
+            disabled={projects.length <= 1}
+            style={{
+              ...menuItemStyle,
+              cursor: projects.length <= 1 ? "not-allowed" : "pointer",
+              opacity: projects.length <= 1 ? 0.5 : 1,
+            }}
+            onMouseEnter={(e) => { e.currentTarget.style.background = "#F5F5F5"; }}
+            onMouseLeave={(e) => { e.currentTarget.style.background = "none"; }}
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
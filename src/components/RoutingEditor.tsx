@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+import { checkCondition } from "../utils/conditions";
+import { availableVariables } from "../utils/interpreter";
+import {
+  addConditionRoute,
+  conditionEdges,
+  getEdgeRoute,
+  moveCondition,
+  narrowEdgeRoute,
+  routeLabel,
+  routeOptions,
+  updateRouteBetween,
+} from "../utils/routing";
+import type { RouteOption } from "../types/flow";
+
+interface RoutingEditorProps {
+  nodeId: string;
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  border: "1px solid #E9DDD3",
+  borderRadius: "8px",
+  fontSize: "14px",
+  fontFamily: "inherit",
+  background: "white",
+  outline: "none",
+  minWidth: 0,
+};
+
+const labelStyle: React.CSSProperties = {
+  fontSize: "14px",
+  color: "#003250",
+  minWidth: "120px",
+};
+
+const iconButtonStyle = (enabled: boolean): React.CSSProperties => ({
+  background: "none",
+  border: "none",
+  color: "#003250",
+  cursor: enabled ? "pointer" : "default",
+  opacity: enabled ? 1 : 0.3,
+  outline: "none",
+});
+
+// Condition text is committed on blur or Enter, so clearing it to retype
+// doesn't drop the route halfway
+function ConditionInput({ value, onCommit }: { value: string; onCommit: (value: string) => void }) {
+  const [draft, setDraft] = useState(value);
+  const error = draft.trim() ? checkCondition(draft) : null;
+
+  return (
+    <div style={{ flex: 2, minWidth: 0 }}>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => draft !== value && onCommit(draft)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && draft !== value) onCommit(draft);
+        }}
+        style={{ ...fieldStyle, width: "100%", boxSizing: "border-box", fontFamily: "monospace", borderColor: error ? "#F16B68" : "#E9DDD3" }}
+      />
+      {error && <div style={{ color: "#F16B68", fontSize: "12px", marginTop: "4px" }}>{error}</div>}
+    </div>
+  );
+}
+
+// Branch routing for one node, read from and written to its outgoing edges
+export default function RoutingEditor({ nodeId }: RoutingEditorProps) {
+  const { nodes, edges, setEdges, components, setComponents } = useAppState();
+  const [newCondition, setNewCondition] = useState("");
+  const [newConditionTarget, setNewConditionTarget] = useState("");
+
+  const node = nodes.find(item => item.id === nodeId);
+  const component = node ? components.get(node.data.componentId) : undefined;
+  const options = routeOptions(component);
+  const outgoing = edges.filter(edge => edge.source === nodeId);
+  const targets = nodes
+    .filter(item => item.id !== nodeId)
+    .flatMap(item => {
+      const target = components.get(item.data.componentId);
+      return target ? [{ nodeId: item.id, label: `${target.name} (${target.slug})` }] : [];
+    });
+  const targetName = (targetNodeId: string) => targets.find(target => target.nodeId === targetNodeId)?.label ?? targetNodeId;
+
+  const optionEdge = (index: number) => outgoing.find(edge => getEdgeRoute(edge)?.options?.some(option => option.index === index));
+  const defaultEdge = outgoing.find(edge => getEdgeRoute(edge)?.isDefault);
+  const conditions = conditionEdges(edges, nodeId);
+  const newConditionError = newCondition.trim() ? checkCondition(newCondition) : null;
+
+  const setOptionTarget = (option: RouteOption, target: string) => {
+    setEdges(prev => {
+      const current = prev.find(edge => edge.source === nodeId && getEdgeRoute(edge)?.options?.some(item => item.index === option.index));
+      if (!target) {
+        const route = current && getEdgeRoute(current);
+        return current && route
+          ? narrowEdgeRoute(prev, current.id, { ...route, options: route.options?.filter(item => item.index !== option.index) })
+          : prev;
+      }
+      return updateRouteBetween(prev, nodeId, target, route => ({
+        ...route,
+        options: [...(route.options ?? []).filter(item => item.index !== option.index), option],
+      }));
+    });
+  };
+
+  const setDefaultTarget = (target: string) => {
+    setEdges(prev => {
+      if (target) return updateRouteBetween(prev, nodeId, target, route => ({ ...route, isDefault: true }));
+      const current = prev.find(edge => edge.source === nodeId && getEdgeRoute(edge)?.isDefault);
+      const route = current && getEdgeRoute(current);
+      return current && route ? narrowEdgeRoute(prev, current.id, { ...route, isDefault: false }) : prev;
+    });
+  };
+
+  const setCondition = (edgeId: string, condition: string) => {
+    setEdges(prev => {
+      const edge = prev.find(item => item.id === edgeId);
+      const route = edge && getEdgeRoute(edge);
+      return route ? narrowEdgeRoute(prev, edgeId, { ...route, condition }) : prev;
+    });
+  };
+
+  const addCondition = () => {
+    const condition = newCondition.trim();
+    if (!condition || newConditionError || !newConditionTarget) return;
+    setEdges(prev => addConditionRoute(prev, nodeId, newConditionTarget, condition));
+    setNewCondition("");
+    setNewConditionTarget("");
+  };
+
+  // Once the author has redrawn a legacy route, or doesn't want it, it goes
+  const removeUnresolvedRoute = (index: number) => {
+    if (!component) return;
+    const unresolvedRoutes = (component.unresolvedRoutes ?? []).filter((_, i) => i !== index);
+    setComponents(prev => new Map(prev).set(component.id, {
+      ...component,
+      unresolvedRoutes: unresolvedRoutes.length > 0 ? unresolvedRoutes : undefined,
+      updatedAt: new Date(),
+    }));
+  };
+
+  const targetSelect = (value: string, onChange: (target: string) => void, emptyLabel: string) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} style={{ ...fieldStyle, flex: 1 }}>
+      <option value="">{emptyLabel}</option>
+      {targets.map(target => (
+        <option key={target.nodeId} value={target.nodeId}>{target.label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div>
+      {(component?.unresolvedRoutes ?? []).length > 0 && (
+        <div style={{ background: "#F8F4F0", border: "1px solid #F16B68", borderRadius: "8px", padding: "8px 12px", marginBottom: "16px" }}>
+          <div style={{ fontSize: "12px", color: "#003250", marginBottom: "4px" }}>
+            Routes from an older version whose destination wasn't found. Redraw them below, then remove them:
+          </div>
+          {(component?.unresolvedRoutes ?? []).map((unresolved, index) => (
+            <div key={index} style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "13px", color: "#003250" }}>
+              <span style={{ flex: 1 }}>
+                {routeLabel(unresolved.route, component)} → "{unresolved.destinationSlug}"
+              </span>
+              <button
+                onClick={() => removeUnresolvedRoute(index)}
+                title="Remove"
+                style={{ ...iconButtonStyle(true), color: "#F16B68", fontSize: "16px" }}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {options.length > 0 ? (
+        options.map(option => (
+          <div key={option.index} style={{ display: "flex", alignItems: "center", gap: "12px", marginBottom: "12px" }}>
+            <span style={labelStyle}>When user chooses "{option.text}" →</span>
+            {targetSelect(optionEdge(option.index)?.target ?? "", target => setOptionTarget(option, target), "Not routed")}
+          </div>
+        ))
+      ) : (
+        <div style={{ color: "#666", fontSize: "12px" }}>
+          {component?.uiToolType === "form"
+            ? "Add a dropdown field to route by its options."
+            : "Add options to route by them."}
+        </div>
+      )}
+
+      <div style={{ fontSize: "13px", color: "#003250", fontWeight: "600", margin: "16px 0 4px" }}>
+        Conditions
+      </div>
+      <div style={{ fontSize: "12px", color: "#666", marginBottom: "12px" }}>
+        Checked top to bottom before the options, e.g. <code>salary &gt;= 60000</code> or <code>answer any of [A, B]</code>
+      </div>
+
+      {conditions.map((edge, index) => (
+        <div key={edge.id} style={{ display: "flex", alignItems: "flex-start", gap: "8px", marginBottom: "12px" }}>
+          <span style={{ ...labelStyle, minWidth: "48px", paddingTop: "8px" }}>{index === 0 ? "If" : "Else if"}</span>
+          <ConditionInput
+            key={getEdgeRoute(edge)?.condition}
+            value={getEdgeRoute(edge)?.condition ?? ""}
+            onCommit={condition => setCondition(edge.id, condition)}
+          />
+          <span style={{ ...labelStyle, minWidth: 0, flex: 1, paddingTop: "8px" }}>→ {targetName(edge.target)}</span>
+          <button
+            onClick={() => setEdges(prev => moveCondition(prev, edge.id, -1))}
+            disabled={index === 0}
+            title="Check earlier"
+            style={{ ...iconButtonStyle(index > 0), paddingTop: "8px" }}
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => setEdges(prev => moveCondition(prev, edge.id, 1))}
+            disabled={index === conditions.length - 1}
+            title="Check later"
+            style={{ ...iconButtonStyle(index < conditions.length - 1), paddingTop: "8px" }}
+          >
+            ↓
+          </button>
+          <button
+            onClick={() => setCondition(edge.id, "")}
+            title="Remove condition"
+            style={{ ...iconButtonStyle(true), color: "#F16B68", fontSize: "16px", paddingTop: "6px" }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div style={{ display: "flex", alignItems: "flex-start", gap: "8px" }}>
+        <div style={{ flex: 2, minWidth: 0 }}>
+          <input
+            type="text"
+            placeholder="New condition..."
+            value={newCondition}
+            onChange={(e) => setNewCondition(e.target.value)}
+            style={{ ...fieldStyle, width: "100%", boxSizing: "border-box", fontFamily: "monospace", borderColor: newConditionError ? "#F16B68" : "#E9DDD3" }}
+          />
+          {newConditionError && <div style={{ color: "#F16B68", fontSize: "12px", marginTop: "4px" }}>{newConditionError}</div>}
+        </div>
+        {targetSelect(newConditionTarget, setNewConditionTarget, "Go to...")}
+        <button
+          onClick={addCondition}
+          disabled={!newCondition.trim() || !!newConditionError || !newConditionTarget}
+          style={{
+            background: "#8EAF86",
+            color: "white",
+            border: "none",
+            borderRadius: "6px",
+            padding: "8px 12px",
+            fontSize: "12px",
+            cursor: "pointer",
+            outline: "none",
+            whiteSpace: "nowrap",
+          }}
+        >
+          + Add Condition
+        </button>
+      </div>
+
+      <div style={{ display: "flex", alignItems: "center", gap: "12px", marginTop: "16px" }}>
+        <span style={labelStyle}>Otherwise →</span>
+        {targetSelect(defaultEdge?.target ?? "", setDefaultTarget, "Follow a plain connection")}
+      </div>
+
+      {component && (
+        <div style={{ fontSize: "11px", color: "#666", marginTop: "8px", lineHeight: 1.5 }}>
+          Answer names: {availableVariables(components, component.id).join(", ")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+
+// "just now", "5 min ago", or a time of day for older saves
+const formatSavedTime = (savedAt: Date, now: Date) => {
+  const seconds = Math.floor((now.getTime() - savedAt.getTime()) / 1000);
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  return savedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+};
+
+export default function SaveIndicator() {
+  const { isSaving, isLoading, lastSaved, hasUnsavedChanges, saveState } = useAppState();
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the relative time fresh
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  let label = "Not saved yet";
+  let dotColor = "#E9DDD3";
+  if (isLoading) {
+    label = "Loading…";
+  } else if (isSaving) {
+    label = "Saving…";
+    dotColor = "#F2C94C";
+  } else if (hasUnsavedChanges) {
+    label = "Unsaved changes";
+    dotColor = "#FA8072";
+  } else if (lastSaved) {
+    label = `Saved ${formatSavedTime(lastSaved, now)}`;
+    dotColor = "#8EAF86";
+  }
+
+  return (
+    <button
+      onClick={() => {
+        saveState().catch(error => {
+          alert(error instanceof Error ? `Save failed: ${error.message}` : "Save failed");
+        });
+      }}
+      disabled={isSaving || isLoading}
+      title={lastSaved ? `Last saved ${lastSaved.toLocaleString()} - click to save now` : "Click to save now"}
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: "6px",
+        padding: "6px 10px",
+        border: "1px solid #E9DDD3",
+        borderRadius: "6px",
+        fontSize: "12px",
+        background: "white",
+        color: "#003250",
+        cursor: isSaving || isLoading ? "default" : "pointer",
+        outline: "none",
+        whiteSpace: "nowrap",
+      }}
+    >
+      <span style={{
+        width: "8px",
+        height: "8px",
+        borderRadius: "50%",
+        background: dotColor,
+      }} />
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from "react";
+import { useAppState } from "../contexts/AppStateContext";
+import { parseRecording, serializeRecording } from "../utils/recorder";
+import type { SessionRecording } from "../utils/recorder";
+
+const buttonStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "6px",
+  padding: "6px 10px",
+  border: "1px solid #E9DDD3",
+  borderRadius: "6px",
+  fontSize: "12px",
+  background: "white",
+  color: "#003250",
+  cursor: "pointer",
+  outline: "none",
+  whiteSpace: "nowrap",
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const downloadRecording = (recording: SessionRecording) => {
+  const blob = new Blob([serializeRecording(recording)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${recording.name.replace(/[^\w-]+/g, "-")}.session.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function SessionRecorderControls() {
+  const { isRecording, isReplaying, startRecording, stopRecording, replayRecording, projects, activeProjectId } = useAppState();
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Tick the elapsed time while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  const handleRecordClick = async () => {
+    try {
+      if (isRecording) {
+        downloadRecording(stopRecording());
+        setRecordingStartedAt(null);
+        return;
+      }
+
+      const projectName = projects.find(project => project.id === activeProjectId)?.name ?? "Project";
+      await startRecording(`${projectName} ${new Date().toLocaleString()}`);
+      setRecordingStartedAt(Date.now());
+      setNow(Date.now());
+    } catch (error) {
+      console.error("Session recording failed:", error);
+      alert(error instanceof Error ? error.message : "Session recording failed");
+    }
+  };
+
+  const handleReplayFile = async (file: File) => {
+    try {
+      const recording = parseRecording(await file.text());
+      if (!confirm(`Replay "${recording.name}" (${recording.entries.length} steps) into a new project?`)) return;
+
+      const divergences = await replayRecording(recording);
+      if (divergences.length === 0) {
+        alert("Replay finished. The preview matched the recording at every step.");
+      } else {
+        console.table(divergences.map(divergence => ({
+          step: divergence.entryIndex + 1,
+          slice: divergence.slice,
+          expected: JSON.stringify(divergence.expected),
+          actual: JSON.stringify(divergence.actual),
+        })));
+        const first = divergences[0];
+        alert(
+          `Replay finished with ${divergences.length} mismatch(es). ` +
+          `The preview's ${first.slice} first differed at step ${first.entryIndex + 1} of ${recording.entries.length}. ` +
+          "See the browser console for details."
+        );
+      }
+    } catch (error) {
+      console.error("Replay failed:", error);
+      alert(error instanceof Error ? `Replay failed: ${error.message}` : "Replay failed");
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleRecordClick}
+        disabled={isReplaying}
+        title={isRecording ? "Stop recording and download the session" : "Record canvas and preview events for a bug report"}
+        style={buttonStyle}
+      >
+        <span style={{
+          width: "8px",
+          height: "8px",
+          borderRadius: isRecording ? "1px" : "50%",
+          background: "#F16B68",
+          flexShrink: 0,
+        }} />
+        {isRecording && recordingStartedAt !== null
+          ? `Stop ${formatDuration(now - recordingStartedAt)}`
+          : "Record"}
+      </button>
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isRecording || isReplaying}
+        title="Replay a recorded session into a new project"
+        style={{ ...buttonStyle, cursor: isRecording || isReplaying ? "default" : "pointer" }}
+      >
+        {isReplaying ? "Replaying…" : "Replay"}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: "none" }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) {
+            handleReplayFile(file);
+          }
+        }}
+      />
+    </>
+  );
+}
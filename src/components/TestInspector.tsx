@@ -0,0 +1,144 @@
+import { useAppState } from "../contexts/AppStateContext";
+import type { ConditionContext } from "../utils/conditions";
+import { describeAnswer } from "../utils/interpreter";
+import type { RouteReason, TestSession } from "../utils/interpreter";
+import { declaredVariables, formatVariable } from "../utils/templates";
+
+type TestInspectorProps = {
+  session: TestSession;
+  variables: ConditionContext; // values after the steps answered so far
+  onStepBack: () => void;
+  onRewind: (stepIndex: number) => void;
+  onRestart: () => void;
+};
+
+const reasonLabels: Record<RouteReason, string> = {
+  condition: "Condition held",
+  branch: "Option picked",
+  default: "Nothing matched",
+  edge: "Only connection",
+  end: "Conversation ends",
+  brokenCondition: "Broken condition",
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: "12px",
+  fontWeight: 600,
+  color: "#666",
+  textTransform: "uppercase",
+  letterSpacing: "0.5px",
+  margin: "12px 0 4px",
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "6px 12px",
+  border: "1px solid #E9DDD3",
+  borderRadius: "6px",
+  background: "white",
+  color: "#003250",
+  fontSize: "12px",
+  cursor: "pointer",
+  outline: "none",
+};
+
+export default function TestInspector({ session, variables, onStepBack, onRewind, onRestart }: TestInspectorProps) {
+  const { components } = useAppState();
+  const stored = [...declaredVariables(components).keys()].sort();
+  // Everything else conditions can see: answer names, `answer`, the persona
+  const others = Object.keys(variables).filter(name => !stored.includes(name)).sort();
+  const answeredCount = session.steps.filter(step => step.answer).length;
+
+  const renderVariable = (name: string) => {
+    const value = formatVariable(variables[name]);
+    return (
+      <div key={name} style={{ display: "flex", gap: "8px", fontSize: "12px", padding: "2px 0" }}>
+        <span style={{ fontFamily: "monospace", color: "#003250", whiteSpace: "nowrap" }}>{name}</span>
+        <span style={{ color: value === undefined ? "#999" : "#003250", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          {value ?? "not answered yet"}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{
+      position: "fixed",
+      top: "24px",
+      right: "24px",
+      bottom: "24px",
+      width: "300px",
+      background: "#FFF7F1",
+      border: "1px solid #E9DDD3",
+      borderRadius: "12px",
+      boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
+      zIndex: 1500,
+      display: "flex",
+      flexDirection: "column",
+    }}>
+      <div style={{ padding: "16px 16px 8px" }}>
+        <h3 style={{ margin: 0, color: "#003250" }}>Test State</h3>
+        <div style={{ fontSize: "12px", color: "#666", marginTop: "2px" }}>
+          {answeredCount} answered · {session.finished ? "finished" : "in progress"}
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: "8px", padding: "0 16px 8px", borderBottom: "1px solid #E9DDD3" }}>
+        <button
+          onClick={onStepBack}
+          disabled={answeredCount === 0}
+          title="Go back to the previous component and answer it differently"
+          style={{ ...buttonStyle, opacity: answeredCount === 0 ? 0.5 : 1 }}
+        >
+          ↶ Step back
+        </button>
+        <button onClick={onRestart} style={buttonStyle}>Restart</button>
+      </div>
+
+      <div style={{ flex: 1, overflow: "auto", padding: "0 16px 12px" }}>
+        <div style={sectionTitleStyle}>Variables</div>
+        {stored.length === 0 && others.length === 0 && (
+          <div style={{ fontSize: "12px", color: "#999" }}>No answers yet.</div>
+        )}
+        {stored.map(renderVariable)}
+        {stored.length > 0 && others.length > 0 && <div style={{ borderTop: "1px solid #F2E8E0", margin: "4px 0" }} />}
+        {others.map(renderVariable)}
+
+        <div style={sectionTitleStyle}>Answers and decisions</div>
+        {session.steps.map((step, index) => {
+          const component = components.get(step.componentId);
+          return (
+            <div key={index} style={{ padding: "8px 0", borderBottom: "1px solid #F2E8E0" }}>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: "8px" }}>
+                <span style={{ fontSize: "12px", color: "#003250", fontWeight: 600 }}>
+                  {index + 1}. {component?.name ?? "Missing component"}{" "}
+                  <span style={{ color: "#999", fontWeight: 400 }}>{component?.slug}</span>
+                </span>
+                {step.answer && (
+                  <button
+                    onClick={() => onRewind(index)}
+                    title="Answer this component again"
+                    style={{ background: "none", border: "none", padding: 0, fontSize: "11px", color: "#F16B68", cursor: "pointer", whiteSpace: "nowrap" }}
+                  >
+                    Re-answer
+                  </button>
+                )}
+              </div>
+              {step.answer ? (
+                <div style={{ fontSize: "12px", color: "#003250", marginTop: "4px", whiteSpace: "pre-wrap" }}>
+                  &gt; {describeAnswer(component, step.answer) || "(no answer)"}
+                </div>
+              ) : (
+                <div style={{ fontSize: "12px", color: "#999", marginTop: "4px" }}>Waiting for an answer</div>
+              )}
+              {step.route && (
+                <div style={{ fontSize: "11px", color: step.route.reason === "brokenCondition" ? "#F16B68" : "#8EAF86", marginTop: "2px" }}>
+                  {reasonLabels[step.route.reason]}: {step.route.detail}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
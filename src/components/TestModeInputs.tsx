@@ -0,0 +1,200 @@
+import { useState } from "react";
+import type { Message } from "../types/flow";
+import type { TestAnswer } from "../utils/interpreter";
+
+interface TestInputProps {
+  message: Message;
+  onAnswer: (answer: TestAnswer) => void;
+}
+
+// Multi select for the active test mode step: pick up to maxSelection options, then continue
+export function TestMultiSelectInput({ message, onAnswer }: TestInputProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const options = message.multiSelectOptions || [];
+  const maxSelection = message.maxSelection || 1;
+  const hasImages = options.some(option => option.image);
+
+  const toggleOption = (index: number) => {
+    if (selected.includes(index)) {
+      setSelected(selected.filter(item => item !== index));
+    } else if (maxSelection === 1) {
+      setSelected([index]);
+    } else if (selected.length < maxSelection) {
+      setSelected([...selected, index]);
+    }
+  };
+
+  return (
+    <div className="message-multi-select">
+      {maxSelection > 1 && (
+        <div className="multi-select-progress">
+          <div
+            className="multi-select-progress-fill"
+            style={{ width: `${(selected.length / maxSelection) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <div className={`multi-select-options ${hasImages ? "has-images" : ""}`}>
+        {options.map((option, index) => (
+          <button
+            key={index}
+            className={`multi-select-option test-answer ${selected.includes(index) ? "selected" : ""} ${option.image ? "has-image" : ""}`}
+            style={{ pointerEvents: "auto", cursor: "pointer" }}
+            onClick={() => toggleOption(index)}
+          >
+            {option.image && (
+              <div className="option-image">
+                <img src={option.image} alt={option.text} />
+              </div>
+            )}
+            <div className="option-content">
+              <span className="option-text">{option.text}</span>
+              {option.icon && (
+                <span className="option-icon">{option.icon}</span>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <button
+        className="form-submit-button test-answer"
+        disabled={selected.length === 0}
+        onClick={() => onAnswer({ kind: "choice", optionIndexes: selected })}
+      >
+        {message.moveOnButtonText || "Continue"}
+      </button>
+    </div>
+  );
+}
+
+// Form for the active test mode step; values are keyed by field id
+export function TestFormInput({ message, onAnswer }: TestInputProps) {
+  const [values, setValues] = useState<Record<string, string | string[]>>({});
+  const fields = message.formFields || [];
+
+  const setValue = (fieldId: string, value: string | string[]) => {
+    setValues(previous => ({ ...previous, [fieldId]: value }));
+  };
+
+  const toggleCheckbox = (fieldId: string, option: string) => {
+    const current = values[fieldId];
+    const checked = Array.isArray(current) ? current : [];
+    setValue(fieldId, checked.includes(option) ? checked.filter(item => item !== option) : [...checked, option]);
+  };
+
+  const isMissing = (fieldId: string) => {
+    const value = values[fieldId];
+    return Array.isArray(value) ? value.length === 0 : !value?.trim();
+  };
+  const canSubmit = fields.every(field => !field.required || !isMissing(field.id));
+
+  return (
+    <div className="message-form">
+      <div className="form-container">
+        {message.formTitle && message.formTitle.trim() !== "" && (
+          <h2 className="form-title">{message.formTitle}</h2>
+        )}
+        {fields.map(field => {
+          const value = values[field.id];
+          const textValue = typeof value === "string" ? value : "";
+
+          return (
+            <div key={field.id} className="form-field">
+              <label className="form-field-label">{field.title}</label>
+              {(field.type === "text" || field.type === "currency") && (
+                <input
+                  type={field.type === "currency" ? "number" : "text"}
+                  className="form-input test-answer"
+                  placeholder={field.type === "currency" ? "0.00" : "Type your answer here..."}
+                  value={textValue}
+                  onChange={(e) => setValue(field.id, e.target.value)}
+                />
+              )}
+              {field.type === "longText" && (
+                <textarea
+                  className="form-textarea test-answer"
+                  placeholder="Type your answer here..."
+                  value={textValue}
+                  onChange={(e) => setValue(field.id, e.target.value)}
+                />
+              )}
+              {field.type === "dropdown" && field.options && (
+                <select
+                  className="form-select test-answer"
+                  value={textValue}
+                  onChange={(e) => setValue(field.id, e.target.value)}
+                >
+                  <option value="">Select an option</option>
+                  {field.options.map((option, optionIndex) => (
+                    <option key={optionIndex} value={option}>{option}</option>
+                  ))}
+                </select>
+              )}
+              {field.type === "radio" && field.options && (
+                <div className="form-radio-group">
+                  {field.options.map((option, optionIndex) => (
+                    <label key={optionIndex} className="form-radio-option test-answer">
+                      <input
+                        type="radio"
+                        name={`test-field-${field.id}`}
+                        checked={textValue === option}
+                        onChange={() => setValue(field.id, option)}
+                      />
+                      <span className="radio-label">{option}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {field.type === "checkbox" && field.options && (
+                <div className="form-checkbox-group">
+                  {field.options.map((option, optionIndex) => (
+                    <label key={optionIndex} className="form-checkbox-option test-answer">
+                      <input
+                        type="checkbox"
+                        checked={Array.isArray(value) && value.includes(option)}
+                        onChange={() => toggleCheckbox(field.id, option)}
+                      />
+                      <span className="checkbox-label">{option}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <button
+          className="form-submit-button test-answer"
+          disabled={!canSubmit}
+          onClick={() => onAnswer({ kind: "form", values })}
+        >
+          {message.formSendButtonText || "Continue"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Open reply for the active free chat step; the text is the answer
+export function TestFreeChatInput({ message, onAnswer }: TestInputProps) {
+  const [text, setText] = useState("");
+
+  return (
+    <div className="message-free-chat">
+      <textarea
+        className="form-textarea test-answer"
+        placeholder="Reply in your own words..."
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <button
+        className="form-submit-button test-answer"
+        disabled={!text.trim()}
+        onClick={() => onAnswer({ kind: "text", text: text.trim() })}
+      >
+        {message.moveOnButtonText || "Send"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useAppState } from "../contexts/AppStateContext";
+
+type UndoRedoControlsProps = {
+  historyOpen: boolean;
+  onToggleHistory: () => void;
+};
+
+const buttonStyle = (enabled: boolean): React.CSSProperties => ({
+  padding: "6px 10px",
+  border: "1px solid #E9DDD3",
+  borderRadius: "6px",
+  fontSize: "14px",
+  background: "white",
+  color: "#003250",
+  cursor: enabled ? "pointer" : "default",
+  opacity: enabled ? 1 : 0.4,
+  outline: "none",
+});
+
+const isMac = navigator.platform.toUpperCase().includes("MAC");
+const modifierKey = isMac ? "⌘" : "Ctrl+";
+
+export default function UndoRedoControls({ historyOpen, onToggleHistory }: UndoRedoControlsProps) {
+  const { canUndo, canRedo, undo, redo, editHistory } = useAppState();
+  const lastEdit = editHistory.past[editHistory.past.length - 1];
+  const nextEdit = editHistory.future[0];
+
+  return (
+    <div style={{ display: "flex", gap: "4px" }}>
+      <button
+        onClick={undo}
+        disabled={!canUndo}
+        title={lastEdit ? `Undo "${lastEdit.label}" (${modifierKey}Z)` : "Nothing to undo"}
+        style={buttonStyle(canUndo)}
+      >
+        ↶
+      </button>
+      <button
+        onClick={redo}
+        disabled={!canRedo}
+        title={nextEdit ? `Redo "${nextEdit.label}" (${modifierKey}Shift+Z)` : "Nothing to redo"}
+        style={buttonStyle(canRedo)}
+      >
+        ↷
+      </button>
+      <button
+        onClick={onToggleHistory}
+        title="Show edit history"
+        style={{ ...buttonStyle(true), fontSize: "12px", background: historyOpen ? "#F2E8E0" : "white" }}
+      >
+        Edits
+      </button>
+    </div>
+  );
+}
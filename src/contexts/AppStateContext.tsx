@@ -1,30 +1,76 @@
-import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
-import { appStorage, type AppState } from '../utils/storage';
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type Dispatch, type ReactNode, type SetStateAction } from 'react';
+import { applyEdgeChanges, applyNodeChanges, type Edge, type EdgeChange, type NodeChange } from '@xyflow/react';
+import { appStorage, createProjectStorage, DEFAULT_PROJECT_ID, type AppState } from '../utils/storage';
+import { projectRegistry, type ProjectMeta } from '../utils/projects';
+import { snapshotManager, type SnapshotMeta } from '../utils/snapshots';
+import { toPreviewMessages } from '../utils/messages';
+import { undoHistory, type HistoryEntry, type HistoryState } from '../utils/history';
+import { replaySession, sessionRecorder, type ReplayDivergence, type SessionRecording } from '../utils/recorder';
+import type { CardNode, ComponentData, Message, Persona } from '../types/flow';
+import defaultState from '../defaultState';
 
 interface AppStateContextType {
   // State
-  nodes: any[];
-  edges: any[];
-  components: Map<string, any>;
-  messages: any[];
+  nodes: CardNode[];
+  edges: Edge[];
+  components: Map<string, ComponentData>;
+  messages: Message[];
   orphanMessageIds: string[];
-  
+  personas: Persona[];
+
   // Actions
-  setNodes: (nodes: any[]) => void;
-  setEdges: (edges: any[]) => void;
-  setComponents: (components: Map<string, any>) => void;
-  setMessages: (messages: any[]) => void;
-  setOrphanMessageIds: (orphanIds: string[]) => void;
-  
+  setNodes: Dispatch<SetStateAction<CardNode[]>>;
+  setEdges: Dispatch<SetStateAction<Edge[]>>;
+  setComponents: Dispatch<SetStateAction<Map<string, ComponentData>>>;
+  setMessages: Dispatch<SetStateAction<Message[]>>;
+  setOrphanMessageIds: Dispatch<SetStateAction<string[]>>;
+  setPersonas: Dispatch<SetStateAction<Persona[]>>;
+  onNodesChange: (changes: NodeChange<CardNode>[]) => void;
+  onEdgesChange: (changes: EdgeChange<Edge>[]) => void;
+
   // Storage actions
   saveState: () => Promise<void>;
   loadState: () => Promise<void>;
   clearState: () => Promise<void>;
   exportState: () => Promise<string>;
   importState: (jsonString: string) => Promise<void>;
-  
+  applyMergedState: (merged: AppState) => Promise<void>;
+
+  // Project actions
+  projects: ProjectMeta[];
+  activeProjectId: string;
+  switchProject: (projectId: string) => Promise<void>;
+  createProject: (name: string) => Promise<void>;
+  renameProject: (projectId: string, name: string) => void;
+  duplicateProject: (projectId: string) => Promise<void>;
+  deleteProject: (projectId: string) => Promise<void>;
+
+  // Snapshot actions
+  snapshots: SnapshotMeta[];
+  createSnapshot: (name: string) => Promise<void>;
+  restoreSnapshot: (snapshotId: string) => Promise<void>;
+  forkSnapshot: (snapshotId: string, projectName: string) => Promise<void>;
+  renameSnapshot: (snapshotId: string, name: string) => Promise<void>;
+  deleteSnapshot: (snapshotId: string) => Promise<void>;
+
+  // Undo/redo
+  canUndo: boolean;
+  canRedo: boolean;
+  editHistory: { past: HistoryEntry[]; future: HistoryEntry[] };
+  undo: () => void;
+  redo: () => void;
+  travelToEdit: (entryId: number) => void;
+
+  // Session recording
+  isRecording: boolean;
+  isReplaying: boolean;
+  startRecording: (name: string) => Promise<void>;
+  stopRecording: () => SessionRecording;
+  replayRecording: (recording: SessionRecording) => Promise<ReplayDivergence[]>;
+
   // Status
   isLoading: boolean;
+  isSaving: boolean;
   lastSaved: Date | null;
   hasUnsavedChanges: boolean;
 }
@@ -35,75 +81,185 @@ interface AppStateProviderProps {
   children: ReactNode;
 }
 
+// ReactFlow reports measuring and selecting nodes as changes too - those
+// shouldn't count as unsaved edits
+const isViewOnlyChange = (change: NodeChange<CardNode> | EdgeChange<Edge>) =>
+  change.type === 'dimensions' || change.type === 'select';
+
+// Drop ReactFlow's runtime fields (measured, selected, dragging) before saving
+const toPersistedNode = (node: CardNode): CardNode => ({
+  id: node.id,
+  type: node.type,
+  position: node.position,
+  data: node.data,
+});
+
 export const AppStateProvider = ({ children }: AppStateProviderProps) => {
-  const [nodes, setNodes] = useState<any[]>([]);
-  const [edges, setEdges] = useState<any[]>([]);
-  const [components, setComponents] = useState<Map<string, any>>(new Map());
-  const [messages, setMessages] = useState<any[]>([]);
+  const [nodes, setNodes] = useState<CardNode[]>([]);
+  const [edges, setEdges] = useState<Edge[]>([]);
+  const [components, setComponents] = useState<Map<string, ComponentData>>(new Map());
+  const [messages, setMessages] = useState<Message[]>([]);
   const [orphanMessageIds, setOrphanMessageIds] = useState<string[]>([]);
-  
+  // Test data, not part of the flow: kept out of undo history and recordings
+  const [personas, setPersonas] = useState<Persona[]>([]);
+
+  const [projects, setProjects] = useState<ProjectMeta[]>(() => projectRegistry.listProjects());
+  const [activeProjectId, setActiveProjectId] = useState(() => projectRegistry.getActiveProjectId());
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+
   const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [editHistory, setEditHistory] = useState(() => undoHistory.getEntries());
+  const [isRecording, setIsRecording] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  // Latest state for saves that run outside of render (auto-save, project switch)
+  const stateRef = useRef({ nodes, edges, components, messages, orphanMessageIds });
+  stateRef.current = { nodes, edges, components, messages, orphanMessageIds };
+  const personasRef = useRef(personas);
+  personasRef.current = personas;
+
+  // Bumped on every edit so a save only clears the unsaved flag if nothing
+  // changed while it was in flight
+  const revisionRef = useRef(0);
+  const hasUnsavedChangesRef = useRef(false);
+  hasUnsavedChangesRef.current = hasUnsavedChanges;
+  // Set before state updates that shouldn't mark the project dirty (starts set
+  // so the initial empty state doesn't count as an edit)
+  const skipDirtyRef = useRef(true);
+  // True while a project is being loaded, so auto-save can't write the old
+  // project's state under the new project's key
+  const isHydratingRef = useRef(false);
+  // Project whose saved state couldn't be loaded - never overwrite it
+  const unloadableProjectRef = useRef<string | null>(null);
+  // Last committed state, the "before" of the next undo step
+  const committedStateRef = useRef<HistoryState>(stateRef.current);
+  // Set before state updates that aren't edits of their own (loading, undo)
+  const skipHistoryRef = useRef(true);
+
+  // Current state in the shape AppStorage saves
+  const getPersistedState = useCallback((): Partial<AppState> => {
+    const current = stateRef.current;
+    return {
+      nodes: current.nodes.map(toPersistedNode),
+      edges: current.edges,
+      components: current.components,
+      messages: current.messages,
+      orphanMessageIds: current.orphanMessageIds,
+      personas: personasRef.current,
+    };
+  }, []);
+
+  const refreshSnapshots = useCallback(async () => {
+    try {
+      setSnapshots(await snapshotManager.listSnapshots());
+    } catch (error) {
+      console.error('Failed to list snapshots:', error);
+    }
+  }, []);
+
+  // Replace all state with a loaded state
+  const applyState = useCallback((state: AppState | null, savedAt: Date | null) => {
+    skipDirtyRef.current = true;
+    skipHistoryRef.current = true;
+    undoHistory.clear();
+    setEditHistory(undoHistory.getEntries());
+    setNodes(state?.nodes ?? []);
+    setEdges(state?.edges ?? []);
+    setComponents(state?.components ?? new Map());
+    setMessages(state ? toPreviewMessages(state.messages, state.components) : []);
+    setOrphanMessageIds(state?.orphanMessageIds ?? []);
+    setPersonas(state?.personas ?? []);
+    setLastSaved(savedAt);
+    setHasUnsavedChanges(false);
+  }, []);
+
+  const onNodesChange = useCallback((changes: NodeChange<CardNode>[]) => {
+    if (changes.every(isViewOnlyChange)) {
+      skipDirtyRef.current = true;
+    }
+    setNodes(prev => applyNodeChanges(changes, prev));
+  }, []);
+
+  const onEdgesChange = useCallback((changes: EdgeChange<Edge>[]) => {
+    if (changes.every(isViewOnlyChange)) {
+      skipDirtyRef.current = true;
+    }
+    setEdges(prev => applyEdgeChanges(changes, prev));
+  }, []);
 
   // Save state function
-  const saveState = async () => {
+  const saveState = useCallback(async () => {
+    if (isHydratingRef.current || unloadableProjectRef.current === appStorage.getProjectId()) {
+      return;
+    }
+
     try {
-      setIsLoading(true);
-      const state: Partial<AppState> = {
-        nodes,
-        edges,
-        components,
-        messages,
-        orphanMessageIds,
-      };
-      
+      setIsSaving(true);
+      const revision = revisionRef.current;
+      const state = getPersistedState();
+
       await appStorage.saveState(state);
+      projectRegistry.touchProject(appStorage.getProjectId());
       setLastSaved(new Date());
-      setHasUnsavedChanges(false);
+      if (revisionRef.current === revision) {
+        setHasUnsavedChanges(false);
+      }
+
+      // Keep a periodic checkpoint alongside the rolling save
+      try {
+        if (await snapshotManager.createAutoSnapshotIfDue(state)) {
+          await refreshSnapshots();
+        }
+      } catch (error) {
+        console.error('Failed to create auto-snapshot:', error);
+      }
     } catch (error) {
       console.error('Failed to save state:', error);
       throw error;
     } finally {
-      setIsLoading(false);
+      setIsSaving(false);
     }
-  };
+  }, [getPersistedState, refreshSnapshots]);
 
   // Load state function
-  const loadState = async () => {
+  // Projects that were never saved start from the bundled default flow (the
+  // default project) or an empty canvas (new projects)
+  const loadState = useCallback(async () => {
+    const projectId = appStorage.getProjectId();
     try {
       setIsLoading(true);
+      isHydratingRef.current = true;
+      unloadableProjectRef.current = null;
       const state = await appStorage.loadState();
-      
+
       if (state) {
-        setNodes(state.nodes);
-        setEdges(state.edges);
-        setComponents(state.components);
-        setMessages(state.messages);
-        setOrphanMessageIds(state.orphanMessageIds);
-        setLastSaved(state.lastSaved);
-        setHasUnsavedChanges(false);
+        applyState(state, state.lastSaved);
+      } else if (projectId === DEFAULT_PROJECT_ID) {
+        applyState(appStorage.deserializeState(defaultState), null);
+      } else {
+        applyState(null, null);
       }
+      await refreshSnapshots();
     } catch (error) {
       console.error('Failed to load state:', error);
+      unloadableProjectRef.current = projectId;
+      applyState(null, null);
       throw error;
     } finally {
+      isHydratingRef.current = false;
       setIsLoading(false);
     }
-  };
+  }, [applyState, refreshSnapshots]);
 
   // Clear state function
   const clearState = async () => {
     try {
       setIsLoading(true);
       await appStorage.clearState();
-      setNodes([]);
-      setEdges([]);
-      setComponents(new Map());
-      setMessages([]);
-      setOrphanMessageIds([]);
-      setLastSaved(null);
-      setHasUnsavedChanges(false);
+      applyState(null, null);
     } catch (error) {
       console.error('Failed to clear state:', error);
       throw error;
@@ -113,70 +269,262 @@ export const AppStateProvider = ({ children }: AppStateProviderProps) => {
   };
 
   // Export state function
-  const exportState = async (): Promise<string> => {
+  const exportState = useCallback(async (): Promise<string> => {
     try {
-      const state: Partial<AppState> = {
-        nodes,
-        edges,
-        components,
-        messages,
-        orphanMessageIds,
-      };
-      
-      return await appStorage.exportState(state);
+      return await appStorage.exportState(getPersistedState());
     } catch (error) {
       console.error('Failed to export state:', error);
       throw error;
     }
-  };
+  }, [getPersistedState]);
 
   // Import state function
-  const importState = async (jsonString: string) => {
+  const importState = useCallback(async (jsonString: string) => {
     try {
       setIsLoading(true);
       const state = await appStorage.importState(jsonString);
-      
-      setNodes(state.nodes);
-      setEdges(state.edges);
-      setComponents(state.components);
-      setMessages(state.messages);
-      setOrphanMessageIds(state.orphanMessageIds);
-      setLastSaved(state.lastSaved);
-      setHasUnsavedChanges(false);
+      unloadableProjectRef.current = null;
+      applyState(state, state.lastSaved);
     } catch (error) {
       console.error('Failed to import state:', error);
       throw error;
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [applyState]);
+
+  // Load the result of a three-way merge, checkpointing the current state first
+  const applyMergedState = useCallback(async (merged: AppState) => {
+    await snapshotManager.createSnapshot(getPersistedState(), 'Before merge', 'auto');
+    await importState(await appStorage.exportState(merged));
+    await refreshSnapshots();
+  }, [getPersistedState, importState, refreshSnapshots]);
+
+  // Save the open project before leaving it
+  const saveBeforeLeaving = useCallback(async () => {
+    if (!hasUnsavedChangesRef.current) return;
+
+    try {
+      await saveState();
+    } catch {
+      if (!confirm('The current project could not be saved. Continue anyway and lose unsaved changes?')) {
+        throw new Error('Project switch cancelled');
+      }
+    }
+  }, [saveState]);
+
+  const switchProject = useCallback(async (projectId: string) => {
+    await saveBeforeLeaving();
+
+    projectRegistry.setActiveProjectId(projectId);
+    appStorage.setProject(projectId);
+    setActiveProjectId(projectId);
+    setProjects(projectRegistry.listProjects());
+    await loadState();
+  }, [saveBeforeLeaving, loadState]);
+
+  const createProject = useCallback(async (name: string) => {
+    const project = projectRegistry.createProject(name);
+    setProjects(projectRegistry.listProjects());
+    await switchProject(project.id);
+  }, [switchProject]);
+
+  const renameProject = useCallback((projectId: string, name: string) => {
+    projectRegistry.renameProject(projectId, name);
+    setProjects(projectRegistry.listProjects());
+  }, []);
+
+  const duplicateProject = useCallback(async (projectId: string) => {
+    // Make sure the copy includes unsaved edits to the open project
+    if (projectId === appStorage.getProjectId()) {
+      await saveBeforeLeaving();
+    }
+    const copy = await projectRegistry.duplicateProject(projectId);
+    await switchProject(copy.id);
+  }, [saveBeforeLeaving, switchProject]);
+
+  const deleteProject = useCallback(async (projectId: string) => {
+    const nextActiveId = await projectRegistry.deleteProject(projectId);
+    setProjects(projectRegistry.listProjects());
+
+    if (projectId === appStorage.getProjectId()) {
+      appStorage.setProject(nextActiveId);
+      setActiveProjectId(nextActiveId);
+      await loadState();
+    }
+  }, [loadState]);
+
+  // Snapshot functions
+  const createSnapshot = useCallback(async (name: string) => {
+    await snapshotManager.createSnapshot(getPersistedState(), name);
+    await refreshSnapshots();
+  }, [getPersistedState, refreshSnapshots]);
+
+  // Restoring replaces the current state, so checkpoint it first
+  const restoreSnapshot = useCallback(async (snapshotId: string) => {
+    const data = await snapshotManager.getSnapshotData(snapshotId);
+    const snapshot = snapshots.find(item => item.id === snapshotId);
+
+    await snapshotManager.createSnapshot(
+      getPersistedState(),
+      `Before restoring "${snapshot?.name ?? 'snapshot'}"`,
+      'auto'
+    );
+    await importState(data);
+    await refreshSnapshots();
+  }, [snapshots, getPersistedState, importState, refreshSnapshots]);
+
+  // Start a new project from a snapshot, leaving the current project untouched
+  const forkSnapshot = useCallback(async (snapshotId: string, projectName: string) => {
+    const data = await snapshotManager.getSnapshotData(snapshotId);
+    const project = projectRegistry.createProject(projectName);
+    await createProjectStorage(project.id).importState(data);
+    await switchProject(project.id);
+  }, [switchProject]);
+
+  const renameSnapshot = useCallback(async (snapshotId: string, name: string) => {
+    await snapshotManager.renameSnapshot(snapshotId, name);
+    await refreshSnapshots();
+  }, [refreshSnapshots]);
+
+  const deleteSnapshot = useCallback(async (snapshotId: string) => {
+    await snapshotManager.deleteSnapshot(snapshotId);
+    await refreshSnapshots();
+  }, [refreshSnapshots]);
+
+  // Undo/redo
+  const restoreHistoryState = useCallback((state: HistoryState | null) => {
+    if (!state) return;
+
+    skipHistoryRef.current = true;
+    setNodes(state.nodes);
+    setEdges(state.edges);
+    setComponents(state.components);
+    setMessages(state.messages);
+    setOrphanMessageIds(state.orphanMessageIds);
+    setEditHistory(undoHistory.getEntries());
+  }, []);
+
+  const undo = useCallback(() => {
+    restoreHistoryState(undoHistory.undo(stateRef.current));
+  }, [restoreHistoryState]);
+
+  const redo = useCallback(() => {
+    restoreHistoryState(undoHistory.redo(stateRef.current));
+  }, [restoreHistoryState]);
+
+  const travelToEdit = useCallback((entryId: number) => {
+    restoreHistoryState(undoHistory.travelTo(entryId, stateRef.current));
+  }, [restoreHistoryState]);
+
+  // Record each committed change as an undo step
+  useEffect(() => {
+    const before = committedStateRef.current;
+    const after = { nodes, edges, components, messages, orphanMessageIds };
+    committedStateRef.current = after;
+
+    if (skipHistoryRef.current) {
+      skipHistoryRef.current = false;
+      return;
+    }
+    if (undoHistory.record(before, after)) {
+      setEditHistory(undoHistory.getEntries());
+    }
+  }, [nodes, edges, components, messages, orphanMessageIds]);
+
+  // Session recording
+  const startRecording = useCallback(async (name: string) => {
+    sessionRecorder.start(name, await exportState());
+    setIsRecording(true);
+  }, [exportState]);
+
+  const stopRecording = useCallback(() => {
+    const recording = sessionRecorder.stop();
+    setIsRecording(false);
+    return recording;
+  }, []);
+
+  // Replays go into a new project so the recording can't overwrite real work
+  const replayRecording = useCallback(async (recording: SessionRecording) => {
+    setIsReplaying(true);
+    try {
+      await createProject(`Replay: ${recording.name}`);
+      return await replaySession(recording, {
+        loadInitialState: importState,
+        applySlice: (slice, value) => {
+          if (slice === 'nodes') setNodes(value as CardNode[]);
+          if (slice === 'edges') setEdges(value as Edge[]);
+          if (slice === 'components') setComponents(value as Map<string, ComponentData>);
+        },
+        readSlice: slice => stateRef.current[slice],
+      });
+    } finally {
+      setIsReplaying(false);
+    }
+  }, [createProject, importState]);
+
+  // Feed state changes to the recorder (it ignores them when not recording)
+  useEffect(() => {
+    sessionRecorder.recordState('nodes', nodes.map(toPersistedNode));
+  }, [nodes]);
+
+  useEffect(() => {
+    sessionRecorder.recordState('edges', edges);
+  }, [edges]);
+
+  useEffect(() => {
+    sessionRecorder.recordState('components', components);
+  }, [components]);
+
+  useEffect(() => {
+    sessionRecorder.recordState('messages', messages);
+  }, [messages]);
+
+  useEffect(() => {
+    sessionRecorder.recordState('orphanMessageIds', orphanMessageIds);
+  }, [orphanMessageIds]);
 
   // Auto-save functionality
   useEffect(() => {
-    const saveFunction = () => ({
-      nodes,
-      edges,
-      components,
-      messages,
-      orphanMessageIds,
+    appStorage.startAutoSave(async () => {
+      if (hasUnsavedChangesRef.current) {
+        await saveState();
+      }
     });
 
-    appStorage.startAutoSave(saveFunction);
-
     return () => {
       appStorage.stopAutoSave();
     };
-  }, [nodes, edges, components, messages, orphanMessageIds]);
+  }, [saveState]);
 
   // Track unsaved changes
   useEffect(() => {
+    if (skipDirtyRef.current) {
+      skipDirtyRef.current = false;
+      return;
+    }
+    revisionRef.current += 1;
     setHasUnsavedChanges(true);
-  }, [nodes, edges, components, messages, orphanMessageIds]);
+  }, [nodes, edges, components, messages, orphanMessageIds, personas]);
 
-  // Load state on mount
+  // Warn before closing the tab with edits auto-save hasn't written yet
   useEffect(() => {
-    loadState().catch(console.error);
-  }, []);
+    if (!hasUnsavedChanges) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  // Load the active project on mount
+  useEffect(() => {
+    appStorage.setProject(projectRegistry.getActiveProjectId());
+    loadState().catch(error => {
+      alert(error instanceof Error ? error.message : 'Failed to load project');
+    });
+  }, [loadState]);
 
   const value: AppStateContextType = {
     // State
@@ -185,23 +533,61 @@ export const AppStateProvider = ({ children }: AppStateProviderProps) => {
     components,
     messages,
     orphanMessageIds,
-    
+    personas,
+
     // Actions
     setNodes,
     setEdges,
     setComponents,
     setMessages,
     setOrphanMessageIds,
-    
+    setPersonas,
+    onNodesChange,
+    onEdgesChange,
+
     // Storage actions
     saveState,
     loadState,
     clearState,
     exportState,
     importState,
-    
+    applyMergedState,
+
+    // Project actions
+    projects,
+    activeProjectId,
+    switchProject,
+    createProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+
+    // Snapshot actions
+    snapshots,
+    createSnapshot,
+    restoreSnapshot,
+    forkSnapshot,
+    renameSnapshot,
+    deleteSnapshot,
+
+    // Undo/redo
+    canUndo: editHistory.past.length > 0,
+    canRedo: editHistory.future.length > 0,
+    editHistory,
+    undo,
+    redo,
+    travelToEdit,
+
+    // Session recording
+    isRecording,
+    isReplaying,
+    startRecording,
+    stopRecording,
+    replayRecording,
+
     // Status
     isLoading,
+    isSaving,
     lastSaved,
     hasUnsavedChanges,
   };
@@ -219,4 +605,4 @@ export const useAppState = (): AppStateContextType => {
     throw new Error('useAppState must be used within an AppStateProvider');
   }
   return context;
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,426 @@
+// Labelled fields for tool type editors, styled like the built-in editors in the edit window
+
+import { useEffect, useRef, useState } from 'react';
+import type { CSSProperties, FocusEvent, MouseEvent } from 'react';
+import { availableImages } from '../utils/imageLibrary';
+import type { MultiSelectOption } from '../types/flow';
+
+type FieldProps = {
+  label: string;
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+};
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #E9DDD3',
+  borderRadius: '8px',
+  fontSize: '14px',
+  fontFamily: 'inherit',
+  marginBottom: '16px',
+  boxSizing: 'border-box',
+  transform: 'translate(-2px, -3px)',
+  outline: 'none',
+};
+
+const focus = (e: FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  e.target.style.border = '2px solid #003250';
+};
+
+const blur = (e: FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  e.target.style.border = '1px solid #E9DDD3';
+};
+
+const removeButtonStyle: CSSProperties = {
+  background: '#F16B68',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  width: '24px',
+  height: '24px',
+  fontSize: '12px',
+  cursor: 'pointer',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  flexShrink: 0,
+  outline: 'none',
+};
+
+const addButtonStyle: CSSProperties = {
+  background: '#8EAF86',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  padding: '6px 12px',
+  fontSize: '12px',
+  cursor: 'pointer',
+  marginTop: '4px',
+  outline: 'none',
+};
+
+export function EditorRemoveButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button type="button" onClick={onClick} title="Remove" style={removeButtonStyle}>
+      ×
+    </button>
+  );
+}
+
+export function EditorAddButton({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button type="button" onClick={onClick} style={addButtonStyle}>
+      + {label}
+    </button>
+  );
+}
+
+export function EditorTextArea({ label, value, placeholder, onChange }: FieldProps) {
+  return (
+    <>
+      <label style={{ fontWeight: '700' }}>{label}</label>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        style={{ ...fieldStyle, minHeight: '80px', padding: '12px', resize: 'vertical' }}
+        onFocus={focus}
+        onBlur={blur}
+      />
+    </>
+  );
+}
+
+export function EditorInput({ label, value, placeholder, onChange }: FieldProps) {
+  return (
+    <>
+      <label style={{ fontWeight: '700' }}>{label}</label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        style={{ ...fieldStyle, height: '33px' }}
+        onFocus={focus}
+        onBlur={blur}
+      />
+    </>
+  );
+}
+
+type NumberFieldProps = {
+  label: string;
+  value: number;
+  min?: number;
+  step?: number;
+  onChange: (value: number) => void;
+};
+
+// Ignores input that isn't a number yet, such as a lone "-"
+export function EditorNumberInput({ label, value, min, step, onChange }: NumberFieldProps) {
+  return (
+    <div style={{ flex: 1 }}>
+      <label style={{ fontWeight: '700' }}>{label}</label>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        step={step}
+        onChange={(e) => {
+          const number = parseFloat(e.target.value);
+          if (!Number.isNaN(number)) onChange(number);
+        }}
+        style={{ ...fieldStyle, height: '33px' }}
+        onFocus={focus}
+        onBlur={blur}
+      />
+    </div>
+  );
+}
+
+export function EditorImageSelect({ label, value, onChange }: Omit<FieldProps, 'placeholder'>) {
+  return (
+    <>
+      <label style={{ fontWeight: '700' }}>{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        style={{ ...fieldStyle, height: '33px', background: 'white', cursor: 'pointer' }}
+      >
+        {availableImages.map(image => (
+          <option key={image.value} value={image.value}>{image.label}</option>
+        ))}
+      </select>
+    </>
+  );
+}
+
+type ImagePickerProps = {
+  value: string | undefined;
+  onChange: (image: string) => void;
+};
+
+// Image library dropdown with a thumbnail of the pick; hovering an image shows
+// it larger
+export function EditorImagePicker({ value, onChange }: ImagePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [hovered, setHovered] = useState<{ src: string; x: number; y: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: globalThis.MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const hover = (src: string | undefined, e: MouseEvent) =>
+    setHovered(src ? { src, x: e.clientX + 10, y: e.clientY + 10 } : null);
+
+  return (
+    <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-start', flex: 1 }}>
+      <div ref={containerRef} style={{ flex: 1, position: 'relative', minWidth: 0 }}>
+        <div
+          onClick={() => setIsOpen(!isOpen)}
+          style={{
+            ...fieldStyle,
+            height: '33px',
+            marginBottom: 0,
+            background: 'white',
+            cursor: 'pointer',
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+          }}
+        >
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {availableImages.find(image => image.value === (value ?? ''))?.label || 'No image'}
+          </span>
+          <span style={{ fontSize: '18px', color: '#333', fontWeight: '600', transform: 'translateY(-3px)', paddingLeft: '3px' }}>⌵</span>
+        </div>
+
+        {isOpen && (
+          <div
+            style={{
+              position: 'absolute',
+              top: '100%',
+              left: 0,
+              right: 0,
+              background: 'white',
+              border: '1px solid #E9DDD3',
+              borderRadius: '8px',
+              marginTop: '4px',
+              maxHeight: '200px',
+              overflowY: 'auto',
+              zIndex: 1000,
+              boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+            }}
+          >
+            {availableImages.map(image => (
+              <div
+                key={image.value}
+                onClick={() => {
+                  onChange(image.value);
+                  setHovered(null);
+                  setIsOpen(false);
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background = '#f5f5f5';
+                  hover(image.value, e);
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background = 'white';
+                  setHovered(null);
+                }}
+                style={{
+                  padding: '8px 12px',
+                  cursor: 'pointer',
+                  borderBottom: '1px solid #f0f0f0',
+                  fontSize: '14px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                }}
+              >
+                {image.value && (
+                  <img src={image.value} alt={image.label} style={{ width: '20px', height: '15px', objectFit: 'cover', borderRadius: '2px' }} />
+                )}
+                {image.label}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div
+        onMouseEnter={(e) => hover(value, e)}
+        onMouseLeave={() => setHovered(null)}
+        style={{
+          width: '44px',
+          height: '44px',
+          border: '1px solid #E9DDD3',
+          borderRadius: '8px',
+          overflow: 'hidden',
+          flexShrink: 0,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: value ? 'white' : '#f5f5f5',
+          transform: 'translateY(-3px)',
+        }}
+      >
+        {value ? (
+          <img src={value} alt="Selected" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+        ) : (
+          <span style={{ color: '#999', fontSize: '11px' }}>No img</span>
+        )}
+      </div>
+
+      {hovered && (
+        <div
+          style={{
+            position: 'fixed',
+            top: hovered.y,
+            left: hovered.x,
+            zIndex: 10001,
+            background: 'white',
+            border: '1px solid #E9DDD3',
+            borderRadius: '8px',
+            padding: '8px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+            maxWidth: '200px',
+            maxHeight: '200px',
+            pointerEvents: 'none',
+          }}
+        >
+          <img src={hovered.src} alt="Preview" style={{ width: '100%', height: '100%', objectFit: 'contain' }} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+type TextListProps = {
+  label: string;
+  values: string[];
+  itemLabel: string;             // placeholder of each row, numbered
+  onChange: (values: string[]) => void;
+};
+
+// Editable list of short texts. There's always at least one row, Enter adds
+// another, and rows emptied while typing are dropped unless they're the last.
+export function EditorTextList({ label, values, itemLabel, onChange }: TextListProps) {
+  const rows = values.length > 0 ? values : [''];
+
+  return (
+    <>
+      <label style={{ fontWeight: '700' }}>{label}</label>
+      <div style={{ marginBottom: '16px' }}>
+        {rows.map((value, index) => (
+          <div key={index} style={{ display: 'flex', gap: '8px', marginBottom: '8px', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => {
+                const next = rows.map((row, i) => (i === index ? e.target.value : row));
+                onChange(next.filter((row, i) => row.trim() !== '' || i === next.length - 1));
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  onChange([...rows, '']);
+                }
+              }}
+              placeholder={`${itemLabel} ${index + 1}`}
+              style={{ ...fieldStyle, flex: 1, borderRadius: '6px', marginBottom: 0, transform: 'none' }}
+              onFocus={focus}
+              onBlur={blur}
+            />
+            {rows.length > 1 && <EditorRemoveButton onClick={() => onChange(rows.filter((_, i) => i !== index))} />}
+          </div>
+        ))}
+        <EditorAddButton label={`Add ${itemLabel}`} onClick={() => onChange([...rows, ''])} />
+      </div>
+    </>
+  );
+}
+
+type OptionListProps = {
+  label: string;
+  options: MultiSelectOption[];
+  addLabel: string;
+  onChange: (options: MultiSelectOption[]) => void;
+};
+
+// Options with text, an optional icon and image, one row each
+export function EditorOptionList({ label, options, addLabel, onChange }: OptionListProps) {
+  const update = (index: number, changes: Partial<MultiSelectOption>) =>
+    onChange(options.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+
+  return (
+    <>
+      <label style={{ fontWeight: '700' }}>{label}</label>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', margin: '4px 0 16px' }}>
+        {options.map((option, index) => (
+          <div key={index} style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={option.text}
+              onChange={(e) => update(index, { text: e.target.value })}
+              placeholder={`Option ${index + 1}`}
+              style={{ ...fieldStyle, flex: 1, height: '33px', marginBottom: 0, transform: 'none' }}
+              onFocus={focus}
+              onBlur={blur}
+            />
+            <input
+              type="text"
+              value={option.icon || ''}
+              onChange={(e) => update(index, { icon: e.target.value || undefined })}
+              placeholder="Icon"
+              title="Icon, e.g. an emoji"
+              style={{ ...fieldStyle, width: '52px', height: '33px', marginBottom: 0, transform: 'none', textAlign: 'center' }}
+              onFocus={focus}
+              onBlur={blur}
+            />
+            <select
+              value={option.image || ''}
+              onChange={(e) => update(index, { image: e.target.value || undefined })}
+              title="Image"
+              style={{ ...fieldStyle, width: '90px', height: '33px', marginBottom: 0, transform: 'none', background: 'white', cursor: 'pointer' }}
+            >
+              {availableImages.map(image => (
+                <option key={image.value} value={image.value}>{image.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(options.filter((_, i) => i !== index))}
+              title="Remove"
+              style={{ background: 'none', border: 'none', color: '#F16B68', fontSize: '18px', cursor: 'pointer', padding: '0 4px' }}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange([...options, { text: '' }])}
+          style={{
+            alignSelf: 'flex-start',
+            background: 'white',
+            border: '1px dashed #E9DDD3',
+            borderRadius: '8px',
+            padding: '6px 12px',
+            color: '#003250',
+            fontSize: '13px',
+            cursor: 'pointer',
+          }}
+        >
+          + {addLabel}
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,50 @@
+// Accordion: a title that opens to show more; it starts collapsed
+
+import { EditorInput, EditorTextArea } from './EditorFields';
+import { toolTypeRegistry } from './registry';
+import type { ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
+
+export function AccordionEditor({ content, onChange }: ToolTypeEditorProps<'accordion'>) {
+  return (
+    <>
+      <EditorInput
+        label="Accordion Title:"
+        value={content.title}
+        placeholder="What the user clicks to open it..."
+        onChange={(title) => onChange({ ...content, title })}
+      />
+      <EditorTextArea
+        label="Accordion Content:"
+        value={content.content}
+        placeholder="Shown when the accordion is open..."
+        onChange={(text) => onChange({ ...content, content: text })}
+      />
+    </>
+  );
+}
+
+export function AccordionPreview({ message, content, renderText }: ToolTypePreviewProps<'accordion'>) {
+  return (
+    <details className="message-accordion">
+      <summary className="test-answer">{renderText(message.content)}</summary>
+      <div className="message-accordion-body">
+        {content.content
+          ? renderText(content.content)
+          : <span className="message-accordion-empty">No content yet</span>}
+      </div>
+    </details>
+  );
+}
+
+toolTypeRegistry.register({
+  type: 'accordion',
+  label: 'Accordion',
+  answer: 'continue',
+  defaultContent: () => ({ title: '', content: '' }),
+  summary: content => content?.title || 'Accordion',
+  previewText: content => content?.title || 'New accordion',
+  searchText: content => [content?.title, content?.content],
+  templatedTexts: content => [content?.title, content?.content],
+  Editor: AccordionEditor,
+  Preview: AccordionPreview,
+});
@@ -0,0 +1,294 @@
+// Card sort: the user drags cards into buckets such as "Must have / Nice /
+// Don't care", each optionally capped. Conditions read each bucket by name,
+// e.g. must_have any of [Remote] or must_have_count >= 3. Saved under a
+// variable, the buckets go by {{wishes.must_have}} in later text.
+
+import { useState } from 'react';
+import type { CSSProperties, DragEvent } from 'react';
+import './cardSort.css';
+import { EditorOptionList, EditorTextArea } from './EditorFields';
+import { sameText } from './personaAnswers';
+import { toolTypeRegistry } from './registry';
+import type { ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
+import { variableName } from '../utils/conditions';
+import type { MultiSelectOption } from '../types/flow';
+
+export type CardSortBucket = {
+  title: string;
+  limit?: number;                // most cards it takes; no cap when unset
+};
+
+export type CardSortContent = {
+  text?: string;
+  options: MultiSelectOption[];  // the cards
+  buckets: CardSortBucket[];
+};
+
+declare module '../types/flow' {
+  interface ToolTypeContent {
+    cardSort: CardSortContent;
+  }
+}
+
+const sortCards = (content: CardSortContent | undefined) =>
+  (content?.options ?? []).filter(option => option.text.trim());
+
+const sortBuckets = (content: CardSortContent | undefined) =>
+  (content?.buckets ?? []).filter(bucket => bucket.title.trim());
+
+const bucketInputStyle: CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid #E9DDD3',
+  borderRadius: '8px',
+  fontSize: '14px',
+  fontFamily: 'inherit',
+  height: '33px',
+  boxSizing: 'border-box',
+  outline: 'none',
+};
+
+export function CardSortEditor({ content, onChange }: ToolTypeEditorProps<'cardSort'>) {
+  const updateBucket = (index: number, changes: Partial<CardSortBucket>) =>
+    onChange({ ...content, buckets: content.buckets.map((bucket, i) => (i === index ? { ...bucket, ...changes } : bucket)) });
+  const cardCount = sortCards(content).length;
+  const room = sortBuckets(content).reduce<number | null>(
+    (total, bucket) => (total === null || !bucket.limit ? null : total + bucket.limit),
+    0
+  );
+
+  return (
+    <>
+      <EditorTextArea
+        label="Question Text:"
+        value={content.text || ''}
+        placeholder="How should the user sort these?"
+        onChange={(text) => onChange({ ...content, text })}
+      />
+      <EditorOptionList
+        label="Cards:"
+        options={content.options}
+        addLabel="Add card"
+        onChange={(options) => onChange({ ...content, options })}
+      />
+
+      <label style={{ fontWeight: '700' }}>Buckets:</label>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', margin: '4px 0 16px' }}>
+        {content.buckets.map((bucket, index) => (
+          <div key={index} style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={bucket.title}
+              onChange={(e) => updateBucket(index, { title: e.target.value })}
+              placeholder={`Bucket ${index + 1}`}
+              style={{ ...bucketInputStyle, flex: 1 }}
+            />
+            <input
+              type="number"
+              min={1}
+              value={bucket.limit ?? ''}
+              onChange={(e) => {
+                const limit = parseInt(e.target.value, 10);
+                updateBucket(index, { limit: limit > 0 ? limit : undefined });
+              }}
+              placeholder="No limit"
+              title="Most cards this bucket takes"
+              style={{ ...bucketInputStyle, width: '90px' }}
+            />
+            <button
+              onClick={() => onChange({ ...content, buckets: content.buckets.filter((_, i) => i !== index) })}
+              title="Remove"
+              style={{ background: 'none', border: 'none', color: '#F16B68', fontSize: '18px', cursor: 'pointer', padding: '0 4px' }}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ ...content, buckets: [...content.buckets, { title: '' }] })}
+          style={{
+            alignSelf: 'flex-start',
+            background: 'white',
+            border: '1px dashed #E9DDD3',
+            borderRadius: '8px',
+            padding: '6px 12px',
+            color: '#003250',
+            fontSize: '13px',
+            cursor: 'pointer',
+          }}
+        >
+          + Add bucket
+        </button>
+        {room !== null && room < cardCount && (
+          <div style={{ fontSize: '12px', color: '#666' }}>
+            The buckets hold {room} of the {cardCount} cards; the rest stay unsorted
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
+
+export function CardSortPreview({ message, content, isActive, answer, onAnswer, renderText }: ToolTypePreviewProps<'cardSort'>) {
+  const cards = sortCards(content);
+  const buckets = sortBuckets(content);
+  const [placed, setPlaced] = useState<Record<string, string>>({}); // card -> bucket title
+  // The card being dragged, or tapped and waiting for a bucket
+  const [picked, setPicked] = useState<string | null>(null);
+
+  // Once answered, the cards stay in the buckets they were put in
+  const answeredBucket = (card: string) =>
+    answer?.kind === 'sort' ? Object.keys(answer.buckets).find(title => answer.buckets[title].includes(card)) : undefined;
+  const bucketOf = (card: string) =>
+    buckets.find(bucket => bucket.title === (isActive ? placed[card] : answeredBucket(card)));
+  const cardsIn = (title: string) => cards.filter(card => bucketOf(card.text)?.title === title);
+  const unsorted = cards.filter(card => !bucketOf(card.text));
+
+  // A full bucket takes no more cards; null puts the card back on the pile
+  const place = (title: string | null) => {
+    if (!picked) return;
+    const bucket = buckets.find(item => item.title === title);
+    if (bucket?.limit && cardsIn(bucket.title).length >= bucket.limit && placed[picked] !== bucket.title) return;
+    const next = { ...placed };
+    if (bucket) next[picked] = bucket.title;
+    else delete next[picked];
+    setPlaced(next);
+    setPicked(null);
+  };
+
+  const dropZone = (title: string | null) => isActive
+    ? {
+        onDragOver: (e: DragEvent) => e.preventDefault(),
+        onDrop: (e: DragEvent) => {
+          e.preventDefault();
+          place(title);
+        },
+        onClick: () => place(title),
+        style: { pointerEvents: 'auto' as const },
+      }
+    : {};
+
+  const renderCard = (card: MultiSelectOption) => (
+    <div
+      key={card.text}
+      className={`card-sort-card ${picked === card.text ? 'picked' : ''} ${isActive ? 'test-answer' : ''}`}
+      draggable={isActive}
+      style={isActive ? { pointerEvents: 'auto', cursor: 'grab' } : undefined}
+      onDragStart={(e) => {
+        // Firefox only starts a drag that carries data
+        e.dataTransfer.setData('text/plain', card.text);
+        setPicked(card.text);
+      }}
+      onClick={isActive ? (e) => {
+        e.stopPropagation();
+        setPicked(picked === card.text ? null : card.text);
+      } : undefined}
+    >
+      {card.image && <img className="card-sort-image" src={card.image} alt={card.text} />}
+      <span>{card.text}</span>
+      {card.icon && <span className="option-icon">{card.icon}</span>}
+    </div>
+  );
+
+  return (
+    <div className="message-card-sort">
+      <div className="message-text">{renderText(message.content)}</div>
+
+      <div className="card-sort-pile" {...dropZone(null)}>
+        {unsorted.map(renderCard)}
+        {unsorted.length === 0 && (
+          <span className="card-sort-empty">{cards.length === 0 ? 'Cards to sort will appear here' : 'All sorted'}</span>
+        )}
+      </div>
+
+      <div className="card-sort-buckets">
+        {buckets.map(bucket => {
+          const count = cardsIn(bucket.title).length;
+          return (
+            <div
+              key={bucket.title}
+              className={`card-sort-bucket ${bucket.limit && count >= bucket.limit ? 'full' : ''} ${picked ? 'waiting' : ''}`}
+              {...dropZone(bucket.title)}
+            >
+              <div className="card-sort-bucket-title">
+                <span>{bucket.title}</span>
+                {bucket.limit && <span className="card-sort-count">{count}/{bucket.limit}</span>}
+              </div>
+              {cardsIn(bucket.title).map(renderCard)}
+            </div>
+          );
+        })}
+      </div>
+
+      {isActive && (
+        <button
+          className="form-submit-button test-answer"
+          disabled={unsorted.length === cards.length}
+          onClick={() => onAnswer({
+            kind: 'sort',
+            buckets: Object.fromEntries(buckets.map(bucket => [bucket.title, cardsIn(bucket.title).map(card => card.text)])),
+          })}
+        >
+          {message.moveOnButtonText || 'Continue'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+toolTypeRegistry.register({
+  type: 'cardSort',
+  label: 'Card Sort',
+  answer: 'sort',
+  defaultContent: () => ({
+    text: '',
+    options: [],
+    buckets: [{ title: 'Must have' }, { title: 'Nice to have' }, { title: "Don't care" }],
+  }),
+  summary: content => content?.text || `${sortCards(content).length} cards into ${sortBuckets(content).length} buckets`,
+  previewText: content => content?.text || 'New card sort',
+  searchText: content => [
+    content?.text,
+    ...sortCards(content).map(card => card.text),
+    ...sortBuckets(content).map(bucket => bucket.title),
+  ],
+  answerFields: content => sortBuckets(content).flatMap(bucket => [variableName(bucket.title), `${variableName(bucket.title)}_count`]),
+  // Scripted as { bucket: [cards] }, buckets by title or name. Without a script
+  // the cards fill the buckets in order.
+  personaAnswer: (scripted, content) => {
+    const cards = sortCards(content).map(card => card.text);
+    const buckets = sortBuckets(content);
+    const sorted: Record<string, string[]> = Object.fromEntries(buckets.map(bucket => [bucket.title, []]));
+    const hasRoom = (bucket: CardSortBucket) => !bucket.limit || sorted[bucket.title].length < bucket.limit;
+    const isPlaced = (card: string) => Object.values(sorted).some(items => items.includes(card));
+
+    if (scripted && typeof scripted === 'object' && !Array.isArray(scripted)) {
+      Object.entries(scripted).forEach(([key, value]) => {
+        const bucket = buckets.find(item => sameText(item.title, key) || variableName(item.title) === key);
+        if (!bucket) return;
+        (typeof value === 'string' ? value.split('|') : value).forEach(text => {
+          const card = cards.find(item => sameText(item, text));
+          if (card && !isPlaced(card) && hasRoom(bucket)) sorted[bucket.title].push(card);
+        });
+      });
+      return { answer: { kind: 'sort', buckets: sorted }, scripted: true };
+    }
+
+    cards.forEach(card => {
+      const bucket = buckets.find(hasRoom);
+      if (bucket) sorted[bucket.title].push(card);
+    });
+    return { answer: { kind: 'sort', buckets: sorted }, scripted: false };
+  },
+  questions: content => [content?.text],
+  readingText: content => [
+    content?.text,
+    ...sortCards(content).map(card => card.text),
+    ...sortBuckets(content).map(bucket => bucket.title),
+  ],
+  // Every card is read, weighed and dragged
+  answerSeconds: content => 4 + 3 * sortCards(content).length,
+  templatedTexts: content => [content?.text],
+  images: content => (content?.options ?? []).map(card => card.image),
+  Editor: CardSortEditor,
+  Preview: CardSortPreview,
+});
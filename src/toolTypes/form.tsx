@@ -0,0 +1,236 @@
+// Form: several fields answered at once
+
+import type { CSSProperties } from 'react';
+import { TestFormInput } from '../components/TestModeInputs';
+import { cleanVariableName, variableName } from '../utils/conditions';
+import { EditorAddButton, EditorInput, EditorRemoveButton, EditorTextList } from './EditorFields';
+import { formValue } from './personaAnswers';
+import { toolTypeRegistry } from './registry';
+import type { ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
+import type { FormField } from '../types/flow';
+
+// Seconds to fill in each kind of field, for path time estimates (see utils/pathStats)
+const ANSWER_SECONDS: Record<FormField['type'], number> = {
+  currency: 8,
+  text: 10,
+  longText: 30,
+  dropdown: 5,
+  radio: 5,
+  checkbox: 3,
+};
+
+const hasOptions = (field: FormField) =>
+  field.type === 'dropdown' || field.type === 'radio' || field.type === 'checkbox';
+
+const smallLabelStyle: CSSProperties = { display: 'block', marginBottom: '4px', fontSize: '12px', fontWeight: '600' };
+
+const smallFieldStyle: CSSProperties = {
+  width: '100%',
+  padding: '6px 8px',
+  border: '1px solid #E9DDD3',
+  borderRadius: '6px',
+  fontSize: '12px',
+  fontFamily: 'inherit',
+  boxSizing: 'border-box',
+  background: 'white',
+  outline: 'none',
+};
+
+export function FormEditor({ content, onChange }: ToolTypeEditorProps<'form'>) {
+  const fields = content.fields ?? [];
+  const setFields = (next: FormField[]) => onChange({ ...content, fields: next });
+  const updateField = (index: number, changes: Partial<FormField>) =>
+    setFields(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+
+  return (
+    <>
+      <EditorInput
+        label="Form Title:"
+        value={content.title || ''}
+        placeholder="Enter form title..."
+        onChange={(title) => onChange({ ...content, title })}
+      />
+
+      <label style={{ fontWeight: '700' }}>Form Fields:</label>
+      <div style={{ marginBottom: '16px' }}>
+        {fields.map((field, index) => (
+          <div
+            key={field.id}
+            style={{ border: '1px solid #E9DDD3', borderRadius: '8px', padding: '16px', marginBottom: '12px', backgroundColor: '#fafafa' }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+              <span style={{ fontWeight: '600', color: '#003250' }}>Field {index + 1}</span>
+              <EditorRemoveButton onClick={() => setFields(fields.filter((_, i) => i !== index))} />
+            </div>
+
+            <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
+              <div style={{ flex: 1 }}>
+                <label style={smallLabelStyle}>Field Type:</label>
+                <select
+                  value={field.type}
+                  onChange={(e) => updateField(index, { type: e.target.value as FormField['type'] })}
+                  style={smallFieldStyle}
+                >
+                  <option value="text">Text</option>
+                  <option value="longText">Long Text</option>
+                  <option value="currency">Currency</option>
+                  <option value="dropdown">Dropdown</option>
+                  <option value="radio">Radio</option>
+                  <option value="checkbox">Checkbox</option>
+                </select>
+              </div>
+
+              <div style={{ flex: 2 }}>
+                <label style={smallLabelStyle}>Field Title:</label>
+                <input
+                  type="text"
+                  value={field.title}
+                  onChange={(e) => updateField(index, { title: e.target.value })}
+                  placeholder="Enter field title..."
+                  style={smallFieldStyle}
+                />
+              </div>
+
+              <div style={{ flex: 1.5 }}>
+                <label style={smallLabelStyle}>Save As:</label>
+                <input
+                  type="text"
+                  value={field.variable || ''}
+                  onChange={(e) => updateField(index, { variable: cleanVariableName(e.target.value) || undefined })}
+                  placeholder="e.g. salary_expectation"
+                  title={field.variable ? `Later text can show this answer with {{${field.variable}}}` : 'Name the answer to show it in later text'}
+                  style={smallFieldStyle}
+                />
+              </div>
+            </div>
+
+            {hasOptions(field) && (
+              <EditorTextList
+                label="Options:"
+                values={field.options ?? []}
+                itemLabel="Option"
+                onChange={(options) => updateField(index, { options })}
+              />
+            )}
+          </div>
+        ))}
+        <EditorAddButton
+          label="Add Field"
+          onClick={() => setFields([...fields, { id: `field_${Date.now()}`, type: 'text', title: '', required: false }])}
+        />
+      </div>
+
+      <EditorInput
+        label="Send Button Text:"
+        value={content.sendButtonText || 'Continue'}
+        placeholder="Enter send button text..."
+        onChange={(sendButtonText) => onChange({ ...content, sendButtonText })}
+      />
+    </>
+  );
+}
+
+export function FormPreview({ message, content, isActive, onAnswer }: ToolTypePreviewProps<'form'>) {
+  if (isActive) return <TestFormInput message={message} onAnswer={onAnswer} />;
+
+  const fields = content.fields ?? [];
+  return (
+    <div className="message-form">
+      <div className="form-container">
+        {content.title?.trim() && <h2 className="form-title">{content.title}</h2>}
+        {fields.length > 0 ? (
+          fields.map((field, index) => (
+            <div key={index} className="form-field">
+              <label className="form-field-label">{field.title}</label>
+              {field.type === 'text' && (
+                <input type="text" className="form-input" placeholder="Type your answer here..." disabled />
+              )}
+              {field.type === 'longText' && (
+                <textarea className="form-textarea" placeholder="Type your answer here..." disabled />
+              )}
+              {field.type === 'currency' && (
+                <input type="number" className="form-input" placeholder="0.00" disabled />
+              )}
+              {field.type === 'dropdown' && field.options && (
+                <select className="form-select" disabled>
+                  <option value="">Select an option</option>
+                  {field.options.map((option, optionIndex) => (
+                    <option key={optionIndex} value={option}>{option}</option>
+                  ))}
+                </select>
+              )}
+              {field.type === 'radio' && field.options && (
+                <div className="form-radio-group">
+                  {field.options.map((option, optionIndex) => (
+                    <label key={optionIndex} className="form-radio-option">
+                      <input type="radio" name={`field-${index}`} disabled />
+                      <span className="radio-label">{option}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+              {field.type === 'checkbox' && field.options && (
+                <div className="form-checkbox-group">
+                  {field.options.map((option, optionIndex) => (
+                    <label key={optionIndex} className="form-checkbox-option">
+                      <input type="checkbox" disabled />
+                      <span className="checkbox-label">{option}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        ) : (
+          <div className="form-placeholder">
+            <p>Form fields will appear here</p>
+          </div>
+        )}
+        <button className="form-submit-button">{content.sendButtonText || 'Continue'}</button>
+      </div>
+    </div>
+  );
+}
+
+toolTypeRegistry.register({
+  type: 'form',
+  label: 'Form',
+  answer: 'form',
+  defaultContent: () => ({ fields: [], title: '', sendButtonText: 'Continue' }),
+  summary: content => {
+    const count = content?.fields?.length ?? 0;
+    return count > 0 ? `${count} field${count === 1 ? '' : 's'}` : 'Form Component';
+  },
+  previewText: content => content?.title || `${content?.fields?.length || 0} field form`,
+  searchText: content => [
+    content?.title,
+    ...(content?.fields ?? []).flatMap(field => [field.title, field.variable, ...(field.options ?? [])]),
+  ],
+  // Fields without a scripted value take their first option, or a placeholder
+  // when they're required
+  personaAnswer: (scripted, content) => {
+    let allScripted = !!scripted;
+    const values: Record<string, string | string[]> = {};
+    (content?.fields ?? []).forEach(field => {
+      const value = formValue(scripted, field.id, field.title);
+      if (value !== undefined) {
+        values[field.id] = value;
+      } else if (field.options?.length) {
+        values[field.id] = field.type === 'checkbox' ? [field.options[0]] : field.options[0];
+        allScripted = false;
+      } else if (field.required) {
+        values[field.id] = field.type === 'currency' ? '0' : 'n/a';
+        allScripted = false;
+      }
+    });
+    return { answer: { kind: 'form', values }, scripted: allScripted };
+  },
+  // Branch edges stand for the options of the last dropdown field
+  routeOptions: content => [...(content?.fields ?? [])].reverse().find(field => field.type === 'dropdown')?.options ?? [],
+  answerFields: content => (content?.fields ?? []).map(field => variableName(field.title)),
+  questions: content => (content?.fields ?? []).map(field => field.title || field.id),
+  readingText: content => [content?.title, ...(content?.fields ?? []).map(field => field.title)],
+  answerSeconds: content => (content?.fields ?? []).reduce((total, field) => total + ANSWER_SECONDS[field.type], 0),
+  Editor: FormEditor,
+  Preview: FormPreview,
+});
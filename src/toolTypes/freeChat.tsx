@@ -0,0 +1,51 @@
+// Free chat: an open question answered in the user's own words
+
+import { TestFreeChatInput } from '../components/TestModeInputs';
+import { EditorTextArea } from './EditorFields';
+import { asList } from './personaAnswers';
+import { toolTypeRegistry } from './registry';
+import type { ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
+
+export function FreeChatEditor({ content, onChange }: ToolTypeEditorProps<'freeChat'>) {
+  return (
+    <EditorTextArea
+      label="Prompt:"
+      value={content.text}
+      placeholder="Ask something the user answers in their own words..."
+      onChange={(text) => onChange({ ...content, text })}
+    />
+  );
+}
+
+export function FreeChatPreview({ message, isActive, isTestMode, onAnswer, renderText }: ToolTypePreviewProps<'freeChat'>) {
+  return (
+    <>
+      <div className="message-text">{renderText(message.content)}</div>
+      {isActive ? (
+        <TestFreeChatInput message={message} onAnswer={onAnswer} />
+      ) : (
+        !isTestMode && <div className="message-free-chat-hint">Open reply</div>
+      )}
+    </>
+  );
+}
+
+toolTypeRegistry.register({
+  type: 'freeChat',
+  label: 'Free Chat',
+  answer: 'text',
+  defaultContent: () => ({ text: '' }),
+  summary: content => content?.text || 'Free Chat',
+  previewText: content => content?.text || 'New free chat',
+  searchText: content => [content?.text],
+  // Nothing to pick from, so without a scripted reply the persona moves on
+  personaAnswer: scripted => {
+    const [text] = asList(scripted);
+    return text ? { answer: { kind: 'text', text }, scripted: true } : { answer: { kind: 'continue' }, scripted: false };
+  },
+  questions: content => [content?.text],
+  answerSeconds: () => 45,
+  templatedTexts: content => [content?.text],
+  Editor: FreeChatEditor,
+  Preview: FreeChatPreview,
+});
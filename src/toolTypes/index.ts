@@ -0,0 +1,17 @@
+// Every UI tool type, registered in the order the tool type picker lists them.
+// A new type is a module here that calls toolTypeRegistry.register, imported below.
+
+import './message';
+import './question';
+import './multiSelect';
+import './form';
+import './scale';
+import './ranking';
+import './cardSort';
+import './freeChat';
+import './accordion';
+import './intro';
+
+export { toolTypeRegistry } from './registry';
+export { formAnswerKey } from './personaAnswers';
+export type { ToolTypeDefinition, ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
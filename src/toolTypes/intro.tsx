@@ -0,0 +1,37 @@
+// Intro dialog: a splash that opens the conversation or a new section
+
+import { EditorTextArea } from './EditorFields';
+import { toolTypeRegistry } from './registry';
+import type { ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
+
+export function IntroEditor({ content, onChange }: ToolTypeEditorProps<'intro'>) {
+  return (
+    <EditorTextArea
+      label="Intro Text:"
+      value={content.text}
+      placeholder="Welcome the user and say what comes next..."
+      onChange={(text) => onChange({ ...content, text })}
+    />
+  );
+}
+
+export function IntroPreview({ message, renderText }: ToolTypePreviewProps<'intro'>) {
+  return (
+    <div className="message-intro">
+      <div className="message-intro-text">{renderText(message.content)}</div>
+    </div>
+  );
+}
+
+toolTypeRegistry.register({
+  type: 'intro',
+  label: 'Intro Dialog',
+  answer: 'continue',
+  defaultContent: () => ({ text: '' }),
+  summary: content => content?.text || 'Intro',
+  previewText: content => content?.text || 'New intro',
+  searchText: content => [content?.text],
+  templatedTexts: content => [content?.text],
+  Editor: IntroEditor,
+  Preview: IntroPreview,
+});
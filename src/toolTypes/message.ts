@@ -0,0 +1,14 @@
+// Message: a chat bubble; its editor and preview are built into the canvas and preview
+
+import { toolTypeRegistry } from './registry';
+
+toolTypeRegistry.register({
+  type: 'message',
+  label: 'Message',
+  answer: 'continue',
+  defaultContent: () => ({ text: '', richText: true }),
+  summary: content => content?.text || 'New Message',
+  previewText: content => content?.text || 'New component added',
+  searchText: content => [content?.text],
+  templatedTexts: content => [content?.text],
+});
@@ -0,0 +1,150 @@
+// Multi select: pick up to maxSelection options
+
+import type { CSSProperties } from 'react';
+import { TestMultiSelectInput } from '../components/TestModeInputs';
+import { EditorAddButton, EditorImagePicker, EditorNumberInput, EditorRemoveButton, EditorTextArea } from './EditorFields';
+import { asList, sameText } from './personaAnswers';
+import { toolTypeRegistry } from './registry';
+import type { ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
+import type { MultiSelectOption } from '../types/flow';
+
+const optionInputStyle: CSSProperties = {
+  flex: 1,
+  padding: '8px 12px',
+  border: '1px solid #E9DDD3',
+  borderRadius: '6px',
+  fontSize: '14px',
+  fontFamily: 'inherit',
+  boxSizing: 'border-box',
+  height: '33px',
+  minWidth: '160px',
+  outline: 'none',
+};
+
+export function MultiSelectEditor({ content, onChange }: ToolTypeEditorProps<'multiSelect'>) {
+  const options = content.options?.length ? content.options : [{ text: '' }];
+  const setOptions = (next: MultiSelectOption[]) => onChange({ ...content, options: next });
+
+  return (
+    <>
+      <EditorTextArea
+        label="Question Text:"
+        value={content.text || ''}
+        placeholder="Enter your multi-select question..."
+        onChange={(text) => onChange({ ...content, text })}
+      />
+      <EditorNumberInput
+        label="Max Selection:"
+        value={content.maxSelection || 1}
+        min={1}
+        onChange={(maxSelection) => onChange({ ...content, maxSelection: Math.max(1, Math.floor(maxSelection)) })}
+      />
+      <label style={{ fontWeight: '700' }}>Options:</label>
+      <div style={{ marginBottom: '16px' }}>
+        {options.map((option, index) => (
+          <div key={index} style={{ display: 'flex', gap: '8px', marginBottom: '8px', alignItems: 'flex-start' }}>
+            <input
+              type="text"
+              value={option.text || ''}
+              onChange={(e) => {
+                const next = options.map((item, i) => (i === index ? { ...item, text: e.target.value } : item));
+                // Options emptied while typing go, except the last
+                setOptions(next.filter((item, i) => item.text.trim() !== '' || i === next.length - 1));
+              }}
+              placeholder={`Option ${index + 1}`}
+              style={optionInputStyle}
+              onFocus={(e) => {
+                e.target.style.border = '2px solid #003250';
+              }}
+              onBlur={(e) => {
+                e.target.style.border = '1px solid #E9DDD3';
+              }}
+            />
+            <EditorImagePicker
+              value={option.image}
+              onChange={(image) => setOptions(options.map((item, i) => (i === index ? { ...item, image } : item)))}
+            />
+            {options.length > 1 && <EditorRemoveButton onClick={() => setOptions(options.filter((_, i) => i !== index))} />}
+          </div>
+        ))}
+        <EditorAddButton label="Add Option" onClick={() => setOptions([...options, { text: '' }])} />
+      </div>
+    </>
+  );
+}
+
+export function MultiSelectPreview({ message, content, isActive, onAnswer, renderText }: ToolTypePreviewProps<'multiSelect'>) {
+  const options = content.options ?? [];
+  const hasImages = options.some(option => option.image);
+  const maxSelection = content.maxSelection || 1;
+  const selectedCount = 1; // The author's preview always shows the first option picked
+
+  return (
+    <>
+      <div className="message-text">{renderText(message.content)}</div>
+      {isActive ? (
+        <TestMultiSelectInput message={message} onAnswer={onAnswer} />
+      ) : (
+        <div className="message-multi-select">
+          {maxSelection > 1 && (
+            <div className="multi-select-progress">
+              <div className="multi-select-progress-fill" style={{ width: `${(selectedCount / maxSelection) * 100}%` }} />
+            </div>
+          )}
+          {options.length > 0 && (
+            <div className={`multi-select-options ${hasImages ? 'has-images' : ''}`}>
+              {options.map((option, index) => (
+                <button
+                  key={index}
+                  className={`multi-select-option ${index === 0 ? 'selected' : ''} ${option.image ? 'has-image' : ''}`}
+                >
+                  {option.image && (
+                    <div className="option-image">
+                      <img src={option.image} alt={option.text} />
+                    </div>
+                  )}
+                  <div className="option-content">
+                    <span className="option-text">{option.text}</span>
+                    {option.icon && <span className="option-icon">{option.icon}</span>}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
+
+toolTypeRegistry.register({
+  type: 'multiSelect',
+  label: 'Multi Select',
+  answer: 'choice',
+  defaultContent: () => ({ text: '', options: [], maxSelection: 1 }),
+  summary: content => content?.text || 'Multi Select',
+  previewText: content => content?.text || 'New multi-select question',
+  searchText: content => [content?.text, ...(content?.options ?? []).map(option => option.text)],
+  // Scripted picks are option texts, up to maxSelection of them
+  personaAnswer: (scripted, content) => {
+    const options = content?.options ?? [];
+    const picks = asList(scripted)
+      .map(text => options.findIndex(option => sameText(option.text, text)))
+      .filter(index => index !== -1)
+      .slice(0, content?.maxSelection || undefined);
+    if (picks.length > 0) return { answer: { kind: 'choice', optionIndexes: picks }, scripted: true };
+    // A lone option is a button; there's nothing to choose
+    return {
+      answer: options.length > 0 ? { kind: 'choice', optionIndexes: [0] } : { kind: 'continue' },
+      scripted: options.length === 1,
+    };
+  },
+  routeOptions: content => (content?.options ?? []).map(option => option.text),
+  questions: content => [content?.text],
+  readingText: content => [content?.text, ...(content?.options ?? []).map(option => option.text)],
+  answerSeconds: content => 4 + (content?.options?.length ?? 0),
+  templatedTexts: content => [content?.text],
+  images: content => (content?.options ?? []).map(option => option.image),
+  Editor: MultiSelectEditor,
+  Preview: MultiSelectPreview,
+});
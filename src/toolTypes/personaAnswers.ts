@@ -0,0 +1,23 @@
+// Reading a persona's scripted answers (see utils/personas), shared by the
+// tool types whose personaAnswer picks options or fills in fields
+
+import { variableName } from '../utils/conditions';
+import type { PersonaAnswer } from '../types/flow';
+
+export const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const asList = (value: PersonaAnswer | undefined): string[] =>
+  typeof value === 'string' ? [value] : Array.isArray(value) ? value : [];
+
+// Form values can be keyed by field id, title or the title's variable name
+export const formAnswerKey = (scripted: PersonaAnswer | undefined, fieldId: string, title: string): string | undefined => {
+  if (!scripted || typeof scripted === 'string' || Array.isArray(scripted)) return undefined;
+  return Object.keys(scripted).find(item =>
+    item === fieldId || sameText(item, title) || item === variableName(title)
+  );
+};
+
+export const formValue = (scripted: PersonaAnswer | undefined, fieldId: string, title: string) => {
+  const key = formAnswerKey(scripted, fieldId, title);
+  return key === undefined ? undefined : (scripted as Record<string, string | string[]>)[key];
+};
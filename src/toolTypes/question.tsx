@@ -0,0 +1,87 @@
+// Question: a typed reply, with optional suggested answers
+
+import { EditorImagePicker, EditorTextArea, EditorTextList } from './EditorFields';
+import { asList } from './personaAnswers';
+import { toolTypeRegistry } from './registry';
+import type { ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
+
+export function QuestionEditor({ content, onChange }: ToolTypeEditorProps<'question'>) {
+  return (
+    <>
+      <EditorTextArea
+        label="Question Text:"
+        value={content.text || ''}
+        placeholder="Enter your question text (supports Markdown)..."
+        onChange={(text) => onChange({ ...content, text })}
+      />
+      <label style={{ fontWeight: '700' }}>Image:</label>
+      <div style={{ display: 'flex', marginBottom: '16px' }}>
+        <EditorImagePicker value={content.image} onChange={(image) => onChange({ ...content, image })} />
+      </div>
+      <EditorTextList
+        label="Suggested Responses:"
+        values={content.suggestions ?? []}
+        itemLabel="Suggestion"
+        onChange={(suggestions) => onChange({ ...content, suggestions })}
+      />
+    </>
+  );
+}
+
+export function QuestionPreview({ message, content, isActive, isTestMode, onAnswer, renderText }: ToolTypePreviewProps<'question'>) {
+  const suggestions = content.suggestions ?? [];
+
+  return (
+    <div className="message-question">
+      <div className="question-card">
+        <div className="question-top-section">
+          {content.image && (
+            <div className="question-image">
+              <img src={content.image} alt="Question illustration" />
+            </div>
+          )}
+          <div className="question-text">{renderText(message.content)}</div>
+        </div>
+      </div>
+      {/* In test mode, only the step being answered shows its suggestions */}
+      {suggestions.length > 0 && (!isTestMode || isActive) && (
+        <div className="question-suggestions">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={index}
+              className={`suggestion-button ${isActive ? 'test-answer' : ''}`}
+              style={isActive ? { pointerEvents: 'auto', cursor: 'pointer' } : undefined}
+              onClick={isActive ? () => onAnswer({ kind: 'text', text: suggestion }) : undefined}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+toolTypeRegistry.register({
+  type: 'question',
+  label: 'Question',
+  answer: 'text',
+  defaultContent: () => ({ text: '', options: [], suggestions: [] }),
+  summary: content => content?.text || 'New Question',
+  previewText: content => content?.text || 'New question',
+  searchText: content => [content?.text, ...(content?.suggestions ?? [])],
+  // Without a scripted reply the first suggestion is taken
+  personaAnswer: (scripted, content) => {
+    const [text] = asList(scripted);
+    if (text) return { answer: { kind: 'text', text }, scripted: true };
+    const fallback = content?.suggestions?.[0] ?? content?.options?.[0] ?? '';
+    return { answer: fallback ? { kind: 'text', text: fallback } : { kind: 'continue' }, scripted: false };
+  },
+  questions: content => [content?.text],
+  readingText: content => [content?.text, ...(content?.options ?? [])],
+  answerSeconds: () => 8,
+  templatedTexts: content => [content?.text],
+  images: content => [content?.image],
+  Editor: QuestionEditor,
+  Preview: QuestionPreview,
+});
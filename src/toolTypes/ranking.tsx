@@ -0,0 +1,165 @@
+// Ranking: the user drags items into order. With topN set only the first N
+// count; the answer is the ranked items, top first, and branch edges can
+// route on the item put first.
+
+import { useState } from 'react';
+import './ranking.css';
+import { EditorNumberInput, EditorOptionList, EditorTextArea } from './EditorFields';
+import { asList, sameText } from './personaAnswers';
+import { toolTypeRegistry } from './registry';
+import type { ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
+import type { MultiSelectOption } from '../types/flow';
+
+export type RankingContent = {
+  text?: string;
+  items: MultiSelectOption[];
+  topN?: number;                 // how many places count; all items when unset
+};
+
+declare module '../types/flow' {
+  interface ToolTypeContent {
+    ranking: RankingContent;
+  }
+}
+
+const rankedItems = (content: RankingContent | undefined) =>
+  (content?.items ?? []).filter(item => item.text.trim());
+
+const rankedCount = (content: RankingContent | undefined): number => {
+  const count = rankedItems(content).length;
+  return content?.topN && content.topN < count ? content.topN : count;
+};
+
+export function RankingEditor({ content, onChange }: ToolTypeEditorProps<'ranking'>) {
+  const itemCount = rankedItems(content).length;
+
+  return (
+    <>
+      <EditorTextArea
+        label="Question Text:"
+        value={content.text || ''}
+        placeholder="What should the user put in order?"
+        onChange={(text) => onChange({ ...content, text })}
+      />
+      <EditorOptionList
+        label="Items:"
+        options={content.items}
+        addLabel="Add item"
+        onChange={(items) => onChange({ ...content, items })}
+      />
+      <EditorNumberInput
+        label="Rank Top:"
+        value={content.topN ?? 0}
+        min={0}
+        onChange={(topN) => onChange({ ...content, topN: topN > 0 ? Math.floor(topN) : undefined })}
+      />
+      <div style={{ fontSize: '12px', color: '#666', margin: '-8px 0 16px' }}>
+        {content.topN && content.topN < itemCount
+          ? `Only the first ${content.topN} of ${itemCount} items count`
+          : '0 ranks every item'}
+      </div>
+    </>
+  );
+}
+
+export function RankingPreview({ message, content, isActive, answer, onAnswer, renderText }: ToolTypePreviewProps<'ranking'>) {
+  const items = rankedItems(content);
+  const limit = rankedCount(content);
+  const [order, setOrder] = useState<number[]>(() => items.map((_, index) => index));
+  const [dragging, setDragging] = useState<number | null>(null);
+  const authorOrder = items.map((_, index) => index);
+  // Once answered, the ranked items stay where the user put them, ahead of the rest
+  const answeredOrder = answer?.kind === 'order'
+    ? [...new Set([...answer.items.map(text => items.findIndex(item => item.text === text)).filter(index => index !== -1), ...authorOrder])]
+    : authorOrder;
+  // Items edited while testing start over in the author's order
+  const positions = !isActive ? answeredOrder : order.length === items.length ? order : authorOrder;
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= positions.length || from === to) return;
+    const next = [...positions];
+    next.splice(to, 0, ...next.splice(from, 1));
+    setOrder(next);
+  };
+
+  return (
+    <div className="message-ranking">
+      <div className="message-text">{renderText(message.content)}</div>
+      <ol className="ranking-items">
+        {positions.map((itemIndex, position) => {
+          const item = items[itemIndex];
+          return (
+            <li
+              key={itemIndex}
+              className={`ranking-item ${position >= limit ? 'unranked' : ''} ${dragging === position ? 'dragging' : ''} ${isActive ? 'test-answer' : ''}`}
+              draggable={isActive}
+              style={isActive ? { pointerEvents: 'auto', cursor: 'grab' } : undefined}
+              onDragStart={(e) => {
+                // Firefox only starts a drag that carries data
+                e.dataTransfer.setData('text/plain', item.text);
+                e.dataTransfer.effectAllowed = 'move';
+                setDragging(position);
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (dragging === null || dragging === position) return;
+                move(dragging, position);
+                setDragging(position);
+              }}
+              onDragEnd={() => setDragging(null)}
+            >
+              <span className="ranking-position">{position < limit ? position + 1 : ''}</span>
+              {item.image && <img className="ranking-image" src={item.image} alt={item.text} />}
+              <span className="ranking-text">{item.text}</span>
+              {item.icon && <span className="option-icon">{item.icon}</span>}
+              {isActive && (
+                <span className="ranking-moves">
+                  <button onClick={() => move(position, position - 1)} disabled={position === 0} title="Move up">↑</button>
+                  <button onClick={() => move(position, position + 1)} disabled={position === positions.length - 1} title="Move down">↓</button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      {items.length === 0 && <div className="ranking-empty">Items to rank will appear here</div>}
+
+      {isActive && (
+        <button
+          className="form-submit-button test-answer"
+          disabled={items.length === 0}
+          onClick={() => onAnswer({ kind: 'order', items: positions.slice(0, limit).map(index => items[index].text) })}
+        >
+          {message.moveOnButtonText || 'Continue'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+toolTypeRegistry.register({
+  type: 'ranking',
+  label: 'Ranking',
+  answer: 'order',
+  defaultContent: () => ({ text: '', items: [] }),
+  summary: content => content?.text || `${rankedItems(content).length} items to rank`,
+  previewText: content => content?.text || 'New ranking question',
+  searchText: content => [content?.text, ...rankedItems(content).map(item => item.text)],
+  routeOptions: content => rankedItems(content).map(item => item.text),
+  // Scripted items go first, in the persona's order; the rest keep the author's
+  personaAnswer: (scripted, content) => {
+    const texts = rankedItems(content).map(item => item.text);
+    const wanted = typeof scripted === 'string' ? scripted.split('|') : asList(scripted);
+    const picked = wanted.flatMap(text => texts.filter(item => sameText(item, text)).slice(0, 1));
+    const ordered = [...new Set([...picked, ...texts])];
+    return { answer: { kind: 'order', items: ordered.slice(0, rankedCount(content)) }, scripted: picked.length > 0 };
+  },
+  questions: content => [content?.text],
+  readingText: content => [content?.text, ...rankedItems(content).map(item => item.text)],
+  // Each item gets looked at and, more often than not, moved
+  answerSeconds: content => 4 + 2 * rankedItems(content).length,
+  templatedTexts: content => [content?.text],
+  images: content => (content?.items ?? []).map(item => item.image),
+  Editor: RankingEditor,
+  Preview: RankingPreview,
+});
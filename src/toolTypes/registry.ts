@@ -0,0 +1,154 @@
+// UI tool type registry
+// Each tool type is a module in this directory that registers what the rest of
+// the app needs to know about it: the content it keeps (declared on
+// ToolTypeContent), the content a component starts with, the card and search
+// text, the answer test mode expects, what it asks and shows (for path stats,
+// {{reference}} checks and the image check), and its own editor and preview.
+// Message, the fallback for unknown types, is still built into FlowCanvas and
+// ConversationPreview.
+
+import type { ComponentType, ReactNode } from 'react';
+import type { ComponentData, Message, PersonaAnswer, ToolTypeContent, UIToolType } from '../types/flow';
+import type { TestAnswer } from '../utils/interpreter';
+
+export interface ToolTypeEditorProps<T extends UIToolType = UIToolType> {
+  component: ComponentData;
+  content: ToolTypeContent[T];
+  onChange: (content: ToolTypeContent[T]) => void;
+}
+
+export interface ToolTypePreviewProps<T extends UIToolType = UIToolType> {
+  message: Message;
+  content: ToolTypeContent[T];
+  isActive: boolean;                           // the test mode step waiting for an answer
+  answer?: TestAnswer;                         // what an earlier test mode step was answered with
+  isTestMode: boolean;
+  onAnswer: (answer: TestAnswer) => void;
+  renderText: (text: string) => ReactNode;     // text with its {{references}} filled in
+}
+
+export interface ToolTypeDefinition<T extends UIToolType = UIToolType> {
+  type: T;
+  label: string;                               // name in the tool type picker
+  disabled?: boolean;                          // listed in the picker, but can't be chosen yet
+  answer: TestAnswer['kind'];                  // what answering it gives test mode; 'continue' when it asks nothing
+  defaultContent: () => ToolTypeContent[T];
+  summary: (content: ToolTypeContent[T] | undefined) => string;       // one line on the canvas card
+  previewText: (content: ToolTypeContent[T] | undefined) => string;   // main text of its preview message
+  searchText: (content: ToolTypeContent[T] | undefined) => Array<string | undefined>;
+  // A persona's scripted answer as test mode takes it (see utils/personas);
+  // `scripted` is false when there was none and a fallback was picked
+  personaAnswer?: (scripted: PersonaAnswer | undefined, content: ToolTypeContent[T] | undefined) => { answer: TestAnswer; scripted: boolean };
+  routeOptions?: (content: ToolTypeContent[T] | undefined) => string[]; // options branch edges can stand for (see utils/routing)
+  answerFields?: (content: ToolTypeContent[T] | undefined) => string[]; // names of the parts of an answer, for <name>.<field> in conditions
+  // What the user is asked, for the path explorer (see utils/pathStats); an
+  // empty question goes by the component's name
+  questions?: (content: ToolTypeContent[T] | undefined) => Array<string | undefined>;
+  readingText?: (content: ToolTypeContent[T] | undefined) => Array<string | undefined>; // words read on the way; templatedTexts when unset
+  answerSeconds?: (content: ToolTypeContent[T] | undefined) => number;                  // time to answer once read
+  templatedTexts?: (content: ToolTypeContent[T] | undefined) => Array<string | undefined>; // text that may hold {{references}} (see utils/templates)
+  images?: (content: ToolTypeContent[T] | undefined) => Array<string | undefined>;      // images it shows, checked by the validator
+  Editor?: ComponentType<ToolTypeEditorProps<T>>;
+  Preview?: ComponentType<ToolTypePreviewProps<T>>; // the continue button is added for 'continue' answers
+}
+
+class ToolTypeRegistry {
+  private definitions = new Map<string, ToolTypeDefinition>();
+
+  register<T extends UIToolType>(definition: ToolTypeDefinition<T>): void {
+    if (this.definitions.has(definition.type)) {
+      console.warn(`Tool type "${definition.type}" is registered twice; keeping the later one`);
+    }
+    this.definitions.set(definition.type, definition as unknown as ToolTypeDefinition);
+  }
+
+  // Older states may carry types that no longer exist, such as 'banner'
+  get(type: string | undefined): ToolTypeDefinition | undefined {
+    return type ? this.definitions.get(type) : undefined;
+  }
+
+  // In the order they were registered
+  list(): ToolTypeDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  summary(component: ComponentData): string {
+    return this.get(component.uiToolType)?.summary(ownContent(component)) ?? 'Component';
+  }
+
+  previewText(component: ComponentData): string | undefined {
+    return this.get(component.uiToolType)?.previewText(ownContent(component));
+  }
+
+  personaAnswer(component: ComponentData, scripted: PersonaAnswer | undefined): { answer: TestAnswer; scripted: boolean } | undefined {
+    return this.get(component.uiToolType)?.personaAnswer?.(scripted, ownContent(component));
+  }
+
+  routeOptions(component: ComponentData): string[] {
+    return this.get(component.uiToolType)?.routeOptions?.(ownContent(component)) ?? [];
+  }
+
+  answerFields(component: ComponentData): string[] {
+    return this.get(component.uiToolType)?.answerFields?.(ownContent(component)) ?? [];
+  }
+
+  searchText(component: ComponentData): string[] {
+    return present(this.get(component.uiToolType)?.searchText(ownContent(component)));
+  }
+
+  questions(component: ComponentData): string[] {
+    const questions = this.get(component.uiToolType)?.questions?.(ownContent(component)) ?? [];
+    return questions.map(question => question || component.name);
+  }
+
+  readingText(component: ComponentData): string[] {
+    const definition = this.get(component.uiToolType);
+    return present((definition?.readingText ?? definition?.templatedTexts)?.(ownContent(component)));
+  }
+
+  answerSeconds(component: ComponentData): number {
+    return this.get(component.uiToolType)?.answerSeconds?.(ownContent(component)) ?? 0;
+  }
+
+  templatedTexts(component: ComponentData): string[] {
+    return present(this.get(component.uiToolType)?.templatedTexts?.(ownContent(component)));
+  }
+
+  images(component: ComponentData): string[] {
+    return present(this.get(component.uiToolType)?.images?.(ownContent(component)));
+  }
+
+  // Content for a component switching to `type`: what it had before, if it
+  // was this type once, otherwise the type's default
+  contentFor(component: ComponentData, type: UIToolType): ComponentData['content'] {
+    const definition = this.get(type);
+    if (component.content[type] || !definition) return component.content;
+    return { ...component.content, [type]: definition.defaultContent() };
+  }
+
+  // Whether the answer can be stored under a variable; forms store theirs per field
+  storesAnswer(component: ComponentData): boolean {
+    const answer = this.get(component.uiToolType)?.answer;
+    return answer === 'text' || answer === 'choice' || answer === 'number' || answer === 'order' || answer === 'sort';
+  }
+
+  // Names the component's answer is stored under: its variable, or for an
+  // answer in parts (a card sort's buckets) <variable>.<part>
+  storedVariables(component: ComponentData): string[] {
+    if (!component.variable || !this.storesAnswer(component)) return [];
+    const fields = this.answerFields(component);
+    return fields.length > 0 ? fields.map(field => `${component.variable}.${field}`) : [component.variable];
+  }
+
+  asksForAnswer(component: ComponentData): boolean {
+    const answer = this.get(component.uiToolType)?.answer;
+    return !!answer && answer !== 'continue';
+  }
+}
+
+const ownContent = (component: ComponentData) => component.content[component.uiToolType];
+
+const present = (texts: Array<string | undefined> | undefined): string[] =>
+  (texts ?? []).filter((text): text is string => !!text);
+
+export const toolTypeRegistry = new ToolTypeRegistry();
@@ -0,0 +1,187 @@
+// Scale: a point between min and max, such as a 1-5 Likert rating. Up to
+// MAX_LIKERT_POINTS points show as buttons, finer scales as a slider. The
+// answer is a number, so conditions can compare it ("score >= 4").
+
+import { useState } from 'react';
+import './scale.css';
+import { EditorImageSelect, EditorInput, EditorNumberInput, EditorTextArea } from './EditorFields';
+import { toolTypeRegistry } from './registry';
+import type { ToolTypeEditorProps, ToolTypePreviewProps } from './registry';
+
+export type ScaleContent = {
+  text?: string;
+  min: number;
+  max: number;
+  step: number;
+  minLabel?: string;             // shown under the lowest point, e.g. "Strongly disagree"
+  maxLabel?: string;
+  image?: string;
+};
+
+declare module '../types/flow' {
+  interface ToolTypeContent {
+    scale: ScaleContent;
+  }
+}
+
+const MAX_LIKERT_POINTS = 11;
+
+const defaultScale = (): ScaleContent => ({
+  text: '',
+  min: 1,
+  max: 5,
+  step: 1,
+  minLabel: 'Strongly disagree',
+  maxLabel: 'Strongly agree',
+});
+
+// A step that isn't positive, or max below min, leaves only min to pick
+const pointCount = ({ min, max, step }: ScaleContent): number =>
+  step > 0 && max >= min ? Math.floor((max - min) / step + 1e-9) + 1 : 1;
+
+// Rounded so 0.1 steps don't turn into 0.30000000000000004
+const pointAt = (content: ScaleContent, index: number): number =>
+  Number((content.min + index * content.step).toFixed(6));
+
+const nearestPoint = (content: ScaleContent, value: number): number => {
+  const index = content.step > 0 ? Math.round((value - content.min) / content.step) : 0;
+  return pointAt(content, Math.min(Math.max(index, 0), pointCount(content) - 1));
+};
+
+export function ScaleEditor({ content, onChange }: ToolTypeEditorProps<'scale'>) {
+  const update = (changes: Partial<ScaleContent>) => onChange({ ...content, ...changes });
+
+  return (
+    <>
+      <EditorTextArea
+        label="Question Text:"
+        value={content.text || ''}
+        placeholder="What should the user rate?"
+        onChange={(text) => update({ text })}
+      />
+      <div style={{ display: 'flex', gap: '12px' }}>
+        <EditorNumberInput label="Min:" value={content.min} onChange={(min) => update({ min })} />
+        <EditorNumberInput label="Max:" value={content.max} onChange={(max) => update({ max })} />
+        <EditorNumberInput label="Step:" value={content.step} min={0} step={0.5} onChange={(step) => update({ step })} />
+      </div>
+      {pointCount(content) === 1 && (
+        <div style={{ fontSize: '12px', color: '#F16B68', margin: '-8px 0 16px' }}>
+          Max has to be above min, with a step above 0
+        </div>
+      )}
+      <EditorInput
+        label="Min Label:"
+        value={content.minLabel || ''}
+        placeholder="e.g. Strongly disagree"
+        onChange={(minLabel) => update({ minLabel: minLabel || undefined })}
+      />
+      <EditorInput
+        label="Max Label:"
+        value={content.maxLabel || ''}
+        placeholder="e.g. Strongly agree"
+        onChange={(maxLabel) => update({ maxLabel: maxLabel || undefined })}
+      />
+      <EditorImageSelect
+        label="Image:"
+        value={content.image || ''}
+        onChange={(image) => update({ image: image || undefined })}
+      />
+    </>
+  );
+}
+
+export function ScalePreview({ message, content, isActive, answer, onAnswer, renderText }: ToolTypePreviewProps<'scale'>) {
+  const count = pointCount(content);
+  const isLikert = count <= MAX_LIKERT_POINTS;
+  // A slider always sits somewhere, so it starts in the middle
+  const [value, setValue] = useState<number | null>(isLikert ? null : pointAt(content, Math.floor(count / 2)));
+  // Once answered, the submitted point stays selected
+  const shown = !isActive && answer?.kind === 'number' ? answer.value : value;
+  const answerStyle = isActive ? { pointerEvents: 'auto' as const, cursor: 'pointer' } : undefined;
+
+  return (
+    <div className="message-scale">
+      <div className="question-card">
+        <div className="question-top-section">
+          {content.image && (
+            <div className="question-image">
+              <img src={content.image} alt="Question illustration" />
+            </div>
+          )}
+          <div className="question-text">{renderText(message.content)}</div>
+        </div>
+      </div>
+
+      {isLikert ? (
+        <div className="scale-points">
+          {Array.from({ length: count }, (_, index) => pointAt(content, index)).map(point => (
+            <button
+              key={point}
+              className={`scale-point ${shown === point ? 'selected' : ''} ${isActive ? 'test-answer' : ''}`}
+              style={answerStyle}
+              onClick={isActive ? () => setValue(point) : undefined}
+            >
+              {point}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="scale-slider">
+          <input
+            type="range"
+            className={isActive ? 'test-answer' : ''}
+            min={content.min}
+            max={pointAt(content, count - 1)}
+            step={content.step}
+            value={shown ?? content.min}
+            disabled={!isActive}
+            style={answerStyle}
+            onChange={(e) => setValue(nearestPoint(content, Number(e.target.value)))}
+          />
+          <span className="scale-value">{shown}</span>
+        </div>
+      )}
+
+      {(content.minLabel || content.maxLabel) && (
+        <div className="scale-labels">
+          <span>{content.minLabel}</span>
+          <span>{content.maxLabel}</span>
+        </div>
+      )}
+
+      {isActive && (
+        <button
+          className="form-submit-button test-answer"
+          disabled={value === null}
+          onClick={() => value !== null && onAnswer({ kind: 'number', value })}
+        >
+          {message.moveOnButtonText || 'Continue'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+toolTypeRegistry.register({
+  type: 'scale',
+  label: 'Scale',
+  answer: 'number',
+  defaultContent: defaultScale,
+  summary: content => content?.text || (content ? `Scale ${content.min}-${content.max}` : 'Scale'),
+  previewText: content => content?.text || 'New scale question',
+  searchText: content => [content?.text, content?.minLabel, content?.maxLabel],
+  // A scripted "4" snaps to the nearest point; without one the lowest point is taken
+  personaAnswer: (scripted, content = defaultScale()) => {
+    const value = parseFloat(typeof scripted === 'string' ? scripted : Array.isArray(scripted) ? scripted[0] ?? '' : '');
+    return Number.isNaN(value)
+      ? { answer: { kind: 'number', value: content.min }, scripted: false }
+      : { answer: { kind: 'number', value: nearestPoint(content, value) }, scripted: true };
+  },
+  questions: content => [content?.text],
+  readingText: content => [content?.text, content?.minLabel, content?.maxLabel],
+  answerSeconds: () => 5,
+  templatedTexts: content => [content?.text],
+  images: content => [content?.image],
+  Editor: ScaleEditor,
+  Preview: ScalePreview,
+});
@@ -0,0 +1,167 @@
+// Shared flow data types used by the canvas, the conversation preview and app state
+import type { Node as FlowNode } from "@xyflow/react";
+
+// Comprehensive component data structure - single source of truth
+export type MultiSelectOption = {
+  text: string;
+  image?: string;
+  icon?: string;
+};
+
+export type FormField = {
+  id: string;
+  type: "currency" | "text" | "longText" | "dropdown" | "radio" | "checkbox";
+  title: string;
+  options?: string[];
+  required?: boolean;
+  variable?: string;             // Name the answer is stored under (see utils/templates)
+};
+
+export type CelebrationModal = {
+  title?: string;
+  content?: string;
+  description?: string;
+  media?: string;
+  callToActionText?: string;
+  timeToLoad?: number;
+};
+
+// Content each UI tool type keeps under its own name in ComponentData.content.
+// Tool type modules declare theirs by merging into this interface (see toolTypes/registry).
+export interface ToolTypeContent {
+  message: { text: string; richText?: boolean; };
+  question: { text?: string; options?: string[]; image?: string; suggestions?: string[]; };
+  form: {
+    fields: FormField[];
+    title?: string;
+    sendButtonText?: string;
+  };
+  freeChat: { text: string; };
+  accordion: { title: string; content: string; };
+  intro: { text: string; };
+  multiSelect: {
+    text?: string;
+    options?: MultiSelectOption[];
+    maxSelection?: number;
+  };
+}
+
+export type UIToolType = keyof ToolTypeContent;
+
+export type ComponentData = {
+  id: string;                    // Unique component ID
+  name: string;                  // Display name (required)
+  slug: string;                  // Slug ID like "01.03.06" (required)
+  uiToolType: UIToolType;        // UI tool type
+  messageId?: string;            // Preview message this component renders (moved from CardNodeData)
+  variable?: string;             // Name the answer is stored under, for {{templates}} and conditions
+  unresolvedRoutes?: UnresolvedRoute[]; // Legacy routes whose destination wasn't found (see utils/migrations)
+  content: Partial<ToolTypeContent> & {
+    aiPrompt?: {
+      text?: string;
+      llm?: string;
+    };
+    banner?: { text: string; type: string; };
+    // Add-ons
+    text?: { text: string; };
+    moveOnButton?: { text: string; };
+    celebrationModal?: CelebrationModal;
+  };
+  aiGenerated?: boolean;         // AI-generated flag
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type CardNodeData = {
+  componentId: string;           // References ComponentData.id
+  messageId: string;             // Legacy field for backward compatibility
+};
+
+export type CardNode = FlowNode<CardNodeData>;
+
+// Conversation preview message
+export type MessageType = "text" | "card" | "pills";
+
+export type Message = {
+  id: string;
+  sender: "user" | "ai";
+  content: string;
+  timestamp: string;
+  messageId?: string; // Links to node messageId
+  componentId?: string; // Links to component data
+  userResponseId?: string; // Links to user response placeholder
+  type: MessageType;
+  uiToolType?: string;
+  showDropdown?: boolean;
+  suggestions?: string[];
+  image?: string;
+  multiSelectOptions?: MultiSelectOption[];
+  maxSelection?: number;
+  bannerText?: string; // Banner add-on text
+  textContent?: string; // Text add-on content
+  formFields?: FormField[]; // Form fields
+  formTitle?: string; // Form title
+  formSendButtonText?: string; // Form send button text
+  moveOnButtonText?: string; // Move on button text
+  celebrationModal?: {
+    title: string;
+    content: string;
+    description: string;
+    media: string;
+    callToActionText: string;
+    timeToLoad: number;
+  };
+  cardData?: {
+    title: string;
+    description: string;
+    illustration: string;
+    question: string;
+  };
+  pillsData?: {
+    text: string;
+    options: string[];
+  };
+};
+
+// Branch routing on an edge (see utils/routing)
+export type RouteOption = {
+  index: number;                 // Option index on the source component
+  text: string;                  // Option text when the route was set
+};
+
+export type EdgeRoute = {
+  options?: RouteOption[];       // Picked options that lead along this edge
+  condition?: string;            // Expression over the answers so far (see utils/conditions)
+  order?: number;                // Position among the source's conditions, checked first to last
+  isDefault?: boolean;           // Taken when nothing else matches
+};
+
+// Route from before routing moved onto edges whose destination slug matched
+// no component. Kept on the component until the author redraws or removes it.
+export type UnresolvedRoute = {
+  destinationSlug: string;       // Destination as it was typed
+  route: EdgeRoute;              // What led there
+};
+
+export type FlowEdgeData = {
+  route?: EdgeRoute;
+  primary?: boolean;             // The linear preview follows this edge out of its source (see utils/paths)
+};
+
+// Scripted answer a mock persona gives to one component (see utils/personas):
+// a typed reply, the texts of the options it picks, or form values by field
+export type PersonaAnswer = string | string[] | Record<string, string | string[]>;
+
+export type PersonaSegment = 'student' | 'graduate' | 'mid-career';
+
+export type PersonaTrack = 'clarity' | 'connections' | 'visibility' | 'credentials';
+
+export type Persona = {
+  id: string;
+  name: string;
+  age: number;
+  segment: PersonaSegment;
+  track: PersonaTrack;
+  description: string;
+  answers: Record<string, PersonaAnswer>; // component slug -> answer
+};
@@ -0,0 +1,411 @@
+// Condition expressions for branch routing
+// A small expression language over the answers given so far, e.g.
+//   salary >= 60000
+//   score ≥ 4
+//   answer any of [Part time, Full time]
+//   employer is empty
+//   (age < 18 OR student = "yes") AND NOT country = "US"
+// Variables are answer names (see variableName); text comparisons ignore case.
+
+export type ConditionValue = string | number | string[] | undefined;
+
+// Variable name -> value
+export type ConditionContext = Record<string, ConditionValue>;
+
+type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'contains';
+type ListOperator = 'anyOf' | 'allOf' | 'noneOf';
+
+export type Operand =
+  | { type: 'variable'; name: string }
+  | { type: 'literal'; value: string | number };
+
+export type ConditionNode =
+  | { type: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'compare'; operator: ComparisonOperator; left: Operand; right: Operand }
+  | { type: 'list'; operator: ListOperator; subject: Operand; items: string[] }
+  | { type: 'empty'; subject: Operand; negated: boolean }
+  | { type: 'truthy'; subject: Operand };
+
+export class ConditionSyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at character ${position + 1})`);
+    this.name = 'ConditionSyntaxError';
+    this.position = position;
+  }
+}
+
+// Name a label can be referred to by in a condition: "Annual salary ($)" ->
+// annual_salary. Names can't start with a digit, so "00.04 form" -> _00_04_form.
+export const variableName = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(?=\d)/, '_');
+
+// What a variable name may look like as it's typed: spaces and other symbols
+// become underscores
+export const cleanVariableName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'word'; value: string; position: number }
+  | { kind: 'list'; items: string[]; position: number }
+  | { kind: 'symbol'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+const SYMBOLS = ['==', '!=', '<=', '>=', '≠', '≤', '≥', '&&', '||', '=', '<', '>', '!', '(', ')'];
+
+const unquote = (text: string) => {
+  const trimmed = text.trim();
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+};
+
+// List items may be quoted or bare ("[Part time, 'Full, time']")
+const readList = (expression: string, start: number): { items: string[]; end: number } => {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = start + 1; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      current += char;
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      current += char;
+      quote = char;
+    } else if (char === ',' || char === ']') {
+      if (current.trim()) items.push(unquote(current));
+      current = '';
+      if (char === ']') return { items, end: i + 1 };
+    } else {
+      current += char;
+    }
+  }
+  throw new ConditionSyntaxError('Missing "]" to close the list', start);
+};
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = expression.indexOf(char, i + 1);
+      if (end === -1) throw new ConditionSyntaxError('Unterminated text', i);
+      tokens.push({ kind: 'string', value: expression.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '[') {
+      const { items, end } = readList(expression, i);
+      tokens.push({ kind: 'list', items, position: i });
+      i = end;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(expression.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][\w.]*/.exec(expression.slice(i));
+    if (word) {
+      tokens.push({ kind: 'word', value: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(item => expression.startsWith(item, i));
+    if (symbol) {
+      tokens.push({ kind: 'symbol', value: symbol, position: i });
+      i += symbol.length;
+      continue;
+    }
+
+    throw new ConditionSyntaxError(`Unexpected "${char}"`, i);
+  }
+
+  tokens.push({ kind: 'end', position: expression.length });
+  return tokens;
+};
+
+const COMPARISON_SYMBOLS: Record<string, ComparisonOperator> = {
+  '=': '=', '==': '=', '!=': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=',
+  // As typed on a Mac or pasted from content docs
+  '≠': '!=', '≤': '<=', '≥': '>=',
+};
+
+const LIST_OPERATORS: Record<string, ListOperator> = { any: 'anyOf', all: 'allOf', none: 'noneOf' };
+
+// Recursive descent, loosest binding first:
+//   or      := and (OR and)*
+//   and     := not (AND not)*
+//   not     := NOT not | primary
+//   primary := "(" or ")" | operand [test]
+//   test    := compare operand | CONTAINS operand | IS [NOT] EMPTY | (ANY|ALL|NONE) OF list
+class Parser {
+  private index = 0;
+  private readonly tokens: Token[];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new ConditionSyntaxError('Expected AND, OR or the end of the condition', next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(keyword: string, token = this.peek()): boolean {
+    return token.kind === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private isSymbol(symbol: string, token = this.peek()): boolean {
+    return token.kind === 'symbol' && token.value === symbol;
+  }
+
+  private expectKeyword(keyword: string): void {
+    const token = this.advance();
+    if (!this.isKeyword(keyword, token)) {
+      throw new ConditionSyntaxError(`Expected "${keyword}"`, token.position);
+    }
+  }
+
+  private parseOr(): ConditionNode {
+    let node = this.parseAnd();
+    while (this.isKeyword('or') || this.isSymbol('||')) {
+      this.advance();
+      node = { type: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ConditionNode {
+    let node = this.parseNot();
+    while (this.isKeyword('and') || this.isSymbol('&&')) {
+      this.advance();
+      node = { type: 'and', left: node, right: this.parseNot() };
+    }
+    return node;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.isKeyword('not') || this.isSymbol('!')) {
+      this.advance();
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionNode {
+    if (this.isSymbol('(')) {
+      const open = this.advance();
+      const node = this.parseOr();
+      if (!this.isSymbol(')')) {
+        throw new ConditionSyntaxError('Missing ")"', open.position);
+      }
+      this.advance();
+      return node;
+    }
+
+    const subject = this.parseOperand();
+    const next = this.peek();
+
+    if (next.kind === 'symbol' && COMPARISON_SYMBOLS[next.value]) {
+      this.advance();
+      return { type: 'compare', operator: COMPARISON_SYMBOLS[next.value], left: subject, right: this.parseOperand() };
+    }
+
+    if (this.isKeyword('contains')) {
+      this.advance();
+      return { type: 'compare', operator: 'contains', left: subject, right: this.parseOperand() };
+    }
+
+    if (this.isKeyword('is')) {
+      this.advance();
+      const negated = this.isKeyword('not');
+      if (negated) this.advance();
+      this.expectKeyword('empty');
+      return { type: 'empty', subject, negated };
+    }
+
+    if (next.kind === 'word' && LIST_OPERATORS[next.value.toLowerCase()]) {
+      this.advance();
+      this.expectKeyword('of');
+      const list = this.advance();
+      if (list.kind !== 'list') {
+        throw new ConditionSyntaxError('Expected a list like [A, B]', list.position);
+      }
+      return { type: 'list', operator: LIST_OPERATORS[next.value.toLowerCase()], subject, items: list.items };
+    }
+
+    return { type: 'truthy', subject };
+  }
+
+  private parseOperand(): Operand {
+    const token = this.advance();
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'word':
+        return { type: 'variable', name: token.value.toLowerCase() };
+      case 'end':
+        throw new ConditionSyntaxError('The condition ends too early', token.position);
+      default:
+        throw new ConditionSyntaxError('Expected an answer name, a number or quoted text', token.position);
+    }
+  }
+}
+
+// Throws ConditionSyntaxError when the expression is malformed
+export const parseCondition = (expression: string): ConditionNode => {
+  if (!expression.trim()) {
+    throw new ConditionSyntaxError('The condition is empty', 0);
+  }
+  return new Parser(tokenize(expression)).parse();
+};
+
+// Error message for a malformed expression, or null when it parses
+export const checkCondition = (expression: string): string | null => {
+  try {
+    parseCondition(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+// Variable names an expression refers to, for spotting typos
+export const conditionVariables = (node: ConditionNode): string[] => {
+  const names = new Set<string>();
+  const addOperand = (operand: Operand) => {
+    if (operand.type === 'variable') names.add(operand.name);
+  };
+  const visit = (current: ConditionNode) => {
+    switch (current.type) {
+      case 'and':
+      case 'or':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'not':
+        visit(current.operand);
+        break;
+      case 'compare':
+        addOperand(current.left);
+        addOperand(current.right);
+        break;
+      default:
+        addOperand(current.subject);
+    }
+  };
+  visit(node);
+  return [...names];
+};
+
+const resolve = (operand: Operand, context: ConditionContext): ConditionValue =>
+  operand.type === 'literal' ? operand.value : context[operand.name];
+
+// Numbers typed into currency fields may carry "$" or thousands separators
+const toNumber = (value: ConditionValue): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/[$£€,\s]/g, '');
+  return cleaned !== '' && !isNaN(Number(cleaned)) ? Number(cleaned) : null;
+};
+
+const toList = (value: ConditionValue): string[] => {
+  if (Array.isArray(value)) return value;
+  return value === undefined || value === '' ? [] : [String(value)];
+};
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const isEmpty = (value: ConditionValue) => toList(value).every(item => !item.trim());
+
+const isEqual = (left: ConditionValue, right: ConditionValue): boolean => {
+  if (left === undefined || right === undefined) return left === right;
+  if (Array.isArray(left) || Array.isArray(right)) {
+    // A multi-select answer equals an option it includes
+    const leftItems = toList(left);
+    return toList(right).some(item => leftItems.some(other => sameText(item, other)));
+  }
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) return leftNumber === rightNumber;
+  return sameText(String(left), String(right));
+};
+
+const compare = (operator: ComparisonOperator, left: ConditionValue, right: ConditionValue): boolean => {
+  switch (operator) {
+    case '=':
+      return isEqual(left, right);
+    case '!=':
+      return !isEqual(left, right);
+    case 'contains':
+      if (Array.isArray(left)) return isEqual(left, right);
+      return left !== undefined && right !== undefined &&
+        String(left).toLowerCase().includes(String(right).toLowerCase());
+    default: {
+      // Ordering only makes sense for numbers; anything else doesn't match
+      const leftNumber = toNumber(left);
+      const rightNumber = toNumber(right);
+      if (leftNumber === null || rightNumber === null) return false;
+      if (operator === '<') return leftNumber < rightNumber;
+      if (operator === '<=') return leftNumber <= rightNumber;
+      if (operator === '>') return leftNumber > rightNumber;
+      return leftNumber >= rightNumber;
+    }
+  }
+};
+
+export const evaluateCondition = (condition: ConditionNode | string, context: ConditionContext): boolean => {
+  const node = typeof condition === 'string' ? parseCondition(condition) : condition;
+
+  switch (node.type) {
+    case 'and':
+      return evaluateCondition(node.left, context) && evaluateCondition(node.right, context);
+    case 'or':
+      return evaluateCondition(node.left, context) || evaluateCondition(node.right, context);
+    case 'not':
+      return !evaluateCondition(node.operand, context);
+    case 'compare':
+      return compare(node.operator, resolve(node.left, context), resolve(node.right, context));
+    case 'list': {
+      const values = toList(resolve(node.subject, context));
+      const has = (item: string) => values.some(value => sameText(value, item));
+      if (node.operator === 'anyOf') return node.items.some(has);
+      if (node.operator === 'allOf') return node.items.every(has);
+      return !node.items.some(has);
+    }
+    case 'empty':
+      return isEmpty(resolve(node.subject, context)) !== node.negated;
+    case 'truthy':
+      return !isEmpty(resolve(node.subject, context));
+  }
+};
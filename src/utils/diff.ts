@@ -0,0 +1,219 @@
+// Structural diff between two flow states
+// Works on any two AppState values - the live state, a snapshot or an imported
+// file - and reports component field changes, moved nodes and changed edges.
+
+import type { Edge } from '@xyflow/react';
+import { appStorage, type AppState } from './storage';
+import type { CardNode, ComponentData } from '../types/flow';
+
+export type ChangeStatus = 'added' | 'removed' | 'modified';
+
+export interface FieldChange {
+  path: string; // e.g. "content.question.options" or "content.form.fields[field-2].title"
+  before: unknown;
+  after: unknown;
+}
+
+export interface ComponentDiff {
+  componentId: string;
+  name: string;
+  slug: string;
+  status: ChangeStatus;
+  fieldChanges: FieldChange[];
+}
+
+export interface NodeDiff {
+  nodeId: string;
+  componentId: string;
+  status: 'added' | 'removed' | 'moved';
+  from?: { x: number; y: number };
+  to?: { x: number; y: number };
+}
+
+export interface EdgeDiff {
+  key: string; // source/target pair, stable across edge id changes
+  edgeId: string;
+  source: string;
+  target: string;
+  status: ChangeStatus;
+  fieldChanges: FieldChange[];
+}
+
+export interface FlowDiff {
+  components: ComponentDiff[];
+  nodes: NodeDiff[];
+  edges: EdgeDiff[];
+}
+
+// Timestamps change on every save and would drown out real edits
+const IGNORED_COMPONENT_FIELDS = ['createdAt', 'updatedAt'];
+
+// Nodes nudged by less than this aren't reported as moved
+const MOVE_THRESHOLD = 1;
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+export const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(key => isDeepEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+// Arrays of objects with ids (form fields) are diffed item by item
+const hasItemIds = (items: unknown[]): items is Array<Record<string, unknown> & { id: string }> =>
+  items.length > 0 && items.every(item => isPlainObject(item) && typeof item.id === 'string');
+
+// Field-level changes between two values, recursing into objects
+export const diffValues = (
+  before: unknown,
+  after: unknown,
+  path = '',
+  changes: FieldChange[] = []
+): FieldChange[] => {
+  if (isDeepEqual(before, after)) return changes;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(key => {
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    });
+  } else if (Array.isArray(before) && Array.isArray(after) && hasItemIds(before) && hasItemIds(after)) {
+    const beforeById = new Map(before.map(item => [item.id, item]));
+    const afterById = new Map(after.map(item => [item.id, item]));
+    const ids = [...new Set([...after.map(item => item.id), ...before.map(item => item.id)])];
+    ids.forEach(id => {
+      diffValues(beforeById.get(id), afterById.get(id), `${path}[${id}]`, changes);
+    });
+
+    // Same items in a different order
+    const beforeOrder = before.map(item => item.id).filter(id => afterById.has(id));
+    const afterOrder = after.map(item => item.id).filter(id => beforeById.has(id));
+    if (!isDeepEqual(beforeOrder, afterOrder)) {
+      changes.push({ path: `${path} (order)`, before: beforeOrder, after: afterOrder });
+    }
+  } else {
+    changes.push({ path, before, after });
+  }
+
+  return changes;
+};
+
+const withoutIgnoredFields = (component: ComponentData) => {
+  const copy: Record<string, unknown> = { ...component };
+  IGNORED_COMPONENT_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+};
+
+export const edgeKey = (edge: Edge) =>
+  `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}:${edge.targetHandle ?? ''}`;
+
+// Key edges by their endpoints. An edge running alongside an earlier one
+// between the same handles (a separate condition route) adds its id, so
+// parallel edges don't collapse into one
+export const keyEdges = (edges: Edge[]) => {
+  const keyed = new Map<string, Edge>();
+  edges.forEach(edge => {
+    const key = edgeKey(edge);
+    keyed.set(keyed.has(key) ? `${key}#${edge.id}` : key, edge);
+  });
+  return keyed;
+};
+
+// The parts of an edge that matter to the flow (not selection or styling)
+const edgeContent = (edge: Edge) => ({
+  label: edge.label,
+  type: edge.type,
+  data: edge.data,
+});
+
+export const diffStates = (base: AppState, target: AppState): FlowDiff => {
+  const baseComponents = base.components as Map<string, ComponentData>;
+  const targetComponents = target.components as Map<string, ComponentData>;
+
+  // Components
+  const components: ComponentDiff[] = [];
+  const componentIds = new Set([...baseComponents.keys(), ...targetComponents.keys()]);
+  componentIds.forEach(componentId => {
+    const before = baseComponents.get(componentId);
+    const after = targetComponents.get(componentId);
+    const current = after ?? before!;
+    const summary = { componentId, name: current.name, slug: current.slug };
+
+    if (!before) {
+      components.push({ ...summary, status: 'added', fieldChanges: [] });
+    } else if (!after) {
+      components.push({ ...summary, status: 'removed', fieldChanges: [] });
+    } else {
+      const fieldChanges = diffValues(withoutIgnoredFields(before), withoutIgnoredFields(after));
+      if (fieldChanges.length > 0) {
+        components.push({ ...summary, status: 'modified', fieldChanges });
+      }
+    }
+  });
+
+  // Nodes
+  const nodes: NodeDiff[] = [];
+  const baseNodes = new Map((base.nodes as CardNode[]).map(node => [node.id, node]));
+  const targetNodes = new Map((target.nodes as CardNode[]).map(node => [node.id, node]));
+  targetNodes.forEach((node, nodeId) => {
+    const before = baseNodes.get(nodeId);
+    if (!before) {
+      nodes.push({ nodeId, componentId: node.data.componentId, status: 'added', to: node.position });
+    } else if (
+      Math.abs(before.position.x - node.position.x) > MOVE_THRESHOLD ||
+      Math.abs(before.position.y - node.position.y) > MOVE_THRESHOLD
+    ) {
+      nodes.push({
+        nodeId,
+        componentId: node.data.componentId,
+        status: 'moved',
+        from: before.position,
+        to: node.position,
+      });
+    }
+  });
+  baseNodes.forEach((node, nodeId) => {
+    if (!targetNodes.has(nodeId)) {
+      nodes.push({ nodeId, componentId: node.data.componentId, status: 'removed', from: node.position });
+    }
+  });
+
+  // Edges, matched by their endpoints since ids are regenerated on reconnect
+  const edges: EdgeDiff[] = [];
+  const baseEdges = keyEdges(base.edges as Edge[]);
+  const targetEdges = keyEdges(target.edges as Edge[]);
+  targetEdges.forEach((edge, key) => {
+    const before = baseEdges.get(key);
+    const summary = { key, edgeId: edge.id, source: edge.source, target: edge.target };
+    if (!before) {
+      edges.push({ ...summary, status: 'added', fieldChanges: [] });
+    } else {
+      const fieldChanges = diffValues(edgeContent(before), edgeContent(edge));
+      if (fieldChanges.length > 0) {
+        edges.push({ ...summary, status: 'modified', fieldChanges });
+      }
+    }
+  });
+  baseEdges.forEach((edge, key) => {
+    if (!targetEdges.has(key)) {
+      edges.push({ key, edgeId: edge.id, source: edge.source, target: edge.target, status: 'removed', fieldChanges: [] });
+    }
+  });
+
+  return { components, nodes, edges };
+};
+
+export const isEmptyDiff = (diff: FlowDiff): boolean =>
+  diff.components.length === 0 && diff.nodes.length === 0 && diff.edges.length === 0;
+
+// Parse an exported or snapshot JSON blob into an AppState, running migrations
+export const parseFlowState = (json: string): AppState =>
+  appStorage.deserializeState(JSON.parse(json));
@@ -0,0 +1,122 @@
+// Typed event bus between the canvas and the conversation preview
+// Every event name is declared in AppEventMap along with its payload, so a
+// misspelled name or a wrong payload shape fails to compile.
+
+import { useEffect, useRef } from 'react';
+import type { TestSession } from './interpreter';
+import type { ComponentData, UIToolType } from '../types/flow';
+
+type MessageRef = { messageId: string };
+
+export interface AppEventMap {
+  // Canvas -> preview
+  addMessage: { messageId: string; componentId: string; uiToolType: UIToolType; showDropdown: boolean };
+  updateMessage: { messageId: string; uiToolType: UIToolType; showDropdown: boolean };
+  updateMessageContent: { messageId: string; content: string };
+  updateComponentData: { messageId: string; componentData: ComponentData };
+  deleteMessage: MessageRef;
+  playTestSession: { session: TestSession }; // show a finished run (e.g. a persona's) in test mode
+  selectPersona: { personaId: string }; // the Mock Dataset persona, whose answers fill in {{references}}
+  // pathLength messages at the front of the order are the previewed path;
+  // selectedPath is set when that's a chosen path rather than the primary one
+  syncMessageOrder: { order: string[]; orphanIds: string[]; pathLength?: number; selectedPath?: boolean };
+  nodeSelection: { selectedMessageIds: string[] };
+  scrollToMessage: MessageRef;
+  highlightMessage: MessageRef;
+  unhighlightMessage: MessageRef;
+  editWindowClose: void;
+  showExitTestWarning: void;
+
+  // Preview -> canvas
+  highlightNode: MessageRef;
+  unhighlightNode: MessageRef;
+  selectNode: MessageRef;
+  updateNode: { messageId: string; uiToolType: UIToolType; showDropdown: boolean };
+  updateNodeContent: { messageId: string; content: string };
+  deleteNode: MessageRef;
+  openEditWindow: MessageRef;
+  enterTestMode: MessageRef;
+  exitTestMode: void;
+
+  // Either way
+  previewPath: { nodeIds: string[] | null }; // null goes back to the primary path
+}
+
+export type AppEventName = keyof AppEventMap;
+
+export type AppEventHandler<K extends AppEventName> = (detail: AppEventMap[K]) => void;
+
+// Events without a payload are emitted with just their name
+type EmitArgs<K extends AppEventName> = AppEventMap[K] extends void ? [] : [detail: AppEventMap[K]];
+
+// Sees every event, e.g. to record a session
+export type AppEventTap = (name: AppEventName, detail: unknown) => void;
+
+class EventBus {
+  private handlers = new Map<AppEventName, Set<(detail: unknown) => void>>();
+  private taps = new Set<AppEventTap>();
+  // While a recorded session replays, events emitted by the app itself are
+  // dropped - the recording already contains them, in order
+  private holdingLiveEvents = false;
+
+  // Returns a function that removes the handler again
+  on<K extends AppEventName>(name: K, handler: AppEventHandler<K>): () => void {
+    const handlers = this.handlers.get(name) ?? new Set();
+    handlers.add(handler as (detail: unknown) => void);
+    this.handlers.set(name, handlers);
+    return () => this.off(name, handler);
+  }
+
+  off<K extends AppEventName>(name: K, handler: AppEventHandler<K>): void {
+    this.handlers.get(name)?.delete(handler as (detail: unknown) => void);
+  }
+
+  // Returns a function that removes the tap again
+  tap(tap: AppEventTap): () => void {
+    this.taps.add(tap);
+    return () => {
+      this.taps.delete(tap);
+    };
+  }
+
+  emit<K extends AppEventName>(name: K, ...args: EmitArgs<K>): void {
+    if (this.holdingLiveEvents) return;
+    this.deliver(name, args[0]);
+  }
+
+  // Deliver a recorded event, bypassing the hold on live events
+  replay(name: AppEventName, detail: unknown): void {
+    this.deliver(name, detail);
+  }
+
+  holdLiveEvents(hold: boolean): void {
+    this.holdingLiveEvents = hold;
+  }
+
+  private deliver(name: AppEventName, detail: unknown): void {
+    this.taps.forEach(tap => tap(name, detail));
+
+    // Copy so handlers can unsubscribe while the event is being delivered
+    [...(this.handlers.get(name) ?? [])].forEach(handler => {
+      try {
+        handler(detail);
+      } catch (error) {
+        console.error(`Error handling "${name}" event:`, error);
+      }
+    });
+  }
+}
+
+export const eventBus = new EventBus();
+
+// Subscribe for the lifetime of a component. The latest handler is always
+// called, so it can read current state without resubscribing on every render.
+export const useAppEvent = <K extends AppEventName>(name: K, handler: AppEventHandler<K>): void => {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => eventBus.on(name, detail => handlerRef.current(detail)), [name]);
+};
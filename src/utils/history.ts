@@ -0,0 +1,204 @@
+// Undo/redo history for the flow
+// Each undo step is a checkpoint of the whole state from before the edit.
+// State is never mutated in place, so a checkpoint only holds references, and
+// every kind of edit - canvas, edit window or preview - is covered without
+// the call sites having to register commands.
+
+import type { Edge } from '@xyflow/react';
+import { diffValues } from './diff';
+import type { CardNode, ComponentData, Message } from '../types/flow';
+
+export interface HistoryState {
+  nodes: CardNode[];
+  edges: Edge[];
+  components: Map<string, ComponentData>;
+  messages: Message[];
+  orphanMessageIds: string[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+}
+
+interface Checkpoint extends HistoryEntry {
+  state: HistoryState;
+  coalesceKey: string | null;
+}
+
+interface ChangeDescription {
+  label: string;
+  coalesceKey: string | null; // consecutive edits with the same key form one step
+}
+
+export const HISTORY_LIMIT = 100;
+
+// Edits with the same key less than this far apart merge (typing, dragging)
+const COALESCE_WINDOW = 1000;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const hasMoved = (before: CardNode, after: CardNode) =>
+  before.position.x !== after.position.x || before.position.y !== after.position.y;
+
+// Describe an edit for the history list. Returns null when nothing the user
+// edited changed: selection and measuring only touch runtime node fields, and
+// messages and orphans follow the canvas on their own.
+export const describeChange = (before: HistoryState, after: HistoryState): ChangeDescription | null => {
+  const componentName = (componentId: string) =>
+    after.components.get(componentId)?.name ?? before.components.get(componentId)?.name ?? 'component';
+  const nodeName = (node: CardNode) => componentName(node.data.componentId);
+
+  // Nodes added or removed
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map(node => [node.id, node]));
+  const addedNodes = after.nodes.filter(node => !beforeNodes.has(node.id));
+  const removedNodes = before.nodes.filter(node => !afterNodes.has(node.id));
+  if (addedNodes.length > 0) {
+    return { label: addedNodes.length === 1 ? `Add ${nodeName(addedNodes[0])}` : `Add ${plural(addedNodes.length, 'component')}`, coalesceKey: null };
+  }
+  if (removedNodes.length > 0) {
+    return { label: removedNodes.length === 1 ? `Delete ${nodeName(removedNodes[0])}` : `Delete ${plural(removedNodes.length, 'component')}`, coalesceKey: null };
+  }
+
+  // Component edits
+  if (before.components !== after.components) {
+    const componentIds = new Set([...before.components.keys(), ...after.components.keys()]);
+    const changedIds = [...componentIds].filter(id => before.components.get(id) !== after.components.get(id));
+    const fieldChanges = changedIds.length === 1
+      ? diffValues(before.components.get(changedIds[0]), after.components.get(changedIds[0]))
+          .filter(change => change.path !== 'updatedAt')
+      : [];
+
+    if (changedIds.length === 1 && fieldChanges.length > 0) {
+      const componentId = changedIds[0];
+      const paths = fieldChanges.map(change => change.path);
+      return { label: `Edit ${componentName(componentId)}`, coalesceKey: `edit:${componentId}:${paths.join(',')}` };
+    }
+    if (changedIds.length > 1) {
+      return { label: `Edit ${plural(changedIds.length, 'component')}`, coalesceKey: null };
+    }
+  }
+
+  // Connections
+  if (before.edges !== after.edges) {
+    const beforeEdges = new Map(before.edges.map(edge => [edge.id, edge]));
+    const afterEdges = new Map(after.edges.map(edge => [edge.id, edge]));
+    const addedEdges = after.edges.filter(edge => !beforeEdges.has(edge.id));
+    const removedEdges = before.edges.filter(edge => !afterEdges.has(edge.id));
+    const edgeName = (edge: Edge, nodes: Map<string, CardNode>) => {
+      const source = nodes.get(edge.source);
+      const target = nodes.get(edge.target);
+      return `${source ? nodeName(source) : edge.source} → ${target ? nodeName(target) : edge.target}`;
+    };
+
+    if (addedEdges.length === 1 && removedEdges.length === 0) {
+      return { label: `Connect ${edgeName(addedEdges[0], afterNodes)}`, coalesceKey: null };
+    }
+    if (removedEdges.length === 1 && addedEdges.length === 0) {
+      return { label: `Remove connection ${edgeName(removedEdges[0], beforeNodes)}`, coalesceKey: null };
+    }
+    const edgesChanged = addedEdges.length > 0 || removedEdges.length > 0 ||
+      after.edges.some(edge => diffValues(beforeEdges.get(edge.id)?.data, edge.data).length > 0 || beforeEdges.get(edge.id)?.label !== edge.label);
+    if (edgesChanged) {
+      return { label: 'Edit connections', coalesceKey: null };
+    }
+  }
+
+  // Moves and node data
+  if (before.nodes !== after.nodes) {
+    const movedNodes = after.nodes.filter(node => {
+      const previous = beforeNodes.get(node.id);
+      return previous && hasMoved(previous, node);
+    });
+    if (movedNodes.length > 0) {
+      const movedIds = movedNodes.map(node => node.id).sort();
+      return {
+        label: movedNodes.length === 1 ? `Move ${nodeName(movedNodes[0])}` : `Move ${plural(movedNodes.length, 'node')}`,
+        coalesceKey: `move:${movedIds.join(',')}`,
+      };
+    }
+
+    const editedNode = after.nodes.find(node => {
+      const previous = beforeNodes.get(node.id);
+      return previous && diffValues(previous.data, node.data).length > 0;
+    });
+    if (editedNode) {
+      return { label: `Edit ${nodeName(editedNode)}`, coalesceKey: `node:${editedNode.id}` };
+    }
+  }
+
+  return null;
+};
+
+class UndoHistory {
+  private past: Checkpoint[] = [];
+  private future: Checkpoint[] = [];
+  private nextId = 1;
+
+  // Record an edit going from `before` to `after`. Returns whether the
+  // history changed.
+  record(before: HistoryState, after: HistoryState, now = Date.now()): boolean {
+    const change = describeChange(before, after);
+    if (!change) return false;
+
+    this.future = [];
+    const last = this.past[this.past.length - 1];
+    if (last && change.coalesceKey && last.coalesceKey === change.coalesceKey && now - last.timestamp < COALESCE_WINDOW) {
+      last.timestamp = now;
+      return true;
+    }
+
+    this.past.push({ id: this.nextId++, label: change.label, timestamp: now, state: before, coalesceKey: change.coalesceKey });
+    if (this.past.length > HISTORY_LIMIT) {
+      this.past.shift();
+    }
+    return true;
+  }
+
+  // Returns the state to restore, or null when there's nothing to undo
+  undo(current: HistoryState): HistoryState | null {
+    const checkpoint = this.past.pop();
+    if (!checkpoint) return null;
+
+    this.future.push({ ...checkpoint, state: current, coalesceKey: null });
+    return checkpoint.state;
+  }
+
+  redo(current: HistoryState): HistoryState | null {
+    const checkpoint = this.future.pop();
+    if (!checkpoint) return null;
+
+    this.past.push({ ...checkpoint, state: current, coalesceKey: null });
+    return checkpoint.state;
+  }
+
+  // Undo or redo until the given entry has been undone (past entry) or
+  // redone (future entry)
+  travelTo(entryId: number, current: HistoryState): HistoryState | null {
+    let state: HistoryState | null = null;
+    while (this.past.some(entry => entry.id === entryId)) {
+      state = this.undo(state ?? current);
+    }
+    while (this.future.some(entry => entry.id === entryId)) {
+      state = this.redo(state ?? current);
+    }
+    return state;
+  }
+
+  getEntries(): { past: HistoryEntry[]; future: HistoryEntry[] } {
+    const toEntry = ({ id, label, timestamp }: Checkpoint): HistoryEntry => ({ id, label, timestamp });
+    return {
+      past: this.past.map(toEntry),
+      future: [...this.future].reverse().map(toEntry),
+    };
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+}
+
+export const undoHistory = new UndoHistory();
@@ -0,0 +1,92 @@
+// Images authors can pick for components - all actual files from public/img
+
+export type ImageOption = {
+  value: string;
+  label: string;
+};
+
+export const availableImages: ImageOption[] = [
+  { value: '', label: 'No image' },
+  { value: '/img/assessment-start.png', label: 'Assessment Start' },
+  { value: '/img/avatar.png', label: 'Avatar' },
+  { value: '/img/brain.png', label: 'Brain Illustration' },
+  { value: '/img/brain2.png', label: 'Brain Illustration 2' },
+  { value: '/img/brain3.png', label: 'Brain Illustration 3' },
+  { value: '/img/brain4.png', label: 'Brain Illustration 4' },
+  { value: '/img/axial-mark.svg', label: 'Axial Mark' },
+  { value: '/img/career-findings-header.png', label: 'Career Findings Header' },
+  { value: '/img/chat.png', label: 'Chat' },
+  { value: '/img/clarity-header.png', label: 'Clarity Header' },
+  { value: '/img/clarity-header.svg', label: 'Clarity Header SVG' },
+  { value: '/img/clouds.svg', label: 'Clouds' },
+  { value: '/img/home-clarity.png', label: 'Home Clarity' },
+  { value: '/img/home-other.png', label: 'Home Other' },
+  { value: '/img/home/clarity-thumb.png', label: 'Home - Clarity Thumb' },
+  { value: '/img/home/connections-thumb.png', label: 'Home - Connections Thumb' },
+  { value: '/img/home/credentials-thumb.png', label: 'Home - Credentials Thumb' },
+  { value: '/img/home/visibility-thumb.png', label: 'Home - Visibility Thumb' },
+  { value: '/img/intro/intro-connections.png', label: 'Intro - Connections' },
+  { value: '/img/intro/intro-profile.png', label: 'Intro - Profile' },
+  { value: '/img/login-thumb.png', label: 'Login Thumb' },
+  { value: '/img/onboarding/career-growth.png', label: 'Onboarding - Career Growth' },
+  { value: '/img/onboarding/finding-the-right-career.png', label: 'Onboarding - Finding Right Career' },
+  { value: '/img/onboarding/getting-a-job.png', label: 'Onboarding - Getting a Job' },
+  { value: '/img/onboarding/leadership-development.png', label: 'Onboarding - Leadership Development' },
+  { value: '/img/onboarding/networking-opportunities.png', label: 'Onboarding - Networking' },
+  { value: '/img/onboarding/personal-growth.png', label: 'Onboarding - Personal Growth' },
+  { value: '/img/profile-mock.png', label: 'Profile Mock' },
+  { value: '/img/steps/assessment/celebration.png', label: 'Steps - Assessment Celebration' },
+  { value: '/img/steps/careerPaths/celebration.png', label: 'Steps - Career Paths Celebration' },
+  { value: '/img/steps/careerStatement/celebration.png', label: 'Steps - Career Statement Celebration' },
+  { value: '/img/steps/careerStatement/question/1.png', label: 'Steps - Career Statement Q1' },
+  { value: '/img/steps/dreamJob/celebration.png', label: 'Steps - Dream Job Celebration' },
+  { value: '/img/steps/dreamJob/celebration-alt.png', label: 'Steps - Dream Job Celebration Alt' },
+  { value: '/img/steps/financialNeeds/celebration.png', label: 'Steps - Financial Needs Celebration' },
+  { value: '/img/steps/financialNeeds/question/1.png', label: 'Steps - Financial Needs Q1' },
+  { value: '/img/steps/financialNeeds/question/2.png', label: 'Steps - Financial Needs Q2' },
+  { value: '/img/steps/financialNeeds/question/3.png', label: 'Steps - Financial Needs Q3' },
+  { value: '/img/steps/financialNeeds/question/4.png', label: 'Steps - Financial Needs Q4' },
+  { value: '/img/steps/financialNeeds/question/5.png', label: 'Steps - Financial Needs Q5' },
+  { value: '/img/steps/financialNeeds/question/6.png', label: 'Steps - Financial Needs Q6' },
+  { value: '/img/steps/financialNeeds/question/7.png', label: 'Steps - Financial Needs Q7' },
+  { value: '/img/steps/financialNeeds/question/8.png', label: 'Steps - Financial Needs Q8' },
+  { value: '/img/steps/inspirations/celebration.png', label: 'Steps - Inspirations Celebration' },
+  { value: '/img/steps/inspirations/question/1.png', label: 'Steps - Inspirations Q1' },
+  { value: '/img/steps/inspirations/question/2.png', label: 'Steps - Inspirations Q2' },
+  { value: '/img/steps/inspirations/question/3.png', label: 'Steps - Inspirations Q3' },
+  { value: '/img/steps/inspirations/question/4.png', label: 'Steps - Inspirations Q4' },
+  { value: '/img/steps/inspirations/question/5.png', label: 'Steps - Inspirations Q5' },
+  { value: '/img/steps/inspirations/question/6.png', label: 'Steps - Inspirations Q6' },
+  { value: '/img/steps/livingEnvironment/celebration.png', label: 'Steps - Living Environment Celebration' },
+  { value: '/img/steps/livingEnvironment/question/1.png', label: 'Steps - Living Environment Q1' },
+  { value: '/img/steps/livingEnvironment/question/2.png', label: 'Steps - Living Environment Q2' },
+  { value: '/img/steps/livingEnvironment/question/3.png', label: 'Steps - Living Environment Q3' },
+  { value: '/img/steps/livingEnvironment/question/4.png', label: 'Steps - Living Environment Q4' },
+  { value: '/img/steps/livingEnvironment/question/5.png', label: 'Steps - Living Environment Q5' },
+  { value: '/img/steps/livingEnvironment/question/6.png', label: 'Steps - Living Environment Q6' },
+  { value: '/img/steps/strengths/celebration.png', label: 'Steps - Strengths Celebration' },
+  { value: '/img/steps/strengths/question/1.png', label: 'Steps - Strengths Q1' },
+  { value: '/img/steps/strengths/question/2.png', label: 'Steps - Strengths Q2' },
+  { value: '/img/steps/strengths/question/3.png', label: 'Steps - Strengths Q3' },
+  { value: '/img/steps/strengths/question/4.png', label: 'Steps - Strengths Q4' },
+  { value: '/img/steps/strengths/question/5.png', label: 'Steps - Strengths Q5' },
+  { value: '/img/steps/strengths/question/6.png', label: 'Steps - Strengths Q6' },
+  { value: '/img/steps/values/celebration.png', label: 'Steps - Values Celebration' },
+  { value: '/img/steps/values/question/1.png', label: 'Steps - Values Q1' },
+  { value: '/img/steps/values/question/2.png', label: 'Steps - Values Q2' },
+  { value: '/img/steps/values/question/3.png', label: 'Steps - Values Q3' },
+  { value: '/img/steps/values/question/4.png', label: 'Steps - Values Q4' },
+  { value: '/img/steps/values/question/5.png', label: 'Steps - Values Q5' },
+  { value: '/img/steps/values/question/6.png', label: 'Steps - Values Q6' },
+  { value: '/img/steps/workEnvironment/celebration.png', label: 'Steps - Work Environment Celebration' },
+  { value: '/img/steps/workEnvironment/question/1.png', label: 'Steps - Work Environment Q1' },
+  { value: '/img/steps/workEnvironment/question/2.png', label: 'Steps - Work Environment Q2' },
+  { value: '/img/steps/workEnvironment/question/3.png', label: 'Steps - Work Environment Q3' },
+  { value: '/img/steps/workEnvironment/question/4.png', label: 'Steps - Work Environment Q4' },
+  { value: '/img/steps/workEnvironment/question/5.png', label: 'Steps - Work Environment Q5' },
+  { value: '/img/steps/workEnvironment/question/6.png', label: 'Steps - Work Environment Q6' },
+];
+
+// External and inline images can't be checked against the library
+export const isImageAvailable = (path: string): boolean =>
+  /^(https?:|data:|blob:)/.test(path) || availableImages.some(image => image.value === path);
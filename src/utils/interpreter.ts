@@ -0,0 +1,307 @@
+// Conversation interpreter for test mode
+// Walks the flow one component at a time: each answer is matched against the
+// routes on the component's outgoing edges, falling back to a plain
+// connection, to pick the next component.
+
+import type { Edge } from '@xyflow/react';
+import { evaluateCondition, parseCondition, variableName } from './conditions';
+import type { ConditionContext, ConditionValue } from './conditions';
+import { getEdgeRoute, routeOptions } from './routing';
+import { toolTypeRegistry } from '../toolTypes';
+import type { CardNode, ComponentData, EdgeRoute } from '../types/flow';
+
+export interface FlowGraph {
+  nodes: CardNode[];
+  edges: Edge[];
+  components: Map<string, ComponentData>;
+}
+
+export type TestAnswer =
+  | { kind: 'text'; text: string }                                // typed reply or a suggestion
+  | { kind: 'choice'; optionIndexes: number[] }                   // multi-select picks
+  | { kind: 'form'; values: Record<string, string | string[]> }   // form field id -> value
+  | { kind: 'number'; value: number }                             // point picked on a scale
+  | { kind: 'order'; items: string[] }                            // ranked items, first is top
+  | { kind: 'sort'; buckets: Record<string, string[]> }           // bucket title -> cards put in it
+  | { kind: 'continue' };                                         // moved on without answering
+
+export type RouteReason =
+  | 'condition'        // a condition edge's expression held
+  | 'branch'           // an option edge matched the answer
+  | 'default'          // nothing matched, took the "otherwise" edge
+  | 'edge'             // followed a plain connection
+  | 'end'              // no outgoing connection, or no route matched
+  | 'brokenCondition'; // a condition doesn't parse
+
+export interface RouteResult {
+  componentId: string | null;
+  reason: RouteReason;
+  detail: string; // human readable, shown in test mode
+}
+
+export interface TestStep {
+  componentId: string;
+  answer?: TestAnswer;
+  route?: RouteResult;
+}
+
+export interface TestSession {
+  steps: TestStep[];
+  finished: boolean;
+}
+
+const findNode = (graph: FlowGraph, componentId: string) =>
+  graph.nodes.find(node => node.data.componentId === componentId);
+
+type ChosenOption = { index: number; text: string };
+
+// Options the answer picked. Option routes are keyed by option index (-1 for
+// typed replies, which can only match by text).
+const chosenOptions = (component: ComponentData, answer: TestAnswer): ChosenOption[] => {
+  const options = routeOptions(component);
+
+  if (answer.kind === 'choice') {
+    return [...answer.optionIndexes]
+      .sort((a, b) => a - b)
+      .map(index => ({ index, text: options[index]?.text ?? '' }));
+  }
+
+  if (answer.kind === 'form') {
+    const routingField = [...(component.content.form?.fields ?? [])].reverse().find(field => field.type === 'dropdown');
+    const value = routingField ? answer.values[routingField.id] : undefined;
+    if (typeof value !== 'string' || !value) return [];
+    return [{ index: options.find(option => option.text === value)?.index ?? -1, text: value }];
+  }
+
+  if (answer.kind === 'text') {
+    return [{ index: -1, text: answer.text }];
+  }
+
+  // A ranking goes the way of the item put first
+  if (answer.kind === 'order') {
+    const [top] = answer.items;
+    return top ? [{ index: options.find(option => option.text === top)?.index ?? -1, text: top }] : [];
+  }
+
+  return [];
+};
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Values an answer gives to conditions: the answer itself and, for forms,
+// each field by name. A card sort gives each bucket's cards and how many
+// there are (must_have, must_have_count).
+const answerValues = (component: ComponentData, answer: TestAnswer): { value: ConditionValue; fields: ConditionContext } => {
+  const fields: ConditionContext = {};
+  (component.content.form?.fields ?? []).forEach(field => {
+    if (answer.kind === 'form') {
+      fields[variableName(field.title)] = answer.values[field.id];
+    }
+  });
+  if (answer.kind === 'sort') {
+    Object.entries(answer.buckets).forEach(([title, cards]) => {
+      fields[variableName(title)] = cards;
+      fields[`${variableName(title)}_count`] = cards.length;
+    });
+  }
+
+  switch (answer.kind) {
+    case 'text':
+      return { value: answer.text, fields };
+    case 'choice':
+      return { value: chosenOptions(component, answer).map(option => option.text), fields };
+    case 'number':
+      return { value: answer.value, fields };
+    case 'order':
+      return { value: answer.items, fields };
+    default:
+      return { value: undefined, fields };
+  }
+};
+
+// Condition variables after the given steps. Every answer is available as
+// <component name> (and <component name>.<field> for forms); the last one
+// is also `answer` and its fields go by their bare names. Answers stored under
+// a variable name go by that name too; a card sort's buckets by
+// <variable>.<bucket>.
+export const buildConditionContext = (components: Map<string, ComponentData>, steps: TestStep[]): ConditionContext => {
+  const context: ConditionContext = {};
+  const answered = steps.filter(step => step.answer);
+
+  answered.forEach((step, index) => {
+    const component = components.get(step.componentId);
+    if (!component || !step.answer) return;
+
+    const prefix = variableName(component.name);
+    const { value, fields } = answerValues(component, step.answer);
+    context[prefix] = value;
+    Object.entries(fields).forEach(([name, fieldValue]) => {
+      context[`${prefix}.${name}`] = fieldValue;
+    });
+
+    const { answer } = step;
+    if (component.variable && value !== undefined) context[component.variable] = value;
+    if (component.variable && answer.kind === 'sort') {
+      Object.entries(fields).forEach(([name, fieldValue]) => {
+        context[`${component.variable}.${name}`] = fieldValue;
+      });
+    }
+    (component.content.form?.fields ?? []).forEach(field => {
+      if (field.variable && answer.kind === 'form') context[field.variable] = answer.values[field.id];
+    });
+
+    if (index === answered.length - 1) {
+      context.answer = value;
+      Object.assign(context, fields);
+    }
+  });
+  return context;
+};
+
+// Names a condition on the given component's edges can use, for hints in the
+// editor and the validator. The component's own answer is in the context by
+// the time its edges are checked, so its name counts like any other.
+export const availableVariables = (components: Map<string, ComponentData>, componentId: string): string[] => {
+  const own = components.get(componentId);
+  const ownFields = own ? toolTypeRegistry.answerFields(own) : [];
+  const named = [...components.values()].flatMap(component => [
+    variableName(component.name),
+    ...toolTypeRegistry.answerFields(component).map(field => `${variableName(component.name)}.${field}`),
+  ]);
+  const stored = [...components.values()].flatMap(component => [
+    ...toolTypeRegistry.storedVariables(component),
+    ...(component.content.form?.fields ?? []).map(field => field.variable),
+  ]);
+  return [...new Set(['answer', ...ownFields, ...named, ...stored])].filter((name): name is string => !!name);
+};
+
+type OutgoingRoute = { route: EdgeRoute | undefined; target: ComponentData };
+
+// Checked in order: conditions, the picked options, "otherwise", then a
+// plain connection
+export const resolveNext = (
+  graph: FlowGraph,
+  componentId: string,
+  answer: TestAnswer,
+  context: ConditionContext = {}
+): RouteResult => {
+  const component = graph.components.get(componentId);
+  const node = findNode(graph, componentId);
+  const outgoing = (node ? graph.edges.filter(edge => edge.source === node.id) : []).flatMap((edge): OutgoingRoute[] => {
+    const targetNode = graph.nodes.find(item => item.id === edge.target);
+    const target = targetNode && graph.components.get(targetNode.data.componentId);
+    return target ? [{ route: getEdgeRoute(edge), target }] : [];
+  });
+
+  const conditions = outgoing
+    .filter(item => item.route?.condition?.trim())
+    .sort((a, b) => (a.route?.order ?? 0) - (b.route?.order ?? 0));
+  for (const { route, target } of conditions) {
+    const condition = route?.condition ?? '';
+    let holds: boolean;
+    try {
+      holds = evaluateCondition(parseCondition(condition), context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { componentId: null, reason: 'brokenCondition', detail: `"${condition}": ${message}` };
+    }
+    if (holds) {
+      return { componentId: target.id, reason: 'condition', detail: `If ${condition} → ${target.name}` };
+    }
+  }
+
+  if (component) {
+    for (const option of chosenOptions(component, answer)) {
+      const match = outgoing.find(item => item.route?.options?.some(routed => routed.index === option.index))
+        ?? outgoing.find(item => item.route?.options?.some(routed => sameText(routed.text, option.text)));
+      if (match) {
+        return { componentId: match.target.id, reason: 'branch', detail: `"${option.text}" → ${match.target.name}` };
+      }
+    }
+  }
+
+  const fallback = outgoing.find(item => item.route?.isDefault);
+  if (fallback) {
+    return { componentId: fallback.target.id, reason: 'default', detail: `Otherwise → ${fallback.target.name}` };
+  }
+
+  const plain = outgoing.filter(item => !item.route);
+  if (plain.length > 0) {
+    const note = plain.length > 1 ? ` (first of ${plain.length} connections)` : '';
+    return { componentId: plain[0].target.id, reason: 'edge', detail: `Connection → ${plain[0].target.name}${note}` };
+  }
+
+  return outgoing.length > 0
+    ? { componentId: null, reason: 'end', detail: 'No route matches this answer' }
+    : { componentId: null, reason: 'end', detail: 'No outgoing connection' };
+};
+
+export const startSession = (componentId: string): TestSession => ({
+  steps: [{ componentId }],
+  finished: false,
+});
+
+// Record the answer to the current step and move to the next component
+export const answerStep = (graph: FlowGraph, session: TestSession, answer: TestAnswer): TestSession => {
+  if (session.finished || session.steps.length === 0) return session;
+
+  const current = session.steps[session.steps.length - 1];
+  const answeredSteps = [...session.steps.slice(0, -1), { ...current, answer }];
+  const route = resolveNext(graph, current.componentId, answer, buildConditionContext(graph.components, answeredSteps));
+  const steps = [...session.steps.slice(0, -1), { ...current, answer, route }];
+
+  return route.componentId
+    ? { steps: [...steps, { componentId: route.componentId }], finished: false }
+    : { steps, finished: true };
+};
+
+// Go back to an earlier step to answer it again; every step after it is dropped
+export const rewindTo = (session: TestSession, stepIndex: number): TestSession => {
+  const step = session.steps[stepIndex];
+  if (!step) return session;
+  return { steps: [...session.steps.slice(0, stepIndex), { componentId: step.componentId }], finished: false };
+};
+
+// Back to the last component that was answered
+export const stepBack = (session: TestSession): TestSession => {
+  let index = session.steps.length - 1;
+  while (index >= 0 && !session.steps[index].answer) index--;
+  return index === -1 ? session : rewindTo(session, index);
+};
+
+export const currentStep = (session: TestSession): TestStep | undefined =>
+  session.finished ? undefined : session.steps[session.steps.length - 1];
+
+// Text of the user's reply bubble
+export const describeAnswer = (component: ComponentData | undefined, answer: TestAnswer): string => {
+  switch (answer.kind) {
+    case 'text':
+      return answer.text;
+    case 'choice': {
+      const options = component?.content.multiSelect?.options ?? [];
+      return answer.optionIndexes.map(index => options[index]?.text ?? '').filter(Boolean).join(', ');
+    }
+    case 'form': {
+      const fields = component?.content.form?.fields ?? [];
+      return fields
+        .map(field => {
+          const value = answer.values[field.id];
+          const text = Array.isArray(value) ? value.join(', ') : value;
+          return text ? `${field.title}: ${text}` : '';
+        })
+        .filter(Boolean)
+        .join('\n');
+    }
+    case 'number':
+      return String(answer.value);
+    case 'order':
+      return answer.items.map((item, index) => `${index + 1}. ${item}`).join(', ');
+    case 'sort':
+      return Object.entries(answer.buckets)
+        .filter(([, cards]) => cards.length > 0)
+        .map(([title, cards]) => `${title}: ${cards.join(', ')}`)
+        .join('\n');
+    case 'continue':
+      return component?.content.moveOnButton?.text || 'Continue';
+  }
+};
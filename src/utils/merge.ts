@@ -0,0 +1,323 @@
+// Three-way merge of flow states
+// Given the common base and two edited versions, changes made on only one side
+// are applied automatically. Fields edited differently on both sides become
+// conflicts; the merged state uses "ours" for them until they're resolved.
+
+import type { Edge } from '@xyflow/react';
+import type { AppState } from './storage';
+import { isDeepEqual, isPlainObject, keyEdges } from './diff';
+import { messageFieldsFromComponent } from './messages';
+import type { CardNode, ComponentData, Message } from '../types/flow';
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  id: string; // unique per conflict, used to record its resolution
+  kind: 'component' | 'node' | 'edge';
+  entityId: string;
+  label: string; // component name / node / edge description for the UI
+  path: string; // field path, '' when the whole entity conflicts (edited vs deleted)
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface MergeResult {
+  merged: AppState;
+  conflicts: MergeConflict[];
+}
+
+export type MergeResolutions = Record<string, MergeSide>;
+
+// Marks an entity that doesn't exist on one side
+const MISSING = undefined;
+
+// Fields that change on every save - take whichever side is newer instead of
+// reporting a conflict
+const TIMESTAMP_FIELDS = ['createdAt', 'updatedAt'];
+
+// Values merged as a whole rather than field by field
+const ATOMIC_PATHS = ['position'];
+
+type ConflictSink = (path: string, base: unknown, ours: unknown, theirs: unknown) => void;
+
+const latestTimestamp = (a: unknown, b: unknown) =>
+  new Date(a as string).getTime() >= new Date(b as string).getTime() ? a : b;
+
+// Merge one value. Objects are merged key by key so edits to different
+// fields of the same component don't conflict.
+const mergeValue = (
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: string,
+  onConflict: ConflictSink
+): unknown => {
+  if (isDeepEqual(ours, theirs)) return ours;
+  if (isDeepEqual(base, ours)) return theirs;
+  if (isDeepEqual(base, theirs)) return ours;
+
+  const canRecurse =
+    isPlainObject(ours) && isPlainObject(theirs) &&
+    (base === MISSING || isPlainObject(base)) &&
+    !ATOMIC_PATHS.includes(path);
+
+  if (canRecurse) {
+    const baseObject = (base ?? {}) as Record<string, unknown>;
+    const merged: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(baseObject), ...Object.keys(ours), ...Object.keys(theirs)]);
+
+    keys.forEach(key => {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const value = !path && TIMESTAMP_FIELDS.includes(key)
+        ? latestTimestamp(ours[key], theirs[key])
+        : mergeValue(baseObject[key], ours[key], theirs[key], fieldPath, onConflict);
+      if (value !== MISSING) {
+        merged[key] = value;
+      }
+    });
+    return merged;
+  }
+
+  onConflict(path, base, ours, theirs);
+  return ours;
+};
+
+// Merge two keyed collections (components, nodes, edges, messages)
+const mergeCollection = <T>(
+  base: Map<string, T>,
+  ours: Map<string, T>,
+  theirs: Map<string, T>,
+  onConflict: (key: string, path: string, base: unknown, ours: unknown, theirs: unknown) => void
+): Map<string, T> => {
+  const merged = new Map<string, T>();
+  // Keep our ordering, then append entities only they added
+  const keys = new Set([...ours.keys(), ...theirs.keys(), ...base.keys()]);
+
+  keys.forEach(key => {
+    const value = mergeValue(
+      base.get(key),
+      ours.get(key),
+      theirs.get(key),
+      '',
+      (path, baseValue, ourValue, theirValue) => onConflict(key, path, baseValue, ourValue, theirValue)
+    );
+    if (value !== MISSING) {
+      merged.set(key, value as T);
+    }
+  });
+
+  return merged;
+};
+
+const byId = <T extends { id: string }>(items: T[]) => new Map(items.map(item => [item.id, item]));
+
+const byMessageId = (messages: Message[]) =>
+  new Map(messages.map(message => [message.messageId ?? message.id, message]));
+
+export const mergeStates = (base: AppState, ours: AppState, theirs: AppState): MergeResult => {
+  const conflicts: MergeConflict[] = [];
+
+  const oursComponents = ours.components as Map<string, ComponentData>;
+  const theirsComponents = theirs.components as Map<string, ComponentData>;
+  const componentName = (componentId: string) =>
+    oursComponents.get(componentId)?.name ?? theirsComponents.get(componentId)?.name ?? componentId;
+
+  const components = mergeCollection(
+    base.components as Map<string, ComponentData>,
+    oursComponents,
+    theirsComponents,
+    (componentId, path, baseValue, ourValue, theirValue) => {
+      conflicts.push({
+        id: `component:${componentId}:${path}`,
+        kind: 'component',
+        entityId: componentId,
+        label: componentName(componentId),
+        path,
+        base: baseValue,
+        ours: ourValue,
+        theirs: theirValue,
+      });
+    }
+  );
+
+  const nodeLabel = (nodeId: string) => {
+    const node = [...(ours.nodes as CardNode[]), ...(theirs.nodes as CardNode[])].find(item => item.id === nodeId);
+    return node ? componentName(node.data.componentId) : nodeId;
+  };
+
+  const nodes = mergeCollection(
+    byId(base.nodes as CardNode[]),
+    byId(ours.nodes as CardNode[]),
+    byId(theirs.nodes as CardNode[]),
+    (nodeId, path, baseValue, ourValue, theirValue) => {
+      conflicts.push({
+        id: `node:${nodeId}:${path}`,
+        kind: 'node',
+        entityId: nodeId,
+        label: nodeLabel(nodeId),
+        path,
+        base: baseValue,
+        ours: ourValue,
+        theirs: theirValue,
+      });
+    }
+  );
+
+  const edges = mergeCollection(
+    keyEdges(base.edges as Edge[]),
+    keyEdges(ours.edges as Edge[]),
+    keyEdges(theirs.edges as Edge[]),
+    (key, path, baseValue, ourValue, theirValue) => {
+      const edge = (ourValue ?? theirValue ?? baseValue) as Partial<Edge> | undefined;
+      conflicts.push({
+        id: `edge:${key}:${path}`,
+        kind: 'edge',
+        entityId: key,
+        label: edge?.source && edge?.target ? `${nodeLabel(edge.source)} → ${nodeLabel(edge.target)}` : key,
+        path,
+        base: baseValue,
+        ours: ourValue,
+        theirs: theirValue,
+      });
+    }
+  );
+
+  // Messages mirror their components, so they're rebuilt from the merged
+  // components rather than reported as conflicts of their own
+  const messages = mergeCollection(
+    byMessageId(base.messages as Message[]),
+    byMessageId(ours.messages as Message[]),
+    byMessageId(theirs.messages as Message[]),
+    () => {}
+  );
+
+  const merged = buildMergedState(ours, theirs, components, nodes, edges, messages);
+  return { merged, conflicts };
+};
+
+// Assemble the merged state, keeping each component's node, connections and
+// preview message even when only one side still had them (e.g. we edited a
+// component they deleted and kept our version)
+const buildMergedState = (
+  ours: AppState,
+  theirs: AppState,
+  components: Map<string, ComponentData>,
+  nodes: Map<string, CardNode>,
+  edges: Map<string, Edge>,
+  messages: Map<string, Message>
+): AppState => {
+  const sides = [ours, theirs];
+
+  const mergedNodes = [...nodes.values()].filter(node => components.has(node.data.componentId));
+  const restoredNodeIds = new Set<string>();
+  components.forEach((_component, componentId) => {
+    if (mergedNodes.some(node => node.data.componentId === componentId)) return;
+    const node = sides
+      .flatMap(side => side.nodes as CardNode[])
+      .find(item => item.data.componentId === componentId);
+    if (node) {
+      mergedNodes.push(node);
+      restoredNodeIds.add(node.id);
+    }
+  });
+  const nodeIds = new Set(mergedNodes.map(node => node.id));
+
+  const mergedEdges = new Map(edges);
+  sides.forEach(side => keyEdges(side.edges as Edge[]).forEach((edge, key) => {
+    const touchesRestoredNode = restoredNodeIds.has(edge.source) || restoredNodeIds.has(edge.target);
+    if (touchesRestoredNode && !mergedEdges.has(key)) {
+      mergedEdges.set(key, edge);
+    }
+  }));
+
+  const mergedMessages = [...messages.values()].filter(
+    message => message.componentId && components.has(message.componentId)
+  );
+  components.forEach((_component, componentId) => {
+    if (mergedMessages.some(message => message.componentId === componentId)) return;
+    const message = sides
+      .flatMap(side => side.messages as Message[])
+      .find(item => item.componentId === componentId);
+    if (message) {
+      mergedMessages.push(message);
+    }
+  });
+  const messageIds = new Set(mergedMessages.map(message => message.messageId));
+
+  return {
+    ...ours,
+    components,
+    nodes: mergedNodes,
+    // Drop connections whose endpoints were deleted
+    edges: [...mergedEdges.values()].filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target)),
+    messages: mergedMessages.map(message => ({
+      ...message,
+      ...messageFieldsFromComponent(components.get(message.componentId!)!),
+    })),
+    orphanMessageIds: ours.orphanMessageIds.filter(messageId => messageIds.has(messageId)),
+    lastSaved: new Date(),
+  };
+};
+
+// Write a value at a dotted path, removing the key when the value is missing
+const setAtPath = (target: Record<string, unknown>, path: string, value: unknown) => {
+  const keys = path.split('.');
+  let current = target;
+  keys.slice(0, -1).forEach(key => {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  });
+
+  const lastKey = keys[keys.length - 1];
+  if (value === MISSING) {
+    delete current[lastKey];
+  } else {
+    current[lastKey] = value;
+  }
+};
+
+// Apply the chosen side for each conflict. Unresolved conflicts keep "ours".
+export const applyResolutions = (
+  base: AppState,
+  ours: AppState,
+  theirs: AppState,
+  resolutions: MergeResolutions
+): AppState => {
+  const { merged, conflicts } = mergeStates(base, ours, theirs);
+
+  const components = new Map(
+    [...(merged.components as Map<string, ComponentData>)].map(([id, component]) => [id, structuredClone(component)])
+  );
+  const nodes = byId((merged.nodes as CardNode[]).map(node => structuredClone(node)));
+  const edges = keyEdges((merged.edges as Edge[]).map(edge => structuredClone(edge)));
+  const collections: Record<MergeConflict['kind'], Map<string, unknown>> = {
+    component: components as Map<string, unknown>,
+    node: nodes as Map<string, unknown>,
+    edge: edges as Map<string, unknown>,
+  };
+
+  conflicts.forEach(conflict => {
+    if (resolutions[conflict.id] !== 'theirs') return;
+
+    const collection = collections[conflict.kind];
+    if (!conflict.path) {
+      // Whole entity: edited on one side, deleted on the other
+      if (conflict.theirs === MISSING) {
+        collection.delete(conflict.entityId);
+      } else {
+        collection.set(conflict.entityId, structuredClone(conflict.theirs));
+      }
+      return;
+    }
+
+    const entity = collection.get(conflict.entityId) as Record<string, unknown> | undefined;
+    if (entity) {
+      setAtPath(entity, conflict.path, structuredClone(conflict.theirs));
+    }
+  });
+
+  return buildMergedState(ours, theirs, components, nodes, edges, byMessageId(merged.messages as Message[]));
+};
@@ -0,0 +1,86 @@
+// Conversation preview messages derived from component data
+
+import { toolTypeRegistry } from '../toolTypes';
+import type { ComponentData, FormField, Message } from '../types/flow';
+
+type SavedMessage = Partial<Message> & {
+  formFields?: Array<Partial<FormField>>;
+};
+
+// Preview fields a message takes from the component it renders
+export const messageFieldsFromComponent = (componentData: ComponentData): Partial<Message> => {
+  const { content, uiToolType } = componentData;
+  const celebrationModal = content.celebrationModal;
+
+  return {
+    // 'banner' is a legacy tool type that older states may still carry
+    content: (uiToolType as string) === 'banner'
+      ? content.banner?.text || 'New banner'
+      : toolTypeRegistry.previewText(componentData) ?? content.message?.text ?? 'New component added',
+    uiToolType,
+    bannerText: content.banner?.text || undefined,
+    textContent: content.text?.text || undefined,
+    suggestions: uiToolType === 'question' ? content.question?.suggestions || [] : undefined,
+    image: uiToolType === 'question' ? content.question?.image || undefined : undefined,
+    multiSelectOptions: uiToolType === 'multiSelect' ? content.multiSelect?.options || [] : undefined,
+    maxSelection: uiToolType === 'multiSelect' ? content.multiSelect?.maxSelection || 1 : undefined,
+    formFields: uiToolType === 'form'
+      ? (content.form?.fields || []).map(field => ({
+          id: field.id,
+          type: field.type,
+          title: field.title,
+          options: field.options,
+          required: field.required,
+        }))
+      : undefined,
+    formTitle: uiToolType === 'form' ? content.form?.title || undefined : undefined,
+    formSendButtonText: uiToolType === 'form' ? content.form?.sendButtonText || 'Continue' : undefined,
+    moveOnButtonText: content.moveOnButton ? content.moveOnButton.text : undefined,
+    celebrationModal: celebrationModal ? {
+      title: celebrationModal.title || '',
+      content: celebrationModal.content || '',
+      description: celebrationModal.description || '',
+      media: celebrationModal.media || '',
+      callToActionText: celebrationModal.callToActionText || '',
+      timeToLoad: celebrationModal.timeToLoad || 0,
+    } : undefined,
+  };
+};
+
+// Turn saved messages back into preview messages. "Copy State" output and the
+// bundled default flow strip preview-only fields (timestamp, type, add-on
+// text), so fill those back in from the components.
+export const toPreviewMessages = (
+  savedMessages: unknown[],
+  components: Map<string, ComponentData>
+): Message[] => {
+  return (savedMessages as SavedMessage[]).map(message => {
+    const component = message.componentId ? components.get(message.componentId) : undefined;
+    const previewMessage: Message = {
+      ...message,
+      id: message.id ?? `msg-${message.messageId ?? Date.now()}`,
+      sender: message.sender === 'user' ? 'user' : 'ai',
+      content: message.content ?? '',
+      timestamp: message.timestamp ?? '01:14 PM', // Default timestamp
+      type: message.type ?? 'text',
+      formFields: message.formFields?.map((field): FormField => ({
+        id: field.id ?? '',
+        type: field.type ?? 'text',
+        title: field.title ?? '',
+        options: field.options,
+        required: field.required,
+      })),
+    };
+
+    if (!previewMessage.bannerText && component?.content.banner?.text) {
+      previewMessage.bannerText = component.content.banner.text;
+    }
+
+    const textAddOn = (component?.content as { text?: { text?: string } } | undefined)?.text;
+    if (!previewMessage.textContent && textAddOn?.text) {
+      previewMessage.textContent = textAddOn.text;
+    }
+
+    return previewMessage;
+  });
+};
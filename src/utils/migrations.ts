@@ -0,0 +1,265 @@
+// Schema migrations for saved and imported app state
+// Each step upgrades a state from one version to the next. Steps run in order
+// until the state reaches CURRENT_STATE_VERSION.
+
+import { samplePersonas } from './samplePersonas';
+
+export const CURRENT_STATE_VERSION = '1.3.0';
+
+// States written before versioning existed (defaultState, older "Copy State"
+// output) don't carry a version field
+const UNVERSIONED_STATE_VERSION = '1.0.0';
+
+export type RawState = Record<string, unknown> & { version?: string };
+
+export interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (state: RawState) => RawState;
+}
+
+type LegacyNode = {
+  id?: string;
+  data?: {
+    componentId?: string;
+    messageId?: string;
+  };
+};
+
+type LegacyEdge = {
+  id?: string;
+  source?: string;
+  target?: string;
+  data?: Record<string, unknown>;
+};
+
+// Routing kept on the component before it moved onto the edges (1.2.0)
+type LegacyRoutingContent = {
+  branchRouting?: Record<string, { optionText?: string; destinationSlug?: string }>;
+  conditionalRouting?: {
+    rules?: Array<{ condition?: string; destinationSlug?: string }>;
+    defaultSlug?: string;
+  };
+};
+
+type LegacyRoute = {
+  options?: Array<{ index: number; text: string }>;
+  condition?: string;
+  order?: number;
+  isDefault?: boolean;
+};
+
+type UnresolvedRoute = {
+  destinationSlug: string;
+  route: LegacyRoute;
+};
+
+// Destination slugs were typed by hand, often as "name: slug" ("graduated
+// form: 00.04.02"), so accept the bare slug, the part after the last colon,
+// or the component name. A route never leads back to its own component: a
+// stale slug that happens to match the source is a typo, not a loop.
+const findComponentIdBySlug = (
+  components: Record<string, Record<string, unknown>>,
+  destination: string,
+  sourceId: string
+): string | undefined => {
+  const wanted = destination.trim().toLowerCase();
+  const slugPart = wanted.includes(':') ? wanted.slice(wanted.lastIndexOf(':') + 1).trim() : wanted;
+  const entries = Object.entries(components).filter(([id]) => id !== sourceId);
+  const lower = (value: unknown) => (typeof value === 'string' ? value.toLowerCase() : '');
+
+  return (
+    entries.find(([, component]) => lower(component.slug) === wanted) ??
+    entries.find(([, component]) => lower(component.slug) === slugPart) ??
+    entries.find(([, component]) => lower(component.name) === wanted)
+  )?.[0];
+};
+
+export class UnsupportedStateVersionError extends Error {
+  readonly stateVersion: string;
+  readonly supportedVersion: string;
+
+  constructor(stateVersion: string, supportedVersion: string) {
+    super(
+      `This state was saved by a newer version of the app (state version ${stateVersion}, ` +
+      `this app understands up to ${supportedVersion}). Update the app before loading it.`
+    );
+    this.name = 'UnsupportedStateVersionError';
+    this.stateVersion = stateVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+// Ordered registry of migration steps - add new steps to the end and bump
+// CURRENT_STATE_VERSION to the last step's "to" version
+const migrations: Migration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Move the legacy CardNodeData.messageId onto the component it renders',
+    migrate: (state) => {
+      const components = { ...(state.components as Record<string, Record<string, unknown>> | undefined) };
+      const nodes = Array.isArray(state.nodes) ? (state.nodes as LegacyNode[]) : [];
+
+      nodes.forEach(node => {
+        const componentId = node.data?.componentId;
+        const messageId = node.data?.messageId;
+        if (!componentId || !messageId) return;
+
+        const component = components[componentId];
+        if (component && !component.messageId) {
+          components[componentId] = { ...component, messageId };
+        }
+      });
+
+      // Nodes keep their messageId copy because the canvas still looks nodes up by it
+      return { ...state, components };
+    },
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Move branch routing from destination slugs on the component onto its edges',
+    migrate: (state) => {
+      const components = { ...(state.components as Record<string, Record<string, unknown>> | undefined) };
+      const nodes = Array.isArray(state.nodes) ? (state.nodes as LegacyNode[]) : [];
+      const edges = Array.isArray(state.edges) ? [...(state.edges as LegacyEdge[])] : [];
+      const nodeIdFor = (componentId: string) => nodes.find(node => node.data?.componentId === componentId)?.id;
+
+      const updateRouteAt = (index: number, update: (route: LegacyRoute) => LegacyRoute) => {
+        const edge = edges[index];
+        const route = (edge.data?.route ?? {}) as LegacyRoute;
+        edges[index] = { ...edge, data: { ...edge.data, route: update(route) } };
+      };
+
+      // Route along the edge between two nodes, drawing it if there isn't one.
+      // With `separate`, an edge whose route already holds a condition is left
+      // alone and another one is drawn beside it. Returns the edge's index.
+      const addRoute = (
+        source: string,
+        target: string,
+        update: (route: LegacyRoute) => LegacyRoute,
+        separate = false
+      ): number => {
+        const matches = (edge: LegacyEdge) =>
+          edge.source === source && edge.target === target &&
+          !(separate && (edge.data?.route as LegacyRoute | undefined)?.condition);
+        let index = edges.findIndex(matches);
+        if (index === -1) {
+          const id = edges.some(edge => edge.id === `e-${source}-${target}`)
+            ? `e-${source}-${target}-${edges.length}`
+            : `e-${source}-${target}`;
+          edges.push({ id, source, target });
+          index = edges.length - 1;
+        }
+        updateRouteAt(index, update);
+        return index;
+      };
+
+      Object.entries(components).forEach(([componentId, component]) => {
+        const content = component.content as (Record<string, unknown> & LegacyRoutingContent) | undefined;
+        if (!content || (!content.branchRouting && !content.conditionalRouting)) return;
+
+        const source = nodeIdFor(componentId);
+        // Routes whose destination can't be found stay on the component, so the
+        // validator can point the author at them instead of losing them
+        const unresolved: UnresolvedRoute[] = [];
+        const targetFor = (slug: string | undefined, route: LegacyRoute) => {
+          if (!slug?.trim()) return undefined;
+          const destinationId = findComponentIdBySlug(components, slug, componentId);
+          const target = destinationId ? nodeIdFor(destinationId) : undefined;
+          if (!target || !source) unresolved.push({ destinationSlug: slug, route });
+          return target;
+        };
+
+        Object.entries(content.branchRouting ?? {}).forEach(([optionIndex, branch]) => {
+          const option = { index: Number(optionIndex), text: branch.optionText ?? '' };
+          const target = targetFor(branch.destinationSlug, { options: [option] });
+          if (!target || !source) return;
+          addRoute(source, target, route => ({ ...route, options: [...(route.options ?? []), option] }));
+        });
+
+        // Rules were checked first to last. Neighbouring rules to the same
+        // place become one condition; any other rule keeps its own edge and
+        // order, so no rule gets checked ahead of one that came before it.
+        let previous: { target: string; edgeIndex: number } | undefined;
+        (content.conditionalRouting?.rules ?? []).forEach((rule, order) => {
+          const condition = rule.condition?.trim();
+          if (!condition) return;
+          const target = targetFor(rule.destinationSlug, { condition, order });
+          if (!target || !source) return;
+
+          if (previous?.target === target) {
+            updateRouteAt(previous.edgeIndex, route => ({ ...route, condition: `(${route.condition}) OR (${condition})` }));
+            return;
+          }
+          const edgeIndex = addRoute(source, target, route => ({ ...route, condition, order }), true);
+          previous = { target, edgeIndex };
+        });
+
+        const defaultTarget = targetFor(content.conditionalRouting?.defaultSlug, { isDefault: true });
+        if (defaultTarget && source) {
+          addRoute(source, defaultTarget, route => ({ ...route, isDefault: true }));
+        }
+
+        const nextContent = { ...content };
+        delete nextContent.branchRouting;
+        delete nextContent.conditionalRouting;
+        components[componentId] = unresolved.length > 0
+          ? { ...component, content: nextContent, unresolvedRoutes: unresolved }
+          : { ...component, content: nextContent };
+      });
+
+      return { ...state, components, edges };
+    },
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Store personas with the project, starting from the built-in sample personas',
+    migrate: (state) => ({
+      ...state,
+      personas: Array.isArray(state.personas) && state.personas.length > 0 ? state.personas : samplePersonas,
+    }),
+  },
+];
+
+// Compare dotted numeric versions, e.g. "1.10.0" > "1.9.2"
+export const compareVersions = (a: string, b: string): number => {
+  const aParts = a.split('.').map(part => parseInt(part, 10) || 0);
+  const bParts = b.split('.').map(part => parseInt(part, 10) || 0);
+  const length = Math.max(aParts.length, bParts.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff !== 0) return diff > 0 ? 1 : -1;
+  }
+  return 0;
+};
+
+export const getStateVersion = (state: RawState): string =>
+  typeof state.version === 'string' && state.version ? state.version : UNVERSIONED_STATE_VERSION;
+
+// Upgrade a parsed state to CURRENT_STATE_VERSION, one step at a time
+export const migrateState = (state: RawState): RawState => {
+  let version = getStateVersion(state);
+
+  if (compareVersions(version, CURRENT_STATE_VERSION) > 0) {
+    throw new UnsupportedStateVersionError(version, CURRENT_STATE_VERSION);
+  }
+
+  let migrated: RawState = state;
+  while (compareVersions(version, CURRENT_STATE_VERSION) < 0) {
+    const step = migrations.find(migration => migration.from === version);
+    if (!step) {
+      throw new Error(`No migration registered from state version ${version} to ${CURRENT_STATE_VERSION}`);
+    }
+
+    console.log(`Migrating state ${step.from} -> ${step.to}: ${step.description}`);
+    migrated = { ...step.migrate(migrated), version: step.to };
+    version = step.to;
+  }
+
+  return migrated;
+};
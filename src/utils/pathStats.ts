@@ -0,0 +1,59 @@
+// Rough numbers for comparing paths through the flow
+// Times are estimates for QA, not measurements: reading at about 200 words a
+// minute plus a fixed allowance for answering each kind of input.
+
+import { toolTypeRegistry } from '../toolTypes';
+import type { CardNode, ComponentData } from '../types/flow';
+
+const SECONDS_PER_WORD = 0.3;
+
+export type PathSummary = {
+  componentCount: number;
+  estimatedSeconds: number;
+  questions: string[]; // distinct, in the order they're asked
+};
+
+const wordCount = (text: string | undefined): number =>
+  (text ?? '').replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length;
+
+// What the user is asked to answer on a component, if anything
+export const componentQuestions = (component: ComponentData): string[] =>
+  toolTypeRegistry.questions(component);
+
+// The tool type's own text and answering time (see toolTypes), plus the
+// add-ons any component can carry
+export const estimateSeconds = (component: ComponentData): number => {
+  const { content } = component;
+  const words = [
+    ...toolTypeRegistry.readingText(component),
+    content.banner?.text,
+    content.text?.text,
+    content.celebrationModal?.title,
+    content.celebrationModal?.content,
+    content.celebrationModal?.description,
+  ].reduce((total, text) => total + wordCount(text), 0);
+
+  // timeToLoad is in milliseconds
+  const celebration = content.celebrationModal?.title ? (content.celebrationModal.timeToLoad ?? 0) / 1000 + 3 : 0;
+  return words * SECONDS_PER_WORD + toolTypeRegistry.answerSeconds(component) + celebration;
+};
+
+export const summarizePath = (
+  nodeIds: string[],
+  nodes: CardNode[],
+  components: Map<string, ComponentData>
+): PathSummary => {
+  const pathComponents = nodeIds.flatMap(nodeId => {
+    const node = nodes.find(item => item.id === nodeId);
+    const component = node && components.get(node.data.componentId);
+    return component ? [component] : [];
+  });
+  return {
+    componentCount: pathComponents.length,
+    estimatedSeconds: pathComponents.reduce((total, component) => total + estimateSeconds(component), 0),
+    questions: [...new Set(pathComponents.flatMap(componentQuestions))],
+  };
+};
+
+export const formatDuration = (seconds: number): string =>
+  seconds < 60 ? `${Math.round(seconds)}s` : `${Math.round(seconds / 60)} min`;
@@ -0,0 +1,172 @@
+// Paths through the flow for the linear preview
+// Where the flow branches, the preview follows the primary edge out of each
+// node instead of guessing from card positions, so moving a card never changes
+// what the preview shows. Any other path can be chosen to preview instead.
+
+import type { Edge } from '@xyflow/react';
+import { getEdgeRoute } from './routing';
+import type { CardNode, FlowEdgeData } from '../types/flow';
+
+export const isPrimaryEdge = (edge: Edge): boolean =>
+  !!(edge.data as FlowEdgeData | undefined)?.primary;
+
+// Nodes nothing leads into, in the order they were added. A flow that is one
+// big loop starts at its first node.
+export const startNodeIds = (nodes: CardNode[], edges: Edge[]): string[] => {
+  const hasIncoming = new Set(edges.map(edge => edge.target));
+  const starts = nodes.filter(node => !hasIncoming.has(node.id)).map(node => node.id);
+  return starts.length > 0 || nodes.length === 0 ? starts : [nodes[0].id];
+};
+
+// The edge the preview follows out of a node: the one marked primary, else the
+// "otherwise" route, else the first plain connection, else the first one drawn
+export const primaryEdge = (edges: Edge[], nodeId: string): Edge | undefined => {
+  const outgoing = edges.filter(edge => edge.source === nodeId);
+  return outgoing.find(isPrimaryEdge)
+    ?? outgoing.find(edge => getEdgeRoute(edge)?.isDefault)
+    ?? outgoing.find(edge => !getEdgeRoute(edge))
+    ?? outgoing[0];
+};
+
+// Follow primary edges from a node until the path ends or comes back on itself
+const followPrimary = (edges: Edge[], from: string, visited: Set<string>): string[] => {
+  const path: string[] = [];
+  let nodeId: string | undefined = from;
+  while (nodeId && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    path.push(nodeId);
+    nodeId = primaryEdge(edges, nodeId)?.target;
+  }
+  return path;
+};
+
+// Node ids along the primary path from every connected start
+export const primaryPath = (nodes: CardNode[], edges: Edge[]): string[] => {
+  const hasOutgoing = new Set(edges.map(edge => edge.source));
+  const visited = new Set<string>();
+  return startNodeIds(nodes, edges)
+    .filter(nodeId => hasOutgoing.has(nodeId))
+    .flatMap(nodeId => followPrimary(edges, nodeId, visited));
+};
+
+// The shortest way from a start to the node, preferring primary edges, then
+// the primary path on from there
+export const pathThrough = (nodes: CardNode[], edges: Edge[], nodeId: string): string[] => {
+  const cameFrom = new Map<string, string | null>();
+  const queue: string[] = [];
+  startNodeIds(nodes, edges).forEach(start => {
+    cameFrom.set(start, null);
+    queue.push(start);
+  });
+
+  while (queue.length > 0 && !cameFrom.has(nodeId)) {
+    const current = queue.shift()!;
+    const outgoing = edges.filter(edge => edge.source === current);
+    [...outgoing.filter(isPrimaryEdge), ...outgoing.filter(edge => !isPrimaryEdge(edge))].forEach(edge => {
+      if (cameFrom.has(edge.target)) return;
+      cameFrom.set(edge.target, current);
+      queue.push(edge.target);
+    });
+  }
+  if (!cameFrom.has(nodeId)) return [];
+
+  const leadIn: string[] = [];
+  for (let current = cameFrom.get(nodeId); current; current = cameFrom.get(current)) {
+    leadIn.unshift(current);
+  }
+  return [...leadIn, ...followPrimary(edges, nodeId, new Set(leadIn))];
+};
+
+// Whether every step of the path is still a connection on the canvas
+export const isPathConnected = (edges: Edge[], path: string[]): boolean =>
+  path.every((nodeId, index) =>
+    index === 0 || edges.some(edge => edge.source === path[index - 1] && edge.target === nodeId)
+  );
+
+// Every node in preview order: the path first, then the nodes off it in the
+// order the connections reach them, then anything unconnected
+export const previewOrder = (nodes: CardNode[], edges: Edge[], path: string[]): string[] => {
+  const order = [...path];
+  const placed = new Set(path);
+  const visited = new Set<string>();
+
+  const visit = (nodeId: string) => {
+    if (visited.has(nodeId)) return;
+    visited.add(nodeId);
+    if (!placed.has(nodeId)) {
+      placed.add(nodeId);
+      order.push(nodeId);
+    }
+    edges.filter(edge => edge.source === nodeId).forEach(edge => visit(edge.target));
+  };
+
+  startNodeIds(nodes, edges).forEach(visit);
+  nodes.forEach(node => visit(node.id));
+  return order;
+};
+
+// Mark the edge the preview follows out of its source, or unmark it
+export const setPrimaryEdge = (edges: Edge[], edgeId: string, primary: boolean): Edge[] => {
+  const edge = edges.find(item => item.id === edgeId);
+  if (!edge) return edges;
+
+  return edges.map(item => {
+    const isTarget = item.id === edgeId;
+    if (item.source !== edge.source) return item;
+    if (isTarget ? isPrimaryEdge(item) === primary : !primary || !isPrimaryEdge(item)) return item;
+
+    const data: FlowEdgeData = { ...(item.data as FlowEdgeData | undefined) };
+    delete data.primary;
+    if (isTarget && primary) data.primary = true;
+    return { ...item, data };
+  });
+};
+
+// Enumerating every path can blow up on wide flows; stop after this many
+export const PATH_LIMIT = 500;
+
+export type FlowPath = {
+  nodeIds: string[];
+  endsInLoop: boolean; // stops where every way on leads back into the path
+};
+
+// Every distinct path from each connected start to an end, taking each loop at
+// most once. Edges are followed in the order they were drawn, so the list comes
+// out in the same order as the preview.
+export const enumeratePaths = (
+  nodes: CardNode[],
+  edges: Edge[],
+  limit = PATH_LIMIT
+): { paths: FlowPath[]; truncated: boolean } => {
+  const paths: FlowPath[] = [];
+  const hasOutgoing = new Set(edges.map(edge => edge.source));
+  const onPath = new Set<string>();
+  const path: string[] = [];
+  let truncated = false;
+
+  const walk = (nodeId: string) => {
+    if (paths.length >= limit) {
+      truncated = true;
+      return;
+    }
+    onPath.add(nodeId);
+    path.push(nodeId);
+
+    const outgoing = edges.filter(edge => edge.source === nodeId);
+    // Parallel edges to one target are a single way on
+    const next = [...new Set(outgoing.map(edge => edge.target))].filter(target => !onPath.has(target));
+    if (next.length === 0) {
+      paths.push({ nodeIds: [...path], endsInLoop: outgoing.length > 0 });
+    } else {
+      next.forEach(walk);
+    }
+
+    path.pop();
+    onPath.delete(nodeId);
+  };
+
+  startNodeIds(nodes, edges)
+    .filter(nodeId => hasOutgoing.has(nodeId))
+    .forEach(walk);
+  return { paths, truncated };
+};
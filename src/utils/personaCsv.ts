@@ -0,0 +1,201 @@
+// Persona import and export as CSV
+// One row per persona: its details first (name, age, segment, track,
+// description, optionally id), then one column per component slug. How an
+// answer cell is read depends on the component with that slug:
+//   question     the text of the answer
+//   scale        the number picked
+//   multiSelect  the chosen options, separated by "|"
+//   ranking      the items in order, separated by "|"
+//   form         "field=value" pairs separated by ";", field by id or title;
+//                checkbox values are separated by "|"
+//   cardSort     "bucket=card|card" pairs separated by ";"
+
+import { segmentLabels, trackLabels } from './personas';
+import { toolTypeRegistry } from '../toolTypes';
+import type { ComponentData, Persona, PersonaAnswer, PersonaSegment, PersonaTrack } from '../types/flow';
+
+const DETAIL_COLUMNS = ['id', 'name', 'age', 'segment', 'track', 'description'];
+
+export type PersonaImport = {
+  personas: Persona[];
+  warnings: string[]; // rows or cells that were skipped or guessed at
+};
+
+// RFC 4180: quoted cells may hold commas, quotes ("") and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no persona
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+const csvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const splitList = (value: string): string[] =>
+  value.split('|').map(item => item.trim()).filter(Boolean);
+
+// Accept the stored key or its label, in any case ("mid-career", "Mid Career")
+const matchKey = <T extends string>(labels: Record<T, string>, value: string): T | undefined => {
+  const wanted = value.trim().toLowerCase();
+  return (Object.keys(labels) as T[]).find(key =>
+    key.toLowerCase() === wanted || labels[key].toLowerCase() === wanted
+  );
+};
+
+const findBySlug = (components: Map<string, ComponentData>, slug: string) =>
+  [...components.values()].find(component => component.slug === slug);
+
+// "key=value; key=value", with `isList` saying which values hold "|" lists
+const parsePairs = (cell: string, isList: (key: string) => boolean): Record<string, string | string[]> => {
+  const values: Record<string, string | string[]> = {};
+  cell.split(';').forEach(pair => {
+    const separator = pair.indexOf('=');
+    if (separator === -1) return;
+    const key = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    if (key) values[key] = isList(key) ? splitList(value) : value;
+  });
+  return values;
+};
+
+const parseAnswer = (cell: string, component: ComponentData | undefined): PersonaAnswer => {
+  switch (toolTypeRegistry.get(component?.uiToolType)?.answer) {
+    case 'choice':
+    case 'order':
+      return splitList(cell);
+    case 'sort':
+      return parsePairs(cell, () => true);
+    case 'form': {
+      const fields = component?.content.form?.fields ?? [];
+      return parsePairs(cell, key => fields.find(item => item.id === key || item.title === key)?.type === 'checkbox');
+    }
+    default:
+      return cell.trim();
+  }
+};
+
+const formatAnswer = (answer: PersonaAnswer): string => {
+  if (typeof answer === 'string') return answer;
+  if (Array.isArray(answer)) return answer.join('|');
+  return Object.entries(answer)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('|') : value}`)
+    .join('; ');
+};
+
+export const importPersonasCsv = (text: string, components: Map<string, ComponentData>): PersonaImport => {
+  const [header, ...rows] = parseCsv(text);
+  const warnings: string[] = [];
+  if (!header) return { personas: [], warnings: ['The file is empty.'] };
+
+  const columns = header.map(title => title.trim());
+  const column = (name: string) => columns.findIndex(title => title.toLowerCase() === name);
+  if (column('name') === -1) {
+    return { personas: [], warnings: ['The first row needs a "name" column.'] };
+  }
+
+  const slugColumns = columns
+    .map((slug, index) => ({ slug, index }))
+    .filter(({ slug }) => slug && !DETAIL_COLUMNS.includes(slug.toLowerCase()));
+  slugColumns.forEach(({ slug }) => {
+    if (!findBySlug(components, slug)) {
+      warnings.push(`No component has the slug "${slug}"; its answers are kept as plain text.`);
+    }
+  });
+
+  const importedAt = Date.now();
+  const personas = rows.flatMap((cells, rowIndex): Persona[] => {
+    const rowNumber = rowIndex + 2;
+    const value = (name: string) => (column(name) === -1 ? '' : (cells[column(name)] ?? '').trim());
+
+    const name = value('name');
+    if (!name) {
+      warnings.push(`Row ${rowNumber}: no name, skipped.`);
+      return [];
+    }
+
+    const age = parseInt(value('age'), 10);
+    if (value('age') && Number.isNaN(age)) {
+      warnings.push(`Row ${rowNumber}: age "${value('age')}" isn't a number.`);
+    }
+    const segment = matchKey<PersonaSegment>(segmentLabels, value('segment'));
+    if (value('segment') && !segment) {
+      warnings.push(`Row ${rowNumber}: unknown segment "${value('segment')}", used Student.`);
+    }
+    const track = matchKey<PersonaTrack>(trackLabels, value('track'));
+    if (value('track') && !track) {
+      warnings.push(`Row ${rowNumber}: unknown track "${value('track')}", used Clarity.`);
+    }
+
+    const answers: Record<string, PersonaAnswer> = {};
+    slugColumns.forEach(({ slug, index }) => {
+      const cell = cells[index] ?? '';
+      if (cell.trim()) answers[slug] = parseAnswer(cell, findBySlug(components, slug));
+    });
+
+    return [{
+      id: value('id') || `persona-${importedAt}-${rowIndex}`,
+      name,
+      age: Number.isNaN(age) ? 0 : age,
+      segment: segment ?? 'student',
+      track: track ?? 'clarity',
+      description: value('description'),
+      answers,
+    }];
+  });
+
+  return { personas, warnings };
+};
+
+// The reverse of importPersonasCsv; slug columns follow the order the slugs
+// first appear in
+export const exportPersonasCsv = (personas: Persona[]): string => {
+  const slugs = [...new Set(personas.flatMap(persona => Object.keys(persona.answers)))];
+  const lines = [
+    [...DETAIL_COLUMNS, ...slugs],
+    ...personas.map(persona => [
+      persona.id,
+      persona.name,
+      String(persona.age),
+      persona.segment,
+      persona.track,
+      persona.description,
+      ...slugs.map(slug => (persona.answers[slug] === undefined ? '' : formatAnswer(persona.answers[slug]))),
+    ]),
+  ];
+  return lines.map(cells => cells.map(csvCell).join(',')).join('\n');
+};
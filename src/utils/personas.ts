@@ -0,0 +1,107 @@
+// Personas and scripted runs through the flow
+// Each persona answers by component slug. A run feeds those answers to the
+// test-mode interpreter, so it follows branch routing exactly as a person
+// clicking through the preview would, and records what they'd see.
+
+import { answerStep, describeAnswer, startSession } from './interpreter';
+import type { FlowGraph, RouteResult, TestAnswer, TestSession } from './interpreter';
+import { startNodeIds } from './paths';
+import { toolTypeRegistry } from '../toolTypes';
+import type { ComponentData, Persona, PersonaSegment, PersonaTrack } from '../types/flow';
+
+export const segmentLabels: Record<PersonaSegment, string> = {
+  student: 'Student',
+  graduate: 'Graduate',
+  'mid-career': 'Mid Career',
+};
+
+export const trackLabels: Record<PersonaTrack, string> = {
+  clarity: 'Clarity',
+  connections: 'Connections',
+  visibility: 'Visibility',
+  credentials: 'Credentials',
+};
+
+// The persona's answer to a component, turned into what test mode would
+// receive. Without a scripted answer the first option is taken, so a run never
+// gets stuck; `scripted` says which it was.
+export const personaAnswer = (persona: Persona, component: ComponentData): { answer: TestAnswer; scripted: boolean } => {
+  const scripted = persona.answers[component.slug];
+  return toolTypeRegistry.personaAnswer(component, scripted) ?? { answer: { kind: 'continue' }, scripted: true };
+};
+
+// A persona can't answer differently the second time round, so going through
+// any component this often means the run is caught in a loop
+const MAX_VISITS = 3;
+const MAX_STEPS = 200;
+
+export type TranscriptEntry = {
+  componentId: string;
+  name: string;
+  slug: string;
+  reply: string;
+  scripted: boolean; // false when the persona had no answer and the first option was taken
+  route?: RouteResult;
+};
+
+export type PersonaRun = {
+  persona: Persona;
+  session: TestSession;
+  transcript: TranscriptEntry[];
+  outcome: 'finished' | 'loop' | 'noStart';
+};
+
+// The component a run starts at: the first start that leads anywhere
+export const runStartComponentId = ({ nodes, edges }: FlowGraph): string | undefined => {
+  const hasOutgoing = new Set(edges.map(edge => edge.source));
+  const starts = startNodeIds(nodes, edges);
+  const startId = starts.find(nodeId => hasOutgoing.has(nodeId)) ?? starts[0];
+  return nodes.find(node => node.id === startId)?.data.componentId;
+};
+
+export const runPersona = (graph: FlowGraph, persona: Persona, startComponentId = runStartComponentId(graph)): PersonaRun => {
+  if (!startComponentId) {
+    return { persona, session: { steps: [], finished: true }, transcript: [], outcome: 'noStart' };
+  }
+
+  let session = startSession(startComponentId);
+  const transcript: TranscriptEntry[] = [];
+  const visits = new Map<string, number>();
+
+  while (!session.finished && session.steps.length <= MAX_STEPS) {
+    const stepIndex = session.steps.length - 1;
+    const { componentId } = session.steps[stepIndex];
+    const component = graph.components.get(componentId);
+    visits.set(componentId, (visits.get(componentId) ?? 0) + 1);
+    if (!component || (visits.get(componentId) ?? 0) > MAX_VISITS) {
+      return { persona, session, transcript, outcome: 'loop' };
+    }
+
+    const { answer, scripted } = personaAnswer(persona, component);
+    session = answerStep(graph, session, answer);
+    transcript.push({
+      componentId,
+      name: component.name,
+      slug: component.slug,
+      reply: describeAnswer(component, answer),
+      scripted,
+      route: session.steps[stepIndex].route,
+    });
+  }
+
+  return { persona, session, transcript, outcome: session.finished ? 'finished' : 'loop' };
+};
+
+// Plain-text transcript for copying into a bug report
+export const transcriptText = (run: PersonaRun): string => {
+  const lines = run.transcript.map((entry, index) => {
+    const reply = entry.reply.replace(/\n/g, '; ') || '(continue)';
+    const note = entry.scripted ? '' : ' [not scripted]';
+    const route = entry.route ? `\n    ${entry.route.detail}` : '';
+    return `${index + 1}. ${entry.name} (${entry.slug})\n    > ${reply}${note}${route}`;
+  });
+  const ending = run.outcome === 'loop' ? 'Stopped: caught in a loop' : run.outcome === 'noStart' ? 'No start component' : 'End of conversation';
+  const { persona } = run;
+  const heading = `${persona.name} (${persona.age}, ${segmentLabels[persona.segment]}, ${trackLabels[persona.track]}) - ${persona.description}`;
+  return [heading, '', ...lines, '', ending].join('\n');
+};
@@ -0,0 +1,158 @@
+import { createProjectStorage, DEFAULT_PROJECT_ID } from './storage';
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Keeps the list of projects and which one is open. Each project's flow lives
+// in its own AppStorage slot, keyed by project id.
+export class ProjectRegistry {
+  private readonly PROJECTS_KEY = 'the-tool-projects';
+  private readonly ACTIVE_PROJECT_KEY = 'the-tool-active-project';
+
+  // List all projects, creating the default project on first run
+  listProjects(): ProjectMeta[] {
+    const serialized = localStorage.getItem(this.PROJECTS_KEY);
+    if (serialized) {
+      try {
+        const projects = JSON.parse(serialized) as ProjectMeta[];
+        if (Array.isArray(projects) && projects.length > 0) {
+          return projects;
+        }
+      } catch (error) {
+        console.error('Failed to parse project list:', error);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const defaultProject: ProjectMeta = {
+      id: DEFAULT_PROJECT_ID,
+      name: 'Default Project',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.saveProjects([defaultProject]);
+    return [defaultProject];
+  }
+
+  getProject(projectId: string): ProjectMeta | undefined {
+    return this.listProjects().find(project => project.id === projectId);
+  }
+
+  getActiveProjectId(): string {
+    const activeId = localStorage.getItem(this.ACTIVE_PROJECT_KEY);
+    const projects = this.listProjects();
+    if (activeId && projects.some(project => project.id === activeId)) {
+      return activeId;
+    }
+    return projects[0].id;
+  }
+
+  setActiveProjectId(projectId: string): void {
+    if (!this.getProject(projectId)) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+    localStorage.setItem(this.ACTIVE_PROJECT_KEY, projectId);
+  }
+
+  // Create an empty project
+  createProject(name: string): ProjectMeta {
+    const now = new Date().toISOString();
+    const project: ProjectMeta = {
+      id: `project-${Date.now()}`,
+      name: name.trim() || 'Untitled Project',
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.saveProjects([...this.listProjects(), project]);
+    console.log(`Project ${project.name} created`);
+    return project;
+  }
+
+  renameProject(projectId: string, name: string): ProjectMeta {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Project name cannot be empty');
+    }
+    return this.updateProject(projectId, { name: trimmed });
+  }
+
+  // Record that a project's flow was saved
+  touchProject(projectId: string): void {
+    this.updateProject(projectId, {});
+  }
+
+  // Copy a project's saved flow into a new project
+  async duplicateProject(projectId: string, name?: string): Promise<ProjectMeta> {
+    const source = this.getProject(projectId);
+    if (!source) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    const savedState = await createProjectStorage(projectId).loadState();
+    const copy = this.createProject(name ?? `${source.name} (copy)`);
+
+    try {
+      if (savedState) {
+        await createProjectStorage(copy.id).saveState(savedState);
+      }
+    } catch (error) {
+      this.saveProjects(this.listProjects().filter(project => project.id !== copy.id));
+      console.error('Failed to duplicate project:', error);
+      throw error;
+    }
+
+    return copy;
+  }
+
+  // Delete a project and its saved flow. Returns the id of the project that is
+  // active afterwards.
+  async deleteProject(projectId: string): Promise<string> {
+    const projects = this.listProjects();
+    if (projects.length <= 1) {
+      throw new Error('Cannot delete the only project');
+    }
+    if (!projects.some(project => project.id === projectId)) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    await createProjectStorage(projectId).deleteStorage();
+
+    const wasActive = this.getActiveProjectId() === projectId;
+    const remaining = projects.filter(project => project.id !== projectId);
+    this.saveProjects(remaining);
+    if (wasActive) {
+      this.setActiveProjectId(remaining[0].id);
+    }
+
+    console.log(`Project ${projectId} deleted`);
+    return this.getActiveProjectId();
+  }
+
+  private updateProject(projectId: string, changes: Partial<Pick<ProjectMeta, 'name'>>): ProjectMeta {
+    const projects = this.listProjects();
+    const index = projects.findIndex(project => project.id === projectId);
+    if (index === -1) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    const updated: ProjectMeta = {
+      ...projects[index],
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    projects[index] = updated;
+    this.saveProjects(projects);
+    return updated;
+  }
+
+  private saveProjects(projects: ProjectMeta[]): void {
+    localStorage.setItem(this.PROJECTS_KEY, JSON.stringify(projects));
+  }
+}
+
+// Create singleton instance
+export const projectRegistry = new ProjectRegistry();
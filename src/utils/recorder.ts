@@ -0,0 +1,182 @@
+// Session recorder for bug reports
+// Captures every canvas <-> preview event plus the state changes between them,
+// so a session can be exported as a file and replayed into a fresh project.
+// On replay the canvas-side state (nodes, edges, components) and the events
+// are fed back in order; the preview-side state (messages, orphans) is what
+// gets checked against the recording to find where the two fell out of sync.
+
+import { eventBus, type AppEventName } from './eventBus';
+import { isDeepEqual } from './diff';
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+export type RecordedSlice = 'nodes' | 'edges' | 'components' | 'messages' | 'orphanMessageIds';
+
+// Slices the replay sets directly
+const REPLAYED_SLICES: RecordedSlice[] = ['nodes', 'edges', 'components'];
+
+export type RecordingEntry =
+  | { type: 'event'; at: number; name: AppEventName; detail: unknown }
+  | { type: 'state'; at: number; slice: RecordedSlice; value: unknown };
+
+export interface SessionRecording {
+  formatVersion: number;
+  name: string;
+  startedAt: string;
+  duration: number; // ms
+  initialState: string; // exported AppState JSON
+  entries: RecordingEntry[];
+}
+
+export interface ReplayDivergence {
+  entryIndex: number;
+  slice: RecordedSlice;
+  expected: unknown;
+  actual: unknown;
+}
+
+// What a replay drives - implemented by the app state provider
+export interface ReplayTarget {
+  loadInitialState: (json: string) => Promise<void>;
+  applySlice: (slice: RecordedSlice, value: unknown) => void;
+  readSlice: (slice: RecordedSlice) => unknown;
+}
+
+// Time for React to commit an update (and run effects) between replay steps
+const REPLAY_STEP_DELAY = 30;
+
+// Maps don't survive JSON, so components are recorded as entries
+const toRecordedValue = (slice: RecordedSlice, value: unknown): unknown =>
+  slice === 'components' ? [...(value as Map<string, unknown>)] : value;
+
+const fromRecordedValue = (slice: RecordedSlice, value: unknown): unknown =>
+  slice === 'components' ? new Map(value as Array<[string, unknown]>) : value;
+
+// Message timestamps come from the clock when a message is added, so they
+// never match between a recording and its replay
+const comparableValue = (slice: RecordedSlice, value: unknown): unknown => {
+  const plain: unknown = JSON.parse(JSON.stringify(value ?? null));
+  if (slice !== 'messages' || !Array.isArray(plain)) return plain;
+  return plain.map(message => ({ ...message, timestamp: undefined }));
+};
+
+class SessionRecorder {
+  private recording: SessionRecording | null = null;
+  private startTime = 0;
+  private lastValues = new Map<RecordedSlice, unknown>();
+  private removeTap: (() => void) | null = null;
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  start(name: string, initialState: string): void {
+    if (this.recording) {
+      throw new Error('A session is already being recorded');
+    }
+
+    this.recording = {
+      formatVersion: RECORDING_FORMAT_VERSION,
+      name,
+      startedAt: new Date().toISOString(),
+      duration: 0,
+      initialState,
+      entries: [],
+    };
+    this.startTime = performance.now();
+    this.lastValues.clear();
+    this.removeTap = eventBus.tap((eventName, detail) => {
+      this.record({ type: 'event', at: this.elapsed(), name: eventName, detail });
+    });
+  }
+
+  stop(): SessionRecording {
+    if (!this.recording) {
+      throw new Error('No session is being recorded');
+    }
+
+    this.removeTap?.();
+    this.removeTap = null;
+    const recording = { ...this.recording, duration: this.elapsed() };
+    this.recording = null;
+    return recording;
+  }
+
+  // Called on every state change; consecutive changes to one slice (e.g. the
+  // frames of a drag) collapse into a single entry
+  recordState(slice: RecordedSlice, value: unknown): void {
+    if (!this.recording) return;
+
+    const recordedValue = toRecordedValue(slice, value);
+    if (this.lastValues.has(slice) && isDeepEqual(this.lastValues.get(slice), recordedValue)) return;
+    this.lastValues.set(slice, recordedValue);
+
+    const entries = this.recording.entries;
+    const last = entries[entries.length - 1];
+    if (last?.type === 'state' && last.slice === slice) {
+      entries[entries.length - 1] = { ...last, at: this.elapsed(), value: recordedValue };
+    } else {
+      this.record({ type: 'state', at: this.elapsed(), slice, value: recordedValue });
+    }
+  }
+
+  private record(entry: RecordingEntry): void {
+    this.recording?.entries.push(entry);
+  }
+
+  private elapsed(): number {
+    return Math.round(performance.now() - this.startTime);
+  }
+}
+
+export const sessionRecorder = new SessionRecorder();
+
+export const serializeRecording = (recording: SessionRecording): string =>
+  JSON.stringify(recording, null, 2);
+
+export const parseRecording = (json: string): SessionRecording => {
+  const data = JSON.parse(json) as Partial<SessionRecording>;
+  if (typeof data.initialState !== 'string' || !Array.isArray(data.entries)) {
+    throw new Error('This file is not a session recording');
+  }
+  if (data.formatVersion !== RECORDING_FORMAT_VERSION) {
+    throw new Error(`Unsupported recording format version: ${data.formatVersion}`);
+  }
+  return data as SessionRecording;
+};
+
+const nextStep = () => new Promise(resolve => setTimeout(resolve, REPLAY_STEP_DELAY));
+
+// Replay a recording step by step. Events the app emits in response are held
+// back since the recording already has them in the order they happened.
+export const replaySession = async (
+  recording: SessionRecording,
+  target: ReplayTarget
+): Promise<ReplayDivergence[]> => {
+  const divergences: ReplayDivergence[] = [];
+
+  await target.loadInitialState(recording.initialState);
+  await nextStep();
+
+  eventBus.holdLiveEvents(true);
+  try {
+    for (const [entryIndex, entry] of recording.entries.entries()) {
+      if (entry.type === 'event') {
+        eventBus.replay(entry.name, entry.detail);
+      } else if (REPLAYED_SLICES.includes(entry.slice)) {
+        target.applySlice(entry.slice, fromRecordedValue(entry.slice, entry.value));
+      } else {
+        const actual = toRecordedValue(entry.slice, target.readSlice(entry.slice));
+        if (!isDeepEqual(comparableValue(entry.slice, actual), comparableValue(entry.slice, entry.value))) {
+          divergences.push({ entryIndex, slice: entry.slice, expected: entry.value, actual });
+        }
+      }
+
+      await nextStep();
+    }
+  } finally {
+    eventBus.holdLiveEvents(false);
+  }
+
+  return divergences;
+};
@@ -0,0 +1,148 @@
+// Branch routing stored on the edges
+// An edge out of a component can say which answers lead along it: picked
+// options, a condition, or "otherwise". The edge is the route, so what the
+// canvas draws and what the conversation does can't disagree.
+
+import type { Edge } from '@xyflow/react';
+import { toolTypeRegistry } from '../toolTypes';
+import type { ComponentData, EdgeRoute, FlowEdgeData, RouteOption } from '../types/flow';
+
+// Options an answer can be routed by, such as multi-select options or the
+// options of a form's last dropdown field (see toolTypes)
+export const routeOptions = (component: ComponentData | undefined): RouteOption[] =>
+  component ? toolTypeRegistry.routeOptions(component).map((text, index) => ({ index, text })) : [];
+
+// Connections drawn from these components ask which option they stand for
+export const isRoutingComponent = (component: ComponentData | undefined): boolean =>
+  routeOptions(component).length > 0;
+
+export const isRouteEmpty = (route: EdgeRoute): boolean =>
+  !route.options?.length && !route.condition?.trim() && !route.isDefault;
+
+export const getEdgeRoute = (edge: Edge): EdgeRoute | undefined => {
+  const route = (edge.data as FlowEdgeData | undefined)?.route;
+  return route && !isRouteEmpty(route) ? route : undefined;
+};
+
+// Canvas label, using the option's current text in case it was edited
+export const routeLabel = (route: EdgeRoute, component?: ComponentData): string => {
+  const currentOptions = routeOptions(component);
+  const parts = [
+    (route.options ?? []).map(option => currentOptions[option.index]?.text ?? option.text).join(' / '),
+    route.condition?.trim() ? `if ${route.condition.trim()}` : '',
+    route.isDefault ? 'otherwise' : '',
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+// Edges out of a node whose route holds a condition, in the order they're checked
+export const conditionEdges = (edges: Edge[], nodeId: string): Edge[] =>
+  edges
+    .filter(edge => edge.source === nodeId && getEdgeRoute(edge)?.condition?.trim())
+    .sort((a, b) => (getEdgeRoute(a)?.order ?? 0) - (getEdgeRoute(b)?.order ?? 0));
+
+const withRoute = (edge: Edge, route: EdgeRoute | undefined): Edge => {
+  const data: FlowEdgeData = { ...(edge.data as FlowEdgeData | undefined) };
+  delete data.route;
+
+  if (route) {
+    const cleaned: EdgeRoute = {};
+    if (route.options?.length) cleaned.options = [...route.options].sort((a, b) => a.index - b.index);
+    if (route.condition?.trim()) {
+      cleaned.condition = route.condition;
+      cleaned.order = route.order ?? 0;
+    }
+    if (route.isDefault) cleaned.isDefault = true;
+    if (!isRouteEmpty(cleaned)) data.route = cleaned;
+  }
+
+  return { ...edge, data };
+};
+
+// Set an edge's route. Options and "otherwise" belong to one edge per source,
+// so they're taken off the source's other edges. An edge left with nothing to
+// route stays as a plain connection: it may have been drawn by hand, and the
+// validator points out connections that no longer make sense.
+export const setEdgeRoute = (edges: Edge[], edgeId: string, route: EdgeRoute | undefined): Edge[] => {
+  const edge = edges.find(item => item.id === edgeId);
+  if (!edge) return edges;
+
+  const previous = getEdgeRoute(edge);
+  const siblings = edges.filter(item => item.source === edge.source && item.id !== edgeId);
+  const nextRoute = route && { ...route };
+  if (nextRoute?.condition?.trim() && !previous?.condition?.trim()) {
+    // New conditions are checked after the existing ones
+    nextRoute.order = Math.max(0, ...siblings.map(item => (getEdgeRoute(item)?.order ?? 0) + 1));
+  } else if (nextRoute && previous?.order !== undefined) {
+    nextRoute.order = previous.order;
+  }
+
+  const claimed = new Set((nextRoute?.options ?? []).map(option => option.index));
+  return edges.map(item => {
+    if (item.id === edgeId) return withRoute(item, nextRoute);
+    if (item.source !== edge.source) return item;
+
+    const siblingRoute = getEdgeRoute(item);
+    if (!siblingRoute) return item;
+    const losesOption = siblingRoute.options?.some(option => claimed.has(option.index));
+    const losesDefault = siblingRoute.isDefault && nextRoute?.isDefault;
+    if (!losesOption && !losesDefault) return item;
+
+    return withRoute(item, {
+      ...siblingRoute,
+      options: siblingRoute.options?.filter(option => !claimed.has(option.index)),
+      isDefault: losesDefault ? false : siblingRoute.isDefault,
+    });
+  });
+};
+
+// Like setEdgeRoute, but an edge left with nothing to route is removed
+export const narrowEdgeRoute = (edges: Edge[], edgeId: string, route: EdgeRoute): Edge[] =>
+  isRouteEmpty(route) ? edges.filter(edge => edge.id !== edgeId) : setEdgeRoute(edges, edgeId, route);
+
+// Update the route from one node to another, drawing the edge if there isn't one
+export const updateRouteBetween = (
+  edges: Edge[],
+  source: string,
+  target: string,
+  update: (route: EdgeRoute) => EdgeRoute | undefined
+): Edge[] => {
+  const existing = edges.find(edge => edge.source === source && edge.target === target);
+  const edge: Edge = existing ?? { id: `e-${source}-${target}`, source, target };
+  const withEdge = existing ? edges : [...edges, edge];
+  return setEdgeRoute(withEdge, edge.id, update({ ...getEdgeRoute(edge) }));
+};
+
+// Add a condition from one node to another, checked after the existing ones.
+// It gets an edge of its own (drawn beside any edge that already holds a
+// condition), so conditions checked in between still come first.
+export const addConditionRoute = (edges: Edge[], source: string, target: string, condition: string): Edge[] => {
+  const existing = edges.find(edge => edge.source === source && edge.target === target && !getEdgeRoute(edge)?.condition?.trim());
+  if (existing) return setEdgeRoute(edges, existing.id, { ...getEdgeRoute(existing), condition });
+
+  let id = `e-${source}-${target}`;
+  for (let suffix = 2; edges.some(edge => edge.id === id); suffix++) {
+    id = `e-${source}-${target}-${suffix}`;
+  }
+  return setEdgeRoute([...edges, { id, source, target }], id, { condition });
+};
+
+// Swap a condition with the one checked before (-1) or after (1) it
+export const moveCondition = (edges: Edge[], edgeId: string, offset: -1 | 1): Edge[] => {
+  const edge = edges.find(item => item.id === edgeId);
+  if (!edge) return edges;
+
+  const ordered = conditionEdges(edges, edge.source);
+  const index = ordered.findIndex(item => item.id === edgeId);
+  const other = ordered[index + offset];
+  if (index === -1 || !other) return edges;
+
+  const orders = new Map(ordered.map((item, position) => [item.id, position]));
+  orders.set(edgeId, index + offset);
+  orders.set(other.id, index);
+  return edges.map(item => {
+    const order = orders.get(item.id);
+    const route = getEdgeRoute(item);
+    return order !== undefined && route ? withRoute(item, { ...route, order }) : item;
+  });
+};
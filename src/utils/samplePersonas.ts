@@ -0,0 +1,185 @@
+// The personas every project started with
+// Seeded into projects saved before personas were stored with the project, and
+// offered again when a project has none. Answers are keyed by the slugs of the
+// bundled default flow.
+
+import type { Persona } from '../types/flow';
+
+const school = (name: string, program: string, studying: string, graduating: string, otherSchooling: string) => ({
+  'field-1': name,
+  'field-2': program,
+  'field-3': studying,
+  'field-4': graduating,
+  'field-5': otherSchooling,
+});
+
+export const samplePersonas: Persona[] = [
+  {
+    id: 'user1', name: 'Sarah Chen', age: 22, segment: 'graduate', track: 'clarity',
+    description: 'Ambitious tech enthusiast',
+    answers: {
+      '00.02.01': ["I'm about to graduate or just did."],
+      '00.03.01': ['Finding career clarity', 'Making valuable professional connections'],
+      '00.04.01': ['Getting a Job', 'Career Growth', 'Networking Opportunities'],
+      '00.05.01': school('UC Berkeley', 'Undergraduate', 'Computer Science', 'May 2025', 'no'),
+      '01.01.01': 'Writing code',
+      '01.02.02': 'Technology',
+      '01.03.02': 'Highly Flexible',
+      '01.04.01': 'Bustling City',
+    },
+  },
+  {
+    id: 'user2', name: 'Marcus Rodriguez', age: 24, segment: 'student', track: 'clarity',
+    description: 'Creative problem solver',
+    answers: {
+      '00.02.01': ["I'm not certain about my professional future."],
+      '00.03.01': ['Finding career clarity', 'Career coaching and mentorship'],
+      '00.04.01': ['Finding the right career', 'Personal Growth'],
+      '00.05.01': school('Parsons School of Design', 'Graduate', 'Product Design', 'December 2025', 'yes - completed'),
+      '01.01.06': 'Prototyping',
+      '01.02.03': 'Social Impact',
+      '01.03.03': 'Innovative',
+      '01.04.03': 'Vibrant arts & culture',
+    },
+  },
+  {
+    id: 'user3', name: 'Emily Watson', age: 26, segment: 'mid-career', track: 'connections',
+    description: 'Analytical team leader',
+    answers: {
+      '00.02.01': ["I've got career experience."],
+      '00.03.01': ['Career coaching and mentorship'],
+      '00.04.01': ['Leadership Development', 'Career Growth'],
+      '00.05.01': school('University of Michigan', 'Graduate', 'Business Analytics', 'May 2026', 'yes - completed'),
+      '01.01.04': 'Reliability',
+      '01.03.01': 'Collaborative Spaces',
+      '01.03.02': 'Moderately Flexible',
+      '01.05.02': '$1000-$1500',
+    },
+  },
+  {
+    id: 'user4', name: 'David Kim', age: 23, segment: 'student', track: 'connections',
+    description: 'Innovative startup founder',
+    answers: {
+      '00.02.01': ["I'm confident about my professional future."],
+      '00.03.01': ['Making valuable professional connections'],
+      '00.04.01': ['Networking Opportunities', 'Leadership Development', 'Personal Growth'],
+      '00.05.01': school('Stanford University', 'Undergraduate', 'Entrepreneurship', 'June 2025', 'yes - planned'),
+      '01.01.06': 'Prototyping',
+      '01.02.04': 'Innovators',
+      '01.03.02': 'Highly Flexible',
+      '01.04.01': 'Bustling City',
+    },
+  },
+  {
+    id: 'user5', name: 'Jessica Patel', age: 25, segment: 'mid-career', track: 'visibility',
+    description: 'Strategic communicator',
+    answers: {
+      '00.02.01': ["I've got career experience."],
+      '00.03.01': ['Creating an authentic professional profile', 'Making valuable professional connections'],
+      '00.04.01': ['Career Growth', 'Networking Opportunities'],
+      '00.05.01': school('Northwestern University', 'Graduate', 'Communications', 'June 2025', 'no'),
+      '01.01.03': 'Public Speaking',
+      '01.02.03': 'Social Impact',
+      '01.03.03': 'Formal',
+      '01.04.02': 'All 4 Seasons',
+    },
+  },
+  {
+    id: 'user6', name: 'Alex Thompson', age: 27, segment: 'mid-career', track: 'clarity',
+    description: 'Data-driven decision maker',
+    answers: {
+      '00.02.01': ["I've got career experience."],
+      '00.03.01': ['Help finding values-matched employer'],
+      '00.04.01': ['Getting a Job', 'Career Growth'],
+      '00.05.01': school('Georgia Tech', 'Certificate', 'Data Science', 'August 2025', 'yes - completed'),
+      '01.01.05': 'Reading research papers',
+      '01.02.06': 'Research & Discovery',
+      '01.03.02': 'Moderately Flexible',
+      '01.05.01': 'Major City',
+    },
+  },
+  {
+    id: 'user7', name: 'Maria Garcia', age: 24, segment: 'student', track: 'visibility',
+    description: 'Customer-focused designer',
+    answers: {
+      '00.02.01': ["I'm not certain about my professional future."],
+      '00.03.01': ['Creating an authentic professional profile', 'Help finding values-matched employer'],
+      '00.04.01': ['Finding the right career', 'Getting a Job'],
+      '00.05.01': school('Rhode Island School of Design', 'Undergraduate', 'Industrial Design', 'May 2025', 'no'),
+      '01.01.06': 'Prototyping',
+      '01.02.03': 'Social Impact',
+      '01.04.01': 'Scenic Area',
+      '01.04.03': 'Community oriented',
+    },
+  },
+  {
+    id: 'user8', name: 'James Wilson', age: 26, segment: 'mid-career', track: 'connections',
+    description: 'Results-oriented manager',
+    answers: {
+      '00.02.01': ["I'm confident about my professional future."],
+      '00.03.01': ['Career coaching and mentorship'],
+      '00.04.01': ['Leadership Development', 'Career Growth', 'Getting a Job'],
+      '00.05.01': school('University of Texas', 'Graduate', 'MBA', 'May 2025', 'yes - completed'),
+      '01.01.04': 'Reliability',
+      '01.03.02': 'Fixed Schedules & Locations',
+      '01.03.03': 'Formal',
+      '01.05.02': '$1500-$2000',
+    },
+  },
+  {
+    id: 'user9', name: 'Lisa Anderson', age: 25, segment: 'student', track: 'connections',
+    description: 'Collaborative team player',
+    answers: {
+      '00.02.01': ["I'm not certain about my professional future."],
+      '00.03.01': ['Making valuable professional connections', 'Career coaching and mentorship'],
+      '00.04.01': ['Finding the right career', 'Networking Opportunities'],
+      '00.05.01': school('University of Washington', 'Undergraduate', 'Psychology', 'June 2025', 'yes - planned'),
+      '01.03.01': 'Collaborative Spaces',
+      '01.03.02': 'Moderately Flexible',
+      '01.04.01': 'Peaceful Suburb',
+      '01.04.03': 'Community oriented',
+    },
+  },
+  {
+    id: 'user10', name: "Ryan O'Connor", age: 23, segment: 'graduate', track: 'clarity',
+    description: 'Adaptive quick learner',
+    answers: {
+      '00.02.01': ["I'm about to graduate or just did."],
+      '00.03.01': ['Finding career clarity'],
+      '00.04.01': ['Finding the right career', 'Getting a Job', 'Personal Growth'],
+      '00.05.01': school('Boston College', 'Undergraduate', 'Economics', 'May 2025', 'no'),
+      '01.01.02': 'Learning new tools quickly',
+      '01.02.02': 'Technology',
+      '01.03.02': 'Highly Flexible',
+      '01.05.03': '$0-$50',
+    },
+  },
+  {
+    id: 'user11', name: 'Amanda Foster', age: 28, segment: 'mid-career', track: 'connections',
+    description: 'Experienced mentor',
+    answers: {
+      '00.02.01': ["I've got career experience."],
+      '00.03.01': ['Career coaching and mentorship', 'Help finding values-matched employer'],
+      '00.04.01': ['Leadership Development', 'Personal Growth'],
+      '00.05.01': school('Columbia University', 'Other', 'Education Leadership', 'Graduated 2019', 'yes - completed'),
+      '01.01.03': 'Public Speaking',
+      '01.02.05': 'Philosophy',
+      '01.03.03': 'Formal',
+      '01.04.02': 'Cool & Temperate',
+    },
+  },
+  {
+    id: 'user12', name: 'Kevin Zhang', age: 24, segment: 'graduate', track: 'clarity',
+    description: 'Technical innovator',
+    answers: {
+      '00.02.01': ["I'm about to graduate or just did."],
+      '00.03.01': ['Finding career clarity', 'Making valuable professional connections'],
+      '00.04.01': ['Getting a Job', 'Career Growth'],
+      '00.05.01': school('Carnegie Mellon University', 'Graduate', 'Robotics', 'May 2025', 'no'),
+      '01.01.06': 'Prototyping',
+      '01.02.04': 'Innovators',
+      '01.02.06': 'Research & Discovery',
+      '01.03.03': 'Innovative',
+    },
+  },
+];
@@ -0,0 +1,144 @@
+// Named checkpoints and periodic auto-snapshots of a project's state
+// Snapshot data is the same JSON AppStorage.exportState produces, so a snapshot
+// can be restored, forked or diffed like any exported file.
+
+import { appStorage, type AppState, type AppStorage, type SnapshotRecord } from './storage';
+
+export type SnapshotMeta = Omit<SnapshotRecord, 'data'>;
+
+// Retention limits per project. Auto-snapshots are pruned before named ones.
+export const SNAPSHOT_LIMITS = {
+  maxNamed: 50,
+  maxAuto: 20,
+  // localStorage shares ~5 MB with the live state, IndexedDB has far more room
+  maxBytes: {
+    localStorage: 2 * 1024 * 1024,
+    indexedDB: 50 * 1024 * 1024,
+  },
+  // Minimum time between auto-snapshots
+  autoInterval: 10 * 60 * 1000,
+};
+
+const byNewestFirst = (a: SnapshotMeta, b: SnapshotMeta) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+// Snapshots taken in the same millisecond (a "Before restoring" snapshot and
+// an auto one) still get their own ids
+let snapshotCount = 0;
+
+const toMeta = ({ id, name, kind, createdAt, size }: SnapshotRecord): SnapshotMeta =>
+  ({ id, name, kind, createdAt, size });
+
+export class SnapshotManager {
+  private storage: AppStorage;
+
+  constructor(storage: AppStorage) {
+    this.storage = storage;
+  }
+
+  // Snapshots of the storage's current project, newest first
+  async listSnapshots(): Promise<SnapshotMeta[]> {
+    const records = await this.storage.listSnapshotRecords();
+    return records.map(toMeta).sort(byNewestFirst);
+  }
+
+  async createSnapshot(
+    state: Partial<AppState>,
+    name: string,
+    kind: SnapshotMeta['kind'] = 'named'
+  ): Promise<SnapshotMeta> {
+    const data = await this.storage.exportState(state);
+    const record: SnapshotRecord = {
+      id: `snapshot-${Date.now()}-${++snapshotCount}`,
+      name: name.trim() || 'Untitled snapshot',
+      kind,
+      createdAt: new Date().toISOString(),
+      size: new Blob([data]).size,
+      data,
+    };
+
+    await this.storage.putSnapshotRecord(record);
+    await this.enforceRetention(record.id);
+
+    console.log(`Snapshot "${record.name}" created`);
+    return toMeta(record);
+  }
+
+  // Take an auto-snapshot unless one was taken recently
+  async createAutoSnapshotIfDue(state: Partial<AppState>): Promise<SnapshotMeta | null> {
+    const snapshots = await this.listSnapshots();
+    const lastAuto = snapshots.find(snapshot => snapshot.kind === 'auto');
+    if (lastAuto && Date.now() - new Date(lastAuto.createdAt).getTime() < SNAPSHOT_LIMITS.autoInterval) {
+      return null;
+    }
+    return this.createSnapshot(state, 'Auto-save', 'auto');
+  }
+
+  // Serialized snapshot data, ready for AppStorage.importState
+  async getSnapshotData(snapshotId: string): Promise<string> {
+    const record = await this.storage.getSnapshotRecord(snapshotId);
+    if (!record) {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+    return record.data;
+  }
+
+  async renameSnapshot(snapshotId: string, name: string): Promise<void> {
+    const record = await this.storage.getSnapshotRecord(snapshotId);
+    if (!record) {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Snapshot name cannot be empty');
+    }
+    // Renaming a checkpoint marks it as worth keeping
+    await this.storage.putSnapshotRecord({ ...record, name: trimmed, kind: 'named' });
+  }
+
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    await this.storage.deleteSnapshotRecords([snapshotId]);
+  }
+
+  // Drop the oldest snapshots over the count and size limits. The snapshot
+  // that was just taken is always kept.
+  private async enforceRetention(keepId: string): Promise<void> {
+    const snapshots = await this.listSnapshots();
+    const toDelete = new Set<string>();
+
+    const overCount = (kind: SnapshotMeta['kind'], max: number) => {
+      snapshots
+        .filter(snapshot => snapshot.kind === kind)
+        .slice(max)
+        .forEach(snapshot => toDelete.add(snapshot.id));
+    };
+    overCount('auto', SNAPSHOT_LIMITS.maxAuto);
+    overCount('named', SNAPSHOT_LIMITS.maxNamed);
+
+    const maxBytes = SNAPSHOT_LIMITS.maxBytes[this.storage.getStorageType()];
+    let totalBytes = snapshots
+      .filter(snapshot => !toDelete.has(snapshot.id))
+      .reduce((total, snapshot) => total + snapshot.size, 0);
+
+    // Oldest auto-snapshots go first, then oldest named ones
+    const evictionOrder = [
+      ...snapshots.filter(snapshot => snapshot.kind === 'auto').reverse(),
+      ...snapshots.filter(snapshot => snapshot.kind === 'named').reverse(),
+    ];
+    for (const snapshot of evictionOrder) {
+      if (totalBytes <= maxBytes) break;
+      if (snapshot.id === keepId || toDelete.has(snapshot.id)) continue;
+      toDelete.add(snapshot.id);
+      totalBytes -= snapshot.size;
+    }
+
+    toDelete.delete(keepId);
+    if (toDelete.size > 0) {
+      await this.storage.deleteSnapshotRecords([...toDelete]);
+      console.log(`Pruned ${toDelete.size} old snapshot(s)`);
+    }
+  }
+}
+
+// Create singleton instance - follows the active project along with appStorage
+export const snapshotManager = new SnapshotManager(appStorage);
@@ -1,5 +1,8 @@
 // Storage utility for saving/loading app state
-// Supports both Local Storage and IndexedDB (future enhancement)
+// Supports both Local Storage and IndexedDB
+
+import { CURRENT_STATE_VERSION, UnsupportedStateVersionError, migrateState, type RawState } from './migrations';
+import type { Persona } from '../types/flow';
 
 export interface AppState {
   // Canvas state
@@ -10,30 +13,86 @@ export interface AppState {
   // Chat state
   messages: any[];
   orphanMessageIds: string[];
+
+  // Test personas
+  personas: Persona[];
   
   // Metadata
   lastSaved: Date;
   version: string;
 }
 
+// Shape of the state once components have been flattened for persistence
+export type SerializedAppState = Omit<AppState, 'components' | 'lastSaved'> & {
+  components: Record<string, unknown>;
+  lastSaved: Date | string;
+};
+
+// A checkpoint of a project's state, serialized with exportState
+export interface SnapshotRecord {
+  id: string;
+  name: string;
+  kind: 'named' | 'auto';
+  createdAt: string;
+  size: number; // bytes of serialized data
+  data: string;
+}
+
+export interface StorageInfo {
+  type: 'localStorage' | 'indexedDB';
+  size: number;  // bytes used
+  quota: number; // bytes available to this origin (0 if unknown)
+  available: boolean;
+}
+
 export interface StorageOptions {
   autoSave?: boolean;
   saveInterval?: number; // milliseconds
   storageType?: 'localStorage' | 'indexedDB';
+  projectId?: string;
 }
 
-class AppStorage {
+// The default project keeps the original single-project storage key so state
+// saved before projects existed shows up as the default project
+export const DEFAULT_PROJECT_ID = 'default';
+
+export class AppStorage {
   private autoSave: boolean;
   private saveInterval: number;
   private storageType: 'localStorage' | 'indexedDB';
   private autoSaveTimer: number | null = null;
-  private readonly STORAGE_KEY = 'the-tool-app-state';
-  private readonly VERSION = '1.0.0';
+  private projectId: string;
+  private readonly BASE_STORAGE_KEY = 'the-tool-app-state';
+  private readonly VERSION = CURRENT_STATE_VERSION;
+  private readonly DB_VERSION = 2; // 2: snapshots store
+  // Browsers commonly cap localStorage at ~5 MB per origin
+  private readonly LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
 
   constructor(options: StorageOptions = {}) {
     this.autoSave = options.autoSave ?? true;
     this.saveInterval = options.saveInterval ?? 30000; // 30 seconds
     this.storageType = options.storageType ?? 'localStorage';
+    this.projectId = options.projectId ?? DEFAULT_PROJECT_ID;
+  }
+
+  // localStorage key and IndexedDB database name for the current project
+  private get storageKey(): string {
+    return this.projectId === DEFAULT_PROJECT_ID
+      ? this.BASE_STORAGE_KEY
+      : `${this.BASE_STORAGE_KEY}:${this.projectId}`;
+  }
+
+  getProjectId(): string {
+    return this.projectId;
+  }
+
+  getStorageType(): 'localStorage' | 'indexedDB' {
+    return this.storageType;
+  }
+
+  // Point saves and loads at another project
+  setProject(projectId: string): void {
+    this.projectId = projectId;
   }
 
   // Convert Map to serializable object
@@ -54,6 +113,19 @@ class AppStorage {
     return components;
   }
 
+  // Run schema migrations, then rebuild the in-memory shape
+  deserializeState(parsedState: SerializedAppState | RawState): AppState {
+    const migratedState = migrateState(parsedState as RawState) as unknown as SerializedAppState;
+
+    return {
+      ...migratedState,
+      components: this.deserializeComponents(migratedState.components || {}),
+      orphanMessageIds: migratedState.orphanMessageIds || [],
+      personas: migratedState.personas || [],
+      lastSaved: new Date(migratedState.lastSaved),
+    };
+  }
+
   // Save app state
   async saveState(state: Partial<AppState>): Promise<void> {
     try {
@@ -63,6 +135,7 @@ class AppStorage {
         components: state.components || new Map(),
         messages: state.messages || [],
         orphanMessageIds: state.orphanMessageIds || [],
+        personas: state.personas || [],
         lastSaved: new Date(),
         version: this.VERSION,
       };
@@ -73,9 +146,8 @@ class AppStorage {
       };
 
       if (this.storageType === 'localStorage') {
-        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(serializedState));
+        localStorage.setItem(this.storageKey, JSON.stringify(serializedState));
       } else {
-        // IndexedDB implementation would go here
         await this.saveToIndexedDB(serializedState);
       }
 
@@ -89,38 +161,35 @@ class AppStorage {
   // Load app state
   async loadState(): Promise<AppState | null> {
     try {
-      let serializedState: string | null = null;
+      let parsedState: SerializedAppState | null = null;
 
       if (this.storageType === 'localStorage') {
-        serializedState = localStorage.getItem(this.STORAGE_KEY);
+        parsedState = this.loadFromLocalStorage();
       } else {
-        // IndexedDB implementation would go here
-        serializedState = await this.loadFromIndexedDB();
+        parsedState = await this.loadFromIndexedDB();
+
+        // Fall back to a state saved before IndexedDB was enabled so no work is lost
+        if (!parsedState) {
+          parsedState = this.loadFromLocalStorage();
+        }
       }
 
-      if (!serializedState) {
+      if (!parsedState) {
         console.log('No saved state found');
         return null;
       }
-
-      const parsedState = JSON.parse(serializedState);
       
-      // Validate version compatibility
-      if (parsedState.version !== this.VERSION) {
-        console.warn('Version mismatch, attempting to migrate...');
-        // Migration logic would go here
-      }
-
-      const state: AppState = {
-        ...parsedState,
-        components: this.deserializeComponents(parsedState.components),
-        lastSaved: new Date(parsedState.lastSaved),
-      };
+      const state = this.deserializeState(parsedState);
 
       console.log('App state loaded successfully');
       return state;
     } catch (error) {
       console.error('Failed to load app state:', error);
+      // Surface version errors instead of pretending nothing was saved,
+      // otherwise the next auto-save would overwrite the newer state
+      if (error instanceof UnsupportedStateVersionError) {
+        throw error;
+      }
       return null;
     }
   }
@@ -129,10 +198,11 @@ class AppStorage {
   async clearState(): Promise<void> {
     try {
       if (this.storageType === 'localStorage') {
-        localStorage.removeItem(this.STORAGE_KEY);
+        localStorage.removeItem(this.storageKey);
       } else {
-        // IndexedDB implementation would go here
         await this.clearIndexedDB();
+        // Also drop any pre-IndexedDB copy so it isn't picked up by the fallback
+        localStorage.removeItem(this.storageKey);
       }
       console.log('App state cleared successfully');
     } catch (error) {
@@ -141,16 +211,32 @@ class AppStorage {
     }
   }
 
+  // Remove everything stored for the current project, including the database itself
+  async deleteStorage(): Promise<void> {
+    localStorage.removeItem(this.storageKey);
+    localStorage.removeItem(this.snapshotsKey);
+
+    if (this.storageType === 'indexedDB') {
+      await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(this.storageKey);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB delete blocked by another open tab'));
+      });
+    }
+    console.log(`Storage for project ${this.projectId} deleted`);
+  }
+
   // Start auto-save functionality
-  startAutoSave(saveFunction: () => Partial<AppState>): void {
+  // The caller decides what (and whether) to save so it can skip unchanged state
+  startAutoSave(saveFunction: () => Promise<void>): void {
     if (!this.autoSave) return;
 
     this.stopAutoSave(); // Clear any existing timer
 
     this.autoSaveTimer = setInterval(async () => {
       try {
-        const state = saveFunction();
-        await this.saveState(state);
+        await saveFunction();
       } catch (error) {
         console.error('Auto-save failed:', error);
       }
@@ -176,6 +262,7 @@ class AppStorage {
       components: state.components || new Map(),
       messages: state.messages || [],
       orphanMessageIds: state.orphanMessageIds || [],
+      personas: state.personas || [],
       lastSaved: new Date(),
       version: this.VERSION,
     };
@@ -192,18 +279,7 @@ class AppStorage {
   async importState(jsonString: string): Promise<AppState> {
     try {
       const parsedState = JSON.parse(jsonString);
-      
-      // Validate version compatibility
-      if (parsedState.version !== this.VERSION) {
-        console.warn('Version mismatch, attempting to migrate...');
-        // Migration logic would go here
-      }
-
-      const state: AppState = {
-        ...parsedState,
-        components: this.deserializeComponents(parsedState.components),
-        lastSaved: new Date(parsedState.lastSaved),
-      };
+      const state = this.deserializeState(parsedState);
 
       // Save the imported state
       await this.saveState(state);
@@ -216,46 +292,270 @@ class AppStorage {
     }
   }
 
-  // Placeholder methods for IndexedDB (future enhancement)
-  private async saveToIndexedDB(_state: any): Promise<void> {
-    // IndexedDB implementation would go here
-    throw new Error('IndexedDB not implemented yet');
+  private loadFromLocalStorage(): SerializedAppState | null {
+    const serializedState = localStorage.getItem(this.storageKey);
+    return serializedState ? JSON.parse(serializedState) : null;
+  }
+
+  // IndexedDB layout: one database per storage key, with nodes, edges,
+  // components and messages each in their own object store. Arrays are keyed
+  // by position so their order survives a round trip; components are keyed by
+  // component ID. Everything else lives in the "meta" store. Snapshots are
+  // keyed by snapshot ID in their own store.
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.storageKey, this.DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        ['nodes', 'edges', 'components', 'messages', 'meta', 'snapshots'].forEach(storeName => {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName);
+          }
+        });
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+    });
+  }
+
+  private requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
   }
 
-  private async loadFromIndexedDB(): Promise<string | null> {
-    // IndexedDB implementation would go here
-    throw new Error('IndexedDB not implemented yet');
+  private transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  private async saveToIndexedDB(state: SerializedAppState): Promise<void> {
+    const db = await this.openDatabase();
+    try {
+      const transaction = db.transaction(['nodes', 'edges', 'components', 'messages', 'meta'], 'readwrite');
+      const done = this.transactionDone(transaction);
+
+      // Replace the previous contents in a single transaction so a failed save
+      // never leaves a half-written state behind
+      const writeList = (storeName: string, items: unknown[]) => {
+        const store = transaction.objectStore(storeName);
+        store.clear();
+        items.forEach((item, index) => store.put(item, index));
+      };
+
+      writeList('nodes', state.nodes);
+      writeList('edges', state.edges);
+      writeList('messages', state.messages);
+
+      const componentStore = transaction.objectStore('components');
+      componentStore.clear();
+      Object.entries(state.components).forEach(([key, component]) => {
+        componentStore.put(component, key);
+      });
+
+      transaction.objectStore('meta').put({
+        orphanMessageIds: state.orphanMessageIds,
+        personas: state.personas,
+        lastSaved: state.lastSaved,
+        version: state.version,
+      }, 'state');
+
+      await done;
+    } finally {
+      db.close();
+    }
+  }
+
+  private async loadFromIndexedDB(): Promise<SerializedAppState | null> {
+    const db = await this.openDatabase();
+    try {
+      const transaction = db.transaction(['nodes', 'edges', 'components', 'messages', 'meta'], 'readonly');
+
+      const meta = await this.requestToPromise(transaction.objectStore('meta').get('state'));
+      if (!meta) {
+        return null;
+      }
+
+      const componentStore = transaction.objectStore('components');
+      const [nodes, edges, messages, componentKeys, componentValues] = await Promise.all([
+        this.requestToPromise(transaction.objectStore('nodes').getAll()),
+        this.requestToPromise(transaction.objectStore('edges').getAll()),
+        this.requestToPromise(transaction.objectStore('messages').getAll()),
+        this.requestToPromise(componentStore.getAllKeys()),
+        this.requestToPromise(componentStore.getAll()),
+      ]);
+
+      const components: Record<string, unknown> = {};
+      componentKeys.forEach((key, index) => {
+        components[String(key)] = componentValues[index];
+      });
+
+      return {
+        nodes,
+        edges,
+        components,
+        messages,
+        orphanMessageIds: meta.orphanMessageIds || [],
+        personas: meta.personas || [],
+        lastSaved: meta.lastSaved,
+        version: meta.version,
+      };
+    } finally {
+      db.close();
+    }
   }
 
   private async clearIndexedDB(): Promise<void> {
-    // IndexedDB implementation would go here
-    throw new Error('IndexedDB not implemented yet');
+    const db = await this.openDatabase();
+    try {
+      const transaction = db.transaction(['nodes', 'edges', 'components', 'messages', 'meta'], 'readwrite');
+      const done = this.transactionDone(transaction);
+      ['nodes', 'edges', 'components', 'messages', 'meta'].forEach(storeName => {
+        transaction.objectStore(storeName).clear();
+      });
+      await done;
+    } finally {
+      db.close();
+    }
+  }
+
+  // Snapshots are kept apart from the live state so clearing the canvas keeps
+  // its history. localStorage keeps them all under one key.
+  private get snapshotsKey(): string {
+    return `${this.storageKey}:snapshots`;
+  }
+
+  private loadSnapshotsFromLocalStorage(): SnapshotRecord[] {
+    const serialized = localStorage.getItem(this.snapshotsKey);
+    return serialized ? JSON.parse(serialized) : [];
+  }
+
+  async listSnapshotRecords(): Promise<SnapshotRecord[]> {
+    if (this.storageType === 'localStorage') {
+      return this.loadSnapshotsFromLocalStorage();
+    }
+
+    const db = await this.openDatabase();
+    try {
+      const transaction = db.transaction('snapshots', 'readonly');
+      return await this.requestToPromise(transaction.objectStore('snapshots').getAll());
+    } finally {
+      db.close();
+    }
+  }
+
+  async getSnapshotRecord(snapshotId: string): Promise<SnapshotRecord | null> {
+    if (this.storageType === 'localStorage') {
+      return this.loadSnapshotsFromLocalStorage().find(record => record.id === snapshotId) ?? null;
+    }
+
+    const db = await this.openDatabase();
+    try {
+      const transaction = db.transaction('snapshots', 'readonly');
+      const record = await this.requestToPromise(transaction.objectStore('snapshots').get(snapshotId));
+      return record ?? null;
+    } finally {
+      db.close();
+    }
+  }
+
+  async putSnapshotRecord(record: SnapshotRecord): Promise<void> {
+    if (this.storageType === 'localStorage') {
+      const records = this.loadSnapshotsFromLocalStorage().filter(existing => existing.id !== record.id);
+      localStorage.setItem(this.snapshotsKey, JSON.stringify([...records, record]));
+      return;
+    }
+
+    const db = await this.openDatabase();
+    try {
+      const transaction = db.transaction('snapshots', 'readwrite');
+      const done = this.transactionDone(transaction);
+      transaction.objectStore('snapshots').put(record, record.id);
+      await done;
+    } finally {
+      db.close();
+    }
+  }
+
+  async deleteSnapshotRecords(snapshotIds: string[]): Promise<void> {
+    if (snapshotIds.length === 0) return;
+
+    if (this.storageType === 'localStorage') {
+      const records = this.loadSnapshotsFromLocalStorage().filter(record => !snapshotIds.includes(record.id));
+      localStorage.setItem(this.snapshotsKey, JSON.stringify(records));
+      return;
+    }
+
+    const db = await this.openDatabase();
+    try {
+      const transaction = db.transaction('snapshots', 'readwrite');
+      const done = this.transactionDone(transaction);
+      const store = transaction.objectStore('snapshots');
+      snapshotIds.forEach(snapshotId => store.delete(snapshotId));
+      await done;
+    } finally {
+      db.close();
+    }
   }
 
   // Get storage info
-  getStorageInfo(): { type: string; size: number; available: boolean } {
+  async getStorageInfo(): Promise<StorageInfo> {
     if (this.storageType === 'localStorage') {
-      const used = new Blob([localStorage.getItem(this.STORAGE_KEY) || '']).size;
+      const used = new Blob([
+        localStorage.getItem(this.storageKey) || '',
+        localStorage.getItem(this.snapshotsKey) || '',
+      ]).size;
       return {
         type: 'localStorage',
         size: used,
+        quota: this.LOCAL_STORAGE_QUOTA,
+        available: true,
+      };
+    }
+
+    // The StorageManager estimate covers the whole origin, which is the
+    // number that matters for hitting the quota
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      const estimate = await navigator.storage.estimate();
+      return {
+        type: 'indexedDB',
+        size: estimate.usage ?? 0,
+        quota: estimate.quota ?? 0,
         available: true,
       };
     }
-    
+
     return {
       type: 'indexedDB',
       size: 0,
-      available: false,
+      quota: 0,
+      available: typeof indexedDB !== 'undefined',
     };
   }
 }
 
+const defaultStorageType = typeof indexedDB !== 'undefined' ? 'indexedDB' : 'localStorage';
+
 // Create singleton instance
 export const appStorage = new AppStorage({
   autoSave: true,
-  saveInterval: 30000, // 30 seconds
-  storageType: 'localStorage',
+  saveInterval: 5000, // 5 seconds - callers skip the save when nothing changed
+  storageType: defaultStorageType,
 });
 
+// Standalone storage for a project other than the active one (duplicating, deleting)
+export const createProjectStorage = (projectId: string): AppStorage =>
+  new AppStorage({
+    autoSave: false,
+    storageType: defaultStorageType,
+    projectId,
+  });
+
 export default AppStorage; 
\ No newline at end of file
@@ -0,0 +1,97 @@
+// Answer variables and {{template}} interpolation
+// An answerable component can store its answer under a variable name
+// (ComponentData.variable, or FormField.variable per form field). The text a
+// component shows refers to stored answers as {{top_strengths}}, and to the
+// persona being previewed as {{user.name}}.
+
+import { variableName } from './conditions';
+import type { ConditionContext, ConditionValue } from './conditions';
+import { segmentLabels, trackLabels } from './personas';
+import { toolTypeRegistry } from '../toolTypes';
+import type { ComponentData, Persona } from '../types/flow';
+
+export const USER_VARIABLES = ['user.name', 'user.age', 'user.segment', 'user.track'];
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Every variable the flow stores, with the components that store it
+export const declaredVariables = (components: Map<string, ComponentData>): Map<string, ComponentData[]> => {
+  const declared = new Map<string, ComponentData[]>();
+  const add = (name: string | undefined, component: ComponentData) => {
+    if (!name?.trim()) return;
+    const storing = declared.get(name) ?? [];
+    if (!storing.includes(component)) declared.set(name, [...storing, component]);
+  };
+
+  components.forEach(component => {
+    toolTypeRegistry.storedVariables(component).forEach(name => add(name, component));
+    (component.content.form?.fields ?? []).forEach(field => add(field.variable, component));
+  });
+  return declared;
+};
+
+// Names a template can use: stored answers, the persona, and the answer names
+// conditions use (see buildConditionContext)
+export const templateVariables = (components: Map<string, ComponentData>): Set<string> => {
+  const names = new Set([...USER_VARIABLES, ...declaredVariables(components).keys()]);
+  components.forEach(component => {
+    const prefix = variableName(component.name);
+    names.add(prefix);
+    toolTypeRegistry.answerFields(component).forEach(field => names.add(`${prefix}.${field}`));
+  });
+  return names;
+};
+
+// The persona's own details, for {{user.*}}
+export const personaVariables = (persona: Persona | undefined): ConditionContext =>
+  persona
+    ? {
+        'user.name': persona.name,
+        'user.age': persona.age,
+        'user.segment': segmentLabels[persona.segment],
+        'user.track': trackLabels[persona.track],
+      }
+    : {};
+
+// Text a component shows that may hold {{references}}
+export const templatedTexts = (component: ComponentData): string[] => {
+  const { celebrationModal } = component.content;
+  return [
+    ...toolTypeRegistry.templatedTexts(component),
+    celebrationModal?.title,
+    celebrationModal?.content,
+    celebrationModal?.description,
+    celebrationModal?.callToActionText,
+  ].filter((text): text is string => !!text);
+};
+
+export const templateReferences = (text: string): string[] =>
+  [...new Set([...text.matchAll(TEMPLATE_PATTERN)].map(match => match[1]))];
+
+export const formatVariable = (value: ConditionValue): string | undefined => {
+  if (value === undefined) return undefined;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : undefined;
+  return String(value) || undefined;
+};
+
+export type TemplatePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string; value: string | undefined };
+
+// Split text into plain runs and references, with each reference's value
+export const parseTemplate = (text: string, context: ConditionContext): TemplatePart[] => {
+  const parts: TemplatePart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TEMPLATE_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ kind: 'text', text: text.slice(last, start) });
+    parts.push({ kind: 'variable', name: match[1], value: formatVariable(context[match[1]]) });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({ kind: 'text', text: text.slice(last) });
+  return parts;
+};
+
+// References without a value are left as they were written
+export const interpolate = (text: string, context: ConditionContext): string =>
+  text.replace(TEMPLATE_PATTERN, (reference, name: string) => formatVariable(context[name]) ?? reference);
@@ -0,0 +1,440 @@
+// Static checks over the flow for the problems panel
+// Looks at nodes, edges and components together, so it catches what no
+// single edit window can see: duplicate slugs, loops nobody can leave,
+// routes that don't cover every answer.
+
+import type { Edge } from '@xyflow/react';
+import { conditionVariables, parseCondition } from './conditions';
+import { isImageAvailable } from './imageLibrary';
+import { availableVariables } from './interpreter';
+import type { FlowGraph } from './interpreter';
+import { getEdgeRoute, isRoutingComponent, routeLabel, routeOptions } from './routing';
+import { declaredVariables, templateReferences, templateVariables, templatedTexts } from './templates';
+import { toolTypeRegistry } from '../toolTypes';
+import type { CardNode, ComponentData } from '../types/flow';
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export type ProblemCode =
+  | 'missingComponent'   // node or edge points at something that doesn't exist
+  | 'emptySlug'
+  | 'duplicateSlug'
+  | 'disconnected'       // node without any connections
+  | 'unreachable'        // no path from a start node
+  | 'endlessLoop'        // cycle without an edge out of it
+  | 'brokenCondition'    // condition doesn't parse
+  | 'unknownVariable'    // condition names an answer that doesn't exist
+  | 'missingOption'      // route for an option that was removed
+  | 'unroutedOption'     // option the routing doesn't cover
+  | 'unroutedConnection' // plain connection beside routed ones, e.g. one whose route moved elsewhere
+  | 'unresolvedRoute'    // legacy route whose destination slug matches no component
+  | 'selfLoop'           // connection back into the component it starts at
+  | 'noRequiredFields'
+  | 'missingImage'
+  | 'undefinedVariable'  // {{reference}} in text that nothing stores
+  | 'duplicateVariable'; // two components store answers under one name
+
+export interface FlowProblem {
+  id: string; // stable across runs, for list keys
+  severity: ProblemSeverity;
+  code: ProblemCode;
+  message: string;
+  componentId?: string; // where the problem is, to focus it on the canvas
+}
+
+const nameOf = (component: ComponentData | undefined, node?: CardNode) =>
+  component?.name || (node ? `Node ${node.id}` : 'Unknown component');
+
+const checkSlugs = (nodes: CardNode[], components: Map<string, ComponentData>): FlowProblem[] => {
+  const problems: FlowProblem[] = [];
+  const bySlug = new Map<string, ComponentData[]>();
+  const placed = new Set(nodes.map(node => node.data.componentId));
+
+  placed.forEach(componentId => {
+    const component = components.get(componentId);
+    if (!component) return;
+
+    const slug = component.slug.trim();
+    if (!slug) {
+      problems.push({
+        id: `emptySlug:${component.id}`,
+        severity: 'warning',
+        code: 'emptySlug',
+        message: `${nameOf(component)} has no slug`,
+        componentId: component.id,
+      });
+      return;
+    }
+    bySlug.set(slug, [...(bySlug.get(slug) ?? []), component]);
+  });
+
+  bySlug.forEach((sharing, slug) => {
+    if (sharing.length < 2) return;
+    sharing.forEach(component => {
+      problems.push({
+        id: `duplicateSlug:${component.id}`,
+        severity: 'error',
+        code: 'duplicateSlug',
+        message: `Slug ${slug} is used by ${sharing.map(item => item.name).join(', ')}`,
+        componentId: component.id,
+      });
+    });
+  });
+
+  return problems;
+};
+
+// Tarjan's strongly connected components
+const findCycles = (nodeIds: string[], edges: Edge[]): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (nodeId: string) => {
+    index.set(nodeId, counter);
+    lowLink.set(nodeId, counter);
+    counter++;
+    stack.push(nodeId);
+    onStack.add(nodeId);
+
+    edges.filter(edge => edge.source === nodeId).forEach(edge => {
+      if (!index.has(edge.target)) {
+        visit(edge.target);
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, lowLink.get(edge.target)!));
+      } else if (onStack.has(edge.target)) {
+        lowLink.set(nodeId, Math.min(lowLink.get(nodeId)!, index.get(edge.target)!));
+      }
+    });
+
+    if (lowLink.get(nodeId) === index.get(nodeId)) {
+      const members: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop();
+        if (member === undefined) break;
+        onStack.delete(member);
+        members.push(member);
+      } while (member !== nodeId);
+
+      const isLoop = members.length > 1 || edges.some(edge => edge.source === nodeId && edge.target === nodeId);
+      if (isLoop) cycles.push(members.reverse());
+    }
+  };
+
+  nodeIds.forEach(nodeId => {
+    if (!index.has(nodeId)) visit(nodeId);
+  });
+  return cycles;
+};
+
+const checkStructure = (nodes: CardNode[], edges: Edge[], components: Map<string, ComponentData>): FlowProblem[] => {
+  const problems: FlowProblem[] = [];
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+
+  nodes.forEach(node => {
+    if (!components.has(node.data.componentId)) {
+      problems.push({
+        id: `missingComponent:${node.id}`,
+        severity: 'error',
+        code: 'missingComponent',
+        message: `Node ${node.id} points at component ${node.data.componentId}, which doesn't exist`,
+        componentId: node.data.componentId,
+      });
+    }
+  });
+
+  const validEdges = edges.filter(edge => {
+    if (nodeById.has(edge.source) && nodeById.has(edge.target)) return true;
+    const source = nodeById.get(edge.source);
+    problems.push({
+      id: `missingComponent:${edge.id}`,
+      severity: 'error',
+      code: 'missingComponent',
+      message: source
+        ? `${nameOf(components.get(source.data.componentId), source)} connects to a node that doesn't exist`
+        : `Connection ${edge.id} starts at a node that doesn't exist`,
+      componentId: source?.data.componentId,
+    });
+    return false;
+  });
+
+  // Start nodes as the preview sees them: nothing leads in
+  const hasIncoming = new Set(validEdges.map(edge => edge.target));
+  const hasOutgoing = new Set(validEdges.map(edge => edge.source));
+  const connected = nodes.filter(node => hasIncoming.has(node.id) || hasOutgoing.has(node.id));
+  const starts = connected.filter(node => !hasIncoming.has(node.id));
+
+  if (nodes.length > 1) {
+    nodes
+      .filter(node => !hasIncoming.has(node.id) && !hasOutgoing.has(node.id))
+      .forEach(node => {
+        problems.push({
+          id: `disconnected:${node.id}`,
+          severity: 'warning',
+          code: 'disconnected',
+          message: `${nameOf(components.get(node.data.componentId), node)} isn't connected to the flow`,
+          componentId: node.data.componentId,
+        });
+      });
+  }
+
+  const reached = new Set<string>();
+  const queue = starts.map(node => node.id);
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (reached.has(nodeId)) continue;
+    reached.add(nodeId);
+    validEdges.filter(edge => edge.source === nodeId).forEach(edge => queue.push(edge.target));
+  }
+  connected
+    .filter(node => !reached.has(node.id))
+    .forEach(node => {
+      problems.push({
+        id: `unreachable:${node.id}`,
+        severity: 'warning',
+        code: 'unreachable',
+        message: `${nameOf(components.get(node.data.componentId), node)} can't be reached from any start`,
+        componentId: node.data.componentId,
+      });
+    });
+
+  findCycles(nodes.map(node => node.id), validEdges).forEach(cycle => {
+    const members = new Set(cycle);
+    const hasExit = validEdges.some(edge => members.has(edge.source) && !members.has(edge.target));
+    if (hasExit) return;
+
+    const names = cycle.map(nodeId => {
+      const node = nodeById.get(nodeId);
+      return nameOf(node && components.get(node.data.componentId), node);
+    });
+    const first = nodeById.get(cycle[0]);
+    problems.push({
+      id: `endlessLoop:${[...cycle].sort().join(',')}`,
+      severity: 'error',
+      code: 'endlessLoop',
+      message: `${[...names, names[0]].join(' → ')} loops with no way out`,
+      componentId: first?.data.componentId,
+    });
+  });
+
+  return problems;
+};
+
+const checkRouting = (nodes: CardNode[], edges: Edge[], components: Map<string, ComponentData>): FlowProblem[] => {
+  const problems: FlowProblem[] = [];
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+
+  nodes.forEach(node => {
+    const component = components.get(node.data.componentId);
+    if (!component) return;
+
+    const name = nameOf(component);
+    const options = routeOptions(component);
+    const outgoing = edges.filter(edge => edge.source === node.id);
+    const knownVariables = new Set(availableVariables(components, component.id));
+
+    (component.unresolvedRoutes ?? []).forEach((unresolved, index) => {
+      const label = routeLabel(unresolved.route, component);
+      problems.push({
+        id: `unresolvedRoute:${component.id}:${index}`,
+        severity: 'error',
+        code: 'unresolvedRoute',
+        message: `${name} routes ${label ? `"${label}" ` : ''}to "${unresolved.destinationSlug}", which matches no component`,
+        componentId: component.id,
+      });
+    });
+
+    outgoing.forEach(edge => {
+      const route = getEdgeRoute(edge);
+      // Other exits keep this out of the endless loop check, but the answers
+      // sent along it still get the same card again and again
+      if (edge.target === node.id) {
+        problems.push({
+          id: `selfLoop:${edge.id}`,
+          severity: 'warning',
+          code: 'selfLoop',
+          message: route
+            ? `${name} routes "${routeLabel(route, component)}" back to itself`
+            : `${name} connects back to itself`,
+          componentId: component.id,
+        });
+      }
+      if (!route) return;
+      const targetNode = nodeById.get(edge.target);
+      const targetName = nameOf(targetNode && components.get(targetNode.data.componentId), targetNode);
+
+      if (route.condition?.trim()) {
+        try {
+          const unknown = conditionVariables(parseCondition(route.condition)).filter(variable => !knownVariables.has(variable));
+          if (unknown.length > 0) {
+            problems.push({
+              id: `unknownVariable:${edge.id}`,
+              severity: 'warning',
+              code: 'unknownVariable',
+              message: `Condition "${route.condition}" on ${name} → ${targetName} uses unknown answer ${unknown.join(', ')}`,
+              componentId: component.id,
+            });
+          }
+        } catch (error) {
+          problems.push({
+            id: `brokenCondition:${edge.id}`,
+            severity: 'error',
+            code: 'brokenCondition',
+            message: `Condition "${route.condition}" on ${name} → ${targetName}: ${error instanceof Error ? error.message : String(error)}`,
+            componentId: component.id,
+          });
+        }
+      }
+
+      (route.options ?? [])
+        .filter(option => option.index >= options.length)
+        .forEach(option => {
+          problems.push({
+            id: `missingOption:${edge.id}:${option.index}`,
+            severity: 'warning',
+            code: 'missingOption',
+            message: `${name} routes "${option.text}" to ${targetName}, but that option no longer exists`,
+            componentId: component.id,
+          });
+        });
+    });
+
+    // A connection without a route next to routed ones is only a catch-all,
+    // which usually means its route was moved to another edge
+    const routes = outgoing.map(getEdgeRoute);
+    if (routes.some(Boolean)) {
+      outgoing
+        .filter(edge => !getEdgeRoute(edge))
+        .forEach(edge => {
+          const targetNode = nodeById.get(edge.target);
+          const targetName = nameOf(targetNode && components.get(targetNode.data.componentId), targetNode);
+          problems.push({
+            id: `unroutedConnection:${edge.id}`,
+            severity: 'warning',
+            code: 'unroutedConnection',
+            message: `${name} → ${targetName} has no route, so it's only followed when no route matches; give it one or make it "otherwise"`,
+            componentId: component.id,
+          });
+        });
+    }
+
+    // Once a component routes by option, every option needs somewhere to go
+    // unless "otherwise" or a plain connection catches the rest
+    const routesByOption = routes.some(route => route?.options?.length);
+    const hasFallback = routes.some(route => !route || route.isDefault);
+    if (isRoutingComponent(component) && routesByOption && !hasFallback) {
+      options
+        .filter(option => !routes.some(route => route?.options?.some(routed => routed.index === option.index)))
+        .forEach(option => {
+          problems.push({
+            id: `unroutedOption:${component.id}:${option.index}`,
+            severity: 'warning',
+            code: 'unroutedOption',
+            message: `Option "${option.text}" on ${name} has no route`,
+            componentId: component.id,
+          });
+        });
+    }
+  });
+
+  return problems;
+};
+
+const checkContent = (nodes: CardNode[], components: Map<string, ComponentData>): FlowProblem[] => {
+  const problems: FlowProblem[] = [];
+
+  nodes.forEach(node => {
+    const component = components.get(node.data.componentId);
+    if (!component) return;
+    const { content } = component;
+    const name = nameOf(component);
+
+    if (component.uiToolType === 'form') {
+      const fields = content.form?.fields ?? [];
+      if (!fields.some(field => field.required)) {
+        problems.push({
+          id: `noRequiredFields:${component.id}`,
+          severity: 'warning',
+          code: 'noRequiredFields',
+          message: fields.length === 0 ? `Form ${name} has no fields` : `Form ${name} has no required fields`,
+          componentId: component.id,
+        });
+      }
+    }
+
+    const images = [...toolTypeRegistry.images(component), content.celebrationModal?.media];
+    images
+      .filter((image): image is string => !!image?.trim())
+      .filter(image => !isImageAvailable(image))
+      .forEach(image => {
+        problems.push({
+          id: `missingImage:${component.id}:${image}`,
+          severity: 'warning',
+          code: 'missingImage',
+          message: `Image ${image} on ${name} isn't in the image library`,
+          componentId: component.id,
+        });
+      });
+  });
+
+  return problems;
+};
+
+const checkVariables = (nodes: CardNode[], components: Map<string, ComponentData>): FlowProblem[] => {
+  const problems: FlowProblem[] = [];
+  const known = templateVariables(components);
+  const placed = new Set(nodes.map(node => node.data.componentId));
+
+  placed.forEach(componentId => {
+    const component = components.get(componentId);
+    if (!component) return;
+
+    templatedTexts(component)
+      .flatMap(templateReferences)
+      .filter(name => !known.has(name))
+      .forEach(name => {
+        problems.push({
+          id: `undefinedVariable:${component.id}:${name}`,
+          severity: 'warning',
+          code: 'undefinedVariable',
+          message: `${nameOf(component)} refers to {{${name}}}, but no answer is stored under that name`,
+          componentId: component.id,
+        });
+      });
+  });
+
+  declaredVariables(components).forEach((storing, name) => {
+    if (storing.length < 2) return;
+    storing.forEach(component => {
+      problems.push({
+        id: `duplicateVariable:${component.id}:${name}`,
+        severity: 'warning',
+        code: 'duplicateVariable',
+        message: `${storing.map(item => item.name).join(', ')} all store answers as ${name}; the latest answer wins`,
+        componentId: component.id,
+      });
+    });
+  });
+
+  return problems;
+};
+
+// Errors first, then warnings, each in the order the checks found them
+export const validateFlow = ({ nodes, edges, components }: FlowGraph): FlowProblem[] => {
+  const problems = [
+    ...checkStructure(nodes, edges, components),
+    ...checkSlugs(nodes, components),
+    ...checkRouting(nodes, edges, components),
+    ...checkContent(nodes, components),
+    ...checkVariables(nodes, components),
+  ];
+  // Ids can repeat when the same image or reference is used twice on one component
+  const unique = [...new Map(problems.map(problem => [problem.id, problem])).values()];
+  return [
+    ...unique.filter(problem => problem.severity === 'error'),
+    ...unique.filter(problem => problem.severity === 'warning'),
+  ];
+};